@@ -0,0 +1,51 @@
+export interface TracedToolCall {
+  tool: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface TraceEntry {
+  agent: string;
+  task: string;
+  attempt: number;
+  datasets: string[];
+  toolCalls: TracedToolCall[];
+  status: 'succeeded' | 'failed';
+  error?: string;
+  startedAt: Date;
+  durationMs: number;
+}
+
+// Oldest runs are dropped past this many
+const MAX_RUNS = 100;
+
+/**
+ * What each sub-agent did during a coordinator run: one entry per attempt,
+ * with the tools it called and whether they succeeded. Runs are kept in
+ * memory for the current process.
+ */
+export class DelegationTraces {
+  private runs = new Map<string, TraceEntry[]>();
+
+  record(runId: string, entry: TraceEntry) {
+    const entries = this.runs.get(runId) ?? [];
+    entries.push(entry);
+    // Re-inserting keeps the most recently active run last
+    this.runs.delete(runId);
+    this.runs.set(runId, entries);
+    while (this.runs.size > MAX_RUNS) {
+      this.runs.delete(this.runs.keys().next().value!);
+    }
+  }
+
+  get(runId: string): TraceEntry[] {
+    return this.runs.get(runId) ?? [];
+  }
+
+  /** Run ids, most recently active last. */
+  list(): string[] {
+    return Array.from(this.runs.keys());
+  }
+}
+
+export const delegationTraces = new DelegationTraces();
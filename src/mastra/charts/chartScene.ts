@@ -0,0 +1,806 @@
+import { addPeriods, Period, toDate, truncateDate } from '../data/dates';
+import { fitText, Point, Scene, Shape, textWidth } from './scene';
+import { describeChart } from './description';
+import { chartTheme, ChartTheme, contrastRatio, mixColors, PALETTES, seriesColors } from './theme';
+import { ChartConfig } from './types';
+
+export const FORECAST_BAND_OPACITY = 0.2;
+export const FORECAST_DASH = [6, 4];
+
+const PADDING = 16;
+const LEGEND_ROW = 20;
+const LEGEND_MAX_WIDTH = 180;
+
+interface Rect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+interface LegendItem {
+  label: string;
+  color: string;
+  /** Entries without a marker are headings. */
+  marker?: 'square' | 'line' | 'circle';
+  dash?: number[];
+}
+
+/** The theme's text or background colour, whichever reads better on `fill`. */
+function textOn(fill: string, theme: ChartTheme): string {
+  return contrastRatio(fill, theme.text) >= contrastRatio(fill, theme.background) ? theme.text : theme.background;
+}
+
+/** Value range of a heatmap, symmetric around zero on a diverging scale. */
+export function heatmapDomain(config: ChartConfig): [number, number] {
+  const values = numbers(config.data.map(d => d.value));
+  const min = values.length > 0 ? Math.min(...values) : 0;
+  const max = values.length > 0 ? Math.max(...values) : 1;
+  if (!isDiverging(config)) return [min, max];
+  const extent = Math.max(Math.abs(min), Math.abs(max)) || 1;
+  return [-extent, extent];
+}
+
+export function isDiverging(config: ChartConfig): boolean {
+  if (config.colorScale) return config.colorScale === 'diverging';
+  const values = numbers(config.data.map(d => d.value));
+  return values.some(value => value < 0) && values.some(value => value > 0);
+}
+
+/**
+ * Colours spread evenly over the heatmap domain: the chosen palette, or by
+ * default blue to red through the background colour when diverging and the
+ * background colour to the chart colour otherwise.
+ */
+export function heatmapStops(config: ChartConfig): string[] {
+  const { options } = config;
+  const theme = chartTheme(config);
+  if (isDiverging(config)) {
+    if (options.divergingPalette) return PALETTES[options.divergingPalette].colors;
+    const [negative, , positive] = PALETTES.blueRed.colors;
+    return [negative, theme.heatmapLow, positive];
+  }
+  return options.sequentialPalette ? PALETTES[options.sequentialPalette].colors : [theme.heatmapLow, options.color];
+}
+
+export function heatmapColor(config: ChartConfig, value: number, domain = heatmapDomain(config)): string {
+  const stops = heatmapStops(config);
+  const t = domain[1] === domain[0] ? 1 : Math.min(1, Math.max(0, (value - domain[0]) / (domain[1] - domain[0])));
+  const position = t * (stops.length - 1);
+  const index = Math.min(stops.length - 2, Math.floor(position));
+  return mixColors(stops[index], stops[index + 1], position - index);
+}
+
+/** Evenly spaced round tick values (steps of 1, 2 or 5 × 10ⁿ) covering [min, max]. */
+export function niceTicks(min: number, max: number, target = 5): { ticks: number[]; step: number } {
+  if (!isFinite(min) || !isFinite(max)) return { ticks: [0, 1], step: 1 };
+  if (min === max) {
+    const pad = Math.abs(min) * 0.1 || 1;
+    min -= pad;
+    max += pad;
+  }
+  const rough = (max - min) / target;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(candidate => candidate >= rough)!;
+
+  const ticks: number[] = [];
+  const start = Math.floor(min / step + 1e-9) * step;
+  for (let value = start; value <= max + step * 0.999; value += step) {
+    ticks.push(Number(value.toPrecision(12)));
+  }
+  return { ticks, step };
+}
+
+/** Formats tick values consistently, switching to k/M/B suffixes for large magnitudes. */
+export function tickFormatter(ticks: number[], step: number): (value: number) => string {
+  const largest = Math.max(...ticks.map(Math.abs));
+  const [divisor, suffix] = largest >= 1e9 ? [1e9, 'B'] : largest >= 1e6 ? [1e6, 'M'] : largest >= 1e4 ? [1e3, 'k'] : [1, ''];
+  const decimals = Math.max(0, Math.ceil(-Math.log10(step / divisor) - 1e-9));
+  return value => (value / divisor).toLocaleString('en-US', { maximumFractionDigits: Math.min(decimals, 6) }) + suffix;
+}
+
+class LinearScale {
+  readonly ticks: number[];
+  readonly format: (value: number) => string;
+  private readonly min: number;
+  private readonly max: number;
+
+  constructor(min: number, max: number, private from: number, private to: number) {
+    const { ticks, step } = niceTicks(min, max);
+    this.ticks = ticks;
+    this.min = ticks[0];
+    this.max = ticks[ticks.length - 1];
+    this.format = tickFormatter(ticks, step);
+  }
+
+  map(value: number): number {
+    return this.from + ((value - this.min) / (this.max - this.min)) * (this.to - this.from);
+  }
+}
+
+/** Maps positive values to pixels by their logarithm, with ticks at powers of ten (and 2 and 5 times them over short ranges). */
+class LogScale {
+  readonly ticks: number[];
+  readonly format: (value: number) => string;
+  private readonly low: number;
+  private readonly high: number;
+
+  constructor(min: number, max: number, private from: number, private to: number) {
+    this.low = Math.floor(Math.log10(min));
+    this.high = Math.max(this.low + 1, Math.ceil(Math.log10(max)));
+    const decades = this.high - this.low;
+    const multiples = decades <= 2 ? [1, 2, 5] : [1];
+    // Wide ranges label every few powers of ten
+    const every = Math.max(1, Math.ceil(decades / 8));
+    this.ticks = [];
+    for (let power = this.low; power <= this.high; power += every) {
+      multiples.forEach(multiple => {
+        const value = Number((multiple * Math.pow(10, power)).toPrecision(12));
+        if (Math.log10(value) <= this.high) this.ticks.push(value);
+      });
+    }
+    this.format = value => {
+      const [divisor, suffix] = value >= 1e9 ? [1e9, 'B'] : value >= 1e6 ? [1e6, 'M'] : value >= 1e4 ? [1e3, 'k'] : [1, ''];
+      return `${Number((value / divisor).toPrecision(6))}${suffix}`;
+    };
+  }
+
+  map(value: number): number {
+    return this.from + ((Math.log10(value) - this.low) / (this.high - this.low)) * (this.to - this.from);
+  }
+}
+
+type NumericScale = LinearScale | LogScale;
+
+/** Whether an axis is drawn on a log scale; other chart types ignore the option. */
+export function isLogAxis(config: ChartConfig, axis: 'x' | 'y'): boolean {
+  const scale = config.options.logScale;
+  if (scale !== axis && scale !== 'both') return false;
+  return axis === 'x' ? config.type === 'scatter' : config.type === 'line' || config.type === 'scatter' || config.type === 'box';
+}
+
+const numericScale = (log: boolean, min: number, max: number, from: number, to: number): NumericScale =>
+  log ? new LogScale(min, max, from, to) : new LinearScale(min, max, from, to);
+
+class BandScale {
+  readonly bandwidth: number;
+
+  constructor(readonly categories: string[], private from: number, to: number) {
+    this.bandwidth = (to - from) / Math.max(1, categories.length);
+  }
+
+  center(index: number): number {
+    return this.from + (index + 0.5) * this.bandwidth;
+  }
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Candidate tick intervals for time axes, finest first, with their rough length in milliseconds
+const HOUR = 60 * 60 * 1000;
+const TIME_STEPS: { period: Period; count: number; approx: number }[] = [
+  ...[1, 3, 6, 12].map(count => ({ period: 'hour' as const, count, approx: count * HOUR })),
+  ...[1, 2].map(count => ({ period: 'day' as const, count, approx: count * 24 * HOUR })),
+  { period: 'week', count: 1, approx: 7 * 24 * HOUR },
+  ...[1, 3, 6].map(count => ({ period: 'month' as const, count, approx: count * 30.44 * 24 * HOUR })),
+  ...[1, 2, 5, 10, 25, 50, 100].map(count => ({ period: 'year' as const, count, approx: count * 365.25 * 24 * HOUR })),
+];
+
+/** Maps dates (as epoch milliseconds) to pixels, with ticks on calendar boundaries. */
+class TimeScale {
+  readonly ticks: number[];
+  readonly format: (value: number) => string;
+  private readonly min: number;
+  private readonly max: number;
+
+  constructor(min: number, max: number, private from: number, private to: number) {
+    if (min === max) {
+      min -= 24 * HOUR;
+      max += 24 * HOUR;
+    }
+    this.min = min;
+    this.max = max;
+
+    const target = Math.max(2, Math.floor(Math.abs(to - from) / 90));
+    const step = TIME_STEPS.find(candidate => (max - min) / candidate.approx <= target) ?? TIME_STEPS[TIME_STEPS.length - 1];
+    this.ticks = [];
+    let tick = this.alignedStart(new Date(min), step);
+    while (tick.getTime() < min) tick = addPeriods(tick, step.period, step.count);
+    for (; tick.getTime() <= max; tick = addPeriods(tick, step.period, step.count)) {
+      this.ticks.push(tick.getTime());
+    }
+    this.format = value => TimeScale.label(new Date(value), step.period);
+  }
+
+  map(value: number): number {
+    return this.from + ((value - this.min) / (this.max - this.min)) * (this.to - this.from);
+  }
+
+  // Multi-unit steps start on a multiple of the unit, e.g. quarters on Jan/Apr/Jul/Oct
+  private alignedStart(date: Date, step: { period: Period; count: number }): Date {
+    const start = truncateDate(date, step.period);
+    if (step.count === 1 || step.period === 'day' || step.period === 'week') return start;
+    if (step.period === 'hour') return addPeriods(start, 'hour', -(start.getUTCHours() % step.count));
+    if (step.period === 'month') return addPeriods(start, 'month', -(start.getUTCMonth() % step.count));
+    return addPeriods(start, 'year', -(start.getUTCFullYear() % step.count));
+  }
+
+  private static label(date: Date, period: Period): string {
+    const month = MONTH_NAMES[date.getUTCMonth()];
+    switch (period) {
+      case 'year':
+        return String(date.getUTCFullYear());
+      case 'month':
+        return `${month} ${date.getUTCFullYear()}`;
+      case 'hour':
+        return `${month} ${date.getUTCDate()} ${String(date.getUTCHours()).padStart(2, '0')}:00`;
+      default:
+        return `${month} ${date.getUTCDate()}`;
+    }
+  }
+}
+
+const timeOf = (value: unknown) => toDate(value)?.getTime() ?? null;
+
+const numbers = (values: any[]) => values.filter((value): value is number => typeof value === 'number' && isFinite(value));
+
+const unique = (values: string[]) => Array.from(new Set(values));
+
+/** Axis ranges and category order shared by every facet of a chart. */
+interface Domains {
+  categories: string[];
+  y: [number, number];
+  x: [number, number];
+}
+
+const isTimeAxis = (config: ChartConfig) => config.type === 'line' && config.xScale === 'time';
+
+/**
+ * Lays out a chart as drawing primitives: title, axes with ticks and labels,
+ * gridlines, the marks for the chart type and a legend. Faceted charts get a
+ * grid of panels sharing their axes.
+ */
+export function buildChartScene(config: ChartConfig): Scene {
+  const { options } = config;
+  const theme = chartTheme(config);
+  const width = Math.max(200, Math.round(options.width));
+  const height = Math.max(150, Math.round(options.height));
+  const shapes: Shape[] = [];
+
+  let top = PADDING;
+  if (options.title) {
+    shapes.push({
+      kind: 'text', x: width / 2, y: PADDING, text: fitText(options.title, theme.titleSize, width - 2 * PADDING),
+      size: theme.titleSize, fill: theme.text, anchor: 'middle', align: 'top', bold: true,
+    });
+    top += theme.titleSize + 16;
+  }
+
+  const legendItems = options.showLegend ? legendFor(config) : [];
+  const legendWidth = legendItems.length > 0
+    ? Math.min(LEGEND_MAX_WIDTH, Math.max(...legendItems.map(item => textWidth(item.label, theme.labelSize))) + 24)
+    : 0;
+  const area: Rect = {
+    left: PADDING,
+    top,
+    right: width - PADDING - (legendWidth > 0 ? legendWidth + PADDING : 0),
+    bottom: height - PADDING,
+  };
+
+  if (config.data.length === 0) {
+    shapes.push({
+      kind: 'text', x: (area.left + area.right) / 2, y: (area.top + area.bottom) / 2, text: 'No data',
+      size: theme.labelSize, fill: theme.mutedText, anchor: 'middle', align: 'middle',
+    });
+  } else if (config.facets && config.facets.length > 0) {
+    drawFacets(config, area, shapes);
+  } else {
+    drawPanel(config, config.data, area, shapes, domainsFor(config));
+  }
+
+  if (legendItems.length > 0) {
+    drawLegend(legendItems, { left: area.right + PADDING, top, right: width - PADDING, bottom: height - PADDING }, shapes, theme);
+  }
+
+  const { altText } = describeChart(config);
+  return { width, height, background: theme.background, shapes, fontFamily: theme.fontFamily, title: options.title, description: altText };
+}
+
+function colorOf(config: ChartConfig, series: string | undefined): string {
+  const colors = seriesColors(config, Math.max(1, config.series.length));
+  return colors[Math.max(0, config.series.indexOf(series as string))];
+}
+
+function pieLabels(config: ChartConfig): string[] {
+  return unique(config.data.map(slice => String(slice.label)));
+}
+
+function legendFor(config: ChartConfig): LegendItem[] {
+  const { options } = config;
+  if (config.type === 'heatmap') {
+    // Swatches at round values across the range, highest first
+    const domain = heatmapDomain(config);
+    const { ticks, step } = niceTicks(domain[0], domain[1], 4);
+    const inside = ticks.filter(tick => tick >= domain[0] && tick <= domain[1]);
+    const stops = inside.length >= 2 ? inside : domain;
+    const format = tickFormatter(stops, inside.length >= 2 ? step : Math.abs(domain[1] - domain[0]) || 1);
+    return [
+      { label: config.valueLabel ?? options.yAxis.label, color: chartTheme(config).text },
+      ...[...stops].reverse().map(value => ({ label: format(value), color: heatmapColor(config, value, domain), marker: 'square' as const })),
+    ];
+  }
+  if (config.type === 'pie') {
+    const labels = pieLabels(config);
+    const colors = seriesColors(config, labels.length);
+    const values = labels.map(label => config.data
+      .filter(slice => String(slice.label) === label)
+      .reduce((sum, slice) => sum + Math.max(0, slice.value), 0));
+    const total = values.reduce((sum, value) => sum + value, 0);
+    // Shares differ between facets, so they are only listed for a single pie
+    const showShares = options.showPercentages !== false && total > 0 && !config.facets;
+    return labels.map((label, i) => ({
+      label: showShares ? `${label} (${((values[i] / total) * 100).toFixed(1)}%)` : label,
+      color: colors[i],
+      marker: 'square' as const,
+    }));
+  }
+  const marker = config.type === 'line' ? 'line' : config.type === 'scatter' ? 'circle' : 'square';
+  const items: LegendItem[] = config.series.length === 0
+    ? [{ label: config.type === 'histogram' ? `Count of ${options.xAxis.label}` : options.yAxis.label, color: options.color, marker }]
+    : config.series.map(name => ({ label: name, color: colorOf(config, name), marker }));
+  if (hasForecast(config)) {
+    items.push({ label: config.forecastLabel ?? 'Forecast', color: forecastColor(config), marker: 'line', dash: FORECAST_DASH });
+  }
+  if (hasHighlights(config)) {
+    items.push({ label: config.highlightLabel ?? 'Highlighted', color: chartTheme(config).highlight, marker: 'circle' });
+  }
+  return items;
+}
+
+export function hasForecast(config: ChartConfig): boolean {
+  return config.type === 'line' && (config.forecast?.length ?? 0) > 0;
+}
+
+/** A lone series' forecast continues in its colour; beside several series it takes the next one. */
+export function forecastColor(config: ChartConfig): string {
+  const count = config.series.length;
+  return count <= 1 ? config.options.color : seriesColors(config, count + 1)[count];
+}
+
+export function hasHighlights(config: ChartConfig): boolean {
+  return config.data.some(d => d.highlight === true || (Array.isArray(d.highlights) && d.highlights.length > 0));
+}
+
+// Highlighted points get an outline in the text colour so they stand apart from a series of the same colour
+function highlightMarker(cx: number, cy: number, r: number, theme: ChartTheme): Shape {
+  return { kind: 'circle', cx, cy, r, fill: theme.highlight, stroke: theme.text, strokeWidth: 1.5 };
+}
+
+function drawLegend(items: LegendItem[], area: Rect, shapes: Shape[], theme: ChartTheme) {
+  const capacity = Math.max(1, Math.floor((area.bottom - area.top) / LEGEND_ROW));
+  const visible = items.length > capacity ? items.slice(0, capacity - 1) : items;
+
+  visible.forEach((item, i) => {
+    const y = area.top + i * LEGEND_ROW + LEGEND_ROW / 2;
+    if (!item.marker) {
+      shapes.push({
+        kind: 'text', x: area.left, y, text: fitText(item.label, theme.labelSize, area.right - area.left),
+        size: theme.labelSize, fill: theme.text, anchor: 'start', align: 'middle', bold: true,
+      });
+      return;
+    }
+    if (item.marker === 'line') {
+      shapes.push({ kind: 'line', points: [[area.left, y], [area.left + 14, y]], stroke: item.color, strokeWidth: 2, dash: item.dash });
+    } else if (item.marker === 'circle') {
+      shapes.push({ kind: 'circle', cx: area.left + 7, cy: y, r: 5, fill: item.color });
+    } else {
+      shapes.push({ kind: 'rect', x: area.left, y: y - 6, width: 12, height: 12, fill: item.color });
+    }
+    shapes.push({
+      kind: 'text', x: area.left + 20, y, text: fitText(item.label, theme.labelSize, area.right - area.left - 20),
+      size: theme.labelSize, fill: theme.text, anchor: 'start', align: 'middle',
+    });
+  });
+
+  if (visible.length < items.length) {
+    shapes.push({
+      kind: 'text', x: area.left + 20, y: area.top + visible.length * LEGEND_ROW + LEGEND_ROW / 2,
+      text: `+${items.length - visible.length} more`, size: theme.labelSize, fill: theme.mutedText, anchor: 'start', align: 'middle',
+    });
+  }
+}
+
+function domainsFor(config: ChartConfig): Domains {
+  const { type, data, options } = config;
+
+  let yValues: number[];
+  if (type === 'box') {
+    yValues = numbers(data.flatMap(d => [d.min, d.max, ...(d.highlights ?? [])]));
+  } else if ((type === 'bar' || type === 'histogram') && options.barMode === 'stacked') {
+    // Stacks grow up from zero for positive values and down for negative ones
+    const stacks = new Map<string, { positive: number; negative: number }>();
+    data.forEach(d => {
+      if (typeof d.y !== 'number') return;
+      const key = JSON.stringify([d.facet, type === 'histogram' ? d.x0 : d.x]);
+      const stack = stacks.get(key) ?? { positive: 0, negative: 0 };
+      if (d.y >= 0) stack.positive += d.y;
+      else stack.negative += d.y;
+      stacks.set(key, stack);
+    });
+    yValues = Array.from(stacks.values()).flatMap(stack => [stack.positive, stack.negative]);
+  } else {
+    yValues = numbers(data.map(d => d.y));
+  }
+  const forecast = hasForecast(config) ? config.forecast! : [];
+  yValues.push(...numbers(forecast.flatMap(point => [point.y, point.lower, point.upper])));
+  // Log axes cannot show zero or negative values, which are left out
+  if (isLogAxis(config, 'y')) yValues = yValues.filter(value => value > 0);
+
+  let yMin = Math.min(...yValues);
+  let yMax = Math.max(...yValues);
+  if (type === 'bar' || type === 'histogram') {
+    yMin = Math.min(0, yMin);
+    yMax = Math.max(0, yMax);
+  }
+
+  const xValues = isTimeAxis(config)
+    ? numbers([...data, ...forecast].map(d => timeOf(d.x)))
+    : type === 'histogram' ? numbers(data.flatMap(d => [d.x0 ?? d.x, d.x1 ?? d.x])) : numbers(data.map(d => d.x));
+  const xPlotted = isLogAxis(config, 'x') ? xValues.filter(value => value > 0) : xValues;
+  return {
+    categories: unique([...data, ...forecast].map(d => String(d.x))),
+    y: [yMin, yMax],
+    x: [Math.min(...xPlotted), Math.max(...xPlotted)],
+  };
+}
+
+function drawFacets(config: ChartConfig, area: Rect, shapes: Shape[]) {
+  const facets = config.facets!;
+  const columns = Math.ceil(Math.sqrt(facets.length));
+  const rows = Math.ceil(facets.length / columns);
+  const gap = PADDING;
+  const cellWidth = (area.right - area.left - gap * (columns - 1)) / columns;
+  const cellHeight = (area.bottom - area.top - gap * (rows - 1)) / rows;
+  const domains = domainsFor(config);
+  const theme = chartTheme(config);
+
+  facets.forEach((facet, i) => {
+    const left = area.left + (i % columns) * (cellWidth + gap);
+    const top = area.top + Math.floor(i / columns) * (cellHeight + gap);
+    const heading = config.facetLabel ? `${config.facetLabel}: ${facet}` : facet;
+    shapes.push({
+      kind: 'text', x: left + cellWidth / 2, y: top, text: fitText(heading, theme.labelSize, cellWidth),
+      size: theme.labelSize, fill: theme.text, anchor: 'middle', align: 'top', bold: true,
+    });
+    const panel: Rect = { left, top: top + theme.labelSize + 8, right: left + cellWidth, bottom: top + cellHeight };
+    drawPanel(config, config.data.filter(d => d.facet === facet), panel, shapes, domains);
+  });
+}
+
+function drawPanel(config: ChartConfig, data: any[], area: Rect, shapes: Shape[], domains: Domains) {
+  if (config.type === 'pie') {
+    drawPie(config, data, area, shapes);
+  } else if (config.type === 'heatmap') {
+    drawHeatmap(config, data, area, shapes);
+  } else {
+    drawCartesian(config, data, area, shapes, domains);
+  }
+}
+
+/** The prediction band, then the dashed forecast line, joined to the end of the history when there is one series. */
+function drawForecast(config: ChartConfig, data: any[], xPosition: (d: { x: unknown }) => number, y: NumericScale, shapes: Shape[]) {
+  const { options } = config;
+  const color = forecastColor(config);
+  const points = config.forecast!
+    .map(point => ({ point, px: xPosition(point) }))
+    .filter(({ px }) => isFinite(px))
+    .sort((a, b) => a.px - b.px);
+
+  const banded = points.filter(({ point }) => typeof point.lower === 'number' && typeof point.upper === 'number');
+  if (banded.length > 1) {
+    const upper = banded.map(({ point, px }) => [px, y.map(point.upper!)] as Point);
+    const lower = banded.map(({ point, px }) => [px, y.map(point.lower!)] as Point).reverse();
+    shapes.push({ kind: 'polygon', points: [...upper, ...lower], fill: color, opacity: FORECAST_BAND_OPACITY });
+  } else if (banded.length === 1) {
+    const { point, px } = banded[0];
+    shapes.push({ kind: 'line', points: [[px, y.map(point.lower!)], [px, y.map(point.upper!)]], stroke: color, strokeWidth: 6, opacity: FORECAST_BAND_OPACITY });
+  }
+
+  const line = points.map(({ point, px }) => [px, y.map(point.y)] as Point);
+  if (config.series.length <= 1) {
+    const last = data
+      .filter(d => typeof d.y === 'number')
+      .map(d => [xPosition(d), y.map(d.y)] as Point)
+      .filter(([px]) => isFinite(px))
+      .sort((a, b) => b[0] - a[0])[0];
+    if (last && line.length > 0 && last[0] < line[0][0]) line.unshift(last);
+  }
+  shapes.push({ kind: 'line', points: line, stroke: color, strokeWidth: options.lineWidth ?? 2, dash: FORECAST_DASH });
+  if (options.showPoints !== false) {
+    points.forEach(({ point, px }) => shapes.push({ kind: 'circle', cx: px, cy: y.map(point.y), r: 3, fill: color }));
+  }
+}
+
+function drawPie(config: ChartConfig, data: any[], area: Rect, shapes: Shape[]) {
+  const labels = pieLabels(config);
+  const theme = chartTheme(config);
+  const colors = seriesColors(config, labels.length);
+  const slices = data.map(slice => ({ label: String(slice.label), value: Math.max(0, Number(slice.value) || 0) }));
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+  const cx = (area.left + area.right) / 2;
+  const cy = (area.top + area.bottom) / 2;
+  const r = Math.max(10, Math.min(area.right - area.left, area.bottom - area.top) / 2 - 8);
+
+  if (total === 0) {
+    shapes.push({ kind: 'circle', cx, cy, r, stroke: theme.grid, strokeWidth: 1 });
+    return;
+  }
+
+  let angle = 0;
+  slices.forEach(slice => {
+    const sweep = (slice.value / total) * 2 * Math.PI;
+    if (sweep === 0) return;
+    const fill = colors[labels.indexOf(slice.label)];
+    shapes.push({ kind: 'wedge', cx, cy, r, startAngle: angle, endAngle: angle + sweep, fill, stroke: theme.background, strokeWidth: 1 });
+
+    const share = slice.value / total;
+    if (config.options.showPercentages !== false && share >= 0.05) {
+      const mid = angle + sweep / 2;
+      shapes.push({
+        kind: 'text', x: cx + r * 0.65 * Math.sin(mid), y: cy - r * 0.65 * Math.cos(mid), text: `${(share * 100).toFixed(0)}%`,
+        size: theme.tickSize, fill: textOn(fill, theme), anchor: 'middle', align: 'middle', bold: true,
+      });
+    }
+    angle += sweep;
+  });
+}
+
+/** A grid of cells coloured by value, with row and column categories on the axes. */
+function drawHeatmap(config: ChartConfig, data: any[], area: Rect, shapes: Shape[]) {
+  const { options } = config;
+  const theme = chartTheme(config);
+  const { tickSize, labelSize } = theme;
+  // Every facet shares the categories and colours of the whole chart
+  const columns = unique(config.data.map(d => String(d.x)));
+  const rows = unique(config.data.map(d => String(d.y)));
+  const domain = heatmapDomain(config);
+  const { ticks, step } = niceTicks(domain[0], domain[1]);
+  const format = tickFormatter(ticks, step);
+
+  const rowLabels = rows.map(row => fitText(row, tickSize, (area.right - area.left) / 4));
+  const rowLabelWidth = Math.max(...rowLabels.map(label => textWidth(label, tickSize)));
+  const plot: Rect = {
+    left: area.left + labelSize + 8 + rowLabelWidth + 8,
+    top: area.top,
+    right: area.right,
+    bottom: area.bottom - labelSize - 8 - tickSize - 8,
+  };
+  const x = new BandScale(columns, plot.left, plot.right);
+  const y = new BandScale(rows, plot.top, plot.bottom);
+  const columnIndex = new Map(columns.map((column, i) => [column, i]));
+  const rowIndex = new Map(rows.map((row, i) => [row, i]));
+
+  data.forEach(d => {
+    const cx = x.center(columnIndex.get(String(d.x))!);
+    const cy = y.center(rowIndex.get(String(d.y))!);
+    const hasValue = typeof d.value === 'number' && isFinite(d.value);
+    const fill = hasValue ? heatmapColor(config, d.value, domain) : theme.missingCell;
+    shapes.push({
+      kind: 'rect', x: cx - x.bandwidth / 2, y: cy - y.bandwidth / 2, width: x.bandwidth, height: y.bandwidth,
+      fill, stroke: theme.background, strokeWidth: 1,
+    });
+    if (!hasValue || options.showValues === false) return;
+    const text = format(d.value);
+    if (textWidth(text, tickSize) <= x.bandwidth - 4 && y.bandwidth >= tickSize + 4) {
+      shapes.push({ kind: 'text', x: cx, y: cy, text, size: tickSize, fill: textOn(fill, theme), anchor: 'middle', align: 'middle' });
+    }
+  });
+
+  // Row labels, thinned when the rows are too short for every one
+  const everyRow = Math.max(1, Math.ceil((tickSize + 4) / y.bandwidth));
+  rowLabels.forEach((label, i) => {
+    if (i % everyRow !== 0) return;
+    shapes.push({ kind: 'text', x: plot.left - 8, y: y.center(i), text: label, size: tickSize, fill: theme.mutedText, anchor: 'end', align: 'middle' });
+  });
+  const columnLabels = columns.map(column => fitText(column, tickSize, Math.max(x.bandwidth - 4, 60)));
+  const widest = Math.max(...columnLabels.map(label => textWidth(label, tickSize)));
+  const everyColumn = Math.max(1, Math.ceil((widest + 6) / x.bandwidth));
+  columnLabels.forEach((label, i) => {
+    if (i % everyColumn !== 0) return;
+    shapes.push({ kind: 'text', x: x.center(i), y: plot.bottom + 8, text: label, size: tickSize, fill: theme.mutedText, anchor: 'middle', align: 'top' });
+  });
+
+  shapes.push({
+    kind: 'text', x: (plot.left + plot.right) / 2, y: area.bottom, text: fitText(options.xAxis.label, labelSize, plot.right - plot.left),
+    size: labelSize, fill: theme.text, anchor: 'middle', align: 'bottom',
+  });
+  shapes.push({
+    kind: 'text', x: area.left, y: (plot.top + plot.bottom) / 2, text: fitText(options.yAxis.label, labelSize, plot.bottom - plot.top),
+    size: labelSize, fill: theme.text, anchor: 'middle', align: 'top', rotate: -90,
+  });
+}
+
+function drawCartesian(config: ChartConfig, data: any[], area: Rect, shapes: Shape[], domains: Domains) {
+  const { type, options } = config;
+  const theme = chartTheme(config);
+  const { tickSize, labelSize } = theme;
+
+  // The left margin depends on the widest y tick label
+  const logY = isLogAxis(config, 'y');
+  const probe = numericScale(logY, domains.y[0], domains.y[1], 0, 1);
+  const yLabelWidth = Math.max(...probe.ticks.map(tick => textWidth(probe.format(tick), tickSize)));
+  const plot: Rect = {
+    left: area.left + labelSize + 8 + yLabelWidth + 8,
+    top: area.top,
+    right: area.right,
+    bottom: area.bottom - labelSize - 8 - tickSize - 8,
+  };
+  const y = numericScale(logY, domains.y[0], domains.y[1], plot.bottom, plot.top);
+
+  // Gridlines and y axis
+  y.ticks.forEach(tick => {
+    const py = y.map(tick);
+    shapes.push({ kind: 'line', points: [[plot.left, py], [plot.right, py]], stroke: theme.grid, strokeWidth: 1, dash: theme.gridDash });
+    shapes.push({ kind: 'line', points: [[plot.left - 4, py], [plot.left, py]], stroke: theme.axis, strokeWidth: 1 });
+    shapes.push({
+      kind: 'text', x: plot.left - 8, y: py, text: y.format(tick),
+      size: tickSize, fill: theme.mutedText, anchor: 'end', align: 'middle',
+    });
+  });
+
+  // X axis: numeric for scatter plots and histograms, time for dated line charts, categorical otherwise
+  const tickY = plot.bottom + 8;
+  let band: BandScale | undefined;
+  let x: NumericScale | TimeScale | undefined;
+  if (type === 'scatter' || type === 'histogram' || isTimeAxis(config)) {
+    x = isTimeAxis(config)
+      ? new TimeScale(domains.x[0], domains.x[1], plot.left, plot.right)
+      : numericScale(isLogAxis(config, 'x'), domains.x[0], domains.x[1], plot.left, plot.right);
+    const xScale = x;
+    x.ticks.forEach(tick => {
+      const px = xScale.map(tick);
+      if (type !== 'histogram') {
+        shapes.push({ kind: 'line', points: [[px, plot.top], [px, plot.bottom]], stroke: theme.grid, strokeWidth: 1, dash: theme.gridDash });
+      }
+      shapes.push({ kind: 'line', points: [[px, plot.bottom], [px, plot.bottom + 4]], stroke: theme.axis, strokeWidth: 1 });
+      shapes.push({ kind: 'text', x: px, y: tickY, text: xScale.format(tick), size: tickSize, fill: theme.mutedText, anchor: 'middle', align: 'top' });
+    });
+  } else {
+    band = new BandScale(domains.categories, plot.left, plot.right);
+    const labelWidth = Math.max(40, band.bandwidth - 4);
+    const labels = band.categories.map(category => fitText(category, tickSize, Math.max(labelWidth, 60)));
+    const widest = Math.max(...labels.map(label => textWidth(label, tickSize)));
+    // Thin out labels that would overlap
+    const every = Math.max(1, Math.ceil((widest + 6) / band.bandwidth));
+    labels.forEach((label, i) => {
+      if (i % every !== 0) return;
+      const px = band!.center(i);
+      shapes.push({ kind: 'line', points: [[px, plot.bottom], [px, plot.bottom + 4]], stroke: theme.axis, strokeWidth: 1 });
+      shapes.push({ kind: 'text', x: px, y: tickY, text: label, size: tickSize, fill: theme.mutedText, anchor: 'middle', align: 'top' });
+    });
+  }
+
+  // Axis lines and titles
+  shapes.push({ kind: 'line', points: [[plot.left, plot.top], [plot.left, plot.bottom], [plot.right, plot.bottom]], stroke: theme.axis, strokeWidth: 1 });
+  shapes.push({
+    kind: 'text', x: (plot.left + plot.right) / 2, y: area.bottom, text: fitText(options.xAxis.label, labelSize, plot.right - plot.left),
+    size: labelSize, fill: theme.text, anchor: 'middle', align: 'bottom',
+  });
+  shapes.push({
+    kind: 'text', x: area.left, y: (plot.top + plot.bottom) / 2,
+    text: fitText(type === 'histogram' ? 'Count' : options.yAxis.label, labelSize, plot.bottom - plot.top),
+    size: labelSize, fill: theme.text, anchor: 'middle', align: 'top', rotate: -90,
+  });
+
+  const seriesCount = Math.max(1, config.series.length);
+  const seriesIndex = (d: any) => Math.max(0, config.series.indexOf(d.series));
+  const categoryIndex = new Map(domains.categories.map((category, i) => [category, i]));
+  const stacked = options.barMode === 'stacked';
+  const zero = y.map(0);
+
+  switch (type) {
+    case 'bar': {
+      const groupWidth = band!.bandwidth * (options.barWidth ?? 0.8);
+      const barWidth = stacked ? groupWidth : groupWidth / seriesCount;
+      const stacks = new Map<number, { positive: number; negative: number }>();
+      data.forEach(d => {
+        if (typeof d.y !== 'number') return;
+        const i = categoryIndex.get(String(d.x))!;
+        const left = band!.center(i) - groupWidth / 2 + (stacked ? 0 : seriesIndex(d) * barWidth);
+        let from = 0;
+        if (stacked) {
+          const stack = stacks.get(i) ?? { positive: 0, negative: 0 };
+          from = d.y >= 0 ? stack.positive : stack.negative;
+          if (d.y >= 0) stack.positive += d.y;
+          else stack.negative += d.y;
+          stacks.set(i, stack);
+        }
+        const y0 = y.map(from);
+        const y1 = y.map(from + d.y);
+        shapes.push({ kind: 'rect', x: left, y: Math.min(y0, y1), width: barWidth, height: Math.abs(y1 - y0), fill: colorOf(config, d.series) });
+      });
+      break;
+    }
+    case 'line': {
+      const seriesNames = config.series.length > 0 ? config.series : [undefined];
+      const xPosition = (d: { x: unknown }) => (band ? band.center(categoryIndex.get(String(d.x))!) : x!.map(timeOf(d.x) ?? NaN));
+      seriesNames.forEach(name => {
+        const color = colorOf(config, name);
+        const points = data
+          .filter(d => d.series === name && typeof d.y === 'number')
+          .map(d => [xPosition(d), y.map(d.y)] as [number, number])
+          .filter(([px, py]) => isFinite(px) && isFinite(py))
+          .sort((a, b) => a[0] - b[0]);
+        shapes.push({ kind: 'line', points, stroke: color, strokeWidth: options.lineWidth ?? 2 });
+        if (options.showPoints !== false) {
+          points.forEach(([px, py]) => shapes.push({ kind: 'circle', cx: px, cy: py, r: 3, fill: color }));
+        }
+      });
+      if (hasForecast(config)) {
+        drawForecast(config, data, xPosition, y, shapes);
+      }
+      // Highlights go on top of every series' line
+      data.forEach(d => {
+        if (d.highlight !== true || typeof d.y !== 'number') return;
+        const px = xPosition(d);
+        if (isFinite(px)) shapes.push(highlightMarker(px, y.map(d.y), 5, theme));
+      });
+      break;
+    }
+    case 'scatter': {
+      const r = (options.pointSize ?? 6) / 2;
+      // Values a log axis cannot place are left out
+      const plotted = data.filter(d => typeof d.x === 'number' && typeof d.y === 'number' && isFinite(x!.map(d.x)) && isFinite(y.map(d.y)));
+      plotted.forEach(d => {
+        if (d.highlight === true) return;
+        shapes.push({ kind: 'circle', cx: x!.map(d.x), cy: y.map(d.y), r, fill: colorOf(config, d.series), opacity: 0.7 });
+      });
+      plotted.forEach(d => {
+        if (d.highlight === true) shapes.push(highlightMarker(x!.map(d.x), y.map(d.y), r + 1.5, theme));
+      });
+      break;
+    }
+    case 'histogram': {
+      const stacks = new Map<number, number>();
+      data.forEach(d => {
+        const x0 = x!.map(d.x0 ?? d.x);
+        const x1 = x!.map(d.x1 ?? d.x);
+        const binWidth = Math.max(1, x1 - x0);
+        const from = stacked ? stacks.get(d.x0) ?? 0 : 0;
+        if (stacked) stacks.set(d.x0, from + d.y);
+        const width = stacked ? binWidth : binWidth / seriesCount;
+        const left = stacked ? x0 : x0 + seriesIndex(d) * width;
+        const top = y.map(from + d.y);
+        shapes.push({
+          kind: 'rect', x: left, y: top, width, height: y.map(from) - top,
+          fill: colorOf(config, d.series), stroke: theme.background, strokeWidth: 1,
+        });
+      });
+      break;
+    }
+    case 'box': {
+      const slot = (band!.bandwidth * 0.8) / seriesCount;
+      const boxWidth = Math.min(slot * 0.7, 80);
+      data.forEach(d => {
+        const i = categoryIndex.get(String(d.x))!;
+        const cx = band!.center(i) - (band!.bandwidth * 0.8) / 2 + (seriesIndex(d) + 0.5) * slot;
+        const color = colorOf(config, d.series);
+        const [min, q1, median, q3, max] = [d.min, d.q1, d.median, d.q3, d.max].map(value => y.map(value));
+        shapes.push({ kind: 'line', points: [[cx, max], [cx, q3]], stroke: color, strokeWidth: 1.5 });
+        shapes.push({ kind: 'line', points: [[cx, q1], [cx, min]], stroke: color, strokeWidth: 1.5 });
+        shapes.push({ kind: 'line', points: [[cx - boxWidth / 4, max], [cx + boxWidth / 4, max]], stroke: color, strokeWidth: 1.5 });
+        shapes.push({ kind: 'line', points: [[cx - boxWidth / 4, min], [cx + boxWidth / 4, min]], stroke: color, strokeWidth: 1.5 });
+        shapes.push({ kind: 'rect', x: cx - boxWidth / 2, y: q3, width: boxWidth, height: Math.max(1, q1 - q3), fill: color, opacity: 0.25 });
+        shapes.push({ kind: 'rect', x: cx - boxWidth / 2, y: q3, width: boxWidth, height: Math.max(1, q1 - q3), stroke: color, strokeWidth: 1.5 });
+        shapes.push({ kind: 'line', points: [[cx - boxWidth / 2, median], [cx + boxWidth / 2, median]], stroke: color, strokeWidth: 2.5 });
+        (d.highlights ?? []).forEach((value: number) => shapes.push(highlightMarker(cx, y.map(value), 4, theme)));
+      });
+      break;
+    }
+  }
+
+  // Keep the zero line visible above bars that straddle it
+  if ((type === 'bar' || type === 'histogram') && domains.y[0] < 0) {
+    shapes.push({ kind: 'line', points: [[plot.left, zero], [plot.right, zero]], stroke: theme.axis, strokeWidth: 1 });
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { describeChart } from './description';
+import { ChartConfig, ChartType } from './types';
+
+const chart = (type: ChartType, data: any[], extra: Partial<ChartConfig> = {}): ChartConfig => ({
+  type,
+  data,
+  series: ['revenue'],
+  options: { title: 't', xAxis: { label: 'region' }, yAxis: { label: 'revenue' }, color: '#3B82F6', width: 400, height: 300, showLegend: true },
+  ...extra,
+});
+
+describe('describeChart', () => {
+  it('states the extremes of a comparison and tables one column per series', () => {
+    const { altText, table } = describeChart(chart('bar', [
+      { x: 'North', series: 'online', y: 120 },
+      { x: 'North', series: 'store', y: 30 },
+      { x: 'South', series: 'online', y: 40 },
+      { x: 'South', series: 'store', y: 35 },
+    ], { series: ['online', 'store'] }));
+    expect(altText).toBe(
+      'Bar chart of revenue by region, with 2 series (online and store). ' +
+        'North has the highest total revenue (150), 2 times South, the lowest (75). Across categories, online is the largest series.',
+    );
+    expect(table).toEqual({ columns: ['region', 'online', 'store'], rows: [['North', 120, 30], ['South', 40, 35]], truncated: false });
+  });
+
+  it('describes the change and peak along a trend, and the forecast', () => {
+    const { altText, table } = describeChart(chart('line', [
+      { x: '2024-01', series: 'revenue', y: 100 },
+      { x: '2024-02', series: 'revenue', y: 180 },
+      { x: '2024-03', series: 'revenue', y: 150 },
+    ], { forecast: [{ x: '2024-04', y: 160, lower: 140, upper: 180 }], forecastLabel: 'Forecast' }));
+    expect(altText).toBe(
+      'Line chart of revenue by region. revenue rose 50% from 100 in 2024-01 to 150 in 2024-03, peaking at 180 in 2024-02. ' +
+        'The forecast reaches 160 by 2024-04.',
+    );
+    expect(table.columns).toEqual(['region', 'revenue', 'Forecast']);
+    expect(table.rows[3]).toEqual(['2024-04', null, 160]);
+  });
+
+  it('states the strength of a relationship, the largest share and the spread of medians', () => {
+    const scatter = describeChart(chart('scatter', [1, 2, 3, 4].map(x => ({ x, y: 10 - 2 * x, series: 'revenue' }))));
+    expect(scatter.altText).toBe('Scatter plot of revenue against region. revenue strongly tends to fall as region rises (r = -1.00, 4 points).');
+
+    const pie = describeChart(chart('pie', [{ label: 'North', value: 3 }, { label: 'South', value: 1 }]));
+    expect(pie.altText).toBe('Pie chart of revenue by region. North is the largest share (75%) and South the smallest (25%) of 2 slices.');
+    expect(pie.table.rows).toEqual([['North', 3, 75], ['South', 1, 25]]);
+
+    const box = describeChart(chart('box', [
+      { x: 'North', series: 'revenue', min: 1, q1: 2, median: 3, q3: 4, max: 5 },
+      { x: 'South', series: 'revenue', min: 1, q1: 5, median: 8, q3: 9, max: 12 },
+    ]));
+    expect(box.altText).toBe('Box plot of revenue by region. The median is highest for South (8) and lowest for North (3).');
+  });
+
+  it('names the most common bin of a histogram', () => {
+    const { altText } = describeChart(chart('histogram', [
+      { x: '0–10', x0: 0, x1: 10, y: 2, series: 'revenue' },
+      { x: '10–20', x0: 10, x1: 20, y: 5, series: 'revenue' },
+    ], { options: { ...chart('bar', []).options, xAxis: { label: 'revenue' } } }));
+    expect(altText).toBe('Histogram of the distribution of revenue. The most common values lie between 10 and 20 (5 of 7); values range from 0 to 20.');
+  });
+
+  it('caps the data table and says when a chart is empty', () => {
+    const many = describeChart(chart('bar', Array.from({ length: 60 }, (_, i) => ({ x: `c${i}`, series: 'revenue', y: i }))));
+    expect(many.table.rows).toHaveLength(50);
+    expect(many.table.truncated).toBe(true);
+    expect(describeChart(chart('bar', [])).altText).toBe('Bar chart of revenue by region. It has no data.');
+  });
+});
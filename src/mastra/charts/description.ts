@@ -0,0 +1,244 @@
+import { correlate, formatNumber } from '../stats';
+import { ChartConfig, ChartType } from './types';
+
+// Rows of the data table fallback
+const MAX_TABLE_ROWS = 50;
+// Series described one by one before the rest are summed up
+const MAX_DESCRIBED_SERIES = 3;
+
+export interface ChartDescription {
+  /** One or two sentences naming the chart and its key trend or comparison. */
+  altText: string;
+  /** The chart's numbers as a table, for readers who cannot see it. */
+  table: { columns: string[]; rows: (string | number | null)[][]; truncated: boolean };
+}
+
+const CHART_NAMES: Record<ChartType, string> = {
+  bar: 'Bar chart',
+  line: 'Line chart',
+  scatter: 'Scatter plot',
+  pie: 'Pie chart',
+  histogram: 'Histogram',
+  box: 'Box plot',
+  heatmap: 'Heatmap',
+};
+
+const format = (value: number) => (Math.abs(value) >= 1000 ? Math.round(value).toLocaleString('en-US') : formatNumber(value));
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+const unique = (values: string[]) => Array.from(new Set(values));
+
+function listNames(names: string[]): string {
+  if (names.length <= 1) return names.join('');
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+/** Sums `value(d)` per key, keeping the keys in first-seen order. */
+function totals(data: any[], key: (d: any) => string, value: (d: any) => unknown): [string, number][] {
+  const sums = new Map<string, number>();
+  data.forEach(d => {
+    const v = value(d);
+    if (isNumber(v)) sums.set(key(d), (sums.get(key(d)) ?? 0) + v);
+  });
+  return Array.from(sums.entries());
+}
+
+function extremes(entries: [string, number][]): { high: [string, number]; low: [string, number] } | undefined {
+  if (entries.length === 0) return undefined;
+  const sorted = [...entries].sort((a, b) => b[1] - a[1]);
+  return { high: sorted[0], low: sorted[sorted.length - 1] };
+}
+
+function subject(config: ChartConfig): string {
+  const { options } = config;
+  switch (config.type) {
+    case 'scatter':
+      return `${options.yAxis.label} against ${options.xAxis.label}`;
+    case 'histogram':
+      return `the distribution of ${options.xAxis.label}`;
+    case 'heatmap':
+      return `${config.valueLabel ?? 'count'} by ${options.xAxis.label} and ${options.yAxis.label}`;
+    default:
+      return `${options.yAxis.label} by ${options.xAxis.label}`;
+  }
+}
+
+function comparisonSentence(config: ChartConfig): string {
+  const byCategory = extremes(totals(config.data, d => String(d.x), d => d.y));
+  if (!byCategory) return '';
+  const { high, low } = byCategory;
+  const measure = config.series.length > 1 ? `the highest total ${config.options.yAxis.label}` : `the highest ${config.options.yAxis.label}`;
+  const ratio = low[1] > 0 && high[0] !== low[0] ? `, ${formatNumber(high[1] / low[1])} times ${low[0]}, the lowest (${format(low[1])})` : '';
+  let sentence = `${high[0]} has ${measure} (${format(high[1])})${ratio}.`;
+  if (config.series.length > 1) {
+    const leader = extremes(totals(config.data, d => String(d.series), d => d.y));
+    if (leader) sentence += ` Across categories, ${leader.high[0]} is the largest series.`;
+  }
+  return sentence;
+}
+
+function trendSentence(config: ChartConfig): string {
+  // Each series of each panel is its own line
+  const lines = unique(config.data.map(d => JSON.stringify([d.series ?? null, d.facet ?? null])))
+    .map(key => JSON.parse(key) as [string | null, string | null]);
+  const sentences = lines.slice(0, MAX_DESCRIBED_SERIES).map(([name, facet]) => {
+    const points = config.data.filter(d => (d.series ?? null) === name && (d.facet ?? null) === facet && isNumber(d.y));
+    if (points.length < 2) return '';
+    const first = points[0];
+    const last = points[points.length - 1];
+    const peak = points.reduce((best, d) => (d.y > best.y ? d : best), first);
+    const label = `${name ?? config.options.yAxis.label}${facet !== null ? ` (${facet})` : ''}`;
+    const change = first.y !== 0 ? (last.y - first.y) / Math.abs(first.y) : undefined;
+    const direction = change === undefined
+      ? last.y > first.y ? 'rose' : last.y < first.y ? 'fell' : 'was unchanged'
+      : Math.abs(change) < 0.02 ? 'stayed roughly flat' : `${change > 0 ? 'rose' : 'fell'} ${formatNumber(Math.abs(change) * 100)}%`;
+    const peakNote = peak !== first && peak !== last ? `, peaking at ${format(peak.y)} in ${peak.x}` : '';
+    return `${label} ${direction} from ${format(first.y)} in ${first.x} to ${format(last.y)} in ${last.x}${peakNote}.`;
+  });
+  if (lines.length > MAX_DESCRIBED_SERIES) {
+    const more = lines.length - MAX_DESCRIBED_SERIES;
+    sentences.push(`${more} more line${more === 1 ? ' is' : 's are'} shown.`);
+  }
+  const forecast = config.type === 'line' ? config.forecast ?? [] : [];
+  if (forecast.length > 0) {
+    const end = forecast[forecast.length - 1];
+    sentences.push(`The ${config.forecastLabel?.toLowerCase() ?? 'forecast'} reaches ${format(end.y)} by ${end.x}.`);
+  }
+  return sentences.filter(Boolean).join(' ');
+}
+
+function relationshipSentence(config: ChartConfig): string {
+  const points = config.data.filter(d => isNumber(d.x) && isNumber(d.y));
+  const { r } = correlate(points.map(d => d.x), points.map(d => d.y));
+  const { xAxis, yAxis } = config.options;
+  if (r === null) return `${points.length} points are plotted.`;
+  const strength = Math.abs(r) >= 0.7 ? 'strongly' : Math.abs(r) >= 0.4 ? 'moderately' : undefined;
+  const relation = strength
+    ? `${yAxis.label} ${strength} tends to ${r > 0 ? 'rise' : 'fall'} as ${xAxis.label} rises`
+    : `${yAxis.label} shows little linear relationship with ${xAxis.label}`;
+  return `${relation} (r = ${r.toFixed(2)}, ${points.length} points).`;
+}
+
+function shareSentence(config: ChartConfig): string {
+  const slices = totals(config.data, d => String(d.label), d => Math.max(0, Number(d.value) || 0));
+  const total = slices.reduce((sum, [, value]) => sum + value, 0);
+  const range = extremes(slices);
+  if (!range || total === 0) return '';
+  const share = (value: number) => `${formatNumber((value / total) * 100)}%`;
+  return `${range.high[0]} is the largest share (${share(range.high[1])}) and ${range.low[0]} the smallest (${share(range.low[1])}) of ${slices.length} slices.`;
+}
+
+function distributionSentence(config: ChartConfig): string {
+  const bins = totals(config.data, d => `${format(d.x0)} and ${format(d.x1)}`, d => d.y);
+  const count = bins.reduce((sum, [, value]) => sum + value, 0);
+  const range = extremes(bins);
+  if (!range || count === 0) return '';
+  const low = Math.min(...config.data.map(d => d.x0));
+  const high = Math.max(...config.data.map(d => d.x1));
+  return `The most common values lie between ${range.high[0]} (${format(range.high[1])} of ${format(count)}); values range from ${format(low)} to ${format(high)}.`;
+}
+
+function spreadSentence(config: ChartConfig): string {
+  const medians = extremes(config.data.filter(d => isNumber(d.median)).map(d => [
+    config.series.length > 1 ? `${d.x} (${d.series})` : String(d.x),
+    d.median,
+  ] as [string, number]));
+  if (!medians) return '';
+  if (medians.high[0] === medians.low[0]) return `The median is ${format(medians.high[1])}.`;
+  return `The median is highest for ${medians.high[0]} (${format(medians.high[1])}) and lowest for ${medians.low[0]} (${format(medians.low[1])}).`;
+}
+
+function cellSentence(config: ChartConfig): string {
+  const cells = extremes(config.data.filter(d => isNumber(d.value)).map(d => [`${d.x} and ${d.y}`, d.value] as [string, number]));
+  if (!cells) return '';
+  return `The highest value is ${format(cells.high[1])} for ${cells.high[0]}, the lowest ${format(cells.low[1])} for ${cells.low[0]}.`;
+}
+
+const KEY_SENTENCES: Record<ChartType, (config: ChartConfig) => string> = {
+  bar: comparisonSentence,
+  line: trendSentence,
+  scatter: relationshipSentence,
+  pie: shareSentence,
+  histogram: distributionSentence,
+  box: spreadSentence,
+  heatmap: cellSentence,
+};
+
+/** The chart's points as rows: categories and series become columns where the chart has them. */
+function dataTable(config: ChartConfig): ChartDescription['table'] {
+  const { type, options } = config;
+  const facet = config.facets && config.facets.length > 0 ? [config.facetLabel ?? 'Facet'] : [];
+  const facetOf = (d: any) => (facet.length > 0 ? [d.facet ?? null] : []);
+  const seriesColumn = config.series.length > 1 ? ['Series'] : [];
+  const seriesOf = (d: any) => (seriesColumn.length > 0 ? [d.series ?? null] : []);
+
+  let columns: string[];
+  let rows: (string | number | null)[][];
+  switch (type) {
+    case 'bar':
+    case 'line': {
+      // One row per category (and facet), one column per series
+      const names = config.series.length > 0 ? config.series : [options.yAxis.label];
+      const keys = unique(config.data.map(d => JSON.stringify([...facetOf(d), d.x])));
+      const values = new Map(config.data.map(d => [JSON.stringify([...facetOf(d), d.x, d.series ?? names[0]]), d.y]));
+      columns = [...facet, options.xAxis.label, ...names];
+      rows = keys.map(key => {
+        const parts = JSON.parse(key);
+        return [...parts, ...names.map(name => values.get(JSON.stringify([...parts, name])) ?? null)];
+      });
+      // Forecast points get their own column after the history
+      const forecast = type === 'line' ? config.forecast ?? [] : [];
+      if (forecast.length > 0) {
+        columns.push(config.forecastLabel ?? 'Forecast');
+        rows = [
+          ...rows.map(row => [...row, null]),
+          ...forecast.map(point => [...facet.map(() => null), point.x, ...names.map(() => null), point.y]),
+        ];
+      }
+      break;
+    }
+    case 'scatter':
+      columns = [...facet, ...seriesColumn, options.xAxis.label, options.yAxis.label];
+      rows = config.data.map(d => [...facetOf(d), ...seriesOf(d), d.x, d.y]);
+      break;
+    case 'pie': {
+      const total = config.data.reduce((sum, d) => sum + Math.max(0, Number(d.value) || 0), 0);
+      columns = [...facet, options.xAxis.label, options.yAxis.label, 'Share (%)'];
+      rows = config.data.map(d => [...facetOf(d), d.label, d.value, total > 0 && !facet.length ? Number(((d.value / total) * 100).toFixed(1)) : null]);
+      break;
+    }
+    case 'histogram':
+      columns = [...facet, ...seriesColumn, `${options.xAxis.label} from`, 'to', 'Count'];
+      rows = config.data.map(d => [...facetOf(d), ...seriesOf(d), d.x0, d.x1, d.y]);
+      break;
+    case 'box':
+      columns = [...facet, options.xAxis.label, ...seriesColumn, 'Min', 'Q1', 'Median', 'Q3', 'Max'];
+      rows = config.data.map(d => [...facetOf(d), d.x, ...seriesOf(d), d.min, d.q1, d.median, d.q3, d.max]);
+      break;
+    case 'heatmap':
+      columns = [options.xAxis.label, options.yAxis.label, config.valueLabel ?? 'Value'];
+      rows = config.data.map(d => [d.x, d.y, d.value ?? null]);
+      break;
+  }
+  const round = (value: unknown) => (typeof value === 'number' ? Number(value.toPrecision(6)) : value ?? null) as string | number | null;
+  return {
+    columns,
+    rows: rows.slice(0, MAX_TABLE_ROWS).map(row => row.map(round)),
+    truncated: rows.length > MAX_TABLE_ROWS,
+  };
+}
+
+/**
+ * Alt text and a data table for a chart. The alt text names the chart type
+ * and what it shows, then its key message: the extremes of a comparison, the
+ * change over a trend, the strength of a relationship, the largest share, the
+ * most common values of a distribution or the spread of medians.
+ */
+export function describeChart(config: ChartConfig): ChartDescription {
+  const series = config.series.length > 1 && config.type !== 'pie' && config.type !== 'heatmap'
+    ? `, with ${config.series.length} series (${listNames(config.series.slice(0, MAX_DESCRIBED_SERIES))}${config.series.length > MAX_DESCRIBED_SERIES ? ', …' : ''})`
+    : '';
+  const facets = config.facets && config.facets.length > 0 ? `, in ${config.facets.length} panels by ${config.facetLabel ?? 'facet'}` : '';
+  const intro = `${CHART_NAMES[config.type]} of ${subject(config)}${series}${facets}.`;
+  const key = config.data.length === 0 ? 'It has no data.' : KEY_SENTENCES[config.type](config);
+  return { altText: [intro, key].filter(Boolean).join(' '), table: dataTable(config) };
+}
@@ -0,0 +1,83 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { niceTicks } from './chartScene';
+import { buildChartScene, ChartConfig, rasterize, renderChart, renderSvg } from './index';
+
+const barChart: ChartConfig = {
+  type: 'bar',
+  data: [
+    { x: 'North', series: 'sales', y: 120 },
+    { x: 'South', series: 'sales', y: 80 },
+    { x: 'East & West', series: 'sales', y: 45 },
+  ],
+  series: ['sales'],
+  options: {
+    title: 'Sales <by region>',
+    xAxis: { label: 'region' },
+    yAxis: { label: 'sales' },
+    color: '#3B82F6',
+    width: 400,
+    height: 300,
+    showLegend: false,
+  },
+};
+
+describe('niceTicks', () => {
+  it('picks round steps covering the range', () => {
+    expect(niceTicks(0, 120)).toEqual({ ticks: [0, 50, 100, 150], step: 50 });
+    const { ticks, step } = niceTicks(0.13, 0.95);
+    expect(ticks[0]).toBeLessThanOrEqual(0.13);
+    expect(ticks[ticks.length - 1]).toBeGreaterThanOrEqual(0.95);
+    expect([1, 2, 5]).toContain(Math.round(step / 10 ** Math.floor(Math.log10(step))));
+  });
+});
+
+describe('renderSvg', () => {
+  it('draws one bar per category and escapes text', () => {
+    const svg = renderSvg(buildChartScene(barChart));
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="400" height="300"/);
+    expect(svg.match(/fill="#3B82F6"/gi)).toHaveLength(3);
+    expect(svg).toContain('Sales &lt;by region&gt;');
+    expect(svg).toContain('East &amp; West');
+  });
+});
+
+describe('rasterize', () => {
+  it('fills the background and paints the bars', () => {
+    const image = rasterize(buildChartScene(barChart));
+    expect(image.pixels).toHaveLength(400 * 300 * 4);
+    const pixel = (x: number, y: number) => Array.from(image.pixels.slice((y * 400 + x) * 4, (y * 400 + x) * 4 + 4));
+    expect(pixel(1, 1)).toEqual([255, 255, 255, 255]);
+    const blue = Array.from({ length: 400 * 300 }, (_, i) => pixel(i % 400, Math.floor(i / 400)))
+      .filter(([r, g, b]) => r === 0x3b && g === 0x82 && b === 0xf6);
+    expect(blue.length).toBeGreaterThan(1000);
+  });
+});
+
+describe('renderChart', () => {
+  it('returns SVG markup and base64 PNGs inline', async () => {
+    const [svg, png] = await renderChart(barChart, { formats: ['svg', 'png'] });
+    expect(svg).toMatchObject({ format: 'svg', mimeType: 'image/svg+xml', width: 400, height: 300 });
+    expect(svg.content).toContain('<svg');
+    const bytes = Buffer.from(png.content!, 'base64');
+    expect(bytes.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    // IHDR holds the image size
+    expect(bytes.readUInt32BE(16)).toBe(400);
+    expect(bytes.readUInt32BE(20)).toBe(300);
+    expect(png.bytes).toBe(bytes.length);
+  });
+
+  it('writes files named after the title when given an output directory', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'charts-'));
+    try {
+      const [artifact] = await renderChart(barChart, { formats: ['svg'], outputDir: dir });
+      expect(artifact.content).toBeUndefined();
+      expect(artifact.path).toMatch(/sales-by-region-[0-9a-f]{8}\.svg$/);
+      expect(await readFile(artifact.path!, 'utf-8')).toContain('<svg');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
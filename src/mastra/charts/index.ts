@@ -0,0 +1,93 @@
+import { createHash } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { buildChartScene } from './chartScene';
+import { encodePng } from './png';
+import { rasterize } from './raster';
+import { renderSvg } from './svg';
+import { ChartConfig } from './types';
+
+export { buildChartScene } from './chartScene';
+export { renderSvg } from './svg';
+export { rasterize } from './raster';
+export { encodePng } from './png';
+export { toChartJs, toECharts, toLibrarySpec, toVegaLite } from './librarySpecs';
+export type { SpecFormat } from './librarySpecs';
+export { ANALYSIS_GOALS, MAX_PIE_SLICES, suggestCharts } from './suggestions';
+export {
+  CATEGORICAL_PALETTES,
+  checkContrast,
+  contrastRatio,
+  DIVERGING_PALETTES,
+  paletteColors,
+  PALETTES,
+  SEQUENTIAL_PALETTES,
+  THEME_NAMES,
+  THEMES,
+} from './theme';
+export type { CategoricalPalette, ChartTheme, ContrastIssue, DivergingPalette, Palette, SequentialPalette, ThemeName } from './theme';
+export { describeChart } from './description';
+export type { ChartDescription } from './description';
+export type { AnalysisGoal, ChartSpec, ChartSuggestion } from './suggestions';
+export type { Scene, Shape } from './scene';
+export type { BarMode, ChartConfig, ChartOptions, ChartType, ForecastPoint } from './types';
+
+export type ImageFormat = 'svg' | 'png';
+
+export interface ChartArtifact {
+  format: ImageFormat;
+  mimeType: string;
+  width: number;
+  height: number;
+  /** SVG markup, or base64-encoded PNG bytes; omitted when written to disk. */
+  content?: string;
+  /** Absolute path of the written file when an output directory was given. */
+  path?: string;
+  bytes: number;
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'chart';
+}
+
+/**
+ * Renders a chart to the requested image formats. Images are returned inline
+ * unless `outputDir` is set, in which case they are written there under a
+ * name derived from the title and a hash of the content.
+ */
+export async function renderChart(
+  config: ChartConfig,
+  options: { formats?: ImageFormat[]; outputDir?: string } = {},
+): Promise<ChartArtifact[]> {
+  const scene = buildChartScene(config);
+  const formats = Array.from(new Set<ImageFormat>(options.formats ?? ['svg']));
+
+  return Promise.all(formats.map(async format => {
+    let bytes: Buffer;
+    if (format === 'svg') {
+      bytes = Buffer.from(renderSvg(scene), 'utf-8');
+    } else {
+      const image = rasterize(scene);
+      bytes = encodePng(image.width, image.height, image.pixels);
+    }
+
+    const artifact: ChartArtifact = {
+      format,
+      mimeType: format === 'svg' ? 'image/svg+xml' : 'image/png',
+      width: scene.width,
+      height: scene.height,
+      bytes: bytes.length,
+    };
+
+    if (options.outputDir) {
+      const dir = resolve(options.outputDir);
+      await mkdir(dir, { recursive: true });
+      const hash = createHash('sha1').update(bytes).digest('hex').slice(0, 8);
+      artifact.path = join(dir, `${slugify(config.options.title)}-${hash}.${format}`);
+      await writeFile(artifact.path, bytes);
+    } else {
+      artifact.content = format === 'svg' ? bytes.toString('utf-8') : bytes.toString('base64');
+    }
+    return artifact;
+  }));
+}
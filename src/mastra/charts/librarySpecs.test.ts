@@ -0,0 +1,249 @@
+import Ajv from 'ajv';
+import { Chart, registerables } from 'chart.js';
+import 'chartjs-adapter-date-fns';
+import * as echarts from 'echarts';
+import { createRequire } from 'module';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { toChartJs, toECharts, toVegaLite } from './librarySpecs';
+import { ChartConfig, ChartOptions, ChartType } from './types';
+
+Chart.register(...registerables);
+
+const vegaLiteSchema = createRequire(import.meta.url)('vega-lite/build/vega-lite-schema.json');
+const validateVegaLite = new Ajv({ strict: false, allErrors: true, validateFormats: false }).compile(vegaLiteSchema);
+
+const options: ChartOptions = {
+  title: 'Sales',
+  xAxis: { label: 'region' },
+  yAxis: { label: 'sales' },
+  color: '#3B82F6',
+  width: 400,
+  height: 300,
+  showLegend: true,
+};
+
+const chart = (type: ChartType, data: any[], extra: Partial<ChartConfig> = {}): ChartConfig =>
+  ({ type, data, series: ['sales'], options, ...extra });
+
+const charts: Record<string, ChartConfig> = {
+  bar: chart('bar', [{ x: 'North', series: 'sales', y: 120 }, { x: 'South', series: 'sales', y: 80 }]),
+  'stacked bar': chart('bar', [
+    { x: 'North', series: 'online', y: 70 },
+    { x: 'North', series: 'store', y: 50 },
+    { x: 'South', series: 'online', y: 30 },
+    { x: 'South', series: 'store', y: 50 },
+  ], { series: ['online', 'store'], options: { ...options, barMode: 'stacked' } }),
+  'line with forecast': chart('line', [
+    { x: '2024-01-01', series: 'sales', y: 10, highlight: true },
+    { x: '2024-02-01', series: 'sales', y: 12 },
+  ], { xScale: 'time', forecast: [{ x: '2024-03-01', y: 14, lower: 12, upper: 16 }] }),
+  scatter: chart('scatter', [{ x: 1, y: 2, series: 'sales' }, { x: 3, y: 40, series: 'sales', highlight: true }], {
+    options: { ...options, logScale: 'y' },
+  }),
+  pie: chart('pie', [{ label: 'North', value: 3 }, { label: 'South', value: 1 }], { options: { ...options, showPercentages: true } }),
+  histogram: chart('histogram', [{ x: '0–10', y: 4, x0: 0, x1: 10, series: 'sales' }, { x: '10–20', y: 2, x0: 10, x1: 20, series: 'sales' }]),
+  box: chart('box', [{ x: 'North', series: 'sales', min: 1, q1: 2, median: 3, q3: 4, max: 9, highlights: [20] }]),
+  heatmap: chart('heatmap', [
+    { x: 'Mon', y: 'AM', value: -1, count: 1 },
+    { x: 'Mon', y: 'PM', value: 2, count: 1 },
+    { x: 'Tue', y: 'AM', value: 0.5, count: 1 },
+  ], { options: { ...options, showValues: true } }),
+  faceted: chart('bar', [
+    { x: 'Q1', series: 'sales', y: 5, facet: 'North' },
+    { x: 'Q2', series: 'sales', y: 7, facet: 'North' },
+    { x: 'Q1', series: 'sales', y: 3, facet: 'South' },
+  ], { facets: ['North', 'South'], facetLabel: 'region' }),
+};
+
+describe('toVegaLite', () => {
+  it.each(Object.entries(charts))('produces a spec valid against the Vega-Lite v5 schema: %s', (_, config) => {
+    const spec = toVegaLite(config);
+    expect(spec.$schema).toBe('https://vega.github.io/schema/vega-lite/v5.json');
+    expect(validateVegaLite(spec), JSON.stringify(validateVegaLite.errors?.slice(0, 3))).toBe(true);
+  });
+});
+
+describe('toECharts', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each(Object.entries(charts))('produces options ECharts renders without complaint: %s', (_, config) => {
+    const warn = vi.spyOn(console, 'warn');
+    const error = vi.spyOn(console, 'error');
+    const instance = echarts.init(null, null, { renderer: 'svg', ssr: true, width: options.width, height: options.height });
+    try {
+      instance.setOption(toECharts(config));
+      expect(instance.renderToSVGString()).toContain('<svg');
+    } finally {
+      instance.dispose();
+    }
+    expect(warn).not.toHaveBeenCalled();
+    expect(error).not.toHaveBeenCalled();
+  });
+});
+
+// Chart.js lays charts out without drawing them on a stub 2D context, so the
+// positions of the bars and points can be read back from its dataset metadata
+const stubContext = (canvas: object) => new Proxy({ canvas, measureText: (text: string) => ({ width: text.length * 6 }) } as any, {
+  get: (target, key) => (key in target ? target[key] : () => undefined),
+  set: (target, key, value) => {
+    target[key] = value;
+    return true;
+  },
+});
+
+const layOut = (config: Record<string, any>, check: (instance: Chart) => void) => {
+  const canvas: any = { width: options.width, height: options.height, style: {} };
+  const context = stubContext(canvas);
+  canvas.getContext = () => context;
+  // Chart.js fills in the config it is given, so it gets a copy
+  const instance = new Chart(canvas, structuredClone(config) as any);
+  try {
+    check(instance);
+  } finally {
+    instance.destroy();
+  }
+};
+
+// The first element of each dataset, by dataset index
+const firstElements = (instance: Chart) =>
+  instance.data.datasets.map((_, i) => instance.getDatasetMeta(i).data[0] as any);
+
+const chartJsCharts = Object.entries(charts).filter(([name]) => name !== 'faceted' && name !== 'heatmap');
+
+describe('toChartJs', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each(chartJsCharts)('produces a config Chart.js lays out without complaint: %s', (_, config) => {
+    const warn = vi.spyOn(console, 'warn');
+    const error = vi.spyOn(console, 'error');
+    const spec = toChartJs(config);
+    layOut(spec, instance => {
+      instance.data.datasets.forEach((dataset, i) => {
+        const elements = instance.getDatasetMeta(i).data as any[];
+        expect(elements).toHaveLength(dataset.data.length);
+        for (const element of elements) {
+          expect(Number.isFinite(element.x) && Number.isFinite(element.y), `${dataset.label}: ${element.x}, ${element.y}`).toBe(true);
+        }
+      });
+    });
+    // Category charts give every dataset of the chart's own type one value per label
+    if (spec.data.labels) {
+      for (const dataset of spec.data.datasets.filter((dataset: any) => dataset.type === undefined)) {
+        expect(dataset.data, dataset.label).toHaveLength(spec.data.labels.length);
+      }
+    }
+    expect(warn).not.toHaveBeenCalled();
+    expect(error).not.toHaveBeenCalled();
+  });
+
+  it('places grouped bars side by side and stacked bars on top of each other', () => {
+    const grouped = toChartJs({ ...charts['stacked bar'], options });
+    expect(grouped.options.scales).toMatchObject({ x: { stacked: false }, y: { stacked: false } });
+    layOut(grouped, instance => {
+      const [online, store] = firstElements(instance);
+      expect(store.x).toBeGreaterThan(online.x);
+      expect(store.base).toBe(online.base);
+    });
+
+    const stacked = toChartJs(charts['stacked bar']);
+    expect(stacked.data.labels).toEqual(['North', 'South']);
+    expect(stacked.data.datasets.map((dataset: any) => [dataset.label, dataset.data])).toEqual([['online', [70, 30]], ['store', [50, 50]]]);
+    expect(stacked.options.scales).toMatchObject({ x: { stacked: true }, y: { stacked: true } });
+    layOut(stacked, instance => {
+      const [online, store] = firstElements(instance);
+      expect(store.x).toBe(online.x);
+      expect(store.base).toBeCloseTo(online.y);
+      expect(instance.scales.y.getValueForPixel(store.y)).toBeCloseTo(120);
+    });
+  });
+
+  it('draws lines on a time axis with the forecast after the history', () => {
+    const spec = toChartJs(charts['line with forecast']);
+    expect(spec.data.labels).toBeUndefined();
+    expect(spec.data.datasets.map((dataset: any) => dataset.label))
+      .toEqual(['sales', 'Forecast lower bound', 'Forecast interval', 'Forecast', 'Highlighted']);
+    expect(spec.options.scales).toMatchObject({ x: { type: 'time', stacked: false }, y: { stacked: false } });
+    layOut(spec, instance => {
+      const history = instance.getDatasetMeta(0).data as any[];
+      const [, lower, upper, forecast, highlight] = firstElements(instance);
+      expect(history[1].x).toBeGreaterThan(history[0].x);
+      expect(forecast.x).toBeGreaterThan(history[1].x);
+      expect(lower.x).toBe(forecast.x);
+      expect(upper.y).toBeLessThan(forecast.y);
+      expect(lower.y).toBeGreaterThan(forecast.y);
+      expect(highlight.x).toBe(history[0].x);
+    });
+  });
+
+  it('plots scatter points on their own axes, log scales included', () => {
+    const spec = toChartJs(charts.scatter);
+    expect(spec.options.scales).toMatchObject({ x: { type: 'linear' }, y: { type: 'logarithmic' } });
+    layOut(spec, instance => {
+      const points = instance.getDatasetMeta(0).data as any[];
+      expect(points.map(point => instance.scales.x.getValueForPixel(point.x))).toEqual([1, 3].map(value => expect.closeTo(value)));
+      expect(points.map(point => instance.scales.y.getValueForPixel(point.y))).toEqual([2, 40].map(value => expect.closeTo(value)));
+      expect(firstElements(instance)[1].x).toBe(points[1].x);
+    });
+  });
+
+  it('gives each pie slice its label, value and colour', () => {
+    const spec = toChartJs(charts.pie);
+    expect(spec.data.labels).toEqual(['North', 'South']);
+    expect(spec.data.datasets).toHaveLength(1);
+    expect(spec.data.datasets[0].data).toEqual([3, 1]);
+    expect(spec.data.datasets[0].backgroundColor).toHaveLength(2);
+    layOut(spec, instance => {
+      const [north, south] = instance.getDatasetMeta(0).data as any[];
+      expect(north.circumference).toBeCloseTo(3 * south.circumference);
+    });
+  });
+
+  it('draws histogram bins edge to edge', () => {
+    const spec = toChartJs(charts.histogram);
+    expect(spec.data.labels).toEqual(['0–10', '10–20']);
+    expect(spec.data.datasets[0].data).toEqual([4, 2]);
+    layOut(spec, instance => {
+      const [first, second] = instance.getDatasetMeta(0).data as any[];
+      expect(first.width).toBeCloseTo(second.x - first.x);
+    });
+  });
+
+  it('draws the box, whiskers and median of a series in one bar slot', () => {
+    const spec = toChartJs(chart('box', [
+      { x: 'North', series: 'online', min: 1, q1: 2, median: 3, q3: 4, max: 9 },
+      { x: 'North', series: 'store', min: 2, q1: 3, median: 5, q3: 6, max: 8 },
+    ], { series: ['online', 'store'] }));
+    expect(spec.data.datasets.map((dataset: any) => [dataset.label, dataset.stack, dataset.data])).toEqual([
+      ['online', 'online', [[2, 4]]],
+      ['online range', 'online', [[1, 9]]],
+      ['online median', 'online', [[3, 3]]],
+      ['store', 'store', [[3, 6]]],
+      ['store range', 'store', [[2, 8]]],
+      ['store median', 'store', [[5, 5]]],
+    ]);
+    expect(spec.options.scales).toMatchObject({ x: { stacked: true }, y: { stacked: false } });
+    layOut(spec, instance => {
+      const elements = firstElements(instance);
+      const slots = [elements.slice(0, 3), elements.slice(3, 6)];
+      for (const [box, range, median] of slots) {
+        expect(range.x).toBe(box.x);
+        expect(median.x).toBe(box.x);
+        // Values are drawn as given, not added to the bars below them
+        expect(median.base).toBeCloseTo(median.y);
+        expect(range.y).toBeLessThan(box.y);
+      }
+      // The two series sit side by side, either side of the category
+      expect(slots[1][0].x).toBeGreaterThan(slots[0][0].x);
+      expect((slots[0][0].x + slots[1][0].x) / 2).toBeCloseTo(instance.scales.x.getPixelForValue(0));
+    });
+  });
+
+  it('rejects chart kinds it cannot draw', () => {
+    expect(() => toChartJs(charts.faceted)).toThrow('Chart.js has no small multiples');
+    expect(() => toChartJs(charts.heatmap)).toThrow('Chart.js has no heatmap chart type');
+  });
+});
@@ -0,0 +1,677 @@
+import {
+  FORECAST_BAND_OPACITY,
+  FORECAST_DASH,
+  forecastColor,
+  hasForecast,
+  hasHighlights,
+  heatmapDomain,
+  heatmapStops,
+  isLogAxis,
+} from './chartScene';
+import { chartTheme, ChartTheme, seriesColors } from './theme';
+import { ChartConfig, ForecastPoint } from './types';
+
+export type SpecFormat = 'vega-lite' | 'chartjs' | 'echarts';
+
+const binLabel = (d: any) => `${round(d.x0)}–${round(d.x1)}`;
+const round = (value: number) => Number(value.toPrecision(6));
+const unique = (values: string[]) => Array.from(new Set(values));
+
+// Chart.js takes colours with the alpha channel built in
+const withAlpha = (color: string, alpha: string) => (/^#[0-9a-f]{6}$/i.test(color) ? color + alpha : color);
+
+/** Series names, falling back to a single unnamed series for configs without any. */
+function seriesOf(config: ChartConfig): string[] {
+  if (config.series.length > 0) return config.series;
+  return [config.type === 'histogram' ? `Count of ${config.options.xAxis.label}` : config.options.yAxis.label];
+}
+
+const seriesName = (config: ChartConfig, d: any) => d.series ?? seriesOf(config)[0];
+
+/** Highlight markers in the theme's highlight colour, outlined in its text colour. */
+const highlightStyle = (theme: ChartTheme) => ({ color: theme.highlight, outline: theme.text });
+
+/** Highlighted values as `{ x, y }` points: flagged scatter and line points, and the listed values of box plots. */
+function highlightPoints(config: ChartConfig, data: any[]): { x: any; y: number }[] {
+  if (config.type === 'box') {
+    return data.flatMap(d => (d.highlights ?? []).map((value: number) => ({ x: String(d.x), y: value })));
+  }
+  const keepX = config.type === 'scatter' || config.xScale === 'time';
+  return data
+    .filter(d => d.highlight === true && typeof d.y === 'number')
+    .map(d => ({ x: keepX ? d.x : String(d.x), y: d.y }));
+}
+
+/** Forecast points of a line chart, none otherwise. */
+const forecastOf = (config: ChartConfig) => (hasForecast(config) ? config.forecast! : []);
+
+const hasBand = (config: ChartConfig) =>
+  forecastOf(config).some(point => typeof point.lower === 'number' && typeof point.upper === 'number');
+
+function facetGrid(count: number) {
+  const columns = Math.ceil(Math.sqrt(count));
+  return { columns, rows: Math.ceil(count / columns) };
+}
+
+/** Vega-Lite v5 specification with the processed data inlined. */
+export function toVegaLite(config: ChartConfig): Record<string, any> {
+  const { type, options } = config;
+  const theme = chartTheme(config);
+  const xTitle = options.xAxis.label;
+  const yTitle = type === 'histogram' ? 'Count' : options.yAxis.label;
+  const series = seriesOf(config);
+  const stacked = options.barMode === 'stacked';
+
+  const data = config.data.map(d => (d.series === undefined && type !== 'pie' && type !== 'heatmap' ? { ...d, series: series[0] } : d));
+  const color = {
+    field: 'series',
+    type: 'nominal',
+    title: null,
+    sort: series,
+    scale: { domain: series, range: seriesColors(config, series.length) },
+    legend: options.showLegend ? {} : null,
+  };
+  const categories = { field: 'x', type: 'nominal', title: xTitle, sort: unique([...config.data, ...forecastOf(config)].map(d => String(d.x))) };
+  const logX = isLogAxis(config, 'x') ? { type: 'log' } : {};
+  const logY = isLogAxis(config, 'y') ? { type: 'log' } : {};
+
+  let view: Record<string, any>;
+  switch (type) {
+    case 'bar':
+      view = {
+        mark: { type: 'bar' },
+        encoding: {
+          x: categories,
+          y: { field: 'y', type: 'quantitative', title: yTitle, stack: stacked ? 'zero' : null },
+          color,
+          ...(stacked || series.length === 1 ? {} : { xOffset: { field: 'series', sort: series } }),
+        },
+      };
+      break;
+    case 'line':
+      view = {
+        mark: { type: 'line', point: options.showPoints !== false, strokeWidth: options.lineWidth ?? 2 },
+        encoding: {
+          x: config.xScale === 'time' ? { field: 'x', type: 'temporal', title: xTitle } : { ...categories, type: 'ordinal' },
+          y: { field: 'y', type: 'quantitative', title: yTitle, scale: logY },
+          color,
+        },
+      };
+      break;
+    case 'scatter': {
+      const size = options.pointSize ?? 6;
+      view = {
+        mark: { type: 'point', filled: true, size: size * size, opacity: 0.7 },
+        encoding: {
+          x: { field: 'x', type: 'quantitative', title: xTitle, scale: { zero: false, ...logX } },
+          y: { field: 'y', type: 'quantitative', title: yTitle, scale: { zero: false, ...logY } },
+          color,
+        },
+      };
+      break;
+    }
+    case 'pie': {
+      const labels = unique(config.data.map(d => String(d.label)));
+      view = {
+        mark: { type: 'arc' },
+        encoding: {
+          theta: { field: 'value', type: 'quantitative', stack: true },
+          color: {
+            field: 'label',
+            type: 'nominal',
+            title: xTitle,
+            sort: labels,
+            scale: { domain: labels, range: seriesColors(config, labels.length) },
+            legend: options.showLegend ? {} : null,
+          },
+        },
+      };
+      break;
+    }
+    case 'heatmap': {
+      const domain = heatmapDomain(config);
+      const stops = heatmapStops(config);
+      view = {
+        layer: [
+          {
+            mark: { type: 'rect' },
+            encoding: {
+              x: categories,
+              y: { field: 'y', type: 'nominal', title: yTitle, sort: unique(config.data.map(d => String(d.y))) },
+              color: {
+                field: 'value',
+                type: 'quantitative',
+                title: config.valueLabel ?? yTitle,
+                scale: { domain: stops.length === 3 ? [domain[0], 0, domain[1]] : domain, range: stops },
+                legend: options.showLegend ? {} : null,
+              },
+            },
+          },
+          ...(options.showValues === false ? [] : [{
+            mark: { type: 'text' },
+            encoding: {
+              x: categories,
+              y: { field: 'y', type: 'nominal', sort: unique(config.data.map(d => String(d.y))) },
+              text: { field: 'value', type: 'quantitative', format: '~s' },
+            },
+          }]),
+        ],
+      };
+      break;
+    }
+    case 'histogram':
+      // Unstacked series overlap, so they are drawn translucent
+      view = {
+        mark: { type: 'bar', opacity: stacked || series.length === 1 ? 1 : 0.6 },
+        encoding: {
+          x: { field: 'x0', type: 'quantitative', bin: { binned: true }, title: xTitle },
+          x2: { field: 'x1' },
+          y: { field: 'y', type: 'quantitative', title: yTitle, stack: stacked ? 'zero' : null },
+          color,
+        },
+      };
+      break;
+    case 'box':
+      // The data is already summarised, so the box is layered from rule, bar and tick marks
+      view = {
+        encoding: {
+          x: categories,
+          color,
+          ...(series.length > 1 ? { xOffset: { field: 'series', sort: series } } : {}),
+        },
+        layer: [
+          { mark: { type: 'rule' }, encoding: { y: { field: 'min', type: 'quantitative', title: yTitle, scale: logY }, y2: { field: 'max' } } },
+          { mark: { type: 'bar', opacity: 0.6 }, encoding: { y: { field: 'q1', type: 'quantitative' }, y2: { field: 'q3' } } },
+          { mark: { type: 'tick', color: 'black', thickness: 2 }, encoding: { y: { field: 'median', type: 'quantitative' } } },
+        ],
+      };
+      break;
+  }
+
+  const encoding = view.encoding;
+  if (hasForecast(config)) {
+    // The forecast layers carry their own data, as it does not belong to any series
+    const forecast = { values: config.forecast };
+    const color = forecastColor(config);
+    view = {
+      layer: [
+        view,
+        ...(hasBand(config) ? [{
+          data: forecast,
+          mark: { type: 'area', color, opacity: FORECAST_BAND_OPACITY },
+          encoding: { x: encoding.x, y: { field: 'lower', type: 'quantitative', title: yTitle }, y2: { field: 'upper' } },
+        }] : []),
+        {
+          data: forecast,
+          mark: { type: 'line', color, strokeDash: FORECAST_DASH, point: options.showPoints !== false, strokeWidth: options.lineWidth ?? 2 },
+          encoding: { x: encoding.x, y: { field: 'y', type: 'quantitative', title: yTitle } },
+        },
+      ],
+    };
+  }
+
+  if (hasHighlights(config)) {
+    const highlight = highlightStyle(theme);
+    const marker = { type: 'point', filled: true, size: 90, color: highlight.color, stroke: highlight.outline, strokeWidth: 1.5, opacity: 1 };
+    if (type === 'box') {
+      view.layer.push({
+        transform: [{ filter: 'isArray(datum.highlights)' }, { flatten: ['highlights'], as: ['highlight_value'] }],
+        mark: marker,
+        encoding: { y: { field: 'highlight_value', type: 'quantitative' }, color: { value: highlight.color } },
+      });
+    } else if (type === 'scatter' || type === 'line') {
+      view = {
+        layer: [
+          view,
+          { transform: [{ filter: 'datum.highlight === true' }], mark: marker, encoding: { x: encoding.x, y: encoding.y } },
+        ],
+      };
+    }
+  }
+
+  const spec = {
+    $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
+    title: options.title,
+    background: theme.background,
+    config: {
+      font: theme.fontFamily,
+      title: { color: theme.text, fontSize: theme.titleSize },
+      axis: {
+        labelColor: theme.mutedText,
+        labelFontSize: theme.tickSize,
+        titleColor: theme.text,
+        titleFontSize: theme.labelSize,
+        domainColor: theme.axis,
+        tickColor: theme.axis,
+        gridColor: theme.grid,
+        ...(theme.gridDash ? { gridDash: theme.gridDash } : {}),
+      },
+      legend: { labelColor: theme.text, titleColor: theme.text },
+      header: { labelColor: theme.text, titleColor: theme.text },
+      view: { stroke: null },
+    },
+    data: { values: data },
+  };
+
+  if (config.facets && config.facets.length > 0) {
+    const { columns, rows } = facetGrid(config.facets.length);
+    return {
+      ...spec,
+      facet: { field: 'facet', type: 'nominal', title: config.facetLabel ?? null, sort: config.facets },
+      columns,
+      spec: { width: Math.round(options.width / columns) - 60, height: Math.round(options.height / rows) - 60, ...view },
+    };
+  }
+  return { ...spec, width: options.width, height: options.height, ...view };
+}
+
+/** Chart.js v4 configuration (`new Chart(ctx, config)`). */
+export function toChartJs(config: ChartConfig): Record<string, any> {
+  if (config.facets && config.facets.length > 0) {
+    throw new Error('Chart.js has no small multiples; use the vega-lite or echarts format for faceted charts');
+  }
+  return chartJsConfig(config, config.data, config.options.title);
+}
+
+function chartJsConfig(config: ChartConfig, data: any[], title: string): Record<string, any> {
+  const chart = chartJsBase(config, data, title);
+  const points = highlightPoints(config, data);
+  if (points.length > 0) {
+    const highlight = highlightStyle(chartTheme(config));
+    // A point-only line dataset sits on category, linear and time axes alike; lower order draws on top
+    chart.data.datasets.push({
+      type: config.type === 'scatter' ? 'scatter' : 'line',
+      label: config.highlightLabel ?? 'Highlighted',
+      data: points,
+      showLine: false,
+      backgroundColor: highlight.color,
+      borderColor: highlight.outline,
+      borderWidth: 1.5,
+      pointRadius: config.type === 'scatter' ? (config.options.pointSize ?? 6) / 2 + 1.5 : 5,
+      order: -1,
+    });
+  }
+  return chart;
+}
+
+function chartJsBase(config: ChartConfig, data: any[], title: string): Record<string, any> {
+  const { type, options } = config;
+  const theme = chartTheme(config);
+  const yTitle = type === 'histogram' ? 'Count' : options.yAxis.label;
+  const series = seriesOf(config);
+  const colors = seriesColors(config, series.length);
+  const stacked = options.barMode === 'stacked';
+  // Chart.js has no background option; the page or canvas supplies theme.background
+  const font = { family: theme.fontFamily };
+  const plugins = {
+    title: { display: Boolean(title), text: title, color: theme.text, font: { ...font, size: theme.titleSize } },
+    legend: { display: options.showLegend, labels: { color: theme.text, font } },
+  };
+  const axis = (text: string) => ({
+    title: { display: true, text, color: theme.text, font: { ...font, size: theme.labelSize } },
+    ticks: { color: theme.mutedText, font: { ...font, size: theme.tickSize } },
+    grid: { color: theme.grid },
+    border: { color: theme.axis, ...(theme.gridDash ? { dash: theme.gridDash } : {}) },
+  });
+  const scales = (xType: 'category' | 'linear' | 'time' = 'category', stackedAxes = stacked) => ({
+    x: { type: xType === 'linear' && isLogAxis(config, 'x') ? 'logarithmic' : xType, stacked: stackedAxes, ...axis(options.xAxis.label) },
+    y: { type: isLogAxis(config, 'y') ? 'logarithmic' : 'linear', stacked: stackedAxes, beginAtZero: type === 'bar' || type === 'histogram', ...axis(yTitle) },
+  });
+  const base = { options: { responsive: false, color: theme.text, font, plugins, scales: scales() } };
+
+  // Category charts need one value per label and series, with gaps as null
+  const labelsOf = (key: (d: any) => string) => unique(config.data.map(key));
+  const aligned = (labels: string[], key: (d: any) => string, name: string, value: (d: any) => any) => {
+    const byLabel = new Map(data.filter(d => seriesName(config, d) === name).map(d => [key(d), value(d)]));
+    return labels.map(label => byLabel.get(label) ?? null);
+  };
+  const categoryKey = (d: any) => String(d.x);
+
+  switch (type) {
+    case 'bar': {
+      const labels = labelsOf(categoryKey);
+      return {
+        type: 'bar',
+        data: {
+          labels,
+          datasets: series.map((name, i) => ({
+            label: name,
+            data: aligned(labels, categoryKey, name, d => d.y),
+            backgroundColor: colors[i],
+            barPercentage: options.barWidth ?? 0.8,
+          })),
+        },
+        ...base,
+      };
+    }
+    case 'line': {
+      // Time axes need a Chart.js date adapter (e.g. chartjs-adapter-date-fns) and take {x, y} points
+      const time = config.xScale === 'time';
+      const forecast = forecastOf(config);
+      const labels = unique([...labelsOf(categoryKey), ...forecast.map(point => point.x)]);
+      const forecastData = (value: (point: ForecastPoint) => number | undefined) => {
+        if (time) return forecast.map(point => ({ x: point.x, y: value(point) ?? null }));
+        const byLabel = new Map(forecast.map(point => [point.x, value(point) ?? null]));
+        return labels.map(label => byLabel.get(label) ?? null);
+      };
+      const color = forecastColor(config);
+      // The interval is the area between an invisible lower line and the upper line filled down to it
+      const band = hasBand(config) ? [
+        { label: `${config.forecastLabel ?? 'Forecast'} lower bound`, data: forecastData(point => point.lower), borderWidth: 0, pointRadius: 0, fill: false },
+        {
+          label: `${config.forecastLabel ?? 'Forecast'} interval`, data: forecastData(point => point.upper),
+          borderWidth: 0, pointRadius: 0, fill: '-1', backgroundColor: withAlpha(color, '33'),
+        },
+      ] : [];
+      return {
+        type: 'line',
+        data: {
+          ...(time ? {} : { labels }),
+          datasets: [
+            ...series.map((name, i) => ({
+              label: name,
+              data: time
+                ? data.filter(d => seriesName(config, d) === name).map(d => ({ x: d.x, y: d.y }))
+                : aligned(labels, categoryKey, name, d => d.y),
+              borderColor: colors[i],
+              backgroundColor: colors[i],
+              borderWidth: options.lineWidth ?? 2,
+              pointRadius: options.showPoints !== false ? 3 : 0,
+            })),
+            ...band,
+            ...(forecast.length > 0 ? [{
+              label: config.forecastLabel ?? 'Forecast',
+              data: forecastData(point => point.y),
+              borderColor: color,
+              backgroundColor: color,
+              borderDash: FORECAST_DASH,
+              borderWidth: options.lineWidth ?? 2,
+              pointRadius: options.showPoints !== false ? 3 : 0,
+            }] : []),
+          ],
+        },
+        options: { ...base.options, scales: scales(time ? 'time' : 'category', false) },
+      };
+    }
+    case 'scatter':
+      return {
+        type: 'scatter',
+        data: {
+          datasets: series.map((name, i) => ({
+            label: name,
+            data: data.filter(d => seriesName(config, d) === name).map(d => ({ x: d.x, y: d.y })),
+            backgroundColor: colors[i],
+            pointRadius: (options.pointSize ?? 6) / 2,
+          })),
+        },
+        options: { ...base.options, scales: scales('linear') },
+      };
+    case 'pie': {
+      const labels = labelsOf(d => String(d.label));
+      const byLabel = new Map(data.map(d => [String(d.label), d.value]));
+      return {
+        type: 'pie',
+        data: {
+          labels,
+          datasets: [{ label: options.yAxis.label, data: labels.map(label => byLabel.get(label) ?? 0), backgroundColor: seriesColors(config, labels.length) }],
+        },
+        options: { responsive: false, color: theme.text, font, plugins },
+      };
+    }
+    case 'histogram': {
+      const binKey = (d: any) => binLabel(d);
+      const labels = labelsOf(binKey);
+      return {
+        type: 'bar',
+        data: {
+          labels,
+          datasets: series.map((name, i) => ({
+            label: name,
+            data: aligned(labels, binKey, name, d => d.y),
+            backgroundColor: colors[i],
+            barPercentage: 1,
+            categoryPercentage: 1,
+          })),
+        },
+        ...base,
+      };
+    }
+    case 'box': {
+      // Core Chart.js has no box plot: floating bars draw the whiskers, boxes and medians.
+      // Stacking the x axis puts the three bars of a series in one slot, and leaving y
+      // unstacked keeps their values as they are
+      const labels = labelsOf(categoryKey);
+      const { x, y } = scales('category', false);
+      return {
+        type: 'bar',
+        data: {
+          labels,
+          datasets: series.flatMap((name, i) => [
+            { label: name, stack: name, data: aligned(labels, categoryKey, name, d => [d.q1, d.q3]), backgroundColor: withAlpha(colors[i], '66'), borderColor: colors[i], borderWidth: 1.5, barPercentage: 0.6 },
+            { label: `${name} range`, stack: name, data: aligned(labels, categoryKey, name, d => [d.min, d.max]), backgroundColor: colors[i], barPercentage: 0.05 },
+            { label: `${name} median`, stack: name, data: aligned(labels, categoryKey, name, d => [d.median, d.median]), borderColor: colors[i], borderWidth: 2, borderSkipped: false, barPercentage: 0.6 },
+          ]),
+        },
+        options: { ...base.options, scales: { x: { ...x, stacked: true }, y } },
+      };
+    }
+    case 'heatmap':
+      throw new Error('Chart.js has no heatmap chart type; use the vega-lite or echarts format');
+  }
+}
+
+/** Apache ECharts option object (`chart.setOption(option)`); facets become a grid of panels. */
+export function toECharts(config: ChartConfig): Record<string, any> {
+  const { type, options } = config;
+  const yTitle = type === 'histogram' ? 'Count' : options.yAxis.label;
+  const series = seriesOf(config);
+  const stacked = options.barMode === 'stacked';
+  const facets: (string | undefined)[] = config.facets && config.facets.length > 0 ? config.facets : [undefined];
+  const { columns, rows } = facetGrid(facets.length);
+  const pieLabels = unique(config.data.map(d => String(d.label)));
+  const theme = chartTheme(config);
+  const axisStyle = {
+    nameTextStyle: { color: theme.text, fontSize: theme.labelSize },
+    axisLine: { lineStyle: { color: theme.axis } },
+    axisTick: { lineStyle: { color: theme.axis } },
+    axisLabel: { color: theme.mutedText, fontSize: theme.tickSize },
+    splitLine: { lineStyle: { color: theme.grid, type: theme.gridDash ?? 'solid' } },
+  };
+
+  // Panel placement as percentages of the chart, leaving room for the title and legend
+  const panel = (index: number) => {
+    const width = 90 / columns;
+    const height = 80 / rows;
+    return {
+      left: 5 + (index % columns) * width,
+      top: 10 + Math.floor(index / columns) * height,
+      width: width - 6,
+      height: height - 12,
+    };
+  };
+  const percent = (value: number) => `${round(value)}%`;
+
+  const option: Record<string, any> = {
+    title: [
+      { text: options.title, left: 'center', textStyle: { color: theme.text, fontSize: theme.titleSize } },
+      ...(config.facets ?? []).map((facet, i) => {
+        const { left, top, width } = panel(i);
+        return {
+          text: config.facetLabel ? `${config.facetLabel}: ${facet}` : facet,
+          left: percent(left + width / 2),
+          top: percent(top - 5),
+          textAlign: 'center',
+          textStyle: { color: theme.text, fontSize: theme.labelSize },
+        };
+      }),
+    ],
+    backgroundColor: theme.background,
+    textStyle: { fontFamily: theme.fontFamily, color: theme.text },
+    legend: {
+      show: options.showLegend,
+      top: 'bottom',
+      textStyle: { color: theme.text },
+      data: type === 'pie' ? pieLabels : [
+        ...series,
+        ...(hasForecast(config) ? [config.forecastLabel ?? 'Forecast'] : []),
+        ...(hasHighlights(config) ? [config.highlightLabel ?? 'Highlighted'] : []),
+      ],
+    },
+    tooltip: { trigger: type === 'pie' || type === 'scatter' ? 'item' : 'axis' },
+    color: seriesColors(config, type === 'pie' ? pieLabels.length : series.length),
+  };
+
+  if (type === 'pie') {
+    option.series = facets.map((facet, i) => {
+      const { left, top, width, height } = panel(i);
+      return {
+        type: 'pie',
+        name: facet ?? options.yAxis.label,
+        center: [percent(left + width / 2), percent(top + height / 2)],
+        radius: facets.length > 1 ? `${round(Math.min(width, height) / 2)}%` : '65%',
+        data: config.data.filter(d => d.facet === facet).map(d => ({ name: d.label, value: d.value })),
+        label: { formatter: options.showPercentages !== false ? '{b}: {d}%' : '{b}', color: theme.text },
+      };
+    });
+    return option;
+  }
+
+  if (type === 'heatmap') {
+    const xCategories = unique(config.data.map(d => String(d.x)));
+    const yCategories = unique(config.data.map(d => String(d.y)));
+    const [min, max] = heatmapDomain(config);
+    // The visual map is the legend of a heatmap
+    option.legend = { show: false };
+    option.tooltip = { position: 'top' };
+    option.grid = { left: '10%', right: '12%', top: '12%', bottom: '15%', containLabel: true };
+    option.xAxis = { type: 'category', data: xCategories, name: options.xAxis.label, nameLocation: 'middle', nameGap: 30, splitArea: { show: true }, ...axisStyle };
+    option.yAxis = { type: 'category', data: yCategories, name: yTitle, nameLocation: 'middle', nameGap: 50, splitArea: { show: true }, ...axisStyle };
+    option.visualMap = {
+      min,
+      max,
+      calculable: true,
+      orient: 'vertical',
+      right: 0,
+      top: 'middle',
+      text: [config.valueLabel ?? yTitle],
+      textStyle: { color: theme.text },
+      show: options.showLegend,
+      inRange: { color: heatmapStops(config) },
+    };
+    option.series = [{
+      type: 'heatmap',
+      name: config.valueLabel ?? yTitle,
+      data: config.data.map(d => [xCategories.indexOf(String(d.x)), yCategories.indexOf(String(d.y)), d.value]),
+      label: { show: options.showValues !== false },
+    }];
+    return option;
+  }
+
+  const numericX = type === 'scatter';
+  const timeX = type === 'line' && config.xScale === 'time';
+  const binKey = (d: any) => binLabel(d);
+  const categoryKey = type === 'histogram' ? binKey : (d: any) => String(d.x);
+  const forecast = forecastOf(config);
+  const categories = unique([...config.data.map(categoryKey), ...forecast.map(point => point.x)]);
+
+  option.grid = facets.map((_, i) => {
+    const { left, top, width, height } = panel(i);
+    return { left: percent(left), top: percent(top), width: percent(width), height: percent(height), containLabel: true };
+  });
+  option.xAxis = facets.map((_, i) => numericX || timeX
+    ? { type: timeX ? 'time' : isLogAxis(config, 'x') ? 'log' : 'value', gridIndex: i, name: options.xAxis.label, nameLocation: 'middle', nameGap: 30, scale: true, ...axisStyle }
+    : { type: 'category', gridIndex: i, data: categories, name: options.xAxis.label, nameLocation: 'middle', nameGap: 30, ...axisStyle });
+  option.yAxis = facets.map((_, i) => ({
+    type: isLogAxis(config, 'y') ? 'log' : 'value', gridIndex: i, name: yTitle, nameLocation: 'middle', nameGap: 50, scale: type === 'scatter' || type === 'box', ...axisStyle,
+  }));
+
+  option.series = facets.flatMap((facet, i) => series.map(name => {
+    const points = config.data.filter(d => d.facet === facet && seriesName(config, d) === name);
+    const byCategory = new Map(points.map(d => [categoryKey(d), d]));
+    const aligned = (value: (d: any) => any) => categories.map(category => {
+      const d = byCategory.get(category);
+      return d ? value(d) : null;
+    });
+    const axes = { xAxisIndex: i, yAxisIndex: i, name };
+
+    switch (type) {
+      case 'bar':
+        return { type: 'bar', ...axes, data: aligned(d => d.y), ...(stacked ? { stack: `total-${i}` } : {}) };
+      case 'line':
+        return { type: 'line', ...axes, data: timeX ? points.map(d => [d.x, d.y]) : aligned(d => d.y), showSymbol: options.showPoints !== false, lineStyle: { width: options.lineWidth ?? 2 } };
+      case 'scatter':
+        return { type: 'scatter', ...axes, data: points.map(d => [d.x, d.y]), symbolSize: options.pointSize ?? 6 };
+      case 'histogram':
+        return { type: 'bar', ...axes, data: aligned(d => d.y), barCategoryGap: '0%', ...(stacked ? { stack: `total-${i}` } : {}) };
+      case 'box':
+        return { type: 'boxplot', ...axes, data: aligned(d => [d.min, d.q1, d.median, d.q3, d.max]) };
+    }
+  }));
+
+  if (forecast.length > 0) {
+    const byCategory = new Map(forecast.map(point => [point.x, point]));
+    const values = (value: (point: ForecastPoint) => number | undefined) => (timeX
+      ? forecast.map(point => [point.x, value(point) ?? null])
+      : categories.map(category => {
+        const point = byCategory.get(category);
+        return point ? value(point) ?? null : null;
+      }));
+    const color = forecastColor(config);
+    const name = config.forecastLabel ?? 'Forecast';
+    if (hasBand(config)) {
+      // The band stacks the interval width on an invisible lower bound
+      const hidden = { type: 'line', xAxisIndex: 0, yAxisIndex: 0, stack: 'forecast-interval', symbol: 'none', lineStyle: { opacity: 0 }, silent: true };
+      option.series.push(
+        { ...hidden, name: `${name} lower bound`, data: values(point => point.lower) },
+        {
+          ...hidden,
+          name: `${name} interval`,
+          data: values(point => (point.lower !== undefined && point.upper !== undefined ? point.upper - point.lower : undefined)),
+          areaStyle: { color, opacity: FORECAST_BAND_OPACITY },
+        },
+      );
+    }
+    option.series.push({
+      type: 'line',
+      name,
+      xAxisIndex: 0,
+      yAxisIndex: 0,
+      data: values(point => point.y),
+      showSymbol: options.showPoints !== false,
+      itemStyle: { color },
+      lineStyle: { color, type: FORECAST_DASH, width: options.lineWidth ?? 2 },
+    });
+  }
+
+  // Highlighted points are one scatter series per panel, drawn above the others
+  if (hasHighlights(config)) {
+    const highlight = highlightStyle(theme);
+    facets.forEach((facet, i) => {
+      const points = highlightPoints(config, config.data.filter(d => d.facet === facet));
+      if (points.length === 0) return;
+      option.series.push({
+        type: 'scatter',
+        name: config.highlightLabel ?? 'Highlighted',
+        xAxisIndex: i,
+        yAxisIndex: i,
+        data: points.map(point => [point.x, point.y]),
+        symbolSize: 10,
+        itemStyle: { color: highlight.color, borderColor: highlight.outline, borderWidth: 1.5 },
+        z: 10,
+      });
+    });
+  }
+
+  return option;
+}
+
+export function toLibrarySpec(config: ChartConfig, format: SpecFormat): Record<string, any> {
+  switch (format) {
+    case 'vega-lite':
+      return toVegaLite(config);
+    case 'chartjs':
+      return toChartJs(config);
+    case 'echarts':
+      return toECharts(config);
+  }
+}
@@ -0,0 +1,295 @@
+import { glyphFor, GLYPH_COLUMNS, GLYPH_ROWS } from './font5x7';
+import { CAP_HEIGHT, CHAR_WIDTH, Point, Scene, Shape, textTop, textWidth, wedgePoints } from './scene';
+
+interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  gray: '#808080',
+  grey: '#808080',
+  red: '#ff0000',
+  green: '#008000',
+  blue: '#0000ff',
+  orange: '#ffa500',
+  purple: '#800080',
+  yellow: '#ffff00',
+  transparent: '#00000000',
+};
+
+/** Parses `#rgb`, `#rrggbb`, `#rrggbbaa`, `rgb()`/`rgba()` and a few colour names. */
+export function parseColor(color: string, opacity = 1): Rgba | null {
+  const value = (NAMED_COLORS[color.trim().toLowerCase()] ?? color).trim();
+  if (value === 'none') return null;
+
+  let hex = value.match(/^#([0-9a-f]{3,8})$/i)?.[1];
+  if (hex) {
+    if (hex.length === 3 || hex.length === 4) hex = hex.split('').map(c => c + c).join('');
+    return {
+      r: parseInt(hex.slice(0, 2), 16),
+      g: parseInt(hex.slice(2, 4), 16),
+      b: parseInt(hex.slice(4, 6), 16),
+      a: (hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1) * opacity,
+    };
+  }
+
+  const rgb = value.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+))?\s*\)$/i);
+  if (rgb) {
+    return { r: +rgb[1], g: +rgb[2], b: +rgb[3], a: (rgb[4] !== undefined ? +rgb[4] : 1) * opacity };
+  }
+  // Unknown colours render grey rather than failing the whole chart
+  return { r: 128, g: 128, b: 128, a: opacity };
+}
+
+// Shapes are drawn at a multiple of the output size and averaged down; large
+// images use a smaller multiple to bound memory
+function supersampleFactor(width: number, height: number): number {
+  const pixels = width * height;
+  return pixels <= 1_000_000 ? 3 : pixels <= 4_000_000 ? 2 : 1;
+}
+
+/**
+ * A minimal software rasterizer: filled polygons (scanline, even-odd),
+ * thick polylines, circles and bitmap text, anti-aliased by supersampling.
+ */
+class Canvas {
+  readonly width: number;
+  readonly height: number;
+  private readonly pixels: Float32Array;
+
+  constructor(width: number, height: number, background: Rgba) {
+    this.width = width;
+    this.height = height;
+    this.pixels = new Float32Array(width * height * 3);
+    for (let i = 0; i < width * height; i++) {
+      this.pixels[i * 3] = background.r;
+      this.pixels[i * 3 + 1] = background.g;
+      this.pixels[i * 3 + 2] = background.b;
+    }
+  }
+
+  private blend(x: number, y: number, color: Rgba) {
+    const i = (y * this.width + x) * 3;
+    this.pixels[i] += (color.r - this.pixels[i]) * color.a;
+    this.pixels[i + 1] += (color.g - this.pixels[i + 1]) * color.a;
+    this.pixels[i + 2] += (color.b - this.pixels[i + 2]) * color.a;
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: Rgba) {
+    const x0 = Math.max(0, Math.round(x));
+    const x1 = Math.min(this.width, Math.round(x + width));
+    const y0 = Math.max(0, Math.round(y));
+    const y1 = Math.min(this.height, Math.round(y + height));
+    for (let py = y0; py < y1; py++) {
+      for (let px = x0; px < x1; px++) this.blend(px, py, color);
+    }
+  }
+
+  fillPolygon(points: Point[], color: Rgba) {
+    if (points.length < 3) return;
+    const minY = Math.max(0, Math.floor(Math.min(...points.map(p => p[1]))));
+    const maxY = Math.min(this.height - 1, Math.ceil(Math.max(...points.map(p => p[1]))));
+
+    for (let py = minY; py <= maxY; py++) {
+      const sampleY = py + 0.5;
+      const crossings: number[] = [];
+      for (let i = 0; i < points.length; i++) {
+        const [x1, y1] = points[i];
+        const [x2, y2] = points[(i + 1) % points.length];
+        if ((y1 <= sampleY && y2 > sampleY) || (y2 <= sampleY && y1 > sampleY)) {
+          crossings.push(x1 + ((sampleY - y1) / (y2 - y1)) * (x2 - x1));
+        }
+      }
+      crossings.sort((a, b) => a - b);
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const start = Math.max(0, Math.ceil(crossings[i] - 0.5));
+        const end = Math.min(this.width - 1, Math.ceil(crossings[i + 1] - 0.5) - 1);
+        for (let px = start; px <= end; px++) this.blend(px, py, color);
+      }
+    }
+  }
+
+  fillCircle(cx: number, cy: number, r: number, color: Rgba) {
+    const x0 = Math.max(0, Math.floor(cx - r));
+    const x1 = Math.min(this.width - 1, Math.ceil(cx + r));
+    const y0 = Math.max(0, Math.floor(cy - r));
+    const y1 = Math.min(this.height - 1, Math.ceil(cy + r));
+    for (let py = y0; py <= y1; py++) {
+      for (let px = x0; px <= x1; px++) {
+        const dx = px + 0.5 - cx;
+        const dy = py + 0.5 - cy;
+        if (dx * dx + dy * dy <= r * r) this.blend(px, py, color);
+      }
+    }
+  }
+
+  strokePolyline(points: Point[], width: number, color: Rgba, dash?: number[]) {
+    const segments = dash && dash.length > 0 ? dashSegments(points, dash) : [points];
+    const half = width / 2;
+    segments.forEach(segment => {
+      for (let i = 0; i + 1 < segment.length; i++) {
+        const [x1, y1] = segment[i];
+        const [x2, y2] = segment[i + 1];
+        const length = Math.hypot(x2 - x1, y2 - y1);
+        if (length === 0) continue;
+        const nx = (-(y2 - y1) / length) * half;
+        const ny = ((x2 - x1) / length) * half;
+        this.fillPolygon([[x1 + nx, y1 + ny], [x2 + nx, y2 + ny], [x2 - nx, y2 - ny], [x1 - nx, y1 - ny]], color);
+      }
+      // Round joins; skipped for translucent strokes, where the overlap would show
+      if (color.a === 1 && width > 2) {
+        segment.slice(1, -1).forEach(([x, y]) => this.fillCircle(x, y, half, color));
+      }
+    });
+  }
+
+  drawText(shape: Extract<Shape, { kind: 'text' }>, scale: number, color: Rgba) {
+    const cell = shape.size * scale * (CAP_HEIGHT / GLYPH_ROWS);
+    const advance = shape.size * scale * CHAR_WIDTH;
+    const width = textWidth(shape.text, shape.size) * scale;
+    const offset = shape.anchor === 'middle' ? -width / 2 : shape.anchor === 'end' ? -width : 0;
+    const top = (textTop(shape) - shape.y) * scale;
+    const originX = shape.x * scale;
+    const originY = shape.y * scale;
+    const boldExtra = shape.bold ? cell * 0.5 : 0;
+
+    Array.from(shape.text).forEach((char, index) => {
+      const columns = glyphFor(char);
+      for (let col = 0; col < GLYPH_COLUMNS; col++) {
+        for (let row = 0; row < GLYPH_ROWS; row++) {
+          if (!(columns[col] & (1 << row))) continue;
+          // Position along and across the text direction, relative to the anchor point
+          const along = offset + index * advance + col * cell;
+          const across = top + row * cell;
+          if (shape.rotate === -90) {
+            this.fillRect(originX + across, originY - along - cell - boldExtra, cell, cell + boldExtra, color);
+          } else {
+            this.fillRect(originX + along, originY + across, cell + boldExtra, cell, color);
+          }
+        }
+      }
+    });
+  }
+
+  /** Averages each `factor`×`factor` block into one opaque RGBA pixel. */
+  downsample(factor: number): Uint8ClampedArray {
+    const width = Math.floor(this.width / factor);
+    const height = Math.floor(this.height / factor);
+    const out = new Uint8ClampedArray(width * height * 4);
+    const area = factor * factor;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let r = 0;
+        let g = 0;
+        let b = 0;
+        for (let dy = 0; dy < factor; dy++) {
+          for (let dx = 0; dx < factor; dx++) {
+            const i = ((y * factor + dy) * this.width + x * factor + dx) * 3;
+            r += this.pixels[i];
+            g += this.pixels[i + 1];
+            b += this.pixels[i + 2];
+          }
+        }
+        const o = (y * width + x) * 4;
+        out[o] = Math.round(r / area);
+        out[o + 1] = Math.round(g / area);
+        out[o + 2] = Math.round(b / area);
+        out[o + 3] = 255;
+      }
+    }
+    return out;
+  }
+}
+
+function dashSegments(points: Point[], dash: number[]): Point[][] {
+  const segments: Point[][] = [];
+  let dashIndex = 0;
+  let remaining = dash[0];
+  let drawing = true;
+  let current: Point[] = [points[0]];
+
+  for (let i = 0; i + 1 < points.length; i++) {
+    let [x, y] = points[i];
+    const [x2, y2] = points[i + 1];
+    let length = Math.hypot(x2 - x, y2 - y);
+    while (length > 0) {
+      const step = Math.min(remaining, length);
+      x += ((x2 - x) / length) * step;
+      y += ((y2 - y) / length) * step;
+      length -= step;
+      remaining -= step;
+      if (drawing) current.push([x, y]);
+      if (remaining <= 0) {
+        if (drawing) segments.push(current);
+        drawing = !drawing;
+        dashIndex = (dashIndex + 1) % dash.length;
+        remaining = dash[dashIndex];
+        current = [[x, y]];
+      }
+    }
+  }
+  if (drawing && current.length > 1) segments.push(current);
+  return segments;
+}
+
+/** Renders a scene to 8-bit RGBA pixels at its nominal size. */
+export function rasterize(scene: Scene): { width: number; height: number; pixels: Uint8ClampedArray } {
+  const s = supersampleFactor(scene.width, scene.height);
+  const canvas = new Canvas(scene.width * s, scene.height * s, parseColor(scene.background) ?? { r: 255, g: 255, b: 255, a: 1 });
+  const scale = (points: Point[]): Point[] => points.map(([x, y]) => [x * s, y * s]);
+
+  scene.shapes.forEach(shape => {
+    switch (shape.kind) {
+      case 'rect': {
+        const fill = shape.fill ? parseColor(shape.fill, shape.opacity) : null;
+        if (fill) canvas.fillRect(shape.x * s, shape.y * s, shape.width * s, shape.height * s, fill);
+        const stroke = shape.stroke ? parseColor(shape.stroke, shape.opacity) : null;
+        if (stroke) {
+          const { x, y, width, height } = shape;
+          canvas.strokePolyline(scale([[x, y], [x + width, y], [x + width, y + height], [x, y + height], [x, y]]), (shape.strokeWidth ?? 1) * s, stroke);
+        }
+        break;
+      }
+      case 'line': {
+        const stroke = parseColor(shape.stroke, shape.opacity);
+        if (stroke) canvas.strokePolyline(scale(shape.points), shape.strokeWidth * s, stroke, shape.dash?.map(d => d * s));
+        break;
+      }
+      case 'circle': {
+        const fill = shape.fill ? parseColor(shape.fill, shape.opacity) : null;
+        if (fill) canvas.fillCircle(shape.cx * s, shape.cy * s, shape.r * s, fill);
+        const stroke = shape.stroke ? parseColor(shape.stroke, shape.opacity) : null;
+        if (stroke) {
+          const outline = wedgePoints({ ...shape, startAngle: 0, endAngle: 2 * Math.PI }).slice(1);
+          canvas.strokePolyline(scale(outline), (shape.strokeWidth ?? 1) * s, stroke);
+        }
+        break;
+      }
+      case 'polygon': {
+        const fill = parseColor(shape.fill, shape.opacity);
+        if (fill) canvas.fillPolygon(scale(shape.points), fill);
+        break;
+      }
+      case 'wedge': {
+        const outline = scale(wedgePoints(shape));
+        const fill = parseColor(shape.fill);
+        if (fill) canvas.fillPolygon(outline, fill);
+        const stroke = shape.stroke ? parseColor(shape.stroke) : null;
+        if (stroke) canvas.strokePolyline([...outline, outline[0]], (shape.strokeWidth ?? 1) * s, stroke);
+        break;
+      }
+      case 'text': {
+        const fill = parseColor(shape.fill);
+        if (fill) canvas.drawText(shape, s, fill);
+        break;
+      }
+    }
+  });
+
+  return { width: scene.width, height: scene.height, pixels: canvas.downsample(s) };
+}
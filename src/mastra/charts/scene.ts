@@ -0,0 +1,68 @@
+export type Point = [number, number];
+
+export type TextAnchor = 'start' | 'middle' | 'end';
+export type TextAlign = 'top' | 'middle' | 'bottom';
+
+/**
+ * Drawing primitives shared by the SVG writer and the rasterizer. Angles are
+ * in radians, clockwise from 12 o'clock; coordinates are in pixels from the
+ * top-left corner.
+ */
+export type Shape =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; fill?: string; stroke?: string; strokeWidth?: number; opacity?: number }
+  | { kind: 'line'; points: Point[]; stroke: string; strokeWidth: number; dash?: number[]; opacity?: number }
+  | { kind: 'circle'; cx: number; cy: number; r: number; fill?: string; stroke?: string; strokeWidth?: number; opacity?: number }
+  | { kind: 'polygon'; points: Point[]; fill: string; opacity?: number }
+  | { kind: 'wedge'; cx: number; cy: number; r: number; startAngle: number; endAngle: number; fill: string; stroke?: string; strokeWidth?: number }
+  | { kind: 'text'; x: number; y: number; text: string; size: number; fill: string; anchor: TextAnchor; align: TextAlign; rotate?: -90; bold?: boolean };
+
+export interface Scene {
+  width: number;
+  height: number;
+  background: string;
+  shapes: Shape[];
+  fontFamily?: string;
+  /** Accessible name and description, written to SVG as its title and desc. */
+  title?: string;
+  description?: string;
+}
+
+export const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+
+// Both renderers lay text out on the same fixed advance so measurements agree
+export const CHAR_WIDTH = 0.6;
+export const CAP_HEIGHT = 0.7;
+
+export function textWidth(text: string, size: number): number {
+  return text.length * size * CHAR_WIDTH;
+}
+
+/** Shortens `text` with an ellipsis so it fits in `maxWidth` pixels. */
+export function fitText(text: string, size: number, maxWidth: number): string {
+  if (textWidth(text, size) <= maxWidth) return text;
+  const chars = Math.max(1, Math.floor(maxWidth / (size * CHAR_WIDTH)) - 1);
+  return text.slice(0, chars) + '…';
+}
+
+/** Top edge of the capital letters of a text shape. */
+export function textTop(shape: { y: number; size: number; align: TextAlign }): number {
+  switch (shape.align) {
+    case 'top':
+      return shape.y;
+    case 'middle':
+      return shape.y - (shape.size * CAP_HEIGHT) / 2;
+    case 'bottom':
+      return shape.y - shape.size * CAP_HEIGHT;
+  }
+}
+
+/** Points along the outline of a pie wedge, starting at the centre. */
+export function wedgePoints(shape: { cx: number; cy: number; r: number; startAngle: number; endAngle: number }): Point[] {
+  const steps = Math.max(2, Math.ceil(((shape.endAngle - shape.startAngle) / (2 * Math.PI)) * 180));
+  const points: Point[] = [[shape.cx, shape.cy]];
+  for (let i = 0; i <= steps; i++) {
+    const angle = shape.startAngle + ((shape.endAngle - shape.startAngle) * i) / steps;
+    points.push([shape.cx + shape.r * Math.sin(angle), shape.cy - shape.r * Math.cos(angle)]);
+  }
+  return points;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { inferSchema } from '../data/typeInference';
+import { MAX_PIE_SLICES, suggestCharts } from './suggestions';
+
+const regions = ['North', 'South', 'East', 'West'];
+const products = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'];
+
+// Four months of orders; revenue has a long right tail and tracks units
+const orders = Array.from({ length: 120 }, (_, i) => ({
+  order_id: i + 1,
+  day: `2024-0${1 + Math.floor(i / 30)}-${String((i % 28) + 1).padStart(2, '0')}`,
+  region: regions[i % 4],
+  product: products[i % 10],
+  units: (i % 7) + 1,
+  revenue: ((i % 7) + 1) * (i % 10 === 0 ? 500 : 10) + (i % 3),
+}));
+
+const suggest = (data: Record<string, any>[], options: Parameters<typeof suggestCharts>[2] = {}) =>
+  suggestCharts(data, inferSchema(data, Object.keys(data[0])), options);
+
+describe('suggestCharts', () => {
+  it('returns ranked, complete specs with rationales', () => {
+    const suggestions = suggest(orders);
+    expect(suggestions.map(suggestion => suggestion.rank)).toEqual([1, 2, 3, 4, 5]);
+    const scores = suggestions.map(suggestion => suggestion.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    suggestions.forEach(({ spec, rationale }) => {
+      expect(spec).toMatchObject({ chartType: expect.any(String), xAxis: expect.any(String), yAxis: expect.any(String), title: expect.any(String) });
+      expect(rationale.length).toBeGreaterThan(20);
+    });
+    // Identifiers are never charted
+    expect(suggestions.flatMap(({ spec }) => [spec.xAxis, spec.yAxis])).not.toContain('order_id');
+  });
+
+  it('draws trends as lines over dates, bucketed to a readable period', () => {
+    const [top] = suggest(orders, { goal: 'trend' });
+    expect(top.spec).toMatchObject({ chartType: 'line', xAxis: 'day', yAxis: 'units', aggregation: 'sum', timeUnit: 'week' });
+    expect(top.goal).toBe('trend');
+  });
+
+  it('uses pies only up to the slice limit and sorted bars beyond it', () => {
+    const composition = suggest(orders, { goal: 'composition', max: 10 });
+    const pies = composition.filter(({ spec }) => spec.chartType === 'pie');
+    expect(pies.map(({ spec }) => spec.xAxis)).toEqual(['region']);
+    expect(composition).toContainEqual(expect.objectContaining({
+      spec: expect.objectContaining({ chartType: 'bar', xAxis: 'product', sort: 'y-desc' }),
+      rationale: expect.stringContaining(`too many slices for a pie (more than ${MAX_PIE_SLICES})`),
+    }));
+  });
+
+  it('puts heavily skewed positive measures on a log scale', () => {
+    const distribution = suggest(orders, { goal: 'distribution', max: 10 });
+    const box = distribution.find(({ spec }) => spec.chartType === 'box' && spec.yAxis === 'revenue')!;
+    expect(box.spec.options).toEqual({ logScale: 'y' });
+    expect(box.rationale).toMatch(/revenue is heavily skewed \(skewness \d+\.\d\), so a log scale keeps small values visible/);
+    const scatter = suggest(orders, { goal: 'relationship' })[0];
+    expect(scatter.spec).toMatchObject({ chartType: 'scatter', xAxis: 'units', yAxis: 'revenue', options: { logScale: 'y' } });
+  });
+
+  it('suggests a histogram first for a single numeric column', () => {
+    const [top] = suggest([3, 5, 8, 13, 21, 34, 55].map(score => ({ score })));
+    expect(top).toMatchObject({ rank: 1, goal: 'distribution', spec: { chartType: 'histogram', xAxis: 'score' } });
+  });
+
+  it('falls back to every goal when the data has no chart for the one asked', () => {
+    const suggestions = suggest([1, 2, 3, 4].map(value => ({ value })), { goal: 'trend' });
+    expect(suggestions[0].spec.chartType).toBe('histogram');
+  });
+});
@@ -0,0 +1,344 @@
+import { Period, PERIODS, toDate } from '../data/dates';
+import { stratifiedSample } from '../data/sampling';
+import { ColumnSchema, isNumericType } from '../data/typeInference';
+import { toNumber } from '../sql/functions';
+import { correlate, describe } from '../stats';
+import { BarMode, ChartType } from './types';
+
+export type AnalysisGoal = 'comparison' | 'trend' | 'distribution' | 'composition' | 'relationship';
+
+export const ANALYSIS_GOALS: AnalysisGoal[] = ['comparison', 'trend', 'distribution', 'composition', 'relationship'];
+
+/** Pies with more slices than this are hard to read; a sorted bar chart is suggested instead. */
+export const MAX_PIE_SLICES = 7;
+
+/** A chart the visualization tool can draw as it is: its fields are the tool's own inputs. */
+export interface ChartSpec {
+  chartType: ChartType;
+  xAxis: string;
+  yAxis: string;
+  title: string;
+  groupBy?: string;
+  valueColumn?: string;
+  aggregation?: 'sum' | 'mean' | 'count';
+  sort?: 'x-asc' | 'y-desc';
+  timeUnit?: Period;
+  options?: { logScale?: 'x' | 'y' | 'both'; barMode?: BarMode };
+}
+
+export interface ChartSuggestion {
+  rank: number;
+  /** How well the chart fits the data and goal, from 0 to 1. */
+  score: number;
+  goal: AnalysisGoal;
+  spec: ChartSpec;
+  rationale: string;
+}
+
+// Columns are profiled on an even sample of the rows
+const PROFILE_ROWS = 10000;
+// Categories beyond these make bars, series and heatmap rows hard to tell apart
+const MAX_BAR_CATEGORIES = 30;
+const MAX_SERIES = 6;
+const MAX_BOX_CATEGORIES = 12;
+const MAX_HEATMAP_CATEGORIES = 25;
+// Positive columns at least this skewed get a log scale
+const LOG_SKEWNESS = 2;
+// Time buckets a trend line should have at most
+const MAX_TREND_POINTS = 60;
+
+const ADDITIVE_NAME = /amount|revenue|sales|total|count|qty|quantity|units|cost|profit|spend|volume|orders/i;
+const IDENTIFIER_NAME = /^id$|[_\s-]id$|[a-z]Id$|^(uuid|guid|key)$/i;
+
+interface NumericColumn {
+  name: string;
+  values: (number | null)[];
+  skewness: number | null;
+  positive: boolean;
+  additive: boolean;
+}
+
+interface CategoricalColumn {
+  name: string;
+  distinct: number;
+}
+
+interface DateColumn {
+  name: string;
+  span: [number, number];
+  distinct: number;
+}
+
+interface Profile {
+  rowCount: number;
+  numeric: NumericColumn[];
+  categorical: CategoricalColumn[];
+  dates: DateColumn[];
+}
+
+function profileColumns(data: Record<string, any>[], schema: ColumnSchema[]): Profile {
+  const rows = data.length > PROFILE_ROWS ? stratifiedSample(data, PROFILE_ROWS).rows : data;
+  const profile: Profile = { rowCount: data.length, numeric: [], categorical: [], dates: [] };
+  schema.forEach(column => {
+    const raw = rows.map(row => row[column.name]);
+    const present = raw.filter(value => value !== null && value !== undefined && value !== '');
+    if (present.length === 0) return;
+    const distinct = new Set(present.map(value => String(value))).size;
+
+    if (column.type === 'date' || column.type === 'datetime') {
+      const times = present.map(value => toDate(value)?.getTime()).filter((time): time is number => time !== undefined);
+      if (times.length > 0) {
+        profile.dates.push({ name: column.name, span: [Math.min(...times), Math.max(...times)], distinct });
+      }
+    } else if (isNumericType(column.type) && distinct > 2 && !IDENTIFIER_NAME.test(column.name)) {
+      const values = raw.map(toNumber);
+      const numbers = values.filter((value): value is number => value !== null);
+      if (numbers.length < 3) return;
+      profile.numeric.push({
+        name: column.name,
+        values,
+        skewness: describe(numbers).skewness,
+        positive: numbers.every(value => value > 0),
+        additive: column.type === 'currency' || ADDITIVE_NAME.test(column.name),
+      });
+    } else if ((column.type === 'categorical' || column.type === 'boolean' || column.type === 'text' || isNumericType(column.type)) &&
+      distinct >= 2 && distinct <= MAX_BAR_CATEGORIES * 2 && !IDENTIFIER_NAME.test(column.name)) {
+      // Small sets of numbers, such as ratings, are treated as categories too
+      profile.categorical.push({ name: column.name, distinct });
+    }
+  });
+  return profile;
+}
+
+const isSkewed = (column: NumericColumn) => column.skewness !== null && Math.abs(column.skewness) >= LOG_SKEWNESS;
+const canLog = (column: NumericColumn) => column.positive && column.skewness !== null && column.skewness >= LOG_SKEWNESS;
+const aggregationOf = (column: NumericColumn): 'sum' | 'mean' => (column.additive ? 'sum' : 'mean');
+const aggregationLabel = (column: NumericColumn) => (column.additive ? 'Total' : 'Average');
+const skewNote = (column: NumericColumn) =>
+  `${column.name} is heavily skewed (skewness ${column.skewness!.toFixed(1)}), so a log scale keeps small values visible`;
+
+/** The finest period that gives at most MAX_TREND_POINTS buckets over the span. */
+function trendPeriod(span: [number, number]): Period {
+  const days = (span[1] - span[0]) / 86400000;
+  const buckets: Record<Period, number> = { hour: days * 24, day: days, week: days / 7, month: days / 30.44, quarter: days / 91.3, year: days / 365.25 };
+  return PERIODS.find(period => buckets[period] <= MAX_TREND_POINTS) ?? 'year';
+}
+
+type Candidate = Omit<ChartSuggestion, 'rank'>;
+
+function distributionCharts(profile: Profile): Candidate[] {
+  const candidates: Candidate[] = [];
+  profile.numeric.forEach(column => {
+    // A lone numeric column is best shown as a histogram
+    const alone = profile.numeric.length === 1;
+    candidates.push({
+      goal: 'distribution',
+      score: alone ? 0.95 : isSkewed(column) ? 0.7 : 0.75,
+      spec: { chartType: 'histogram', xAxis: column.name, yAxis: column.name, title: `Distribution of ${column.name}` },
+      rationale: `A histogram shows the shape, spread and outliers of the numeric column ${column.name}` +
+        (isSkewed(column) ? `; its values are skewed (skewness ${column.skewness!.toFixed(1)}), with a long tail to the ${column.skewness! > 0 ? 'right' : 'left'}.` : '.'),
+    });
+    const group = profile.categorical.find(category => category.distinct <= MAX_BOX_CATEGORIES);
+    if (group) {
+      candidates.push({
+        goal: 'distribution',
+        score: canLog(column) ? 0.8 : 0.7,
+        spec: {
+          chartType: 'box', xAxis: group.name, yAxis: column.name, title: `${column.name} by ${group.name}`,
+          ...(canLog(column) ? { options: { logScale: 'y' } } : {}),
+        },
+        rationale: `Box plots compare the median, quartiles and range of ${column.name} across the ${group.distinct} values of ${group.name}` +
+          (canLog(column) ? `; ${skewNote(column)}.` : '.'),
+      });
+    }
+  });
+  return candidates;
+}
+
+function trendCharts(profile: Profile): Candidate[] {
+  const candidates: Candidate[] = [];
+  profile.dates.filter(date => date.distinct >= 3).forEach(date => {
+    const timeUnit = trendPeriod(date.span);
+    const measures = profile.numeric.slice(0, 3);
+    measures.forEach((column, i) => {
+      const series = profile.categorical.find(category => category.distinct <= MAX_SERIES);
+      candidates.push({
+        goal: 'trend',
+        score: 0.9 - i * 0.05,
+        spec: {
+          chartType: 'line', xAxis: date.name, yAxis: column.name, aggregation: aggregationOf(column), timeUnit,
+          title: `${aggregationLabel(column)} ${column.name} by ${timeUnit}`,
+        },
+        rationale: `A line over ${date.name}, bucketed by ${timeUnit}, shows how the ${aggregationOf(column)} of ${column.name} changes over time.`,
+      });
+      if (series && i === 0) {
+        candidates.push({
+          goal: 'trend',
+          score: 0.8,
+          spec: {
+            chartType: 'line', xAxis: date.name, yAxis: column.name, groupBy: series.name, aggregation: aggregationOf(column), timeUnit,
+            title: `${aggregationLabel(column)} ${column.name} by ${timeUnit} and ${series.name}`,
+          },
+          rationale: `One line per ${series.name} (${series.distinct} values) compares their trends in ${column.name} over time.`,
+        });
+      }
+    });
+    if (measures.length === 0) {
+      candidates.push({
+        goal: 'trend',
+        score: 0.75,
+        spec: { chartType: 'line', xAxis: date.name, yAxis: date.name, aggregation: 'count', timeUnit, title: `Rows per ${timeUnit}` },
+        rationale: `There is no numeric measure, so counting rows per ${timeUnit} of ${date.name} shows how activity changes over time.`,
+      });
+    }
+  });
+  return candidates;
+}
+
+function comparisonCharts(profile: Profile): Candidate[] {
+  const candidates: Candidate[] = [];
+  profile.categorical.forEach((category, c) => {
+    const crowded = category.distinct > MAX_BAR_CATEGORIES;
+    profile.numeric.slice(0, 3).forEach((column, i) => {
+      candidates.push({
+        goal: 'comparison',
+        score: (crowded ? 0.5 : 0.85) - c * 0.05 - i * 0.05,
+        spec: {
+          chartType: 'bar', xAxis: category.name, yAxis: column.name, aggregation: aggregationOf(column), sort: 'y-desc',
+          title: `${aggregationLabel(column)} ${column.name} by ${category.name}`,
+        },
+        rationale: `Bars sorted by value rank the ${category.distinct} values of ${category.name} by the ${aggregationOf(column)} of ${column.name}` +
+          (crowded ? '; with this many categories, consider filtering to the largest first.' : '.'),
+      });
+    });
+    if (profile.numeric.length === 0) {
+      candidates.push({
+        goal: 'comparison',
+        score: crowded ? 0.45 : 0.7 - c * 0.05,
+        spec: { chartType: 'bar', xAxis: category.name, yAxis: category.name, aggregation: 'count', sort: 'y-desc', title: `Rows by ${category.name}` },
+        rationale: `Counting rows per value of ${category.name} compares how often each of its ${category.distinct} values occurs.`,
+      });
+    }
+  });
+  return candidates;
+}
+
+function compositionCharts(profile: Profile): Candidate[] {
+  const candidates: Candidate[] = [];
+  const additive = profile.numeric.find(column => column.additive && column.positive) ?? profile.numeric.find(column => column.positive);
+  profile.categorical.forEach((category, c) => {
+    const yAxis = additive?.name ?? category.name;
+    const aggregation = additive ? 'sum' : 'count';
+    const measure = additive ? `total ${additive.name}` : 'rows';
+    if (category.distinct <= MAX_PIE_SLICES) {
+      candidates.push({
+        goal: 'composition',
+        score: 0.85 - c * 0.05,
+        spec: { chartType: 'pie', xAxis: category.name, yAxis, aggregation, title: `Share of ${measure} by ${category.name}` },
+        rationale: `With ${category.distinct} slices (at most ${MAX_PIE_SLICES}), a pie shows each ${category.name}'s share of the ${measure}.`,
+      });
+    } else if (category.distinct <= MAX_BAR_CATEGORIES) {
+      candidates.push({
+        goal: 'composition',
+        score: 0.75 - c * 0.05,
+        spec: { chartType: 'bar', xAxis: category.name, yAxis, aggregation, sort: 'y-desc', title: `Share of ${measure} by ${category.name}` },
+        rationale: `${category.name} has ${category.distinct} values, too many slices for a pie (more than ${MAX_PIE_SLICES}), so sorted bars show the parts instead.`,
+      });
+    }
+    const date = profile.dates.find(candidate => candidate.distinct >= 3);
+    if (date && category.distinct <= MAX_SERIES + 2) {
+      const timeUnit = trendPeriod(date.span);
+      candidates.push({
+        goal: 'composition',
+        score: 0.7 - c * 0.05,
+        spec: {
+          chartType: 'bar', xAxis: date.name, yAxis, groupBy: category.name, aggregation, timeUnit,
+          title: `${additive ? `Total ${additive.name}` : 'Rows'} by ${timeUnit}, stacked by ${category.name}`,
+          options: { barMode: 'stacked' },
+        },
+        rationale: `Stacked bars per ${timeUnit} show how the mix of ${category.name} within the ${measure} changes over time.`,
+      });
+    }
+  });
+  return candidates;
+}
+
+function relationshipCharts(profile: Profile): Candidate[] {
+  const candidates: Candidate[] = [];
+  const numeric = profile.numeric.slice(0, 8);
+  numeric.forEach((x, i) => numeric.slice(i + 1).forEach(y => {
+    const { r } = correlate(x.values, y.values, 'spearman');
+    // Fewer than three shared rows or a constant column leave nothing to plot against
+    if (r === null) return;
+    const logX = canLog(x);
+    const logY = canLog(y);
+    const logScale = logX && logY ? 'both' : logX ? 'x' : logY ? 'y' : undefined;
+    const group = profile.categorical.find(category => category.distinct <= MAX_SERIES);
+    const strength = Math.abs(r) >= 0.7 ? 'strong' : Math.abs(r) >= 0.4 ? 'moderate' : 'weak';
+    candidates.push({
+      goal: 'relationship',
+      score: 0.55 + 0.4 * Math.abs(r),
+      spec: {
+        chartType: 'scatter', xAxis: x.name, yAxis: y.name, title: `${y.name} against ${x.name}`,
+        ...(group ? { groupBy: group.name } : {}),
+        ...(logScale ? { options: { logScale } } : {}),
+      },
+      rationale: `${x.name} and ${y.name} have a ${strength} rank correlation (Spearman ${r.toFixed(2)}); a scatter plot shows its shape and any outliers` +
+        (group ? `, coloured by ${group.name}` : '') +
+        (logScale ? `. ${[logX ? x : undefined, logY ? y : undefined].filter(Boolean).map(column => column!.name).join(' and ')} ${logScale === 'both' ? 'are' : 'is'} heavily skewed, so ${logScale === 'both' ? 'both axes use' : 'that axis uses'} a log scale.` : '.'),
+    });
+  }));
+  const grid = profile.categorical.filter(category => category.distinct <= MAX_HEATMAP_CATEGORIES);
+  if (grid.length >= 2) {
+    const [rows, columns] = grid;
+    candidates.push({
+      goal: 'relationship',
+      score: 0.6,
+      spec: { chartType: 'heatmap', xAxis: columns.name, yAxis: rows.name, title: `Rows by ${rows.name} and ${columns.name}` },
+      rationale: `A heatmap of row counts shows which combinations of ${rows.name} and ${columns.name} occur together.`,
+    });
+  }
+  return candidates;
+}
+
+const GOAL_CHARTS: Record<AnalysisGoal, (profile: Profile) => Candidate[]> = {
+  comparison: comparisonCharts,
+  trend: trendCharts,
+  distribution: distributionCharts,
+  composition: compositionCharts,
+  relationship: relationshipCharts,
+};
+
+/**
+ * Ranks complete chart specs for a dataset from its column types,
+ * cardinalities and distributions: histograms and box plots for
+ * distributions, lines over dates for trends, sorted bars for comparisons,
+ * pies (up to MAX_PIE_SLICES slices) or bars for composition and scatter
+ * plots ordered by rank correlation for relationships. Heavily skewed
+ * positive measures get a log scale on box and scatter plots, which draw the
+ * raw values rather than aggregates. With a
+ * goal only its charts are considered, unless the data has none.
+ */
+export function suggestCharts(
+  data: Record<string, any>[],
+  schema: ColumnSchema[],
+  options: { goal?: AnalysisGoal; max?: number } = {},
+): ChartSuggestion[] {
+  const profile = profileColumns(data, schema);
+  const generate = (goals: AnalysisGoal[]) => goals.flatMap(goal => GOAL_CHARTS[goal](profile));
+  let candidates = options.goal ? generate([options.goal]) : [];
+  if (candidates.length === 0) candidates = generate(ANALYSIS_GOALS);
+
+  // The same chart can come from two goals; the better-scored one is kept
+  const seen = new Set<string>();
+  return candidates
+    .sort((a, b) => b.score - a.score)
+    .filter(candidate => {
+      const key = JSON.stringify([candidate.spec.chartType, candidate.spec.xAxis, candidate.spec.yAxis, candidate.spec.groupBy]);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, options.max ?? 5)
+    .map((candidate, i) => ({ rank: i + 1, ...candidate, score: Math.round(candidate.score * 100) / 100 }));
+}
@@ -0,0 +1,84 @@
+import { CAP_HEIGHT, FONT_FAMILY, Scene, Shape, textTop } from './scene';
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+function attrs(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${typeof value === 'number' ? num(value) : escapeXml(value!)}"`)
+    .join('');
+}
+
+function renderShape(shape: Shape): string {
+  switch (shape.kind) {
+    case 'rect':
+      return `<rect${attrs({
+        x: shape.x, y: shape.y, width: shape.width, height: shape.height,
+        fill: shape.fill ?? 'none', stroke: shape.stroke, 'stroke-width': shape.stroke ? shape.strokeWidth ?? 1 : undefined,
+        opacity: shape.opacity,
+      })}/>`;
+    case 'line':
+      return `<polyline${attrs({
+        points: shape.points.map(([x, y]) => `${num(x)},${num(y)}`).join(' '),
+        fill: 'none', stroke: shape.stroke, 'stroke-width': shape.strokeWidth,
+        'stroke-dasharray': shape.dash?.join(' '), 'stroke-linejoin': 'round', 'stroke-linecap': 'round',
+        opacity: shape.opacity,
+      })}/>`;
+    case 'circle':
+      return `<circle${attrs({
+        cx: shape.cx, cy: shape.cy, r: shape.r,
+        fill: shape.fill ?? 'none', stroke: shape.stroke, 'stroke-width': shape.stroke ? shape.strokeWidth ?? 1 : undefined,
+        opacity: shape.opacity,
+      })}/>`;
+    case 'polygon':
+      return `<polygon${attrs({
+        points: shape.points.map(([x, y]) => `${num(x)},${num(y)}`).join(' '),
+        fill: shape.fill, opacity: shape.opacity,
+      })}/>`;
+    case 'wedge': {
+      const { cx, cy, r, startAngle, endAngle } = shape;
+      const at = (angle: number) => `${num(cx + r * Math.sin(angle))} ${num(cy - r * Math.cos(angle))}`;
+      const style = { fill: shape.fill, stroke: shape.stroke, 'stroke-width': shape.stroke ? shape.strokeWidth ?? 1 : undefined };
+      // A single path cannot draw a full circle arc
+      if (endAngle - startAngle >= 2 * Math.PI - 1e-9) {
+        return `<circle${attrs({ cx, cy, r, ...style })}/>`;
+      }
+      const largeArc = endAngle - startAngle > Math.PI ? 1 : 0;
+      return `<path${attrs({ d: `M ${num(cx)} ${num(cy)} L ${at(startAngle)} A ${num(r)} ${num(r)} 0 ${largeArc} 1 ${at(endAngle)} Z`, ...style })}/>`;
+    }
+    case 'text': {
+      // Anchor on the alphabetic baseline, which every SVG viewer supports
+      const baseline = textTop(shape) + shape.size * CAP_HEIGHT;
+      return `<text${attrs({
+        x: shape.x, y: baseline, 'font-size': shape.size, fill: shape.fill,
+        'text-anchor': shape.anchor, 'font-weight': shape.bold ? 'bold' : undefined,
+        transform: shape.rotate ? `rotate(${shape.rotate} ${num(shape.x)} ${num(shape.y)})` : undefined,
+      })}>${escapeXml(shape.text)}</text>`;
+    }
+  }
+}
+
+/** Serialises a scene as a standalone SVG document, labelled for screen readers when the scene has a title. */
+export function renderSvg(scene: Scene): string {
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg"${attrs({
+      width: scene.width, height: scene.height, viewBox: `0 0 ${scene.width} ${scene.height}`,
+      'font-family': scene.fontFamily ?? FONT_FAMILY,
+      role: 'img',
+    })}>`,
+    // A leading title and desc name and describe the image without ids, which would clash between charts on one page
+    ...(scene.title ? [`<title>${escapeXml(scene.title)}</title>`] : []),
+    ...(scene.description ? [`<desc>${escapeXml(scene.description)}</desc>`] : []),
+    `<rect width="100%" height="100%"${attrs({ fill: scene.background })}/>`,
+    ...scene.shapes.map(renderShape),
+    '</svg>',
+  ].join('\n');
+}
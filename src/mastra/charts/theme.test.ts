@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { checkContrast, contrastRatio, luminance, mixColors, PALETTES, seriesColors, THEMES } from './theme';
+import { ChartConfig } from './types';
+
+const chart = (options: Partial<ChartConfig['options']>, series = ['a', 'b', 'c']): ChartConfig => ({
+  type: 'bar',
+  data: series.map(name => ({ x: 'Q1', series: name, y: 1 })),
+  series,
+  options: { title: 't', xAxis: { label: 'x' }, yAxis: { label: 'y' }, color: '#3B82F6', width: 400, height: 300, showLegend: true, ...options },
+});
+
+describe('contrast', () => {
+  it('follows the WCAG luminance and contrast formulas', () => {
+    expect(luminance('#FFFFFF')).toBe(1);
+    expect(luminance('#000000')).toBe(0);
+    expect(contrastRatio('#000000', '#FFFFFF')).toBe(21);
+    // #767676 is the lightest grey that passes 4.5:1 on white
+    expect(contrastRatio('#767676', '#FFFFFF')).toBeCloseTo(4.54, 2);
+    expect(contrastRatio('#FFFFFF', '#767676')).toBe(contrastRatio('#767676', '#FFFFFF'));
+    expect(mixColors('#000000', '#FFFFFF', 0.5)).toBe('#808080');
+  });
+
+  it('gives every theme readable text', () => {
+    Object.entries(THEMES).forEach(([name, theme]) => {
+      expect(contrastRatio(theme.text, theme.background), name).toBeGreaterThanOrEqual(4.5);
+      expect(contrastRatio(theme.mutedText, theme.background), name).toBeGreaterThanOrEqual(4.5);
+    });
+  });
+
+  it('flags series colours below 3:1 against the background', () => {
+    expect(checkContrast(chart({ color: '#F0E442' }, ['a']))).toEqual([
+      { element: 'a colour', color: '#F0E442', background: '#FFFFFF', ratio: 1.32, required: 3 },
+    ]);
+    // Okabe-Ito's orange and sky blue are too light for marks on white
+    expect(checkContrast(chart({ color: '#0072B2', palette: 'okabeIto' })).map(issue => issue.color)).toEqual(['#E69F00', '#56B4E9']);
+    expect(checkContrast(chart({ color: '#000000', theme: 'dark' }, ['a']))).toMatchObject([{ element: 'a colour', required: 3 }]);
+    expect(checkContrast(chart({ color: '#000000', theme: 'print' }, ['a']))).toEqual([]);
+  });
+});
+
+describe('palettes', () => {
+  it('starts with the chart colour and cycles through the palette without repeating it', () => {
+    const colors = seriesColors(chart({ color: '#56B4E9', palette: 'okabeIto' }), 9);
+    expect(colors.slice(0, 3)).toEqual(['#56B4E9', '#E69F00', '#009E73']);
+    expect(colors.filter(color => color === '#56B4E9')).toHaveLength(1);
+    expect(colors[8]).toBe('#E69F00');
+  });
+
+  it('falls back to the theme palette, which is colour-blind safe for print', () => {
+    expect(seriesColors(chart({ theme: 'print' }), 2)[1]).toBe(PALETTES.okabeIto.colors[0]);
+    expect(PALETTES[THEMES.print.palette].colorBlindSafe).toBe(true);
+  });
+
+  it('orders sequential palettes by lightness', () => {
+    Object.values(PALETTES).filter(palette => palette.kind === 'sequential').forEach(palette => {
+      const lightness = palette.colors.map(luminance);
+      const rising = lightness.every((value, i) => i === 0 || value > lightness[i - 1]);
+      const falling = lightness.every((value, i) => i === 0 || value < lightness[i - 1]);
+      expect(rising || falling).toBe(true);
+    });
+  });
+});
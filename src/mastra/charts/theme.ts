@@ -0,0 +1,235 @@
+import { ChartConfig } from './types';
+
+export type PaletteKind = 'categorical' | 'sequential' | 'diverging';
+
+export interface Palette {
+  kind: PaletteKind;
+  colors: string[];
+  /** Whether people with the common forms of colour blindness can tell the colours (or their order) apart. */
+  colorBlindSafe: boolean;
+}
+
+export const CATEGORICAL_PALETTES = ['default', 'okabeIto', 'tol', 'tableau10'] as const;
+export const SEQUENTIAL_PALETTES = ['viridis', 'cividis', 'blues', 'greys'] as const;
+export const DIVERGING_PALETTES = ['blueRed', 'purpleOrange', 'brownTeal'] as const;
+
+export type CategoricalPalette = (typeof CATEGORICAL_PALETTES)[number];
+export type SequentialPalette = (typeof SEQUENTIAL_PALETTES)[number];
+export type DivergingPalette = (typeof DIVERGING_PALETTES)[number];
+export type PaletteName = CategoricalPalette | SequentialPalette | DivergingPalette;
+
+export const PALETTES: Record<PaletteName, Palette> = {
+  default: {
+    kind: 'categorical',
+    colors: ['#3B82F6', '#F59E0B', '#10B981', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#F97316', '#6366F1', '#84CC16'],
+    colorBlindSafe: false,
+  },
+  // Okabe & Ito (2008), designed to stay distinct under every common colour vision deficiency
+  okabeIto: {
+    kind: 'categorical',
+    colors: ['#E69F00', '#56B4E9', '#009E73', '#F0E442', '#0072B2', '#D55E00', '#CC79A7', '#000000'],
+    colorBlindSafe: true,
+  },
+  // Paul Tol's bright scheme
+  tol: {
+    kind: 'categorical',
+    colors: ['#4477AA', '#EE6677', '#228833', '#CCBB44', '#66CCEE', '#AA3377', '#BBBBBB'],
+    colorBlindSafe: true,
+  },
+  tableau10: {
+    kind: 'categorical',
+    colors: ['#4E79A7', '#F28E2B', '#E15759', '#76B7B2', '#59A14F', '#EDC948', '#B07AA1', '#FF9DA7', '#9C755F', '#BAB0AC'],
+    colorBlindSafe: false,
+  },
+  // Sequential scales rise evenly in lightness, so they also read in greyscale
+  viridis: {
+    kind: 'sequential',
+    colors: ['#440154', '#472D7B', '#3B528B', '#2C728E', '#21918C', '#28AE80', '#5EC962', '#ADDC30', '#FDE725'],
+    colorBlindSafe: true,
+  },
+  cividis: {
+    kind: 'sequential',
+    colors: ['#00224E', '#123570', '#3B496C', '#575D6D', '#707173', '#8A8678', '#A59C74', '#C3B369', '#E1CC55', '#FEE838'],
+    colorBlindSafe: true,
+  },
+  blues: {
+    kind: 'sequential',
+    colors: ['#F7FBFF', '#DEEBF7', '#C6DBEF', '#9ECAE1', '#6BAED6', '#4292C6', '#2171B5', '#08519C', '#08306B'],
+    colorBlindSafe: true,
+  },
+  greys: {
+    kind: 'sequential',
+    colors: ['#FFFFFF', '#F0F0F0', '#D9D9D9', '#BDBDBD', '#969696', '#737373', '#525252', '#252525', '#000000'],
+    colorBlindSafe: true,
+  },
+  blueRed: {
+    kind: 'diverging',
+    colors: ['#2563EB', '#F8FAFC', '#DC2626'],
+    colorBlindSafe: true,
+  },
+  purpleOrange: {
+    kind: 'diverging',
+    colors: ['#542788', '#8073AC', '#B2ABD2', '#D8DAEB', '#F7F7F7', '#FEE0B6', '#FDB863', '#E08214', '#B35806'],
+    colorBlindSafe: true,
+  },
+  brownTeal: {
+    kind: 'diverging',
+    colors: ['#8C510A', '#BF812D', '#DFC27D', '#F6E8C3', '#F5F5F5', '#C7EAE5', '#80CDC1', '#35978F', '#01665E'],
+    colorBlindSafe: true,
+  },
+};
+
+export const THEME_NAMES = ['light', 'dark', 'print'] as const;
+
+export type ThemeName = (typeof THEME_NAMES)[number];
+
+export interface ChartTheme {
+  background: string;
+  text: string;
+  mutedText: string;
+  axis: string;
+  grid: string;
+  /** Dash pattern of gridlines; solid when omitted. */
+  gridDash?: number[];
+  /** Font of SVG text and library specs; PNGs always use the built-in bitmap font. */
+  fontFamily: string;
+  titleSize: number;
+  labelSize: number;
+  tickSize: number;
+  /** Series colours when the chart names no palette. */
+  palette: CategoricalPalette;
+  /** Low end of the default sequential heatmap scale, and middle of the default diverging one. */
+  heatmapLow: string;
+  missingCell: string;
+  highlight: string;
+}
+
+export const THEMES: Record<ThemeName, ChartTheme> = {
+  light: {
+    background: '#FFFFFF',
+    text: '#111827',
+    mutedText: '#4B5563',
+    axis: '#6B7280',
+    grid: '#E5E7EB',
+    fontFamily: 'Helvetica, Arial, sans-serif',
+    titleSize: 16,
+    labelSize: 12,
+    tickSize: 11,
+    palette: 'default',
+    heatmapLow: '#F8FAFC',
+    missingCell: '#F3F4F6',
+    highlight: '#DC2626',
+  },
+  dark: {
+    background: '#111827',
+    text: '#F9FAFB',
+    mutedText: '#D1D5DB',
+    axis: '#9CA3AF',
+    grid: '#374151',
+    fontFamily: 'Helvetica, Arial, sans-serif',
+    titleSize: 16,
+    labelSize: 12,
+    tickSize: 11,
+    palette: 'default',
+    heatmapLow: '#1F2937',
+    missingCell: '#374151',
+    highlight: '#F87171',
+  },
+  // Black on white with larger serif type and light dashed gridlines, in colours that survive greyscale printing
+  print: {
+    background: '#FFFFFF',
+    text: '#000000',
+    mutedText: '#333333',
+    axis: '#000000',
+    grid: '#BDBDBD',
+    gridDash: [2, 3],
+    fontFamily: 'Georgia, "Times New Roman", serif',
+    titleSize: 18,
+    labelSize: 13,
+    tickSize: 12,
+    palette: 'okabeIto',
+    heatmapLow: '#FFFFFF',
+    missingCell: '#EEEEEE',
+    highlight: '#000000',
+  },
+};
+
+export function chartTheme(config: ChartConfig): ChartTheme {
+  return THEMES[config.options.theme ?? 'light'];
+}
+
+/** The categorical colours of a chart: its palette, or its theme's. */
+export function paletteColors(config: ChartConfig): string[] {
+  return PALETTES[config.options.palette ?? chartTheme(config).palette].colors;
+}
+
+/** Series colours: the chart colour first, then the palette without it. */
+export function seriesColors(config: ChartConfig, count: number): string[] {
+  const base = config.options.color;
+  const rest = paletteColors(config).filter(color => color.toLowerCase() !== base.toLowerCase());
+  return Array.from({ length: count }, (_, i) => (i === 0 ? base : rest[(i - 1) % rest.length]));
+}
+
+export function rgbOf(color: string): [number, number, number] | null {
+  const match = /^#([0-9a-f]{6})$/i.exec(color);
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return [value >> 16, (value >> 8) & 0xff, value & 0xff];
+}
+
+export function mixColors(from: string, to: string, t: number): string {
+  const [a, b] = [rgbOf(from) ?? [255, 255, 255], rgbOf(to) ?? [0, 0, 0]];
+  return '#' + a.map((channel, i) => Math.round(channel + (b[i] - channel) * t).toString(16).padStart(2, '0')).join('');
+}
+
+/** WCAG relative luminance of a `#rrggbb` colour. */
+export function luminance(color: string): number {
+  const [r, g, b] = (rgbOf(color) ?? [255, 255, 255]).map(channel => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+export function contrastRatio(a: string, b: string): number {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+// WCAG 2.1 minimums: 4.5:1 for text (1.4.3) and 3:1 for graphical objects such as bars and lines (1.4.11)
+const TEXT_CONTRAST = 4.5;
+const GRAPHIC_CONTRAST = 3;
+
+export interface ContrastIssue {
+  element: string;
+  color: string;
+  background: string;
+  ratio: number;
+  required: number;
+}
+
+/**
+ * Checks the chart's text and mark colours against its background. Heatmap
+ * cells are left out: they label themselves in whichever text colour
+ * contrasts more.
+ */
+export function checkContrast(config: ChartConfig): ContrastIssue[] {
+  const theme = chartTheme(config);
+  const checks: { element: string; color: string; required: number }[] = [
+    { element: 'text', color: theme.text, required: TEXT_CONTRAST },
+    { element: 'axis labels', color: theme.mutedText, required: TEXT_CONTRAST },
+  ];
+  if (config.type !== 'heatmap') {
+    const count = config.type === 'pie'
+      ? new Set(config.data.map(d => String(d.label))).size
+      : Math.max(1, config.series.length);
+    seriesColors(config, count).forEach((color, i) => {
+      const name = config.type === 'pie' ? `slice ${i + 1}` : config.series[i] ?? 'series';
+      // Pie slices border each other rather than the background, but their legend swatches do not
+      checks.push({ element: `${name} colour`, color, required: GRAPHIC_CONTRAST });
+    });
+  }
+  return checks
+    .map(check => ({ ...check, background: theme.background, ratio: Math.round(contrastRatio(check.color, theme.background) * 100) / 100 }))
+    .filter(check => check.ratio < check.required);
+}
@@ -0,0 +1,78 @@
+import type { CategoricalPalette, DivergingPalette, SequentialPalette, ThemeName } from './theme';
+
+export type ChartType = 'bar' | 'line' | 'scatter' | 'pie' | 'histogram' | 'box' | 'heatmap';
+
+export type BarMode = 'grouped' | 'stacked';
+
+export interface ChartOptions {
+  title: string;
+  xAxis: { label: string };
+  yAxis: { label: string };
+  color: string;
+  width: number;
+  height: number;
+  showLegend: boolean;
+  barWidth?: number;
+  lineWidth?: number;
+  showPoints?: boolean;
+  pointSize?: number;
+  showPercentages?: boolean;
+  /** How bars (and histogram bins) of several series share a category. */
+  barMode?: BarMode;
+  /** Print each heatmap cell's value on it when it fits. */
+  showValues?: boolean;
+  /** Axes on a log scale: the value axis of line, scatter and box charts, and the x axis of scatter plots. */
+  logScale?: 'x' | 'y' | 'both';
+  /** Background, text, gridline and font settings; light by default. */
+  theme?: ThemeName;
+  /** Colours of the series after the first (which is `color`); defaults to the theme's palette. */
+  palette?: CategoricalPalette;
+  /** Heatmap colours for values of one sign; defaults to a ramp from the theme's background to `color`. */
+  sequentialPalette?: SequentialPalette;
+  /** Heatmap colours for values of both signs; defaults to blue through the theme's background to red. */
+  divergingPalette?: DivergingPalette;
+}
+
+/**
+ * Renderer-neutral chart description produced by the visualization tool.
+ * `data` holds the processed points for the chart type, in long format with
+ * one point per series (and per facet when the chart is faceted):
+ * - bar/line: `{ x, series, y, count }` per category
+ * - scatter: `{ x, y, series }`
+ * - pie: `{ label, value }`
+ * - histogram: `{ x, y, x0, x1, series }` per bin, `y` being the count
+ * - box: `{ x, series, min, q1, median, q3, max }` per category
+ * - heatmap: `{ x, y, value, count }` per cell, `x` and `y` being categories
+ * Faceted charts add a `facet` field to every point. Highlighted rows (such
+ * as detected anomalies) mark scatter and line points with `highlight: true`
+ * and list their values in `highlights` on box plots. Line charts can carry a
+ * `forecast` continuing the history, drawn dashed with its interval band.
+ */
+export interface ChartConfig {
+  type: ChartType;
+  data: any[];
+  options: ChartOptions;
+  /** Series names in drawing and legend order. */
+  series: string[];
+  /** Facet values, one small multiple each, when the chart is faceted. */
+  facets?: string[];
+  facetLabel?: string;
+  /** `time` places line chart points by their ISO date `x` instead of as evenly spaced categories. */
+  xScale?: 'category' | 'time';
+  /** Legend label for highlighted points. */
+  highlightLabel?: string;
+  /** Forecast points after the last `x`, with optional prediction interval bounds. */
+  forecast?: ForecastPoint[];
+  forecastLabel?: string;
+  /** Legend title of heatmap values. */
+  valueLabel?: string;
+  /** Heatmap colours: `diverging` is centred on zero; by default it is used when values have both signs. */
+  colorScale?: 'sequential' | 'diverging';
+}
+
+export interface ForecastPoint {
+  x: string;
+  y: number;
+  lower?: number;
+  upper?: number;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { applyCleaning, CleaningRuleSchema, toSafeIdentifier } from './cleaning';
+
+const rules = (...input: unknown[]) => input.map(rule => CleaningRuleSchema.parse(rule));
+
+describe('applyCleaning', () => {
+  it('removes duplicate rows by key, keeping the first or last', () => {
+    const data = [{ id: 1, v: 'a' }, { id: 1, v: 'b' }, { id: 2, v: 'c' }];
+    const first = applyCleaning(data, ['id', 'v'], rules({ type: 'dedupe', columns: ['id'] }));
+    expect(first.data).toEqual([{ id: 1, v: 'a' }, { id: 2, v: 'c' }]);
+    expect(first.report[0]).toMatchObject({ rule: 'dedupe', rowsRemoved: 1 });
+    const last = applyCleaning(data, ['id', 'v'], rules({ type: 'dedupe', columns: ['id'], keep: 'last' }));
+    expect(last.data).toEqual([{ id: 1, v: 'b' }, { id: 2, v: 'c' }]);
+  });
+
+  it('imputes missing values by mean, median, mode, constant or forward fill', () => {
+    const data = [{ x: 1, c: 'a' }, { x: null, c: null }, { x: 2, c: 'a' }, { x: 9, c: 'b' }];
+    const fill = (strategy: string, value?: unknown) =>
+      applyCleaning(data, ['x', 'c'], rules({ type: 'impute', columns: ['x', 'c'], strategy, value })).data[1];
+    expect(fill('mean').x).toBe(4);
+    expect(fill('median').x).toBe(2);
+    expect(fill('mode').c).toBe('a');
+    expect(fill('constant', 0)).toEqual({ x: 0, c: 0 });
+    expect(fill('forwardFill')).toEqual({ x: 1, c: 'a' });
+    // The input rows are left untouched
+    expect(data[1]).toEqual({ x: null, c: null });
+  });
+
+  it('caps outliers at the IQR fences', () => {
+    const data = [1, 2, 3, 4, 100].map(x => ({ x }));
+    const result = applyCleaning(data, ['x'], rules({ type: 'capOutliers', columns: ['x'], method: 'iqr' }));
+    expect(result.data.map(row => row.x)).toEqual([1, 2, 3, 4, 7]);
+    expect(result.report[0]).toMatchObject({ cellsChanged: 1, details: 'iqr: x ∈ [-1, 7]' });
+  });
+
+  it('normalises case, accents and whitespace', () => {
+    const data = [{ city: '  são   PAULO ' }, { city: "o'brien-smith" }];
+    const result = applyCleaning(data, ['city'], rules({ type: 'normalizeStrings', case: 'title', stripAccents: true }));
+    expect(result.data).toEqual([{ city: 'Sao Paulo' }, { city: "O'Brien-Smith" }]);
+  });
+
+  it('renames columns to safe identifiers, tracking chained renames', () => {
+    const data = [{ 'Order Date': '2024-01-01', orderDate: 'x', total: 1 }];
+    const result = applyCleaning(data, ['Order Date', 'orderDate', 'total'], rules(
+      { type: 'renameColumns' },
+      { type: 'renameColumns', mapping: { total: 'amount' }, safeIdentifiers: false },
+    ));
+    expect(result.columns).toEqual(['order_date', 'order_date_2', 'amount']);
+    expect(result.renamed).toEqual({ 'Order Date': 'order_date', orderDate: 'order_date_2', total: 'amount' });
+  });
+
+  it('keeps or drops columns', () => {
+    const data = [{ a: 1, b: 2, c: 3 }];
+    const result = applyCleaning(data, ['a', 'b', 'c'], rules({ type: 'selectColumns', drop: ['b'] }));
+    expect(result.columns).toEqual(['a', 'c']);
+    expect(result.data).toEqual([{ a: 1, c: 3 }]);
+  });
+
+  it('rejects unknown columns', () => {
+    expect(() => applyCleaning([{ a: 1 }], ['a'], rules({ type: 'impute', columns: ['b'], strategy: 'mean' })))
+      .toThrow('impute: unknown column(s) b');
+  });
+});
+
+describe('toSafeIdentifier', () => {
+  it('rewrites names as snake_case SQL identifiers', () => {
+    expect(toSafeIdentifier('Order Date (UTC)')).toBe('order_date_utc');
+    expect(toSafeIdentifier('customerID')).toBe('customer_id');
+    expect(toSafeIdentifier('2024 sales')).toBe('_2024_sales');
+    expect(toSafeIdentifier('Café')).toBe('cafe');
+    expect(toSafeIdentifier('%%')).toBe('column');
+  });
+});
@@ -0,0 +1,317 @@
+import { z } from 'zod';
+import { percentile } from '../sql/functions';
+
+export const CleaningRuleSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('dedupe'),
+    columns: z.array(z.string()).optional().describe('Key columns; defaults to comparing whole rows'),
+    keep: z.enum(['first', 'last']).optional().default('first'),
+  }),
+  z.object({
+    type: z.literal('impute'),
+    columns: z.array(z.string()),
+    strategy: z.enum(['mean', 'median', 'mode', 'constant', 'forwardFill']),
+    value: z.any().optional().describe('Fill value for the constant strategy'),
+  }),
+  z.object({
+    type: z.literal('capOutliers'),
+    columns: z.array(z.string()),
+    method: z.enum(['iqr', 'zscore']),
+    threshold: z.number().optional().describe('IQR multiplier (default 1.5) or z-score limit (default 3)'),
+  }),
+  z.object({
+    type: z.literal('normalizeStrings'),
+    columns: z.array(z.string()).optional().describe('Defaults to every column holding strings'),
+    case: z.enum(['lower', 'upper', 'title']).optional(),
+    unicode: z.enum(['NFC', 'NFD', 'NFKC', 'NFKD']).optional(),
+    stripAccents: z.boolean().optional(),
+    collapseWhitespace: z.boolean().optional().default(true),
+  }),
+  z.object({
+    type: z.literal('renameColumns'),
+    mapping: z.record(z.string()).optional().describe('Explicit old → new names'),
+    safeIdentifiers: z.boolean().optional().default(true).describe('Rewrite names as snake_case SQL identifiers'),
+  }),
+  z.object({
+    type: z.literal('selectColumns'),
+    keep: z.array(z.string()).optional(),
+    drop: z.array(z.string()).optional(),
+  }),
+]);
+
+export type CleaningRule = z.infer<typeof CleaningRuleSchema>;
+
+export interface CleaningStepReport {
+  rule: CleaningRule['type'];
+  columns: string[];
+  cellsChanged: number;
+  rowsChanged: number;
+  rowsRemoved: number;
+  details?: string;
+}
+
+export interface CleaningResult {
+  data: Record<string, any>[];
+  columns: string[];
+  /** Old column name → new name for every column a rename step changed. */
+  renamed: Record<string, string>;
+  report: CleaningStepReport[];
+}
+
+/** `Order Date (UTC)` → `order_date_utc`; names starting with a digit get a leading underscore. */
+export function toSafeIdentifier(name: string): string {
+  const identifier = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  if (identifier === '') return 'column';
+  return /^\d/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+const isMissing = (value: unknown) => value === null || value === undefined;
+
+function numbersIn(data: Record<string, any>[], column: string): number[] {
+  return data.map(row => row[column]).filter((value): value is number => typeof value === 'number' && !isNaN(value));
+}
+
+function assertColumns(columns: string[], known: string[], rule: string) {
+  const unknown = columns.filter(column => !known.includes(column));
+  if (unknown.length > 0) {
+    throw new Error(`${rule}: unknown column(s) ${unknown.join(', ')}`);
+  }
+}
+
+/**
+ * Applies cleaning rules in order. Each rule works on the output of the
+ * previous one and contributes a step to the report.
+ */
+export function applyCleaning(data: Record<string, any>[], columns: string[], rules: CleaningRule[]): CleaningResult {
+  let rows = data.map(row => ({ ...row }));
+  let currentColumns = [...columns];
+  const renamed: Record<string, string> = {};
+  const report: CleaningStepReport[] = [];
+
+  rules.forEach(rule => {
+    switch (rule.type) {
+      case 'dedupe': {
+        const keyColumns = rule.columns ?? currentColumns;
+        assertColumns(keyColumns, currentColumns, 'dedupe');
+        const keyOf = (row: Record<string, any>) => JSON.stringify(keyColumns.map(column => row[column] ?? null));
+
+        const ordered = rule.keep === 'last' ? [...rows].reverse() : rows;
+        const seen = new Set<string>();
+        const kept = ordered.filter(row => {
+          const key = keyOf(row);
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+        const removed = rows.length - kept.length;
+        rows = rule.keep === 'last' ? kept.reverse() : kept;
+        report.push({ rule: rule.type, columns: keyColumns, cellsChanged: 0, rowsChanged: 0, rowsRemoved: removed });
+        break;
+      }
+
+      case 'impute': {
+        assertColumns(rule.columns, currentColumns, 'impute');
+        const changedRows = new Set<number>();
+        let cellsChanged = 0;
+        const fills: string[] = [];
+
+        rule.columns.forEach(column => {
+          let fill: any = null;
+          if (rule.strategy === 'mean' || rule.strategy === 'median') {
+            const numbers = numbersIn(rows, column);
+            fill = numbers.length === 0
+              ? null
+              : rule.strategy === 'mean'
+                ? numbers.reduce((sum, val) => sum + val, 0) / numbers.length
+                : percentile(numbers, 0.5);
+          } else if (rule.strategy === 'mode') {
+            const counts = new Map<string, { value: any; count: number }>();
+            rows.forEach(row => {
+              if (isMissing(row[column])) return;
+              const key = JSON.stringify(row[column]);
+              const entry = counts.get(key) ?? { value: row[column], count: 0 };
+              entry.count++;
+              counts.set(key, entry);
+            });
+            fill = Array.from(counts.values()).sort((a, b) => b.count - a.count)[0]?.value ?? null;
+          } else if (rule.strategy === 'constant') {
+            fill = rule.value ?? null;
+          }
+          if (rule.strategy !== 'forwardFill') {
+            fills.push(`${column}=${JSON.stringify(fill)}`);
+          }
+
+          let previous: any = null;
+          rows.forEach((row, index) => {
+            if (!isMissing(row[column])) {
+              previous = row[column];
+              return;
+            }
+            const value = rule.strategy === 'forwardFill' ? previous : fill;
+            if (isMissing(value)) return;
+            row[column] = value;
+            cellsChanged++;
+            changedRows.add(index);
+          });
+        });
+
+        report.push({
+          rule: rule.type,
+          columns: rule.columns,
+          cellsChanged,
+          rowsChanged: changedRows.size,
+          rowsRemoved: 0,
+          details: rule.strategy === 'forwardFill' ? 'forward fill' : `${rule.strategy}: ${fills.join(', ')}`,
+        });
+        break;
+      }
+
+      case 'capOutliers': {
+        assertColumns(rule.columns, currentColumns, 'capOutliers');
+        const changedRows = new Set<number>();
+        let cellsChanged = 0;
+        const bounds: string[] = [];
+
+        rule.columns.forEach(column => {
+          const numbers = numbersIn(rows, column);
+          if (numbers.length < 3) return;
+
+          let lower: number;
+          let upper: number;
+          if (rule.method === 'iqr') {
+            const q1 = percentile(numbers, 0.25)!;
+            const q3 = percentile(numbers, 0.75)!;
+            const k = rule.threshold ?? 1.5;
+            lower = q1 - k * (q3 - q1);
+            upper = q3 + k * (q3 - q1);
+          } else {
+            const mean = numbers.reduce((sum, val) => sum + val, 0) / numbers.length;
+            const std = Math.sqrt(numbers.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / (numbers.length - 1));
+            const z = rule.threshold ?? 3;
+            lower = mean - z * std;
+            upper = mean + z * std;
+          }
+          bounds.push(`${column} ∈ [${+lower.toFixed(4)}, ${+upper.toFixed(4)}]`);
+
+          rows.forEach((row, index) => {
+            const value = row[column];
+            if (typeof value !== 'number') return;
+            const capped = Math.min(Math.max(value, lower), upper);
+            if (capped !== value) {
+              row[column] = capped;
+              cellsChanged++;
+              changedRows.add(index);
+            }
+          });
+        });
+
+        report.push({
+          rule: rule.type,
+          columns: rule.columns,
+          cellsChanged,
+          rowsChanged: changedRows.size,
+          rowsRemoved: 0,
+          details: `${rule.method}: ${bounds.join('; ')}`,
+        });
+        break;
+      }
+
+      case 'normalizeStrings': {
+        const targetColumns = rule.columns ?? currentColumns.filter(column => rows.some(row => typeof row[column] === 'string'));
+        assertColumns(targetColumns, currentColumns, 'normalizeStrings');
+        const changedRows = new Set<number>();
+        let cellsChanged = 0;
+
+        const normalize = (text: string) => {
+          let result = text;
+          if (rule.unicode) result = result.normalize(rule.unicode);
+          if (rule.stripAccents) result = result.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
+          if (rule.collapseWhitespace !== false) result = result.replace(/\s+/g, ' ').trim();
+          if (rule.case === 'lower') result = result.toLowerCase();
+          if (rule.case === 'upper') result = result.toUpperCase();
+          if (rule.case === 'title') result = result.toLowerCase().replace(/(^|[\s\-'])(\p{L})/gu, (_, sep, letter) => sep + letter.toUpperCase());
+          return result;
+        };
+
+        rows.forEach((row, index) => {
+          targetColumns.forEach(column => {
+            const value = row[column];
+            if (typeof value !== 'string') return;
+            const normalized = normalize(value);
+            if (normalized !== value) {
+              row[column] = normalized;
+              cellsChanged++;
+              changedRows.add(index);
+            }
+          });
+        });
+
+        report.push({ rule: rule.type, columns: targetColumns, cellsChanged, rowsChanged: changedRows.size, rowsRemoved: 0 });
+        break;
+      }
+
+      case 'renameColumns': {
+        assertColumns(Object.keys(rule.mapping ?? {}), currentColumns, 'renameColumns');
+        const used = new Set<string>();
+        const mapping = new Map<string, string>();
+
+        currentColumns.forEach(column => {
+          let name = rule.mapping?.[column] ?? (rule.safeIdentifiers !== false ? toSafeIdentifier(column) : column);
+          // Two columns that normalise to the same name get numbered
+          const base = name;
+          for (let suffix = 2; used.has(name); suffix++) name = `${base}_${suffix}`;
+          used.add(name);
+          mapping.set(column, name);
+        });
+
+        const changed = currentColumns.filter(column => mapping.get(column) !== column);
+        rows = rows.map(row => Object.fromEntries(currentColumns.map(column => [mapping.get(column)!, row[column]])));
+        currentColumns = currentColumns.map(column => mapping.get(column)!);
+
+        // Keep the mapping from original names when renames are chained
+        changed.forEach(column => {
+          const original = Object.keys(renamed).find(key => renamed[key] === column) ?? column;
+          renamed[original] = mapping.get(column)!;
+        });
+
+        report.push({
+          rule: rule.type,
+          columns: changed,
+          cellsChanged: 0,
+          rowsChanged: 0,
+          rowsRemoved: 0,
+          details: changed.map(column => `${column} → ${mapping.get(column)}`).join(', '),
+        });
+        break;
+      }
+
+      case 'selectColumns': {
+        assertColumns([...(rule.keep ?? []), ...(rule.drop ?? [])], currentColumns, 'selectColumns');
+        const kept = currentColumns.filter(column =>
+          (!rule.keep || rule.keep.includes(column)) && !(rule.drop ?? []).includes(column),
+        );
+        const dropped = currentColumns.filter(column => !kept.includes(column));
+        rows = rows.map(row => Object.fromEntries(kept.map(column => [column, row[column]])));
+        currentColumns = kept;
+
+        report.push({
+          rule: rule.type,
+          columns: dropped,
+          cellsChanged: dropped.length * rows.length,
+          rowsChanged: 0,
+          rowsRemoved: 0,
+          details: dropped.length > 0 ? `dropped ${dropped.join(', ')}` : 'no columns dropped',
+        });
+        break;
+      }
+    }
+  });
+
+  return { data: rows, columns: currentColumns, renamed, report };
+}
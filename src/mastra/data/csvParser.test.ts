@@ -0,0 +1,93 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { CsvStreamParser, detectDelimiter, normalizeHeader, parseCsv, readCsvFile } from './csvParser';
+
+describe('parseCsv', () => {
+  it('parses quoted fields with delimiters, escaped quotes and line breaks', () => {
+    const result = parseCsv('name,note\r\n"Smith, J","said ""hi"""\r\n"Lee","two\nlines"\r\n');
+    expect(result.columns).toEqual(['name', 'note']);
+    expect(result.data).toEqual([
+      { name: 'Smith, J', note: 'said "hi"' },
+      { name: 'Lee', note: 'two\nlines' },
+    ]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('accepts LF, CRLF and CR line endings and skips blank lines', () => {
+    for (const newline of ['\n', '\r\n', '\r']) {
+      const result = parseCsv(['a,b', '1,2', '', '3,4', ''].join(newline));
+      expect(result.data).toEqual([{ a: '1', b: '2' }, { a: '3', b: '4' }]);
+    }
+  });
+
+  it('strips a byte order mark', () => {
+    expect(parseCsv('\uFEFFid,name\n1,Ada').columns).toEqual(['id', 'name']);
+  });
+
+  it('detects semicolons, tabs and pipes', () => {
+    expect(parseCsv('a;b\n1;2').delimiter).toBe(';');
+    expect(parseCsv('a\tb\n1\t2').data).toEqual([{ a: '1', b: '2' }]);
+    expect(detectDelimiter('a|b|c\n1|2|3\n')).toBe('|');
+    // Delimiters inside quotes do not count
+    expect(detectDelimiter('"a,b,c";d\n"1,2,3";4\n')).toBe(';');
+  });
+
+  it('reports records with the wrong number of fields by line and keeps the rest', () => {
+    const result = parseCsv('a,b\n1,2\n3\n4,5,6\n7,8');
+    expect(result.data).toEqual([{ a: '1', b: '2' }, { a: '7', b: '8' }]);
+    expect(result.errors).toEqual([
+      { line: 3, message: 'Expected 2 fields but found 1' },
+      { line: 4, message: 'Expected 2 fields but found 3' },
+    ]);
+  });
+
+  it('skips comment lines and names columns of headerless files', () => {
+    const result = parseCsv('# exported today\n1,2\n3,4', { comment: '#', hasHeader: false });
+    expect(result.columns).toEqual(['Column_1', 'Column_2']);
+    expect(result.data).toHaveLength(2);
+  });
+
+  it('supports a separate escape character', () => {
+    const result = parseCsv('a\n"back\\"slash"', { escape: '\\' });
+    expect(result.data).toEqual([{ a: 'back"slash' }]);
+  });
+});
+
+describe('CsvStreamParser', () => {
+  it('gives the same records whatever the chunk boundaries', () => {
+    const text = 'a,b\r\n"x,""y""",2\r\n"multi\r\nline",3\r\n';
+    const whole: string[][] = [];
+    const single = new CsvStreamParser({ delimiter: ',' }, fields => whole.push(fields));
+    single.write(text);
+    single.end();
+    const chunked: string[][] = [];
+    const parser = new CsvStreamParser({ delimiter: ',' }, fields => chunked.push(fields));
+    text.split('').forEach(char => parser.write(char));
+    parser.end();
+    // Line breaks inside quoted fields are normalised to LF
+    expect(chunked).toEqual([['a', 'b'], ['x,"y"', '2'], ['multi\nline', '3']]);
+    expect(whole).toEqual(chunked);
+  });
+});
+
+describe('normalizeHeader', () => {
+  it('names blank columns and numbers duplicates', () => {
+    expect(normalizeHeader(['id', ' ', 'id', 'id'])).toEqual(['id', 'Column_2', 'id_2', 'id_3']);
+  });
+});
+
+describe('readCsvFile', () => {
+  it('streams a file and decodes other encodings', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'csv-'));
+    try {
+      const path = join(dir, 'latin1.csv');
+      await writeFile(path, Buffer.from('city;pop\nMálaga;578000\n', 'latin1'));
+      const result = await readCsvFile(path, { encoding: 'latin1' });
+      expect(result.data).toEqual([{ city: 'Málaga', pop: '578000' }]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,341 @@
+import { createReadStream } from 'fs';
+
+export interface CsvParseOptions {
+  /** Field delimiter, or 'auto' to detect comma, semicolon, tab or pipe. */
+  delimiter?: string;
+  quote?: string;
+  /** Escape character inside quoted fields; defaults to the quote character (RFC 4180 `""`). */
+  escape?: string;
+  /** Lines starting with this character are skipped. */
+  comment?: string;
+  hasHeader?: boolean;
+}
+
+export interface CsvParseError {
+  line: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  columns: string[];
+  data: Record<string, string>[];
+  delimiter: string;
+  errors: CsvParseError[];
+}
+
+export const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+
+type RecordHandler = (fields: string[], line: number) => void;
+
+/**
+ * Incremental RFC 4180 parser. Feed it text with `write` in chunks of any
+ * size and call `end` once; every complete record is passed to the handler
+ * together with the line it started on. Quoted fields may contain
+ * delimiters, escaped quotes and line breaks; CRLF, LF and CR line endings
+ * are accepted and blank lines are skipped.
+ */
+export class CsvStreamParser {
+  readonly errors: CsvParseError[] = [];
+
+  private field = '';
+  private fields: string[] = [];
+  private state: 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted' | 'escapeInQuoted' | 'afterQuoted' | 'comment' = 'fieldStart';
+  private line = 1;
+  private recordLine = 1;
+  private pendingCR = false;
+  private started = false;
+  private readonly delimiter: string;
+  private readonly quote: string;
+  private readonly escape: string;
+  private readonly comment?: string;
+
+  constructor(options: { delimiter: string; quote?: string; escape?: string; comment?: string }, private onRecord: RecordHandler) {
+    this.delimiter = options.delimiter;
+    this.quote = options.quote ?? '"';
+    this.escape = options.escape ?? this.quote;
+    this.comment = options.comment || undefined;
+    if (this.delimiter.length !== 1 || this.quote.length !== 1 || this.escape.length !== 1) {
+      throw new Error('Delimiter, quote and escape must each be a single character');
+    }
+  }
+
+  write(chunk: string) {
+    for (let i = 0; i < chunk.length; i++) {
+      let char = chunk[i];
+
+      // Strip a byte order mark at the very start of the input
+      if (!this.started) {
+        this.started = true;
+        if (char === '\uFEFF') continue;
+      }
+
+      // The \n of a \r\n pair that was split across chunks
+      if (this.pendingCR) {
+        this.pendingCR = false;
+        if (char === '\n') continue;
+      }
+
+      if (char === '\r') {
+        if (chunk[i + 1] === '\n') {
+          i++;
+        } else if (i === chunk.length - 1) {
+          this.pendingCR = true;
+        }
+        char = '\n';
+      }
+
+      this.consume(char);
+    }
+  }
+
+  end() {
+    if (this.state === 'quoted' || this.state === 'escapeInQuoted') {
+      this.errors.push({ line: this.recordLine, message: 'Unterminated quoted field' });
+    }
+    if (this.state !== 'comment' && (this.fields.length > 0 || this.field !== '' || this.state !== 'fieldStart')) {
+      this.endRecord();
+    }
+  }
+
+  private consume(char: string) {
+    switch (this.state) {
+      case 'comment':
+        if (char === '\n') {
+          this.line++;
+          this.recordLine = this.line;
+          this.state = 'fieldStart';
+        }
+        return;
+
+      case 'fieldStart':
+        if (this.fields.length === 0 && this.comment !== undefined && char === this.comment) {
+          this.state = 'comment';
+        } else if (char === this.quote) {
+          this.state = 'quoted';
+        } else if (char === this.delimiter) {
+          this.endField();
+        } else if (char === '\n') {
+          this.newline();
+        } else {
+          this.field += char;
+          this.state = 'unquoted';
+        }
+        return;
+
+      case 'unquoted':
+        if (char === this.delimiter) {
+          this.endField();
+        } else if (char === '\n') {
+          this.newline();
+        } else {
+          if (char === this.quote) {
+            this.errors.push({ line: this.line, message: 'Unexpected quote inside an unquoted field' });
+          }
+          this.field += char;
+        }
+        return;
+
+      case 'quoted':
+        if (char === this.escape && this.escape !== this.quote) {
+          this.state = 'escapeInQuoted';
+        } else if (char === this.quote) {
+          this.state = 'quoteInQuoted';
+        } else {
+          if (char === '\n') this.line++;
+          this.field += char;
+        }
+        return;
+
+      case 'escapeInQuoted':
+        if (char === '\n') this.line++;
+        this.field += char;
+        this.state = 'quoted';
+        return;
+
+      case 'quoteInQuoted':
+        // "" inside a quoted field is a literal quote when the quote is its own escape
+        if (char === this.quote && this.escape === this.quote) {
+          this.field += char;
+          this.state = 'quoted';
+          return;
+        }
+        this.state = 'afterQuoted';
+        this.consume(char);
+        return;
+
+      case 'afterQuoted':
+        if (char === this.delimiter) {
+          this.endField();
+        } else if (char === '\n') {
+          this.newline();
+        } else {
+          this.errors.push({ line: this.line, message: `Unexpected character '${char}' after closing quote` });
+          this.field += char;
+        }
+        return;
+    }
+  }
+
+  private endField() {
+    this.fields.push(this.field);
+    this.field = '';
+    this.state = 'fieldStart';
+  }
+
+  private newline() {
+    this.endRecord();
+    this.line++;
+    this.recordLine = this.line;
+  }
+
+  private endRecord() {
+    this.fields.push(this.field);
+    const fields = this.fields;
+    this.fields = [];
+    this.field = '';
+    this.state = 'fieldStart';
+
+    // Blank lines (including trailing ones) produce no record
+    if (fields.length === 1 && fields[0] === '') return;
+    this.onRecord(fields, this.recordLine);
+  }
+}
+
+/**
+ * Picks the candidate delimiter that splits the first lines of `sample` into
+ * the most consistent number of fields. Quoted sections are ignored.
+ */
+export function detectDelimiter(sample: string, quote = '"', comment?: string): string {
+  const lines = sample
+    .replace(/^\uFEFF/, '')
+    .split(/\r\n|\n|\r/)
+    .filter(line => line.trim() !== '' && !(comment && line.startsWith(comment)))
+    .slice(0, 20);
+  if (lines.length === 0) return ',';
+
+  const countOutsideQuotes = (line: string, delimiter: string) => {
+    let count = 0;
+    let inQuotes = false;
+    for (const char of line) {
+      if (char === quote) inQuotes = !inQuotes;
+      else if (char === delimiter && !inQuotes) count++;
+    }
+    return count;
+  };
+
+  let best = { delimiter: ',', consistent: 0, fields: 0 };
+  DELIMITER_CANDIDATES.forEach(delimiter => {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter));
+    if (counts[0] === 0) return;
+    const consistent = counts.filter(count => count === counts[0]).length;
+    if (consistent > best.consistent || (consistent === best.consistent && counts[0] > best.fields)) {
+      best = { delimiter, consistent, fields: counts[0] };
+    }
+  });
+
+  return best.delimiter;
+}
+
+/** Makes header names unique and non-empty: `Column_3`, `amount_2`, ... */
+export function normalizeHeader(header: string[]): string[] {
+  const seen = new Map<string, number>();
+  return header.map((raw, index) => {
+    const name = raw.trim() || `Column_${index + 1}`;
+    const count = seen.get(name) ?? 0;
+    seen.set(name, count + 1);
+    return count === 0 ? name : `${name}_${count + 1}`;
+  });
+}
+
+/**
+ * Collects parsed records into rows keyed by column name. Records with a
+ * different number of fields than the header are reported and skipped.
+ */
+export class CsvRowBuilder {
+  columns: string[] = [];
+  readonly errors: CsvParseError[] = [];
+
+  constructor(private hasHeader: boolean, private onRow: (row: Record<string, string>, line: number) => void) {}
+
+  handleRecord = (fields: string[], line: number) => {
+    if (this.columns.length === 0) {
+      if (this.hasHeader) {
+        this.columns = normalizeHeader(fields);
+        return;
+      }
+      this.columns = fields.map((_, index) => `Column_${index + 1}`);
+    }
+
+    if (fields.length !== this.columns.length) {
+      this.errors.push({
+        line,
+        message: `Expected ${this.columns.length} fields but found ${fields.length}`,
+      });
+      return;
+    }
+
+    const row: Record<string, string> = {};
+    this.columns.forEach((col, index) => {
+      row[col] = fields[index];
+    });
+    this.onRow(row, line);
+  };
+}
+
+const CHUNK_SIZE = 64 * 1024;
+
+/** A parser feeding a row builder; `sample` is the start of the input, used to detect the delimiter. */
+function createReader(sample: string, options: CsvParseOptions) {
+  const delimiter = !options.delimiter || options.delimiter === 'auto'
+    ? detectDelimiter(sample, options.quote, options.comment)
+    : options.delimiter;
+
+  const data: Record<string, string>[] = [];
+  const builder = new CsvRowBuilder(options.hasHeader ?? true, row => data.push(row));
+  const parser = new CsvStreamParser(
+    { delimiter, quote: options.quote, escape: options.escape, comment: options.comment },
+    builder.handleRecord,
+  );
+
+  return {
+    parser,
+    result(): CsvParseResult {
+      parser.end();
+      const errors = [...parser.errors, ...builder.errors].sort((a, b) => a.line - b.line);
+      return { columns: builder.columns, data, delimiter, errors };
+    },
+  };
+}
+
+export function parseCsv(content: string, options: CsvParseOptions = {}): CsvParseResult {
+  const reader = createReader(content.slice(0, CHUNK_SIZE), options);
+  for (let offset = 0; offset < content.length; offset += CHUNK_SIZE) {
+    reader.parser.write(content.slice(offset, offset + CHUNK_SIZE));
+  }
+  return reader.result();
+}
+
+/**
+ * Parses a CSV file as it is read, so only the parsed rows are held in
+ * memory and never the file's text. The delimiter is detected from the
+ * first chunk.
+ */
+export async function readCsvFile(path: string, options: CsvParseOptions & { encoding?: string } = {}): Promise<CsvParseResult> {
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(options.encoding || 'utf-8');
+  } catch (error) {
+    throw new Error(`Unsupported encoding '${options.encoding}': ${error instanceof Error ? error.message : error}`);
+  }
+
+  let reader: ReturnType<typeof createReader> | undefined;
+  for await (const chunk of createReadStream(path, { highWaterMark: CHUNK_SIZE })) {
+    const text = decoder.decode(chunk as Buffer, { stream: true });
+    reader ??= createReader(text, options);
+    reader.parser.write(text);
+  }
+  const rest = decoder.decode();
+  reader ??= createReader(rest, options);
+  reader.parser.write(rest);
+  return reader.result();
+}
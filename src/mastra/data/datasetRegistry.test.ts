@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { DatasetRegistry } from './datasetRegistry';
+
+const rows = [{ id: 1, name: 'Ada' }, { id: 2, name: 'Grace' }];
+
+describe('DatasetRegistry', () => {
+  it('registers datasets and finds them by name, case-insensitively, or by ID', async () => {
+    const registry = new DatasetRegistry();
+    const dataset = await registry.register('customers', { data: rows, columns: ['id', 'name'] });
+    expect(dataset.rowCount).toBe(2);
+    expect(dataset.id).toMatch(/^ds_[0-9a-f]{12}$/);
+    expect(await registry.get('customers')).toBe(dataset);
+    expect(await registry.get('Customers')).toBe(dataset);
+    expect(await registry.get(dataset.id)).toBe(dataset);
+    expect(await registry.get('orders')).toBeNull();
+  });
+
+  it('keeps the ID when a dataset is registered again', async () => {
+    const registry = new DatasetRegistry();
+    const first = await registry.register('customers', { data: rows, columns: ['id', 'name'] });
+    const second = await registry.register('customers', { data: rows.slice(0, 1), columns: ['id', 'name'] });
+    expect(second.id).toBe(first.id);
+    expect(second.rowCount).toBe(1);
+    expect(registry.list()).toHaveLength(1);
+  });
+
+  it('rejects names that are not SQL identifiers', async () => {
+    const registry = new DatasetRegistry();
+    await expect(registry.register('sales 2024', { data: rows, columns: ['id', 'name'] })).rejects.toThrow(/Invalid dataset name/);
+    await expect(registry.register('2024_sales', { data: rows, columns: ['id', 'name'] })).rejects.toThrow(/Invalid dataset name/);
+  });
+
+  it('picks free names for unnamed datasets', async () => {
+    const registry = new DatasetRegistry();
+    await registry.register('dataset_1', { data: rows, columns: ['id', 'name'] });
+    expect(registry.nextName()).toBe('dataset_2');
+    expect(registry.nextName('upload')).toBe('upload_2');
+  });
+});
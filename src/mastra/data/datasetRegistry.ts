@@ -0,0 +1,151 @@
+import { randomUUID } from 'crypto';
+import type { MastraStorage, StorageColumn, TABLE_NAMES } from '@mastra/core/storage';
+
+export interface Dataset {
+  /** Stable identifier, kept when a dataset is registered again under the same name. */
+  id: string;
+  name: string;
+  columns: string[];
+  data: Record<string, any>[];
+  rowCount: number;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+}
+
+export interface DatasetSummary {
+  id: string;
+  name: string;
+  columns: string[];
+  rowCount: number;
+  createdAt: Date;
+}
+
+// Custom table alongside Mastra's own tables in the configured storage
+const DATASETS_TABLE = 'mastra_datasets' as TABLE_NAMES;
+
+const DATASETS_SCHEMA: Record<string, StorageColumn> = {
+  name: { type: 'text', primaryKey: true },
+  id: { type: 'text', nullable: true },
+  columns: { type: 'jsonb' },
+  data: { type: 'jsonb' },
+  rowCount: { type: 'integer' },
+  metadata: { type: 'jsonb', nullable: true },
+  createdAt: { type: 'timestamp' },
+};
+
+const DATASET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// IDs are valid table names too, so SQL can refer to a dataset either way
+const DATASET_ID_PATTERN = /^ds_[0-9a-f]{12}$/;
+
+const newDatasetId = () => `ds_${randomUUID().replace(/-/g, '').slice(0, 12)}`;
+
+/**
+ * Named datasets that SQL queries can reference as tables. Datasets are kept
+ * in memory for the current process and, once storage is attached, persisted
+ * to it so they survive restarts. Each also has an ID (`ds_…`) that tools
+ * accept wherever they take a dataset name.
+ */
+export class DatasetRegistry {
+  private datasets = new Map<string, Dataset>();
+  private storage?: MastraStorage;
+  private ready?: Promise<void>;
+
+  attachStorage(storage: MastraStorage) {
+    this.storage = storage;
+    this.ready = undefined;
+  }
+
+  async register(
+    name: string,
+    dataset: { data: Record<string, any>[]; columns: string[]; metadata?: Record<string, any> },
+  ): Promise<Dataset> {
+    if (!DATASET_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid dataset name '${name}'. Use letters, digits and underscores, starting with a letter or underscore.`,
+      );
+    }
+
+    const entry: Dataset = {
+      id: this.datasets.get(name)?.id ?? newDatasetId(),
+      name,
+      columns: dataset.columns,
+      data: dataset.data,
+      rowCount: dataset.data.length,
+      metadata: dataset.metadata,
+      createdAt: new Date(),
+    };
+    this.datasets.set(name, entry);
+
+    if (this.storage) {
+      await this.ensureTable();
+      await this.storage.insert({ tableName: DATASETS_TABLE, record: { ...entry } });
+    }
+
+    return entry;
+  }
+
+  /** Looks a dataset up by name (case-insensitively) or by ID. */
+  async get(nameOrId: string): Promise<Dataset | null> {
+    const isId = DATASET_ID_PATTERN.test(nameOrId);
+    const cached = isId
+      ? Array.from(this.datasets.values()).find(dataset => dataset.id === nameOrId)
+      : this.datasets.get(nameOrId) ?? this.findCaseInsensitive(nameOrId);
+    if (cached) return cached;
+
+    if (!this.storage) return null;
+    await this.ensureTable();
+    const keys = isId ? { id: nameOrId } : { name: nameOrId };
+    const record = await this.storage.load<Record<string, any>>({ tableName: DATASETS_TABLE, keys });
+    if (!record) return null;
+
+    const dataset: Dataset = {
+      // Rows stored before datasets had IDs get one now; it is persisted when they are registered again
+      id: record.id ?? newDatasetId(),
+      name: record.name,
+      columns: record.columns,
+      data: record.data,
+      rowCount: record.rowCount,
+      metadata: record.metadata ?? undefined,
+      createdAt: new Date(record.createdAt),
+    };
+    this.datasets.set(dataset.name, dataset);
+    return dataset;
+  }
+
+  /** Datasets known to this process (registered or loaded from storage). */
+  list(): DatasetSummary[] {
+    return Array.from(this.datasets.values()).map(({ id, name, columns, rowCount, createdAt }) => ({
+      id,
+      name,
+      columns,
+      rowCount,
+      createdAt,
+    }));
+  }
+
+  /** Picks a free name such as `dataset_3` for files registered without one. */
+  nextName(prefix = 'dataset'): string {
+    let index = this.datasets.size + 1;
+    while (this.datasets.has(`${prefix}_${index}`)) index++;
+    return `${prefix}_${index}`;
+  }
+
+  private findCaseInsensitive(name: string): Dataset | undefined {
+    const lower = name.toLowerCase();
+    return Array.from(this.datasets.values()).find(dataset => dataset.name.toLowerCase() === lower);
+  }
+
+  private ensureTable(): Promise<void> {
+    if (!this.ready) {
+      const storage = this.storage!;
+      // Tables created before datasets had IDs gain the column
+      this.ready = storage
+        .createTable({ tableName: DATASETS_TABLE, schema: DATASETS_SCHEMA })
+        .then(() => storage.alterTable({ tableName: DATASETS_TABLE, schema: DATASETS_SCHEMA, ifNotExists: ['id'] }));
+    }
+    return this.ready;
+  }
+}
+
+export const datasetRegistry = new DatasetRegistry();
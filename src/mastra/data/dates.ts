@@ -0,0 +1,129 @@
+import { parseDateText } from './typeInference';
+
+export type Period = 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export const PERIODS: Period[] = ['hour', 'day', 'week', 'month', 'quarter', 'year'];
+
+export type DatePart = 'year' | 'quarter' | 'month' | 'week' | 'day' | 'dayofweek' | 'dayofyear' | 'hour' | 'minute';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads a date from a Date or from text in any format type inference
+ * recognises, plus `YYYY-MM` months. Times without a zone are taken as UTC
+ * wall-clock times, so dates never shift with the server's time zone.
+ */
+export function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string') return null;
+  const month = value.trim().match(/^(\d{4})-(\d{1,2})$/);
+  if (month) {
+    return +month[2] >= 1 && +month[2] <= 12 ? new Date(Date.UTC(+month[1], +month[2] - 1, 1)) : null;
+  }
+  const parsed = parseDateText(value);
+  if (!parsed) return null;
+  const iso = parsed.hasTime ? parsed.iso.replace(/Z?$/, 'Z') : `${parsed.iso}T00:00:00Z`;
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/** Start of the period containing `date`; weeks start on Monday (ISO 8601). */
+export function truncateDate(date: Date, period: Period): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (period) {
+    case 'hour':
+      return new Date(Date.UTC(year, month, date.getUTCDate(), date.getUTCHours()));
+    case 'day':
+      return new Date(Date.UTC(year, month, date.getUTCDate()));
+    case 'week': {
+      const day = new Date(Date.UTC(year, month, date.getUTCDate()));
+      return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY);
+    }
+    case 'month':
+      return new Date(Date.UTC(year, month, 1));
+    case 'quarter':
+      return new Date(Date.UTC(year, month - (month % 3), 1));
+    case 'year':
+      return new Date(Date.UTC(year, 0, 1));
+  }
+}
+
+/** Moves a period start by `count` periods. */
+export function addPeriods(date: Date, period: Period, count: number): Date {
+  switch (period) {
+    case 'hour':
+      return new Date(date.getTime() + count * 60 * 60 * 1000);
+    case 'day':
+      return new Date(date.getTime() + count * DAY);
+    case 'week':
+      return new Date(date.getTime() + count * 7 * DAY);
+    case 'month':
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + count, 1));
+    case 'quarter':
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + count * 3, 1));
+    case 'year':
+      return new Date(Date.UTC(date.getUTCFullYear() + count, 0, 1));
+  }
+}
+
+/** `YYYY-MM-DD` for midnight, `YYYY-MM-DDTHH:MM:SS` otherwise, matching the converted column values. */
+export function formatDate(date: Date): string {
+  const iso = date.toISOString();
+  return iso.slice(11, 19) === '00:00:00' ? iso.slice(0, 10) : iso.slice(0, 19);
+}
+
+function isoWeek(date: Date): number {
+  // The ISO week belongs to the year of its Thursday
+  const thursday = new Date(truncateDate(date, 'week').getTime() + 3 * DAY);
+  const firstOfYear = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  return Math.floor((thursday.getTime() - firstOfYear) / (7 * DAY)) + 1;
+}
+
+export function datePart(date: Date, part: DatePart): number {
+  switch (part) {
+    case 'year':
+      return date.getUTCFullYear();
+    case 'quarter':
+      return Math.floor(date.getUTCMonth() / 3) + 1;
+    case 'month':
+      return date.getUTCMonth() + 1;
+    case 'week':
+      return isoWeek(date);
+    case 'day':
+      return date.getUTCDate();
+    case 'dayofweek':
+      return ((date.getUTCDay() + 6) % 7) + 1;
+    case 'dayofyear':
+      return Math.floor((truncateDate(date, 'day').getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / DAY) + 1;
+    case 'hour':
+      return date.getUTCHours();
+    case 'minute':
+      return date.getUTCMinutes();
+  }
+}
+
+/** Periods per natural cycle: a day of hours, a week of days and a year of weeks, months or quarters. */
+export const SEASON_LENGTHS: Partial<Record<Period, number>> = { hour: 24, day: 7, week: 52, month: 12, quarter: 4 };
+
+/** The period matching the typical (median) spacing of dates in ascending order, or null when none does. */
+export function inferPeriod(dates: Date[]): Period | null {
+  const gaps = dates.slice(1).map((date, i) => date.getTime() - dates[i].getTime()).filter(gap => gap > 0).sort((a, b) => a - b);
+  if (gaps.length === 0) return null;
+  const days = gaps[Math.floor(gaps.length / 2)] / DAY;
+  if (Math.abs(days - 1 / 24) <= 1 / 96) return 'hour';
+  if (Math.abs(days - 1) <= 0.25) return 'day';
+  if (Math.abs(days - 7) <= 1) return 'week';
+  if (days >= 27 && days <= 32) return 'month';
+  if (days >= 88 && days <= 93) return 'quarter';
+  if (days >= 364 && days <= 367) return 'year';
+  return null;
+}
+
+export function isPeriod(value: string): value is Period {
+  return (PERIODS as string[]).includes(value);
+}
+
+export function isDatePart(value: string): value is DatePart {
+  return ['year', 'quarter', 'month', 'week', 'day', 'dayofweek', 'dayofyear', 'hour', 'minute'].includes(value);
+}
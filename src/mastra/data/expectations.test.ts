@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { ExpectationSchema, summarizeFailures, validateExpectations } from './expectations';
+
+const orders = [
+  { id: 1, customer: 'c1', email: 'ada@example.com', total: 30, status: 'paid', day: '2024-03-01' },
+  { id: 2, customer: 'c2', email: 'grace@example', total: -5, status: 'paid', day: '2024-03-05' },
+  { id: 2, customer: 'c9', email: null, total: 120, status: 'refunded', day: '2024-03-09' },
+  { id: 4, customer: null, email: 'LINUS@EXAMPLE.COM', total: null, status: 'pending', day: 'soon' },
+];
+const columns = ['id', 'customer', 'email', 'total', 'status', 'day'];
+const customers = [{ customer: 'c1' }, { customer: 'c2' }];
+
+const check = (expectation: unknown, options: Parameters<typeof validateExpectations>[3] = {}) =>
+  validateExpectations(orders, columns, [ExpectationSchema.parse(expectation)], options).results[0];
+
+describe('validateExpectations', () => {
+  it('finds missing values and repeated keys, with the failing rows', () => {
+    expect(check({ type: 'notNull', columns: ['customer', 'email'] })).toMatchObject({
+      success: false, checked: 4, failed: 2, observed: '2 of 4 row(s) fail (50.0%)',
+      samples: [{ row: 2, values: { customer: 'c9', email: null } }, { row: 3, values: { customer: null, email: 'LINUS@EXAMPLE.COM' } }],
+    });
+    expect(check({ type: 'unique', columns: ['id'] })).toMatchObject({ success: false, failed: 2, samples: [{ row: 1 }, { row: 2 }] });
+    expect(check({ type: 'unique', columns: ['id', 'customer'] }).success).toBe(true);
+  });
+
+  it('checks number and date ranges, skipping missing values', () => {
+    expect(check({ type: 'inRange', column: 'total', min: 0, max: 100 })).toMatchObject({ checked: 3, failed: 2 });
+    // 'soon' is not a date, so it falls outside any date range
+    expect(check({ type: 'inRange', column: 'day', min: '2024-03-02' })).toMatchObject({
+      description: 'day is at least 2024-03-02', failed: 2, samples: [{ row: 0 }, { row: 3 }],
+    });
+  });
+
+  it('matches whole values against patterns and allowed sets', () => {
+    expect(check({ type: 'matchesRegex', column: 'email', pattern: '[a-z]+@[a-z]+\\.[a-z]+' })).toMatchObject({ checked: 3, failed: 2 });
+    expect(check({ type: 'matchesRegex', column: 'email', pattern: '[a-z]+@[a-z]+\\.[a-z]+', flags: 'i' }).failed).toBe(1);
+    expect(check({ type: 'inSet', column: 'status', values: ['paid', 'pending'] })).toMatchObject({ failed: 1, samples: [{ row: 2 }] });
+  });
+
+  it('checks keys against another dataset', () => {
+    const result = check({ type: 'references', column: 'customer', dataset: 'customers' }, { referenced: new Map([['customers', customers]]) });
+    expect(result).toMatchObject({ description: 'every customer exists in customers.customer', checked: 3, failed: 1, samples: [{ row: 2 }] });
+    expect(() => check({ type: 'references', column: 'customer', dataset: 'customers' }))
+      .toThrow("references: dataset 'customers' was not provided");
+  });
+
+  it('tolerates a fraction of bad rows with mostly', () => {
+    expect(check({ type: 'inSet', column: 'status', values: ['paid', 'pending'], mostly: 0.75 }).success).toBe(true);
+    expect(check({ type: 'inSet', column: 'status', values: ['paid'], mostly: 0.75 }).success).toBe(false);
+  });
+
+  it('checks the row count and the freshness of the latest date', () => {
+    expect(check({ type: 'rowCount', min: 5 })).toMatchObject({ success: false, observed: '4 rows', description: 'row count is at least 5' });
+    const now = new Date('2024-03-20T00:00:00Z');
+    expect(check({ type: 'freshness', column: 'day', maxAgeDays: 14 }, { now })).toMatchObject({
+      success: true, checked: 3, observed: 'latest 2024-03-09, 11 day(s) old',
+    });
+    expect(check({ type: 'freshness', column: 'day', maxAgeDays: 7 }, { now }).success).toBe(false);
+  });
+
+  it('fails the report on critical failures only, listing them first', () => {
+    const report = validateExpectations(orders, columns, [
+      ExpectationSchema.parse({ type: 'notNull', columns: ['email'], severity: 'warning' }),
+      ExpectationSchema.parse({ type: 'rowCount', max: 10 }),
+    ]);
+    expect(report).toMatchObject({ success: true, passed: 1, failed: 1, criticalFailures: 0 });
+
+    const failing = validateExpectations(orders, columns, [
+      ExpectationSchema.parse({ type: 'notNull', columns: ['email'], severity: 'warning' }),
+      ExpectationSchema.parse({ type: 'unique', columns: ['id'] }),
+    ]);
+    expect(failing).toMatchObject({ success: false, criticalFailures: 1 });
+    expect(summarizeFailures(failing)).toEqual([
+      '[critical] id is unique: 2 of 4 row(s) fail (50.0%); e.g. row(s) 1, 2',
+      '[warning] email has no missing values: 1 of 4 row(s) fail (25.0%); e.g. row(s) 2',
+    ]);
+  });
+
+  it('rejects unknown columns and unusable bounds and patterns', () => {
+    expect(() => check({ type: 'notNull', columns: ['price'] })).toThrow('notNull: unknown column(s) price');
+    expect(() => check({ type: 'inRange', column: 'total' })).toThrow('inRange: give min, max or both');
+    expect(() => check({ type: 'matchesRegex', column: 'email', pattern: '(' })).toThrow(/^matchesRegex: invalid pattern \/\(\/: /);
+  });
+});
@@ -0,0 +1,302 @@
+import { z } from 'zod';
+import { isNullish, toNumber } from '../sql/functions';
+import { toDate } from './dates';
+
+const severity = z.enum(['critical', 'warning']).optional().default('critical').describe(
+  'Critical failures fail the validation (and halt the analysis workflow); warnings are only reported',
+);
+const mostly = z.number().min(0).max(1).optional().default(1).describe(
+  'Fraction of the checked rows that must pass, e.g. 0.95 to tolerate 5% bad rows',
+);
+const bound = z.union([z.number(), z.string()]);
+
+export const ExpectationSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('notNull'),
+    columns: z.array(z.string()).min(1),
+    severity,
+    mostly,
+  }),
+  z.object({
+    type: z.literal('unique'),
+    columns: z.array(z.string()).min(1).describe('Columns whose combined values must not repeat'),
+    severity,
+    mostly,
+  }),
+  z.object({
+    type: z.literal('inRange'),
+    column: z.string(),
+    min: bound.optional().describe('Lowest allowed value: a number, or a date for date columns'),
+    max: bound.optional().describe('Highest allowed value: a number, or a date for date columns'),
+    severity,
+    mostly,
+  }),
+  z.object({
+    type: z.literal('matchesRegex'),
+    column: z.string(),
+    pattern: z.string().describe('JavaScript regular expression the whole value must match'),
+    flags: z.string().optional().describe('Regular expression flags, such as i'),
+    severity,
+    mostly,
+  }),
+  z.object({
+    type: z.literal('inSet'),
+    column: z.string(),
+    values: z.array(z.union([z.string(), z.number(), z.boolean()])).min(1),
+    severity,
+    mostly,
+  }),
+  z.object({
+    type: z.literal('references'),
+    column: z.string(),
+    dataset: z.string().describe('Registered dataset whose key the column refers to'),
+    referencedColumn: z.string().optional().describe('Key column in that dataset; defaults to the same name'),
+    severity,
+    mostly,
+  }),
+  z.object({
+    type: z.literal('rowCount'),
+    min: z.number().int().min(0).optional(),
+    max: z.number().int().min(0).optional(),
+    severity,
+  }),
+  z.object({
+    type: z.literal('freshness'),
+    column: z.string().describe('Date column whose latest value is checked'),
+    maxAgeDays: z.number().positive().describe('How old, in days, the latest date may be'),
+    severity,
+  }),
+]);
+
+export type Expectation = z.infer<typeof ExpectationSchema>;
+
+export interface ExpectationResult {
+  expectation: Expectation['type'];
+  description: string;
+  columns: string[];
+  severity: 'critical' | 'warning';
+  success: boolean;
+  /** Rows the expectation applied to; missing values are skipped by every check but notNull. */
+  checked: number;
+  failed: number;
+  /** What was found, for the table-level checks and failures. */
+  observed?: string;
+  /** The first failing rows, by zero-based index, with the columns checked. */
+  samples: { row: number; values: Record<string, any> }[];
+}
+
+export interface ValidationReport {
+  /** False when any critical expectation failed. */
+  success: boolean;
+  rowCount: number;
+  passed: number;
+  failed: number;
+  criticalFailures: number;
+  results: ExpectationResult[];
+}
+
+export interface ValidationOptions {
+  /** Rows of the datasets `references` expectations point to, by the name used in them. */
+  referenced?: Map<string, Record<string, any>[]>;
+  /** Reference time of freshness checks; defaults to now. */
+  now?: Date;
+  /** Failing rows listed per expectation. */
+  sampleSize?: number;
+}
+
+const DAY_MS = 86400000;
+
+function assertColumns(columns: string[], known: string[], expectation: string) {
+  const unknown = columns.filter(column => !known.includes(column));
+  if (unknown.length > 0) {
+    throw new Error(`${expectation}: unknown column(s) ${unknown.join(', ')}`);
+  }
+}
+
+/** Numbers compare as numbers; anything else as a date, or not at all. */
+function comparable(value: unknown, asDate: boolean): number | null {
+  return asDate ? toDate(value)?.getTime() ?? null : toNumber(value);
+}
+
+const keyOf = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+export function describeExpectation(expectation: Expectation): string {
+  switch (expectation.type) {
+    case 'notNull':
+      return `${expectation.columns.join(', ')} ${expectation.columns.length > 1 ? 'have' : 'has'} no missing values`;
+    case 'unique':
+      return `${expectation.columns.join(' + ')} ${expectation.columns.length > 1 ? 'are unique together' : 'is unique'}`;
+    case 'inRange':
+      return `${expectation.column} is ${expectation.min !== undefined && expectation.max !== undefined
+        ? `between ${expectation.min} and ${expectation.max}`
+        : expectation.min !== undefined ? `at least ${expectation.min}` : `at most ${expectation.max}`}`;
+    case 'matchesRegex':
+      return `${expectation.column} matches /${expectation.pattern}/${expectation.flags ?? ''}`;
+    case 'inSet':
+      return `${expectation.column} is one of ${expectation.values.slice(0, 10).join(', ')}${expectation.values.length > 10 ? ', …' : ''}`;
+    case 'references':
+      return `every ${expectation.column} exists in ${expectation.dataset}.${expectation.referencedColumn ?? expectation.column}`;
+    case 'rowCount':
+      return `row count is ${expectation.min !== undefined && expectation.max !== undefined
+        ? `between ${expectation.min} and ${expectation.max}`
+        : expectation.min !== undefined ? `at least ${expectation.min}` : `at most ${expectation.max}`}`;
+    case 'freshness':
+      return `latest ${expectation.column} is at most ${expectation.maxAgeDays} day(s) old`;
+  }
+}
+
+/**
+ * Checks each expectation against the rows. Row-level expectations pass when
+ * at least `mostly` of the rows they apply to pass, and list the first
+ * failing rows as samples; rowCount and freshness look at the table as a
+ * whole. The report fails when a critical expectation does.
+ */
+export function validateExpectations(
+  data: Record<string, any>[],
+  columns: string[],
+  expectations: Expectation[],
+  options: ValidationOptions = {},
+): ValidationReport {
+  const sampleSize = options.sampleSize ?? 5;
+
+  const results = expectations.map((expectation): ExpectationResult => {
+    const base = {
+      expectation: expectation.type,
+      description: describeExpectation(expectation),
+      severity: expectation.severity ?? 'critical',
+    };
+
+    // Table-level checks
+    if (expectation.type === 'rowCount') {
+      const tooFew = expectation.min !== undefined && data.length < expectation.min;
+      const tooMany = expectation.max !== undefined && data.length > expectation.max;
+      return {
+        ...base, columns: [], success: !tooFew && !tooMany, checked: data.length, failed: tooFew || tooMany ? 1 : 0,
+        observed: `${data.length} rows`, samples: [],
+      };
+    }
+    if (expectation.type === 'freshness') {
+      assertColumns([expectation.column], columns, expectation.type);
+      const times = data.map(row => toDate(row[expectation.column])?.getTime()).filter((time): time is number => time !== undefined);
+      const now = (options.now ?? new Date()).getTime();
+      const latest = times.length > 0 ? Math.max(...times) : undefined;
+      const ageDays = latest === undefined ? undefined : (now - latest) / DAY_MS;
+      const fresh = ageDays !== undefined && ageDays <= expectation.maxAgeDays;
+      return {
+        ...base, columns: [expectation.column], success: fresh, checked: times.length, failed: fresh ? 0 : 1,
+        observed: latest === undefined
+          ? 'no dates'
+          : `latest ${new Date(latest).toISOString().slice(0, 10)}, ${Math.max(0, Math.floor(ageDays!))} day(s) old`,
+        samples: [],
+      };
+    }
+
+    // Row-level checks: each returns whether a row passes, or undefined when it does not apply
+    const checkedColumns = expectation.type === 'notNull' || expectation.type === 'unique' ? expectation.columns : [expectation.column];
+    assertColumns(checkedColumns, columns, expectation.type);
+    let passes: (row: Record<string, any>) => boolean | undefined;
+    switch (expectation.type) {
+      case 'notNull':
+        passes = row => expectation.columns.every(column => !isNullish(row[column]) && row[column] !== '');
+        break;
+      case 'unique': {
+        const counts = new Map<string, number>();
+        const key = (row: Record<string, any>) => JSON.stringify(expectation.columns.map(column => row[column] ?? null));
+        data.forEach(row => counts.set(key(row), (counts.get(key(row)) ?? 0) + 1));
+        passes = row => (expectation.columns.every(column => isNullish(row[column])) ? undefined : counts.get(key(row)) === 1);
+        break;
+      }
+      case 'inRange': {
+        if (expectation.min === undefined && expectation.max === undefined) {
+          throw new Error('inRange: give min, max or both');
+        }
+        // String bounds that are not numbers make it a date range
+        const asDate = [expectation.min, expectation.max].some(limit => typeof limit === 'string' && toNumber(limit) === null);
+        const min = expectation.min === undefined ? undefined : comparable(expectation.min, asDate);
+        const max = expectation.max === undefined ? undefined : comparable(expectation.max, asDate);
+        if (min === null || max === null) {
+          throw new Error(`inRange: bounds of ${expectation.column} must be numbers or dates`);
+        }
+        passes = row => {
+          if (isNullish(row[expectation.column]) || row[expectation.column] === '') return undefined;
+          const value = comparable(row[expectation.column], asDate);
+          return value !== null && (min === undefined || value >= min) && (max === undefined || value <= max);
+        };
+        break;
+      }
+      case 'matchesRegex': {
+        let regex: RegExp;
+        try {
+          regex = new RegExp(`^(?:${expectation.pattern})$`, expectation.flags);
+        } catch (error) {
+          throw new Error(`matchesRegex: invalid pattern /${expectation.pattern}/: ${error instanceof Error ? error.message : error}`);
+        }
+        passes = row => (isNullish(row[expectation.column]) ? undefined : regex.test(String(row[expectation.column])));
+        break;
+      }
+      case 'inSet': {
+        const allowed = new Set(expectation.values.map(keyOf));
+        passes = row => (isNullish(row[expectation.column]) ? undefined : allowed.has(keyOf(row[expectation.column])));
+        break;
+      }
+      case 'references': {
+        const rows = options.referenced?.get(expectation.dataset);
+        if (!rows) {
+          throw new Error(`references: dataset '${expectation.dataset}' was not provided`);
+        }
+        const referencedColumn = expectation.referencedColumn ?? expectation.column;
+        if (rows.length > 0 && !(referencedColumn in rows[0])) {
+          throw new Error(`references: column '${referencedColumn}' not found in dataset '${expectation.dataset}'`);
+        }
+        // Keys compare by their text, so 7 matches '7' across datasets typed differently
+        const keys = new Set(rows.map(row => row[referencedColumn]).filter(value => !isNullish(value)).map(value => String(value)));
+        passes = row => (isNullish(row[expectation.column]) ? undefined : keys.has(String(row[expectation.column])));
+        break;
+      }
+    }
+
+    let checked = 0;
+    const failing: number[] = [];
+    data.forEach((row, index) => {
+      const outcome = passes(row);
+      if (outcome === undefined) return;
+      checked++;
+      if (!outcome) failing.push(index);
+    });
+    const success = checked === 0 || (checked - failing.length) / checked >= (expectation.mostly ?? 1);
+    return {
+      ...base,
+      columns: checkedColumns,
+      success,
+      checked,
+      failed: failing.length,
+      observed: failing.length > 0 ? `${failing.length} of ${checked} row(s) fail (${((failing.length / checked) * 100).toFixed(1)}%)` : undefined,
+      samples: failing.slice(0, sampleSize).map(row => ({
+        row,
+        values: Object.fromEntries(checkedColumns.map(column => [column, data[row][column] ?? null])),
+      })),
+    };
+  });
+
+  const failed = results.filter(result => !result.success);
+  const criticalFailures = failed.filter(result => result.severity === 'critical').length;
+  return {
+    success: criticalFailures === 0,
+    rowCount: data.length,
+    passed: results.length - failed.length,
+    failed: failed.length,
+    criticalFailures,
+    results,
+  };
+}
+
+/** One line per failed expectation, critical ones first, for error messages and reports. */
+export function summarizeFailures(report: ValidationReport): string[] {
+  return report.results
+    .filter(result => !result.success)
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1))
+    .map(result => {
+      const rows = result.samples.length > 0 ? `; e.g. row(s) ${result.samples.map(sample => sample.row).join(', ')}` : '';
+      return `[${result.severity}] ${result.description}: ${result.observed ?? 'failed'}${rows}`;
+    });
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { pivotTable, PivotSchema } from './pivot';
+
+const orders = [
+  { region: 'North', product: 'A', revenue: 10, units: 1 },
+  { region: 'North', product: 'B', revenue: 30, units: 3 },
+  { region: 'South', product: 'A', revenue: 20, units: 2 },
+  { region: 'South', product: 'A', revenue: 40, units: null },
+  { region: null, product: 'B', revenue: 5, units: 1 },
+];
+const columns = ['region', 'product', 'revenue', 'units'];
+
+const pivot = (spec: unknown) => pivotTable(orders, columns, PivotSchema.parse(spec));
+const byRegion = { rows: ['region'], columns: ['product'], values: [{ column: 'revenue' }] };
+
+describe('pivotTable', () => {
+  it('crosstabs row keys against column keys, with missing keys last', () => {
+    const result = pivot(byRegion);
+    expect(result.columns).toEqual(['region', 'A', 'B']);
+    expect(result.rows).toEqual([
+      { region: 'North', A: 10, B: 30 },
+      { region: 'South', A: 60, B: null },
+      { region: null, A: null, B: 5 },
+    ]);
+    expect(result).toMatchObject({ measures: ['sum(revenue)'], rowKeyCount: 3, columnKeyCount: 2 });
+  });
+
+  it('adds row and column totals from the underlying values', () => {
+    const result = pivot({ ...byRegion, rowTotals: true, columnTotals: true });
+    expect(result.columns).toEqual(['region', 'A', 'B', 'Total']);
+    expect(result.rows[0]).toEqual({ region: 'North', A: 10, B: 30, Total: 40 });
+    expect(result.rows[3]).toEqual({ region: 'Total', A: 70, B: 35, Total: 105 });
+
+    // A mean of the cells would give 25 for South; the mean of its orders is 30
+    const means = pivot({ ...byRegion, values: [{ column: 'revenue', aggregation: 'mean' }], rowTotals: true, columnTotals: true });
+    expect(means.rows.map(row => row.Total)).toEqual([20, 30, 5, 21]);
+  });
+
+  it('shows cells as percentages of their row, column or the grand total', () => {
+    const percent = (of: 'row' | 'column' | 'total') => pivot({ ...byRegion, percent: of, columnTotals: true }).rows;
+    expect(percent('row')).toEqual([
+      { region: 'North', A: 25, B: 75 },
+      { region: 'South', A: 100, B: null },
+      { region: null, A: null, B: 100 },
+      { region: 'Total', A: 66.67, B: 33.33 },
+    ]);
+    expect(percent('column').map(row => [row.A, row.B])).toEqual([[14.29, 85.71], [85.71, null], [null, 14.29], [100, 100]]);
+    expect(percent('total')[0]).toEqual({ region: 'North', A: 9.52, B: 28.57 });
+  });
+
+  it('fills cells without any rows', () => {
+    expect(pivot({ ...byRegion, fill: 0 }).rows[1]).toEqual({ region: 'South', A: 60, B: 0 });
+    expect(pivot({ ...byRegion, fill: '-' }).rows[2]).toEqual({ region: null, A: '-', B: 5 });
+  });
+
+  it('labels several values by column key and measure', () => {
+    const result = pivot({ ...byRegion, values: [{ column: 'revenue' }, { column: 'units', aggregation: 'mean' }], rowTotals: true });
+    expect(result.columns).toEqual([
+      'region', 'A · sum(revenue)', 'A · mean(units)', 'B · sum(revenue)', 'B · mean(units)', 'Total · sum(revenue)', 'Total · mean(units)',
+    ]);
+    // Null units are left out of the mean
+    expect(result.rows[1]).toEqual({
+      region: 'South', 'A · sum(revenue)': 60, 'A · mean(units)': 2, 'B · sum(revenue)': null, 'B · mean(units)': null,
+      'Total · sum(revenue)': 60, 'Total · mean(units)': 2,
+    });
+  });
+
+  it('counts rows, and names value columns by measure without column keys', () => {
+    expect(pivot({ rows: ['product'] }).rows).toEqual([{ product: 'A', count: 3 }, { product: 'B', count: 2 }]);
+    const result = pivot({ rows: ['product'], values: [{ column: 'region', aggregation: 'countDistinct' }, { column: 'revenue', aggregation: 'max' }] });
+    // The order without a region is not counted as one
+    expect(result.rows).toEqual([
+      { product: 'A', 'countDistinct(region)': 2, 'max(revenue)': 40 },
+      { product: 'B', 'countDistinct(region)': 1, 'max(revenue)': 30 },
+    ]);
+  });
+
+  it('lists the cells of each measure without totals or fill, for heatmaps', () => {
+    const result = pivot({ ...byRegion, rowTotals: true, columnTotals: true, fill: 0 });
+    expect(result.cells).toEqual([
+      { row: 'North', column: 'A', measure: 'sum(revenue)', value: 10 },
+      { row: 'North', column: 'B', measure: 'sum(revenue)', value: 30 },
+      { row: 'South', column: 'A', measure: 'sum(revenue)', value: 60 },
+      { row: 'South', column: 'B', measure: 'sum(revenue)', value: null },
+      { row: '(missing)', column: 'A', measure: 'sum(revenue)', value: null },
+      { row: '(missing)', column: 'B', measure: 'sum(revenue)', value: 5 },
+    ]);
+  });
+
+  it('rejects unknown columns, shared keys and percentages of other aggregations', () => {
+    expect(() => pivot({ rows: ['city'] })).toThrow('Unknown column(s) city. Available columns: region, product, revenue, units');
+    expect(() => pivot({ rows: ['region'], columns: ['region'] })).toThrow('Column(s) region cannot be both row and column keys');
+    expect(() => pivot({ ...byRegion, values: [{ column: 'revenue', aggregation: 'mean' }], percent: 'row' }))
+      .toThrow('Percentages need sum or count aggregations, not mean');
+  });
+});
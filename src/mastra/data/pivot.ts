@@ -0,0 +1,210 @@
+import { z } from 'zod';
+import { AGGREGATE_FUNCTIONS, compareValues, isNullish, toNumber } from '../sql/functions';
+
+// Wider pivots than this are refused; they are unreadable and rarely intended
+const MAX_PIVOT_COLUMNS = 500;
+
+const MISSING_KEY = '(missing)';
+const TOTAL_LABEL = 'Total';
+
+export const PivotValueSchema = z.object({
+  column: z.string(),
+  aggregation: z.enum(['sum', 'mean', 'median', 'count', 'countDistinct', 'min', 'max']).optional().default('sum'),
+});
+
+export const PivotSchema = z.object({
+  rows: z.array(z.string()).min(1).describe('Columns whose value combinations become the rows'),
+  columns: z.array(z.string()).optional().default([]).describe(
+    'Columns whose value combinations become the columns; without any there is one column per value',
+  ),
+  values: z.array(PivotValueSchema).optional().describe('Columns aggregated in each cell; the rows are counted when omitted'),
+  rowTotals: z.boolean().optional().default(false).describe('Add a total column at the end of each row'),
+  columnTotals: z.boolean().optional().default(false).describe('Add a total row at the bottom'),
+  percent: z.enum(['none', 'row', 'column', 'total']).optional().default('none').describe(
+    'Show each cell as a percentage of its row total, column total or the grand total (sum and count only)',
+  ),
+  fill: z.union([z.number(), z.string(), z.null()]).optional().default(null).describe('Value of cells without any rows'),
+});
+
+export type PivotSpec = z.infer<typeof PivotSchema>;
+type PivotValue = z.infer<typeof PivotValueSchema>;
+
+/** One value cell in long format, without the totals; the shape heatmaps take. */
+export interface PivotCell {
+  row: string;
+  column: string;
+  measure: string;
+  value: number | null;
+}
+
+export interface PivotResult {
+  columns: string[];
+  rows: Record<string, any>[];
+  /** Labels of the aggregated values, e.g. `sum(revenue)`. */
+  measures: string[];
+  rowKeyCount: number;
+  columnKeyCount: number;
+  cells: PivotCell[];
+}
+
+interface Key {
+  id: string;
+  values: unknown[];
+  label: string;
+}
+
+const keyLabel = (value: unknown) => (isNullish(value) || value === '' ? MISSING_KEY : String(value));
+
+function keyOf(row: Record<string, any>, columns: string[]): Key {
+  const values = columns.map(column => row[column]);
+  const labels = values.map(keyLabel);
+  return { id: JSON.stringify(labels), values, label: labels.join(' / ') };
+}
+
+/** Keys in ascending order of their values, column by column, with missing values last. */
+function sortKeys(keys: Key[]): Key[] {
+  return keys.sort((a, b) => {
+    for (let i = 0; i < a.values.length; i++) {
+      const [left, right] = [a.values[i], b.values[i]];
+      if (isNullish(left) !== isNullish(right)) return isNullish(left) ? 1 : -1;
+      const order = compareValues(left, right);
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+}
+
+function aggregate(values: unknown[], aggregation: PivotValue['aggregation']): number | null {
+  switch (aggregation) {
+    case 'count':
+      return values.length;
+    case 'countDistinct':
+      return new Set(values.map(keyLabel)).size;
+    default: {
+      const numbers = values.map(toNumber).filter((value): value is number => value !== null);
+      const name = { sum: 'SUM', mean: 'AVG', median: 'MEDIAN', min: 'MIN', max: 'MAX' }[aggregation];
+      return numbers.length > 0 ? AGGREGATE_FUNCTIONS[name](numbers, []) : null;
+    }
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Appends " (2)", " (3)", … to labels that repeat an earlier one. */
+function uniqueLabels(labels: string[]): string[] {
+  const seen = new Map<string, number>();
+  return labels.map(label => {
+    const count = (seen.get(label) ?? 0) + 1;
+    seen.set(label, count);
+    return count === 1 ? label : `${label} (${count})`;
+  });
+}
+
+/**
+ * Cross-tabulates rows into a wide table: one row per combination of the row
+ * key columns, one column per combination of the column keys and aggregated
+ * value. Keys are sorted by value. Totals are aggregated from the underlying
+ * values rather than from the cells, so means and medians stay correct.
+ */
+export function pivotTable(data: Record<string, any>[], dataColumns: string[], spec: PivotSpec): PivotResult {
+  const values: PivotValue[] = spec.values && spec.values.length > 0 ? spec.values : [{ column: '', aggregation: 'count' }];
+  const keyColumns = [...spec.rows, ...spec.columns];
+  const missing = [...keyColumns, ...values.map(value => value.column).filter(column => column !== '')]
+    .filter(column => !dataColumns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`Unknown column(s) ${Array.from(new Set(missing)).join(', ')}. Available columns: ${dataColumns.join(', ')}`);
+  }
+  const shared = spec.rows.filter(column => spec.columns.includes(column));
+  if (shared.length > 0) {
+    throw new Error(`Column(s) ${shared.join(', ')} cannot be both row and column keys`);
+  }
+  const percent = spec.percent ?? 'none';
+  if (percent !== 'none') {
+    const other = values.filter(value => value.aggregation !== 'sum' && value.aggregation !== 'count');
+    if (other.length > 0) {
+      throw new Error(`Percentages need sum or count aggregations, not ${other.map(value => value.aggregation).join(', ')}`);
+    }
+  }
+
+  // Raw values per (row key, column key) and value; '*' collects the totals
+  const rowKeys = new Map<string, Key>();
+  const columnKeys = new Map<string, Key>();
+  const buckets = new Map<string, unknown[][]>();
+  const bucket = (rowId: string, columnId: string) => {
+    const id = `${rowId}\u0000${columnId}`;
+    if (!buckets.has(id)) buckets.set(id, values.map(() => []));
+    return buckets.get(id)!;
+  };
+  data.forEach(row => {
+    const rowKey = keyOf(row, spec.rows);
+    const columnKey = keyOf(row, spec.columns);
+    if (!rowKeys.has(rowKey.id)) rowKeys.set(rowKey.id, rowKey);
+    if (!columnKeys.has(columnKey.id)) columnKeys.set(columnKey.id, columnKey);
+    const targets = [bucket(rowKey.id, columnKey.id), bucket(rowKey.id, '*'), bucket('*', columnKey.id), bucket('*', '*')];
+    values.forEach((value, v) => {
+      // Counting without a value column counts rows
+      const cell = value.column === '' ? 1 : row[value.column];
+      if (isNullish(cell)) return;
+      targets.forEach(target => target[v].push(cell));
+    });
+  });
+
+  const sortedRows = sortKeys(Array.from(rowKeys.values()));
+  const sortedColumns = sortKeys(Array.from(columnKeys.values()));
+  const measures = values.map(value => (value.column === '' ? 'count' : `${value.aggregation}(${value.column})`));
+  const valueColumnCount = (sortedColumns.length + (spec.rowTotals ? 1 : 0)) * values.length;
+  if (valueColumnCount > MAX_PIVOT_COLUMNS) {
+    throw new Error(
+      `The pivot would have ${valueColumnCount} value columns (at most ${MAX_PIVOT_COLUMNS}); use fewer or coarser column keys, or swap rows and columns`,
+    );
+  }
+
+  // One value without column keys is labelled by its measure, one value with them by the key alone
+  const headerOf = (columnLabel: string, v: number) => {
+    if (spec.columns.length === 0) return measures[v];
+    return values.length === 1 ? columnLabel : `${columnLabel} · ${measures[v]}`;
+  };
+  const slots = [
+    ...sortedColumns.flatMap(key => values.map((_, v) => ({ columnId: key.id, label: headerOf(key.label, v), v }))),
+    ...(spec.rowTotals && spec.columns.length > 0
+      ? values.map((_, v) => ({ columnId: '*', label: values.length === 1 ? TOTAL_LABEL : `${TOTAL_LABEL} · ${measures[v]}`, v }))
+      : []),
+  ];
+  const columns = uniqueLabels([...spec.rows, ...slots.map(slot => slot.label)]);
+
+  const raw = (rowId: string, columnId: string, v: number): number | null => {
+    const cell = buckets.get(`${rowId}\u0000${columnId}`);
+    return cell ? aggregate(cell[v], values[v].aggregation) : null;
+  };
+  const shown = (rowId: string, columnId: string, v: number): number | null => {
+    const value = raw(rowId, columnId, v);
+    if (value === null || percent === 'none') return value;
+    const base = percent === 'row' ? raw(rowId, '*', v) : percent === 'column' ? raw('*', columnId, v) : raw('*', '*', v);
+    return base ? round((value / base) * 100) : null;
+  };
+  const withFill = (value: number | null) => (value === null ? spec.fill ?? null : value);
+
+  const cells: PivotCell[] = [];
+  const rows = sortedRows.map(key => {
+    const row: Record<string, any> = {};
+    spec.rows.forEach((column, i) => (row[columns[i]] = key.values[i] ?? null));
+    slots.forEach((slot, i) => {
+      const value = shown(key.id, slot.columnId, slot.v);
+      row[columns[spec.rows.length + i]] = withFill(value);
+      if (slot.columnId !== '*') {
+        const column = spec.columns.length === 0 ? measures[slot.v] : columnKeys.get(slot.columnId)!.label;
+        cells.push({ row: key.label, column, measure: measures[slot.v], value });
+      }
+    });
+    return row;
+  });
+
+  if (spec.columnTotals) {
+    const total: Record<string, any> = {};
+    spec.rows.forEach((_, i) => (total[columns[i]] = i === 0 ? TOTAL_LABEL : null));
+    slots.forEach((slot, i) => (total[columns[spec.rows.length + i]] = withFill(shown('*', slot.columnId, slot.v))));
+    rows.push(total);
+  }
+
+  return { columns, rows, measures, rowKeyCount: sortedRows.length, columnKeyCount: sortedColumns.length, cells };
+}
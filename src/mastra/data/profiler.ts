@@ -0,0 +1,77 @@
+import { ColumnSchema, ColumnType, isNumericType } from './typeInference';
+
+export interface ColumnProfile {
+  name: string;
+  type: ColumnType;
+  nullCount: number;
+  nullRate: number;
+  distinctCount: number;
+  min?: number | string;
+  max?: number | string;
+  mean?: number;
+  topValues: { value: any; count: number }[];
+  sampleValues: any[];
+}
+
+export interface DatasetProfile {
+  rowCount: number;
+  columnCount: number;
+  columns: ColumnProfile[];
+}
+
+const TOP_K = 5;
+const SAMPLE_SIZE = 5;
+
+/** Profiles typed rows (see `applySchema`) column by column. */
+export function profileData(data: Record<string, any>[], schema: ColumnSchema[]): DatasetProfile {
+  return {
+    rowCount: data.length,
+    columnCount: schema.length,
+    columns: schema.map(column => profileColumn(column, data.map(row => row[column.name]))),
+  };
+}
+
+export function profileColumn(column: ColumnSchema, values: any[]): ColumnProfile {
+  const present = values.filter(value => value !== null && value !== undefined);
+  const nullCount = values.length - present.length;
+
+  const counts = new Map<string, { value: any; count: number }>();
+  present.forEach(value => {
+    const key = JSON.stringify(value);
+    const entry = counts.get(key) ?? { value, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  });
+
+  const topValues = Array.from(counts.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_K);
+
+  const profile: ColumnProfile = {
+    name: column.name,
+    type: column.type,
+    nullCount,
+    nullRate: values.length > 0 ? nullCount / values.length : 0,
+    distinctCount: counts.size,
+    topValues,
+    sampleValues: Array.from(counts.values()).slice(0, SAMPLE_SIZE).map(entry => entry.value),
+  };
+
+  if (isNumericType(column.type)) {
+    const numbers = present.filter((value): value is number => typeof value === 'number');
+    if (numbers.length > 0) {
+      profile.min = numbers.reduce((min, val) => Math.min(min, val), Infinity);
+      profile.max = numbers.reduce((max, val) => Math.max(max, val), -Infinity);
+      profile.mean = numbers.reduce((sum, val) => sum + val, 0) / numbers.length;
+    }
+  } else if (column.type === 'date' || column.type === 'datetime') {
+    // ISO strings order chronologically
+    const texts = present.map(String).sort();
+    if (texts.length > 0) {
+      profile.min = texts[0];
+      profile.max = texts[texts.length - 1];
+    }
+  }
+
+  return profile;
+}
@@ -0,0 +1,68 @@
+export interface StratifiedSample {
+  rows: Record<string, any>[];
+  /** The column whose values the rows were stratified by, if any. */
+  column?: string;
+  strata: { value: string; rows: number; sampled: number }[];
+}
+
+/** `count` indices spread evenly over `0..length-1`, always including the first. */
+function evenlySpaced(length: number, count: number): number[] {
+  if (count >= length) return Array.from({ length }, (_, i) => i);
+  return Array.from({ length: count }, (_, i) => Math.floor((i * length) / count));
+}
+
+/**
+ * Picks up to `size` rows so every value of `column` is represented in
+ * proportion to its share of the rows, with at least one row each (the
+ * largest strata first when there are more strata than `size`). Rows are
+ * taken evenly spaced within each stratum, so the sample is deterministic,
+ * and returned in their original order. Without a column the rows are
+ * spread evenly over the whole data.
+ */
+export function stratifiedSample(data: Record<string, any>[], size: number, column?: string): StratifiedSample {
+  if (!column) {
+    return { rows: evenlySpaced(data.length, size).map(i => data[i]), strata: [] };
+  }
+
+  const groups = new Map<string, number[]>();
+  data.forEach((row, index) => {
+    const value = row[column] === null || row[column] === undefined ? '(missing)' : String(row[column]);
+    if (!groups.has(value)) groups.set(value, []);
+    groups.get(value)!.push(index);
+  });
+
+  const strata = Array.from(groups.entries())
+    .map(([value, indices]) => ({ value, indices, sampled: 0 }))
+    .sort((a, b) => b.indices.length - a.indices.length);
+  let remaining = Math.min(size, data.length);
+
+  // One row per stratum first, then the rest in proportion to stratum size
+  strata.forEach(stratum => {
+    if (remaining > 0) {
+      stratum.sampled = 1;
+      remaining--;
+    }
+  });
+  const spare = remaining;
+  strata.forEach(stratum => {
+    const extra = Math.min(stratum.indices.length - stratum.sampled, Math.floor((spare * stratum.indices.length) / data.length));
+    stratum.sampled += extra;
+    remaining -= extra;
+  });
+  // Rounding leftovers go to the largest strata that still have rows
+  while (remaining > 0) {
+    const open = strata.filter(stratum => stratum.sampled < stratum.indices.length);
+    if (open.length === 0) break;
+    open.slice(0, remaining).forEach(stratum => stratum.sampled++);
+    remaining -= Math.min(remaining, open.length);
+  }
+
+  const picked = strata
+    .flatMap(stratum => evenlySpaced(stratum.indices.length, stratum.sampled).map(i => stratum.indices[i]))
+    .sort((a, b) => a - b);
+  return {
+    rows: picked.map(i => data[i]),
+    column,
+    strata: strata.map(({ value, indices, sampled }) => ({ value, rows: indices.length, sampled })),
+  };
+}
@@ -0,0 +1,100 @@
+import Database from 'libsql';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { assertReadOnlySql, listSqliteTables, querySqlite, resolveDatabasePath } from './sqliteSource';
+
+let dir: string;
+let path: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'sqlite-'));
+  path = join(dir, 'shop.db');
+  const db = new Database(path);
+  db.exec(`
+    CREATE TABLE customers (id INTEGER PRIMARY KEY, name TEXT NOT NULL, country TEXT);
+    CREATE TABLE orders (id INTEGER PRIMARY KEY, customer_id INTEGER, total REAL, receipt BLOB, big INTEGER);
+    CREATE VIEW spend AS SELECT customer_id, SUM(total) AS total FROM orders GROUP BY customer_id;
+    INSERT INTO customers VALUES (1, 'Ada', 'UK'), (2, 'Grace', 'US');
+    INSERT INTO orders VALUES (1, 1, 30.5, x'0102', 9007199254740993), (2, 1, 20, NULL, 1), (3, 2, 70, NULL, NULL);
+  `);
+  db.close();
+});
+
+afterAll(() => rm(dir, { recursive: true, force: true }));
+
+const query = (sql: string, maxRows = 100, timeoutMs = 10000) => querySqlite(path, sql, { maxRows, timeoutMs });
+
+describe('assertReadOnlySql', () => {
+  it('accepts single read-only statements', () => {
+    expect(() => assertReadOnlySql('SELECT replace(name, \'a\', \'b\') FROM t;')).not.toThrow();
+    expect(() => assertReadOnlySql("WITH x AS (SELECT 'DROP TABLE t; DELETE' AS s) SELECT * FROM x -- UPDATE")).not.toThrow();
+    expect(() => assertReadOnlySql('VALUES (1), (2)')).not.toThrow();
+  });
+
+  it('rejects writes, schema changes and several statements', () => {
+    expect(() => assertReadOnlySql('DELETE FROM t')).toThrow('Only read-only SELECT queries are allowed, not DELETE');
+    expect(() => assertReadOnlySql('WITH x AS (SELECT 1) INSERT INTO t SELECT * FROM x'))
+      .toThrow('Only read-only SELECT queries are allowed; the query contains INSERT');
+    expect(() => assertReadOnlySql('SELECT 1; DROP TABLE t')).toThrow('Run one statement at a time; found 2');
+    expect(() => assertReadOnlySql('  ')).toThrow('Run one statement at a time; found 0');
+  });
+});
+
+describe('resolveDatabasePath', () => {
+  it('accepts paths and file: URLs of SQLite files only', async () => {
+    expect(await resolveDatabasePath(pathToFileURL(path).href)).toBe(path);
+    await expect(resolveDatabasePath(join(dir, 'missing.db'))).rejects.toThrow(`No database file at ${join(dir, 'missing.db')}`);
+    await writeFile(join(dir, 'notes.txt'), 'not a database');
+    await expect(resolveDatabasePath(join(dir, 'notes.txt'))).rejects.toThrow('is not a SQLite database');
+  });
+});
+
+describe('querySqlite', () => {
+  it('runs real SQLite queries and returns rows keyed by column', async () => {
+    const result = await query(`
+      SELECT c.name, SUM(o.total) AS spent, RANK() OVER (ORDER BY SUM(o.total) DESC) AS rank
+      FROM customers c JOIN orders o ON o.customer_id = c.id GROUP BY c.name ORDER BY rank`);
+    expect(result.columns).toEqual(['name', 'spent', 'rank']);
+    expect(result.data).toEqual([{ name: 'Grace', spent: 70, rank: 1 }, { name: 'Ada', spent: 50.5, rank: 2 }]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('suffixes repeated column names and makes large integers and blobs JSON-safe', async () => {
+    const result = await query('SELECT o.id, c.id, o.big, o.receipt FROM orders o JOIN customers c ON c.id = o.customer_id ORDER BY o.id');
+    expect(result.columns).toEqual(['id', 'id_2', 'big', 'receipt']);
+    expect(result.data[0]).toEqual({ id: 1, id_2: 1, big: '9007199254740993', receipt: '<2-byte blob>' });
+    expect(result.data[2]).toMatchObject({ big: null, receipt: null });
+  });
+
+  it('caps the rows and stops queries that run too long', async () => {
+    const capped = await query('SELECT * FROM orders', 2);
+    expect(capped.data).toHaveLength(2);
+    expect(capped.truncated).toBe(true);
+    await expect(query('WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n) SELECT COUNT(*) FROM n', 1, 300))
+      .rejects.toThrow('The query was stopped after the 300 ms time limit');
+  });
+
+  it('reports SQLite errors', async () => {
+    await expect(query('SELECT * FROM products')).rejects.toThrow(/no such table: products/);
+  });
+});
+
+describe('listSqliteTables', () => {
+  it('lists tables and views with their columns and row counts', async () => {
+    const tables = await listSqliteTables(path, { timeoutMs: 10000 });
+    expect(tables.map(table => [table.name, table.type, table.rowCount])).toEqual([
+      ['customers', 'table', 2],
+      ['orders', 'table', 3],
+      ['spend', 'view', undefined],
+    ]);
+    expect(tables[0].columns).toEqual([
+      { name: 'id', type: 'INTEGER', nullable: true, primaryKey: true },
+      { name: 'name', type: 'TEXT', nullable: false, primaryKey: false },
+      { name: 'country', type: 'TEXT', nullable: true, primaryKey: false },
+    ]);
+    await expect(listSqliteTables(path, { table: 'products', timeoutMs: 10000 })).rejects.toThrow(`No table or view named 'products' in ${path}`);
+  });
+});
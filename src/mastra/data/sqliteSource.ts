@@ -0,0 +1,206 @@
+import { spawn } from 'child_process';
+import { open } from 'fs/promises';
+import { createRequire } from 'module';
+import { resolve } from 'path';
+
+export interface SqliteQueryOptions {
+  /** Rows to read at most; a result with more is truncated. */
+  maxRows: number;
+  /** Milliseconds before the query is stopped. */
+  timeoutMs: number;
+}
+
+export interface SqliteQueryResult {
+  columns: string[];
+  data: Record<string, any>[];
+  truncated: boolean;
+  elapsedMs: number;
+}
+
+export interface SqliteColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  primaryKey: boolean;
+}
+
+export interface SqliteTable {
+  name: string;
+  type: 'table' | 'view';
+  /** Rows in the table; not counted for views. */
+  rowCount?: number;
+  columns: SqliteColumn[];
+}
+
+const SQLITE_HEADER = 'SQLite format 3\u0000';
+
+// Statements that can write, change the schema or the connection; mode=ro rejects writes anyway, this names the problem
+const WRITE_KEYWORDS = [
+  'INSERT', 'UPDATE', 'DELETE', 'REPLACE', 'UPSERT', 'CREATE', 'DROP', 'ALTER', 'ATTACH', 'DETACH', 'PRAGMA',
+  'VACUUM', 'REINDEX', 'ANALYZE', 'BEGIN', 'COMMIT', 'ROLLBACK', 'SAVEPOINT', 'RELEASE',
+];
+
+/**
+ * Runs in a separate Node process, so a runaway query can be killed: SQLite
+ * runs synchronously and cannot be interrupted from the event loop. It opens
+ * the file read-only, reads at most maxRows + 1 rows and prints JSON.
+ */
+const RUNNER = `
+const Database = require(process.argv[1]);
+const request = JSON.parse(process.argv[2]);
+const value = v => typeof v === 'bigint' ? (Number.isSafeInteger(Number(v)) ? Number(v) : v.toString())
+  : v instanceof ArrayBuffer || ArrayBuffer.isView(v) ? '<' + v.byteLength + '-byte blob>' : v;
+const rows = (db, sql, limit) => {
+  const statement = db.prepare(sql).raw(true).safeIntegers(true);
+  const out = [];
+  for (const row of statement.iterate()) {
+    if (out.length === limit) return { columns: statement.columns().map(c => c.name), rows: out, truncated: true };
+    out.push(row.map(value));
+  }
+  return { columns: statement.columns().map(c => c.name), rows: out, truncated: false };
+};
+try {
+  const db = new Database('file:' + encodeURI(request.path) + '?mode=ro');
+  let result;
+  if (request.kind === 'query') {
+    result = rows(db, request.sql, request.maxRows);
+  } else {
+    const quote = name => '"' + name.replace(/"/g, '""') + '"';
+    const objects = rows(db, "SELECT name, type FROM sqlite_schema WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY name", Infinity).rows
+      .filter(([name]) => request.table === undefined || name === request.table);
+    result = {
+      tables: objects.map(([name, type]) => ({
+        name,
+        type,
+        rowCount: type === 'table' ? rows(db, 'SELECT COUNT(*) FROM ' + quote(name), 1).rows[0][0] : undefined,
+        columns: rows(db, 'PRAGMA table_info(' + quote(name) + ')', Infinity).rows
+          .map(([, column, type, notNull, , pk]) => ({ name: column, type: type || 'ANY', nullable: !notNull, primaryKey: pk > 0 })),
+      })),
+    };
+  }
+  process.stdout.write(JSON.stringify(result));
+} catch (error) {
+  process.stdout.write(JSON.stringify({ error: String(error && error.message || error) }));
+}
+`;
+
+/** Blanks out comments, string literals and quoted identifiers, so keywords inside them are not mistaken for SQL. */
+function stripLiterals(sql: string): string {
+  return sql.replace(/--[^\n]*|\/\*[\s\S]*?(\*\/|$)|'(?:[^']|'')*'?|"(?:[^"]|"")*"?|`[^`]*`?|\[[^\]]*\]?/g, match => ' '.repeat(match.length));
+}
+
+/**
+ * Rejects anything but a single SELECT, WITH, VALUES or EXPLAIN statement.
+ * The database is opened read-only as well; this check gives a clear error
+ * before the query reaches it.
+ */
+export function assertReadOnlySql(sql: string): void {
+  const code = stripLiterals(sql);
+  const statements = code.split(';').filter(statement => statement.trim() !== '');
+  if (statements.length !== 1) {
+    throw new Error(`Run one statement at a time; found ${statements.length}`);
+  }
+  const first = /^\s*([A-Za-z]+)/.exec(statements[0])?.[1]?.toUpperCase();
+  if (!first || !['SELECT', 'WITH', 'VALUES', 'EXPLAIN'].includes(first)) {
+    throw new Error(`Only read-only SELECT queries are allowed, not ${first ?? 'an empty statement'}`);
+  }
+  // REPLACE is also a string function, which is fine
+  const write = new RegExp(`\\b(${WRITE_KEYWORDS.join('|')})\\b(?!\\s*\\()`, 'i').exec(code);
+  if (write) {
+    throw new Error(`Only read-only SELECT queries are allowed; the query contains ${write[1].toUpperCase()}`);
+  }
+}
+
+/** The absolute path of an existing SQLite database file, from a path or a `file:` URL. */
+export async function resolveDatabasePath(path: string): Promise<string> {
+  const absolute = resolve(path.startsWith('file:') ? decodeURI(path.replace(/^file:(\/\/localhost)?/, '')) : path);
+  let handle;
+  try {
+    handle = await open(absolute, 'r');
+  } catch {
+    throw new Error(`No database file at ${absolute}`);
+  }
+  try {
+    const header = Buffer.alloc(SQLITE_HEADER.length);
+    await handle.read(header, 0, header.length, 0);
+    if (header.toString('latin1') !== SQLITE_HEADER) {
+      throw new Error(`${absolute} is not a SQLite database`);
+    }
+  } finally {
+    await handle.close();
+  }
+  return absolute;
+}
+
+function runInChild<T>(request: Record<string, any>, timeoutMs: number): Promise<T> {
+  const driver = createRequire(import.meta.url).resolve('libsql');
+  return new Promise((done, fail) => {
+    const child = spawn(process.execPath, ['-e', RUNNER, driver, JSON.stringify(request)], { stdio: ['ignore', 'pipe', 'pipe'] });
+    const output: Buffer[] = [];
+    const errors: Buffer[] = [];
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeoutMs);
+
+    child.stdout.on('data', chunk => output.push(chunk));
+    child.stderr.on('data', chunk => errors.push(chunk));
+    child.on('error', error => {
+      clearTimeout(timer);
+      fail(error);
+    });
+    child.on('close', () => {
+      clearTimeout(timer);
+      if (timedOut) {
+        fail(new Error(`The query was stopped after the ${timeoutMs} ms time limit`));
+        return;
+      }
+      try {
+        const result = JSON.parse(Buffer.concat(output).toString('utf-8'));
+        if (result.error) fail(new Error(result.error));
+        else done(result);
+      } catch {
+        fail(new Error(`The database query failed: ${Buffer.concat(errors).toString('utf-8').trim() || 'no output'}`));
+      }
+    });
+  });
+}
+
+/** Runs a read-only query against a SQLite or LibSQL database file. */
+export async function querySqlite(path: string, sql: string, options: SqliteQueryOptions): Promise<SqliteQueryResult> {
+  assertReadOnlySql(sql);
+  const database = await resolveDatabasePath(path);
+  const started = Date.now();
+  const result = await runInChild<{ columns: string[]; rows: any[][]; truncated: boolean }>(
+    { kind: 'query', path: database, sql, maxRows: options.maxRows },
+    options.timeoutMs,
+  );
+  // Joins can return the same column name twice; later ones get a suffix
+  const columns = normalizeColumnNames(result.columns);
+  return {
+    columns,
+    data: result.rows.map(row => Object.fromEntries(columns.map((column, i) => [column, row[i] ?? null]))),
+    truncated: result.truncated,
+    elapsedMs: Date.now() - started,
+  };
+}
+
+/** The tables and views of a database file with their columns, optionally only `table`. */
+export async function listSqliteTables(path: string, options: { table?: string; timeoutMs: number }): Promise<SqliteTable[]> {
+  const database = await resolveDatabasePath(path);
+  const { tables } = await runInChild<{ tables: SqliteTable[] }>({ kind: 'tables', path: database, table: options.table }, options.timeoutMs);
+  if (options.table && tables.length === 0) {
+    throw new Error(`No table or view named '${options.table}' in ${database}`);
+  }
+  return tables;
+}
+
+function normalizeColumnNames(names: string[]): string[] {
+  const seen = new Map<string, number>();
+  return names.map(name => {
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count === 1 ? name : `${name}_${count}`;
+  });
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { applyTimeSeries, cumulativeSum, periodChange, rollingWindow, TimeSeriesSchema } from './timeSeries';
+
+const orders = [
+  { day: '2024-01-15', region: 'North', revenue: 10 },
+  { day: '2024-01-20', region: 'North', revenue: 5 },
+  { day: '2024-03-02', region: 'North', revenue: 30 },
+  { day: '2024-02-10', region: 'South', revenue: 8 },
+  { day: 'someday', region: 'South', revenue: 99 },
+];
+const columns = ['day', 'region', 'revenue'];
+
+describe('window functions', () => {
+  it('computes rolling means and sums over trailing windows', () => {
+    expect(rollingWindow([1, 2, 3, 4], 2, 'mean')).toEqual([null, 1.5, 2.5, 3.5]);
+    expect(rollingWindow([1, null, 3], 2, 'sum', 1)).toEqual([1, 1, 3]);
+  });
+
+  it('computes period-over-period change and running totals', () => {
+    expect(periodChange([100, 110, 0, 5], 1, 'percent')).toEqual([null, 0.1, -1, null]);
+    expect(periodChange([1, 4, 9], 2, 'difference')).toEqual([null, null, 8]);
+    expect(cumulativeSum([1, null, 2])).toEqual([1, null, 3]);
+  });
+});
+
+describe('applyTimeSeries', () => {
+  const resample = (spec: unknown) => applyTimeSeries(orders, columns, TimeSeriesSchema.parse(spec));
+
+  it('resamples to months, filling the gaps', () => {
+    const result = resample({ dateColumn: 'day', period: 'month', values: [{ column: 'revenue' }], fill: 'zero' });
+    expect(result.data).toEqual([
+      { day: '2024-01-01', revenue: 15 },
+      { day: '2024-02-01', revenue: 8 },
+      { day: '2024-03-01', revenue: 30 },
+    ]);
+    expect(result.report).toMatchObject({ period: 'month', series: 1, periods: 3, filledRows: 0, droppedRows: 1 });
+  });
+
+  it('gives every group the shared range of periods', () => {
+    const result = resample({ dateColumn: 'day', period: 'month', groupBy: ['region'], fill: 'linear' });
+    expect(result.columns).toEqual(['day', 'region', 'revenue']);
+    expect(result.data.filter(row => row.region === 'North').map(row => row.revenue)).toEqual([15, 22.5, 30]);
+    expect(result.data.filter(row => row.region === 'South').map(row => row.revenue)).toEqual([null, 8, null]);
+    expect(result.report.filledRows).toBe(3);
+  });
+
+  it('buckets weeks from Monday and quarters from their first month', () => {
+    const weekly = resample({ dateColumn: 'day', period: 'week', fill: 'none' });
+    expect(weekly.data.map(row => row.day)).toEqual(['2024-01-15', '2024-02-05', '2024-02-26']);
+    const quarterly = resample({ dateColumn: 'day', period: 'quarter' });
+    expect(quarterly.data).toEqual([{ day: '2024-01-01', revenue: 53 }]);
+  });
+
+  it('adds window columns per series in date order', () => {
+    const result = resample({
+      dateColumn: 'day',
+      period: 'month',
+      groupBy: ['region'],
+      fill: 'zero',
+      windows: [
+        { type: 'rolling', column: 'revenue', size: 2, function: 'sum' },
+        { type: 'change', column: 'revenue', mode: 'difference' },
+        { type: 'cumulative', column: 'revenue', as: 'total' },
+      ],
+    });
+    expect(result.report.addedColumns).toEqual(['revenue_rolling_sum_2', 'revenue_change', 'total']);
+    expect(result.data.filter(row => row.region === 'North')).toEqual([
+      { day: '2024-01-01', region: 'North', revenue: 15, revenue_rolling_sum_2: null, revenue_change: null, total: 15 },
+      { day: '2024-02-01', region: 'North', revenue: 0, revenue_rolling_sum_2: 15, revenue_change: -15, total: 15 },
+      { day: '2024-03-01', region: 'North', revenue: 30, revenue_rolling_sum_2: 30, revenue_change: 30, total: 45 },
+    ]);
+  });
+
+  it('sorts rows by date without a period', () => {
+    const result = resample({ dateColumn: 'day', windows: [{ type: 'cumulative', column: 'revenue' }] });
+    expect(result.data.map(row => row.revenue_cumsum)).toEqual([10, 15, 23, 53]);
+  });
+
+  it('rejects unknown columns', () => {
+    expect(() => resample({ dateColumn: 'date' })).toThrow('timeSeries: unknown column(s) date');
+  });
+});
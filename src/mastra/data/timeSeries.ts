@@ -0,0 +1,265 @@
+import { z } from 'zod';
+import { AGGREGATE_FUNCTIONS, isNullish, toNumber } from '../sql/functions';
+import { addPeriods, formatDate, toDate, truncateDate } from './dates';
+
+const WindowSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('rolling'),
+    column: z.string(),
+    size: z.number().int().min(1).describe('Number of periods (or rows) in the window, including the current one'),
+    function: z.enum(['mean', 'sum']).optional().default('mean'),
+    minPeriods: z.number().int().min(1).optional().describe('Values needed for a result, defaults to the window size'),
+    as: z.string().optional().describe('Output column, defaults to e.g. revenue_rolling_mean_7'),
+  }),
+  z.object({
+    type: z.literal('change'),
+    column: z.string(),
+    lag: z.number().int().min(1).optional().default(1).describe('Periods to compare against, e.g. 12 for year over year on monthly data'),
+    mode: z.enum(['difference', 'percent']).optional().default('percent'),
+    as: z.string().optional().describe('Output column, defaults to e.g. revenue_pct_change'),
+  }),
+  z.object({
+    type: z.literal('cumulative'),
+    column: z.string(),
+    as: z.string().optional().describe('Output column, defaults to e.g. revenue_cumsum'),
+  }),
+]);
+
+export const TimeSeriesSchema = z.object({
+  dateColumn: z.string(),
+  period: z.enum(['hour', 'day', 'week', 'month', 'quarter', 'year']).optional().describe(
+    'Resample to one row per hour, day, week (starting Monday), month, quarter or year; omit to keep the rows and only sort them by date',
+  ),
+  values: z.array(z.object({
+    column: z.string(),
+    aggregation: z.enum(['sum', 'mean', 'median', 'min', 'max', 'count', 'first', 'last']).optional().default('sum'),
+  })).optional().describe('Columns to aggregate per period; defaults to summing every numeric column'),
+  groupBy: z.array(z.string()).optional().describe('Resample each combination of these columns as its own series'),
+  fill: z.enum(['none', 'null', 'zero', 'forward', 'linear']).optional().default('null').describe(
+    'How periods with no rows are filled: none leaves them out, null adds empty rows, zero/forward/linear fill the values',
+  ),
+  windows: z.array(WindowSchema).optional().describe(
+    'Rolling windows, period-over-period change and cumulative sums, computed per series in date order',
+  ),
+});
+
+export type TimeSeriesSpec = z.infer<typeof TimeSeriesSchema>;
+export type WindowSpec = z.infer<typeof WindowSchema>;
+
+export interface TimeSeriesReport {
+  period?: string;
+  series: number;
+  periods: number;
+  /** Rows added for periods that had no data. */
+  filledRows: number;
+  /** Rows dropped because their date could not be read. */
+  droppedRows: number;
+  addedColumns: string[];
+}
+
+export interface TimeSeriesResult {
+  data: Record<string, any>[];
+  columns: string[];
+  report: TimeSeriesReport;
+}
+
+const AGGREGATIONS: Record<string, string> = {
+  sum: 'SUM',
+  mean: 'AVG',
+  median: 'MEDIAN',
+  min: 'MIN',
+  max: 'MAX',
+  count: 'COUNT',
+};
+
+/** Mean or sum of each trailing window of `size` values, skipping nulls. */
+export function rollingWindow(values: (number | null)[], size: number, fn: 'mean' | 'sum', minPeriods = size): (number | null)[] {
+  return values.map((_, i) => {
+    const window = values.slice(Math.max(i - size + 1, 0), i + 1).filter((value): value is number => value !== null);
+    if (window.length < minPeriods) return null;
+    const total = window.reduce((sum, value) => sum + value, 0);
+    return fn === 'sum' ? total : total / window.length;
+  });
+}
+
+/** Change against the value `lag` steps earlier; percent change is null when the earlier value is 0. */
+export function periodChange(values: (number | null)[], lag: number, mode: 'difference' | 'percent'): (number | null)[] {
+  return values.map((value, i) => {
+    const previous = i >= lag ? values[i - lag] : null;
+    if (value === null || previous === null) return null;
+    if (mode === 'difference') return value - previous;
+    return previous === 0 ? null : (value - previous) / Math.abs(previous);
+  });
+}
+
+/** Running total; missing values stay missing without resetting the total. */
+export function cumulativeSum(values: (number | null)[]): (number | null)[] {
+  let total = 0;
+  return values.map(value => {
+    if (value === null) return null;
+    total += value;
+    return total;
+  });
+}
+
+function windowColumn(window: WindowSpec): string {
+  if (window.as) return window.as;
+  switch (window.type) {
+    case 'rolling':
+      return `${window.column}_rolling_${window.function ?? 'mean'}_${window.size}`;
+    case 'change':
+      return `${window.column}_${window.mode === 'difference' ? 'change' : 'pct_change'}`;
+    case 'cumulative':
+      return `${window.column}_cumsum`;
+  }
+}
+
+function fillGaps(values: (number | null)[], missing: boolean[], fill: TimeSeriesSpec['fill']): (number | null)[] {
+  switch (fill) {
+    case 'zero':
+      return values.map((value, i) => (missing[i] ? 0 : value));
+    case 'forward': {
+      let last: number | null = null;
+      return values.map((value, i) => {
+        if (missing[i]) return last;
+        last = value;
+        return value;
+      });
+    }
+    case 'linear':
+      return values.map((value, i) => {
+        if (!missing[i]) return value;
+        let before = i - 1;
+        while (before >= 0 && (missing[before] || values[before] === null)) before--;
+        let after = i + 1;
+        while (after < values.length && (missing[after] || values[after] === null)) after++;
+        if (before < 0 || after >= values.length) return null;
+        return values[before]! + ((values[after]! - values[before]!) * (i - before)) / (after - before);
+      });
+    default:
+      return values;
+  }
+}
+
+/**
+ * Sorts rows by date and optionally resamples them to a regular period,
+ * filling periods without rows, then adds the requested window columns.
+ * Each `groupBy` combination is treated as its own series, and all series
+ * share the same range of periods.
+ */
+export function applyTimeSeries(data: Record<string, any>[], columns: string[], spec: TimeSeriesSpec): TimeSeriesResult {
+  const { dateColumn, period, groupBy = [], fill = 'null', windows = [] } = spec;
+  const unknown = [dateColumn, ...groupBy, ...(spec.values ?? []).map(value => value.column)]
+    .filter(column => !columns.includes(column));
+  if (unknown.length > 0) {
+    throw new Error(`timeSeries: unknown column(s) ${Array.from(new Set(unknown)).join(', ')}`);
+  }
+
+  const values = spec.values ?? columns
+    .filter(column => column !== dateColumn && !groupBy.includes(column))
+    .filter(column => data.some(row => typeof row[column] === 'number') && data.every(row => isNullish(row[column]) || typeof row[column] === 'number'))
+    .map(column => ({ column, aggregation: 'sum' as const }));
+
+  const dated = data
+    .map(row => ({ row, date: toDate(row[dateColumn]) }))
+    .filter((item): item is { row: Record<string, any>; date: Date } => item.date !== null);
+  const droppedRows = data.length - dated.length;
+
+  // Series in order of first appearance
+  const series = new Map<string, { key: Record<string, any>; rows: { row: Record<string, any>; date: Date }[] }>();
+  dated.forEach(item => {
+    const key = JSON.stringify(groupBy.map(column => item.row[column] ?? null));
+    if (!series.has(key)) series.set(key, { key: Object.fromEntries(groupBy.map(column => [column, item.row[column] ?? null])), rows: [] });
+    series.get(key)!.rows.push(item);
+  });
+  series.forEach(entry => entry.rows.sort((a, b) => a.date.getTime() - b.date.getTime()));
+
+  let outputColumns: string[];
+  let filledRows = 0;
+  let periodCount = 0;
+  const seriesRows: Record<string, any>[][] = [];
+
+  if (period) {
+    outputColumns = [dateColumn, ...groupBy, ...values.map(value => value.column)];
+
+    // The shared range runs from the earliest to the latest period of any series
+    const starts = dated.map(item => truncateDate(item.date, period).getTime());
+    const periods: Date[] = [];
+    if (starts.length > 0) {
+      const last = Math.max(...starts);
+      for (let current = new Date(Math.min(...starts)); current.getTime() <= last; current = addPeriods(current, period, 1)) {
+        periods.push(current);
+      }
+    }
+
+    series.forEach(({ key, rows }) => {
+      const buckets = new Map<number, Record<string, any>[]>();
+      rows.forEach(({ row, date }) => {
+        const start = truncateDate(date, period).getTime();
+        if (!buckets.has(start)) buckets.set(start, []);
+        buckets.get(start)!.push(row);
+      });
+
+      const used = fill === 'none' ? periods.filter(start => buckets.has(start.getTime())) : periods;
+      const missing = used.map(start => !buckets.has(start.getTime()));
+      filledRows += missing.filter(Boolean).length;
+
+      const columnsOut: Record<string, (number | null)[]> = {};
+      values.forEach(({ column, aggregation }) => {
+        const aggregated = used.map(start => {
+          const bucket = (buckets.get(start.getTime()) ?? []).map(row => row[column]).filter(value => !isNullish(value));
+          if (aggregation === 'first') return bucket.length > 0 ? bucket[0] : null;
+          if (aggregation === 'last') return bucket.length > 0 ? bucket[bucket.length - 1] : null;
+          if (aggregation === 'count') return bucket.length;
+          return AGGREGATE_FUNCTIONS[AGGREGATIONS[aggregation]](bucket, []);
+        });
+        columnsOut[column] = fillGaps(aggregated, missing, aggregation === 'count' && fill !== 'none' ? 'zero' : fill);
+      });
+
+      seriesRows.push(used.map((start, i) => ({
+        [dateColumn]: formatDate(start),
+        ...key,
+        ...Object.fromEntries(values.map(({ column }) => [column, columnsOut[column][i]])),
+      })));
+    });
+    periodCount = periods.length;
+  } else {
+    outputColumns = [...columns];
+    series.forEach(({ rows }) => seriesRows.push(rows.map(({ row }) => ({ ...row }))));
+    periodCount = new Set(dated.map(item => item.date.getTime())).size;
+  }
+
+  const addedColumns: string[] = [];
+  windows.forEach(window => {
+    // Windows read the resampled columns, including those added by earlier windows
+    if (!outputColumns.includes(window.column)) {
+      throw new Error(`timeSeries: ${window.type} window on unknown column ${window.column}`);
+    }
+    const name = windowColumn(window);
+    seriesRows.forEach(rows => {
+      const input = rows.map(row => toNumber(row[window.column]));
+      const output = window.type === 'rolling'
+        ? rollingWindow(input, window.size, window.function ?? 'mean', window.minPeriods)
+        : window.type === 'change'
+          ? periodChange(input, window.lag ?? 1, window.mode ?? 'percent')
+          : cumulativeSum(input);
+      rows.forEach((row, i) => {
+        row[name] = output[i];
+      });
+    });
+    if (!outputColumns.includes(name)) outputColumns.push(name);
+    addedColumns.push(name);
+  });
+
+  // Interleave the series by date so the result reads chronologically
+  const ordered = seriesRows
+    .flatMap((rows, seriesIndex) => rows.map((row, index) => ({ row, seriesIndex, index, time: toDate(row[dateColumn])!.getTime() })))
+    .sort((a, b) => a.time - b.time || a.seriesIndex - b.seriesIndex || a.index - b.index)
+    .map(item => item.row);
+
+  return {
+    data: ordered,
+    columns: outputColumns,
+    report: { period, series: series.size, periods: periodCount, filledRows, droppedRows, addedColumns },
+  };
+}
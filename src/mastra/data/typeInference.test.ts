@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { profileData } from './profiler';
+import { applySchema, coerceValue, inferColumnType, inferSchema, parseDateText } from './typeInference';
+
+const typeOf = (values: unknown[]) => inferColumnType('column', values);
+
+describe('inferColumnType', () => {
+  it('tells integers from floats, ignoring null placeholders', () => {
+    expect(typeOf(['1', '2', '1,000', 'N/A'])).toEqual({ name: 'column', type: 'integer', nullable: true });
+    expect(typeOf(['1.5', '2', '3e2']).type).toBe('float');
+    expect(typeOf([1, 2, 3]).type).toBe('integer');
+  });
+
+  it('keeps codes with leading zeros as text', () => {
+    expect(typeOf(['00123', '00456', '00789']).type).not.toBe('integer');
+  });
+
+  it('detects currencies, percentages and booleans', () => {
+    expect(typeOf(['$1,200.50', '(€30)', '£4'])).toMatchObject({ type: 'currency', format: '$€£' });
+    expect(typeOf(['12%', '3.5 %']).type).toBe('percent');
+    expect(typeOf(['yes', 'No', 'Y', true]).type).toBe('boolean');
+  });
+
+  it('detects date formats, preferring month-first when ambiguous', () => {
+    expect(typeOf(['2024-03-01', '2024-12-31'])).toMatchObject({ type: 'date', format: 'YYYY-MM-DD' });
+    expect(typeOf(['03/01/2024', '04/02/2024'])).toMatchObject({ type: 'date', format: 'MM/DD/YYYY' });
+    expect(typeOf(['31/01/2024', '04/02/2024'])).toMatchObject({ type: 'date', format: 'DD/MM/YYYY' });
+    expect(typeOf(['2024-03-01 10:30', '2024-03-02'])).toMatchObject({ type: 'datetime' });
+    expect(typeOf(['Mar 1, 2024', 'Dec 25, 2024']).format).toBe('MMM D, YYYY');
+  });
+
+  it('rejects impossible dates', () => {
+    expect(typeOf(['2024-02-30']).type).not.toBe('date');
+    expect(parseDateText('2023-02-29')).toBeNull();
+    expect(parseDateText('2024-02-29')).toEqual({ iso: '2024-02-29', hasTime: false });
+  });
+
+  it('calls few repeated strings categorical and many distinct ones text', () => {
+    const regions = Array.from({ length: 100 }, (_, i) => ['North', 'South', 'East'][i % 3]);
+    expect(typeOf(regions).type).toBe('categorical');
+    expect(typeOf(Array.from({ length: 100 }, (_, i) => `note ${i}`)).type).toBe('text');
+    expect(typeOf(['', null, 'NA']).type).toBe('empty');
+  });
+});
+
+describe('coerceValue and applySchema', () => {
+  it('converts values to the column type, and unparseable ones to null', () => {
+    expect(coerceValue('$1.2.3', { name: 'a', type: 'currency', nullable: false })).toBeNull();
+    expect(coerceValue('($1,234.00)', { name: 'a', type: 'currency', nullable: false })).toBe(-1234);
+    expect(coerceValue('45%', { name: 'a', type: 'percent', nullable: false })).toBe(0.45);
+    expect(coerceValue('31.01.2024', { name: 'a', type: 'date', nullable: false, format: 'DD.MM.YYYY' })).toBe('2024-01-31');
+    expect(coerceValue('2024-03-01T10:00:00+02:00', { name: 'a', type: 'datetime', nullable: false, format: 'YYYY-MM-DD' }))
+      .toBe('2024-03-01T08:00:00Z');
+    expect(coerceValue('abc', { name: 'a', type: 'integer', nullable: false })).toBeNull();
+  });
+
+  it('types whole rows from an inferred schema', () => {
+    const rows = [{ id: '1', paid: 'yes', amount: '$5' }, { id: '2', paid: 'no', amount: 'n/a' }];
+    const schema = inferSchema(rows, ['id', 'paid', 'amount']);
+    expect(applySchema(rows, schema)).toEqual([
+      { id: 1, paid: true, amount: 5 },
+      { id: 2, paid: false, amount: null },
+    ]);
+  });
+});
+
+describe('profileData', () => {
+  it('counts nulls and distinct values and summarises numbers and dates', () => {
+    const rows = [
+      { amount: 10, day: '2024-03-02', region: 'North' },
+      { amount: 30, day: '2024-03-01', region: 'North' },
+      { amount: null, day: null, region: 'South' },
+    ];
+    const profile = profileData(rows, inferSchema(rows, ['amount', 'day', 'region']));
+    const [amount, day, region] = profile.columns;
+    expect(profile.rowCount).toBe(3);
+    expect(amount).toMatchObject({ type: 'integer', nullCount: 1, distinctCount: 2, min: 10, max: 30, mean: 20 });
+    expect(amount.nullRate).toBeCloseTo(1 / 3);
+    expect(day).toMatchObject({ type: 'date', min: '2024-03-01', max: '2024-03-02' });
+    expect(region.topValues).toEqual([{ value: 'North', count: 2 }, { value: 'South', count: 1 }]);
+  });
+});
@@ -0,0 +1,267 @@
+export type ColumnType =
+  | 'integer'
+  | 'float'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'currency'
+  | 'percent'
+  | 'categorical'
+  | 'text'
+  | 'empty';
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  nullable: boolean;
+  /** Detected source format, e.g. `DD/MM/YYYY` for dates or `$` for currency. */
+  format?: string;
+}
+
+// Placeholder strings that mean "no value"
+const NULL_TOKENS = new Set(['', 'na', 'n/a', 'null', 'none', 'nan', '-', '#n/a']);
+
+const TRUE_TOKENS = new Set(['true', 'yes', 'y', 't']);
+const FALSE_TOKENS = new Set(['false', 'no', 'n', 'f']);
+
+const NUMBER_PATTERN = /^[+-]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][+-]?\d+)?$/;
+const CURRENCY_PATTERN = /^(\()?([+-])?\s*([$€£¥₹])\s?([\d.,]+)(\))?$|^(\()?([+-])?([\d.,]+)\s?([$€£¥₹])(\))?$/;
+const PERCENT_PATTERN = /^([+-]?[\d.,]+)\s?%$/;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+interface DateFormat {
+  name: string;
+  pattern: RegExp;
+  /** Maps a match to [year, month, day, hour, minute, second, zone]. */
+  parts: (match: RegExpMatchArray) => [number, number, number, number?, number?, number?, string?];
+}
+
+const TIME = '(?:[T ](\\d{1,2}):(\\d{2})(?::(\\d{2})(?:\\.\\d+)?)?\\s*(Z|[+-]\\d{2}:?\\d{2})?)';
+
+const monthIndex = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+const DATE_FORMATS: DateFormat[] = [
+  {
+    name: 'YYYY-MM-DD',
+    pattern: new RegExp(`^(\\d{4})-(\\d{1,2})-(\\d{1,2})${TIME}?$`),
+    parts: m => [+m[1], +m[2], +m[3], m[4] ? +m[4] : undefined, m[5] ? +m[5] : undefined, m[6] ? +m[6] : undefined, m[7]],
+  },
+  {
+    name: 'YYYY/MM/DD',
+    pattern: new RegExp(`^(\\d{4})/(\\d{1,2})/(\\d{1,2})${TIME}?$`),
+    parts: m => [+m[1], +m[2], +m[3], m[4] ? +m[4] : undefined, m[5] ? +m[5] : undefined, m[6] ? +m[6] : undefined, m[7]],
+  },
+  {
+    name: 'MM/DD/YYYY',
+    pattern: new RegExp(`^(\\d{1,2})/(\\d{1,2})/(\\d{4})${TIME}?$`),
+    parts: m => [+m[3], +m[1], +m[2], m[4] ? +m[4] : undefined, m[5] ? +m[5] : undefined, m[6] ? +m[6] : undefined, m[7]],
+  },
+  {
+    name: 'DD/MM/YYYY',
+    pattern: new RegExp(`^(\\d{1,2})/(\\d{1,2})/(\\d{4})${TIME}?$`),
+    parts: m => [+m[3], +m[2], +m[1], m[4] ? +m[4] : undefined, m[5] ? +m[5] : undefined, m[6] ? +m[6] : undefined, m[7]],
+  },
+  {
+    name: 'DD.MM.YYYY',
+    pattern: new RegExp(`^(\\d{1,2})\\.(\\d{1,2})\\.(\\d{4})${TIME}?$`),
+    parts: m => [+m[3], +m[2], +m[1], m[4] ? +m[4] : undefined, m[5] ? +m[5] : undefined, m[6] ? +m[6] : undefined, m[7]],
+  },
+  {
+    name: 'MMM D, YYYY',
+    pattern: /^([A-Za-z]{3,9})\.? (\d{1,2}),? (\d{4})$/,
+    parts: m => [+m[3], monthIndex(m[1]), +m[2]],
+  },
+  {
+    name: 'D MMM YYYY',
+    pattern: /^(\d{1,2})[ -]([A-Za-z]{3,9})\.?[ -](\d{4})$/,
+    parts: m => [+m[3], monthIndex(m[2]), +m[1]],
+  },
+];
+
+export function isNullToken(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && NULL_TOKENS.has(value.trim().toLowerCase()));
+}
+
+function parsePlainNumber(text: string): number | null {
+  const trimmed = text.trim();
+  if (trimmed === '' || !NUMBER_PATTERN.test(trimmed) || !/\d/.test(trimmed)) return null;
+  const value = Number(trimmed.replace(/,/g, ''));
+  return isNaN(value) ? null : value;
+}
+
+// Codes such as ZIPs or IDs ("00123") must stay text
+function hasLeadingZero(text: string): boolean {
+  return /^[+-]?0\d/.test(text.trim());
+}
+
+function parseCurrency(text: string): { value: number; symbol: string } | null {
+  const match = text.trim().match(CURRENCY_PATTERN);
+  if (!match) return null;
+  const [open, sign, symbol, digits, close] = match[3]
+    ? [match[1], match[2], match[3], match[4], match[5]]
+    : [match[6], match[7], match[9], match[8], match[10]];
+  // Accounting notation: (1,234.00) is negative
+  if (Boolean(open) !== Boolean(close)) return null;
+  const amount = parsePlainNumber(digits);
+  if (amount === null) return null;
+  const negative = Boolean(open) || sign === '-';
+  return { value: negative ? -amount : amount, symbol };
+}
+
+function parsePercent(text: string): number | null {
+  const match = text.trim().match(PERCENT_PATTERN);
+  if (!match) return null;
+  const amount = parsePlainNumber(match[1]);
+  return amount === null ? null : amount / 100;
+}
+
+function pad(value: number, length = 2) {
+  return String(value).padStart(length, '0');
+}
+
+function parseDateWith(format: DateFormat, text: string): { iso: string; hasTime: boolean } | null {
+  const match = text.trim().match(format.pattern);
+  if (!match) return null;
+  const [year, month, day, hour, minute, second, zone] = format.parts(match);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const check = new Date(Date.UTC(year, month - 1, day));
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) return null;
+
+  if (hour === undefined) {
+    return { iso: `${year}-${pad(month)}-${pad(day)}`, hasTime: false };
+  }
+  if (hour > 23 || (minute ?? 0) > 59 || (second ?? 0) > 59) return null;
+
+  const local = `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute ?? 0)}:${pad(second ?? 0)}`;
+  if (!zone) {
+    return { iso: local, hasTime: true };
+  }
+  // Normalise zoned timestamps to UTC
+  const normalisedZone = zone === 'Z' ? 'Z' : zone.replace(/^([+-]\d{2}):?(\d{2})$/, '$1:$2');
+  return { iso: new Date(`${local}${normalisedZone}`).toISOString().slice(0, 19) + 'Z', hasTime: true };
+}
+
+/**
+ * Finds the date format that parses every value. When day and month are
+ * ambiguous (all parts ≤ 12) month-first is assumed.
+ */
+function detectDateFormat(values: string[]): DateFormat | null {
+  const candidates = DATE_FORMATS.filter(format => values.every(value => parseDateWith(format, value) !== null));
+  return candidates[0] ?? null;
+}
+
+/** Parses a single date in the first recognised format, so ambiguous day/month orders read month-first. */
+export function parseDateText(text: string): { iso: string; hasTime: boolean } | null {
+  for (const format of DATE_FORMATS) {
+    const parsed = parseDateWith(format, text);
+    if (parsed) return parsed;
+  }
+  return null;
+}
+
+function isCategorical(distinct: number, total: number): boolean {
+  return distinct <= Math.max(20, Math.min(50, total * 0.05)) && distinct <= total * 0.5 + 1;
+}
+
+/**
+ * Infers the type of a column from its values. String values must all parse
+ * as a type for it to be chosen; already-typed values (from JSON or Excel)
+ * keep their type.
+ */
+export function inferColumnType(name: string, values: unknown[]): ColumnSchema {
+  const present = values.filter(value => !isNullToken(value));
+  const nullable = present.length < values.length;
+
+  if (present.length === 0) {
+    return { name, type: 'empty', nullable: true };
+  }
+
+  if (present.every(value => typeof value === 'boolean' || (typeof value === 'string' &&
+      (TRUE_TOKENS.has(value.trim().toLowerCase()) || FALSE_TOKENS.has(value.trim().toLowerCase()))))) {
+    return { name, type: 'boolean', nullable };
+  }
+
+  if (present.some(value => typeof value === 'object')) {
+    return { name, type: 'text', nullable };
+  }
+
+  const texts = present.map(value => String(value).trim());
+
+  if (!texts.some(hasLeadingZero)) {
+    const numbers = texts.map(parsePlainNumber);
+    if (numbers.every(value => value !== null)) {
+      const integral = (numbers as number[]).every(value => Number.isInteger(value)) &&
+        !texts.some(text => /[.eE]/.test(text));
+      return { name, type: integral ? 'integer' : 'float', nullable };
+    }
+
+    const currencies = texts.map(parseCurrency);
+    if (currencies.every(value => value !== null)) {
+      const symbols = new Set(currencies.map(value => value!.symbol));
+      return { name, type: 'currency', nullable, format: Array.from(symbols).join('') };
+    }
+
+    if (texts.every(text => parsePercent(text) !== null)) {
+      return { name, type: 'percent', nullable };
+    }
+  }
+
+  const dateFormat = detectDateFormat(texts);
+  if (dateFormat) {
+    const hasTime = texts.some(text => parseDateWith(dateFormat, text)!.hasTime);
+    return { name, type: hasTime ? 'datetime' : 'date', nullable, format: dateFormat.name };
+  }
+
+  const distinct = new Set(texts).size;
+  return { name, type: isCategorical(distinct, texts.length) ? 'categorical' : 'text', nullable };
+}
+
+/** Converts a raw value to the column's type; values that don't parse become null. */
+export function coerceValue(value: unknown, schema: ColumnSchema): any {
+  if (isNullToken(value)) return null;
+  const text = String(value).trim();
+
+  switch (schema.type) {
+    case 'integer':
+    case 'float':
+      return typeof value === 'number' ? value : parsePlainNumber(text);
+    case 'currency':
+      return typeof value === 'number' ? value : parseCurrency(text)?.value ?? null;
+    case 'percent':
+      return typeof value === 'number' ? value : parsePercent(text);
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const lower = text.toLowerCase();
+      return TRUE_TOKENS.has(lower) ? true : FALSE_TOKENS.has(lower) ? false : null;
+    }
+    case 'date':
+    case 'datetime': {
+      const format = DATE_FORMATS.find(candidate => candidate.name === schema.format);
+      return format ? parseDateWith(format, text)?.iso ?? null : text;
+    }
+    case 'empty':
+      return null;
+    default:
+      return value;
+  }
+}
+
+export function inferSchema(data: Record<string, any>[], columns: string[]): ColumnSchema[] {
+  return columns.map(column => inferColumnType(column, data.map(row => row[column])));
+}
+
+export function applySchema(data: Record<string, any>[], schema: ColumnSchema[]): Record<string, any>[] {
+  return data.map(row => {
+    const typed: Record<string, any> = { ...row };
+    schema.forEach(column => {
+      typed[column.name] = coerceValue(row[column.name], column);
+    });
+    return typed;
+  });
+}
+
+export function isNumericType(type: ColumnType): boolean {
+  return type === 'integer' || type === 'float' || type === 'currency' || type === 'percent';
+}
@@ -0,0 +1,100 @@
+import { strToU8, zipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { excelSerialToIso, parseCellRef, parseRange, XlsxWorkbook } from './xlsxReader';
+
+/** A minimal workbook with the given worksheets' `<sheetData>` bodies and merges. */
+function workbook(sheets: { name: string; rows: string; merges?: string[] }[], sharedStrings: string[] = []): XlsxWorkbook {
+  const files: Record<string, Uint8Array> = {
+    'xl/workbook.xml': strToU8(
+      `<workbook xmlns:r="r"><sheets>${sheets.map((sheet, i) => `<sheet name="${sheet.name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets></workbook>`,
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      `<Relationships>${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Target="worksheets/sheet${i + 1}.xml"/>`).join('')}</Relationships>`,
+    ),
+    'xl/sharedStrings.xml': strToU8(`<sst>${sharedStrings.map(text => `<si><t>${text}</t></si>`).join('')}</sst>`),
+    // Style 1 is a date format
+    'xl/styles.xml': strToU8('<styleSheet><cellXfs><xf numFmtId="0"/><xf numFmtId="14"/></cellXfs></styleSheet>'),
+  };
+  sheets.forEach((sheet, i) => {
+    const merges = sheet.merges ? `<mergeCells>${sheet.merges.map(ref => `<mergeCell ref="${ref}"/>`).join('')}</mergeCells>` : '';
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(`<worksheet><sheetData>${sheet.rows}</sheetData>${merges}</worksheet>`);
+  });
+  return XlsxWorkbook.fromBytes(zipSync(files));
+}
+
+describe('cell references', () => {
+  it('parses A1 references and ranges to zero-based positions', () => {
+    expect(parseCellRef('C7')).toEqual({ row: 6, col: 2 });
+    expect(parseCellRef('$AA$10')).toEqual({ row: 9, col: 26 });
+    expect(parseRange('F200:B2')).toEqual({ startRow: 1, startCol: 1, endRow: 199, endCol: 5 });
+  });
+
+  it('converts date serials', () => {
+    expect(excelSerialToIso(45352)).toBe('2024-03-01');
+    expect(excelSerialToIso(45352.5)).toBe('2024-03-01T12:00:00');
+    expect(excelSerialToIso(43890, true)).toBe('2024-03-01');
+  });
+});
+
+describe('XlsxWorkbook', () => {
+  it('reads shared, inline and numeric cells, booleans and dates', () => {
+    const book = workbook([{
+      name: 'Data',
+      rows: `
+        <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>ok</t></is></c></row>
+        <row r="2"><c r="A2" s="1"><v>45352</v></c><c r="B2"><v>12.5</v></c><c r="C2" t="b"><v>1</v></c></row>`,
+    }], ['date', 'amount']);
+    const result = book.readSheet();
+    expect(result.columns).toEqual(['date', 'amount', 'ok']);
+    expect(result.data).toEqual([{ date: '2024-03-01', amount: 12.5, ok: true }]);
+  });
+
+  it('places cells and rows without an r attribute after the previous one', () => {
+    const book = workbook([{
+      name: 'Data',
+      rows: `
+        <row><c t="inlineStr"><is><t>a</t></is></c><c t="inlineStr"><is><t>b</t></is></c><c r="D1" t="inlineStr"><is><t>d</t></is></c><c t="inlineStr"><is><t>e</t></is></c></row>
+        <row><c><v>1</v></c><c><v>2</v></c><c r="D2"><v>4</v></c><c><v>5</v></c></row>
+        <row r="5"><c><v>6</v></c></row>`,
+    }]);
+    const result = book.readSheet();
+    expect(result.columns).toEqual(['a', 'b', 'Column_3', 'd', 'e']);
+    expect(result.data).toEqual([
+      { a: 1, b: 2, Column_3: null, d: 4, e: 5 },
+      { a: 6, b: null, Column_3: null, d: null, e: null },
+    ]);
+  });
+
+  it('spreads merged headers over the columns they span but leaves merged data cells alone', () => {
+    const book = workbook([{
+      name: 'Data',
+      rows: `
+        <row r="1"><c r="A1" t="inlineStr"><is><t>Region</t></is></c><c r="B1" t="inlineStr"><is><t>Sales</t></is></c></row>
+        <row r="2"><c r="B2" t="inlineStr"><is><t>Q1</t></is></c><c r="C2" t="inlineStr"><is><t>Q2</t></is></c></row>
+        <row r="3"><c r="A3" t="inlineStr"><is><t>North</t></is></c><c r="B3"><v>10</v></c><c r="C3"><v>20</v></c></row>
+        <row r="4"><c r="B4"><v>30</v></c><c r="C4"><v>40</v></c></row>`,
+      merges: ['A1:A2', 'B1:C1', 'A3:A4'],
+    }]);
+    const result = book.readSheet({ headerRows: 2 });
+    expect(result.columns).toEqual(['Region', 'Sales Q1', 'Sales Q2']);
+    expect(result.data).toEqual([
+      { Region: 'North', 'Sales Q1': 10, 'Sales Q2': 20 },
+      { Region: null, 'Sales Q1': 30, 'Sales Q2': 40 },
+    ]);
+  });
+
+  it('selects sheets by name or index and reads a range', () => {
+    const book = workbook([
+      { name: 'Summary', rows: '<row r="1"><c r="A1"><v>1</v></c></row>' },
+      { name: 'Detail', rows: '<row r="1"><c r="A1"><v>9</v></c><c r="B1"><v>8</v></c></row><row r="2"><c r="A2"><v>7</v></c><c r="B2"><v>6</v></c></row>' },
+    ]);
+    expect(book.sheetNames).toEqual(['Summary', 'Detail']);
+    expect(book.readSheet({ sheet: 'detail', range: 'B1:B2', hasHeader: false }).data).toEqual([{ Column_1: 8 }, { Column_1: 6 }]);
+    expect(book.readSheet({ sheet: 1 }).sheetName).toBe('Detail');
+    expect(() => book.readSheet({ sheet: 'Totals' })).toThrow("Sheet 'Totals' not found. Available sheets: Summary, Detail");
+  });
+
+  it('rejects files that are not workbooks', () => {
+    expect(() => XlsxWorkbook.fromBytes(zipSync({ 'a.txt': strToU8('hi') }))).toThrow(/xl\/workbook.xml is missing/);
+  });
+});
@@ -0,0 +1,354 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { normalizeHeader } from './csvParser';
+
+export interface XlsxReadOptions {
+  /** Sheet name or zero-based index; defaults to the first sheet. */
+  sheet?: string | number;
+  /** A1-style range such as `B2:F200`; defaults to the sheet's used range. */
+  range?: string;
+  hasHeader?: boolean;
+  /** Number of header rows combined into column names (e.g. a merged group row above sub-headers). */
+  headerRows?: number;
+}
+
+export interface XlsxReadResult {
+  sheets: string[];
+  sheetName: string;
+  columns: string[];
+  data: Record<string, any>[];
+}
+
+interface CellRange {
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+}
+
+// Built-in number formats that display dates or times
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+// Concatenated text of every <t> element, which covers plain and rich-text strings
+function textContent(xml: string): string {
+  const parts: string[] = [];
+  const pattern = /<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml))) {
+    parts.push(decodeXml(match[1]));
+  }
+  return parts.join('');
+}
+
+/** `C7` → { row: 6, col: 2 } (zero-based). */
+export function parseCellRef(ref: string): { row: number; col: number } {
+  const match = ref.toUpperCase().match(/^\$?([A-Z]+)\$?(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid cell reference '${ref}'`);
+  }
+  const col = match[1].split('').reduce((acc, char) => acc * 26 + char.charCodeAt(0) - 64, 0) - 1;
+  return { row: parseInt(match[2], 10) - 1, col };
+}
+
+export function parseRange(range: string): CellRange {
+  const [start, end = start] = range.split(':');
+  const from = parseCellRef(start);
+  const to = parseCellRef(end);
+  return {
+    startRow: Math.min(from.row, to.row),
+    startCol: Math.min(from.col, to.col),
+    endRow: Math.max(from.row, to.row),
+    endCol: Math.max(from.col, to.col),
+  };
+}
+
+/**
+ * Converts an Excel date serial to an ISO date (`2024-03-01`) or, when it has
+ * a time part, an ISO datetime without zone.
+ */
+export function excelSerialToIso(serial: number, date1904 = false): string {
+  // Serial 60 is the fictitious 1900-02-29 kept for Lotus compatibility
+  const days = date1904 ? serial + 1462 : serial < 60 ? serial + 1 : serial;
+  const ms = Math.round((days - 25569) * 86400 * 1000);
+  const iso = new Date(ms).toISOString();
+  return Math.abs(serial - Math.round(serial)) < 1e-9 ? iso.slice(0, 10) : iso.slice(0, 19);
+}
+
+function isDateFormatCode(code: string): boolean {
+  // Drop quoted literals, escapes and [colour]/[locale] sections, keep elapsed-time [h]
+  const stripped = code
+    .replace(/"[^"]*"/g, '')
+    .replace(/\\./g, '')
+    .replace(/\[(?!h\]|m\]|s\])[^\]]*\]/gi, '');
+  return /[dmyhs]/i.test(stripped) && !/^general$/i.test(stripped.trim());
+}
+
+function resolvePath(base: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = base.split('/').slice(0, -1);
+  target.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+}
+
+export class XlsxWorkbook {
+  readonly sheets: { name: string; path: string }[] = [];
+  private sharedStrings: string[] = [];
+  private dateStyles = new Set<number>();
+  private date1904 = false;
+
+  constructor(private files: Record<string, Uint8Array>) {
+    this.loadWorkbook();
+    this.loadSharedStrings();
+    this.loadStyles();
+  }
+
+  static fromBase64(content: string): XlsxWorkbook {
+    return XlsxWorkbook.fromBytes(new Uint8Array(Buffer.from(content, 'base64')));
+  }
+
+  static fromBytes(bytes: Uint8Array): XlsxWorkbook {
+    let files: Record<string, Uint8Array>;
+    try {
+      files = unzipSync(bytes);
+    } catch (error) {
+      throw new Error(`Failed to read Excel workbook: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!files['xl/workbook.xml']) {
+      throw new Error('Failed to read Excel workbook: xl/workbook.xml is missing (is this an .xlsx file?)');
+    }
+    return new XlsxWorkbook(files);
+  }
+
+  readSheet(options: XlsxReadOptions = {}): XlsxReadResult {
+    const sheet = this.findSheet(options.sheet);
+    const xml = this.read(sheet.path);
+    const cells = this.readCells(xml);
+    const merges = this.readMerges(xml);
+
+    const range = options.range ? parseRange(options.range) : this.usedRange(cells);
+    if (!range) {
+      return { sheets: this.sheetNames, sheetName: sheet.name, columns: [], data: [] };
+    }
+
+    const headerRows = options.hasHeader === false ? 0 : Math.max(options.headerRows ?? 1, 1);
+    const lastHeaderRow = range.startRow + headerRows - 1;
+
+    // Fill the header cells of a merged area with its top-left value so that merged
+    // headers label each column they span; merges in the data body stay as they are
+    merges.forEach(merge => {
+      const value = cells.get(`${merge.startRow}:${merge.startCol}`);
+      if (value === undefined || merge.startRow < range.startRow || merge.startRow > lastHeaderRow) return;
+      for (let row = merge.startRow; row <= Math.min(merge.endRow, lastHeaderRow); row++) {
+        for (let col = merge.startCol; col <= merge.endCol; col++) {
+          if (!cells.has(`${row}:${col}`)) cells.set(`${row}:${col}`, value);
+        }
+      }
+    });
+
+    const rows: any[][] = [];
+    for (let row = range.startRow; row <= range.endRow; row++) {
+      const values: any[] = [];
+      for (let col = range.startCol; col <= range.endCol; col++) {
+        values.push(cells.get(`${row}:${col}`) ?? null);
+      }
+      rows.push(values);
+    }
+
+    const width = range.endCol - range.startCol + 1;
+    let columns: string[];
+    if (headerRows > 0) {
+      const header = Array.from({ length: width }, (_, index) => {
+        const parts: string[] = [];
+        rows.slice(0, headerRows).forEach(values => {
+          const part = values[index] === null ? '' : String(values[index]).trim();
+          if (part && parts[parts.length - 1] !== part) parts.push(part);
+        });
+        return parts.join(' ');
+      });
+      columns = normalizeHeader(header);
+    } else {
+      columns = Array.from({ length: width }, (_, index) => `Column_${index + 1}`);
+    }
+
+    const data = rows
+      .slice(headerRows)
+      .filter(values => values.some(value => value !== null && value !== ''))
+      .map(values => Object.fromEntries(columns.map((col, index) => [col, values[index]])));
+
+    return { sheets: this.sheetNames, sheetName: sheet.name, columns, data };
+  }
+
+  get sheetNames(): string[] {
+    return this.sheets.map(sheet => sheet.name);
+  }
+
+  private read(path: string): string {
+    const file = this.files[path];
+    if (!file) {
+      throw new Error(`Failed to read Excel workbook: ${path} is missing`);
+    }
+    return strFromU8(file);
+  }
+
+  private findSheet(selector?: string | number) {
+    if (this.sheets.length === 0) {
+      throw new Error('The workbook contains no worksheets');
+    }
+    if (selector === undefined) return this.sheets[0];
+
+    const sheet = typeof selector === 'number'
+      ? this.sheets[selector]
+      : this.sheets.find(entry => entry.name === selector)
+        ?? this.sheets.find(entry => entry.name.toLowerCase() === selector.toLowerCase());
+    if (!sheet) {
+      throw new Error(`Sheet '${selector}' not found. Available sheets: ${this.sheetNames.join(', ')}`);
+    }
+    return sheet;
+  }
+
+  private loadWorkbook() {
+    const workbook = this.read('xl/workbook.xml');
+    const relsPath = 'xl/_rels/workbook.xml.rels';
+    const rels = this.files[relsPath] ? this.read(relsPath) : '';
+
+    const targets = new Map<string, string>();
+    (rels.match(/<Relationship\b[^>]*>/g) ?? []).forEach(tag => {
+      const id = attribute(tag, 'Id');
+      const target = attribute(tag, 'Target');
+      if (id && target) targets.set(id, resolvePath('xl/workbook.xml', target));
+    });
+
+    const workbookPr = workbook.match(/<workbookPr\b[^>]*>/)?.[0];
+    this.date1904 = workbookPr ? /^(1|true)$/.test(attribute(workbookPr, 'date1904') ?? '') : false;
+
+    (workbook.match(/<sheet\b[^>]*>/g) ?? []).forEach((tag, index) => {
+      const name = attribute(tag, 'name') ?? `Sheet${index + 1}`;
+      const relId = attribute(tag, 'r:id');
+      const path = (relId && targets.get(relId)) ?? `xl/worksheets/sheet${index + 1}.xml`;
+      this.sheets.push({ name, path });
+    });
+  }
+
+  private loadSharedStrings() {
+    if (!this.files['xl/sharedStrings.xml']) return;
+    const xml = this.read('xl/sharedStrings.xml');
+    this.sharedStrings = (xml.match(/<si>[\s\S]*?<\/si>|<si\/>/g) ?? []).map(textContent);
+  }
+
+  private loadStyles() {
+    if (!this.files['xl/styles.xml']) return;
+    const xml = this.read('xl/styles.xml');
+
+    const customDateFormats = new Set<number>();
+    (xml.match(/<numFmt\b[^>]*>/g) ?? []).forEach(tag => {
+      const id = Number(attribute(tag, 'numFmtId'));
+      const code = attribute(tag, 'formatCode') ?? '';
+      if (isDateFormatCode(code)) customDateFormats.add(id);
+    });
+
+    const cellXfs = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? '';
+    (cellXfs.match(/<xf\b[^>]*>/g) ?? []).forEach((tag, index) => {
+      const formatId = Number(attribute(tag, 'numFmtId') ?? 0);
+      if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) {
+        this.dateStyles.add(index);
+      }
+    });
+  }
+
+  private readCells(xml: string): Map<string, any> {
+    const cells = new Map<string, any>();
+    // Rows and cells may omit their `r` reference, in which case they follow the previous one
+    const rowPattern = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g;
+    let rowMatch: RegExpExecArray | null;
+    let row = -1;
+
+    while ((rowMatch = rowPattern.exec(xml))) {
+      const rowRef = attribute(`<row${rowMatch[1]}>`, 'r');
+      row = rowRef ? Number(rowRef) - 1 : row + 1;
+      this.readRowCells(rowMatch[2] ?? '', row, cells);
+    }
+
+    return cells;
+  }
+
+  private readRowCells(xml: string, row: number, cells: Map<string, any>) {
+    const pattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+    let match: RegExpExecArray | null;
+    let col = -1;
+
+    while ((match = pattern.exec(xml))) {
+      const tag = `<c${match[1]}>`;
+      const body = match[2] ?? '';
+      const ref = attribute(tag, 'r');
+      if (ref) {
+        const position = parseCellRef(ref);
+        row = position.row;
+        col = position.col;
+      } else {
+        col++;
+      }
+
+      const type = attribute(tag, 't') ?? 'n';
+      const style = Number(attribute(tag, 's') ?? 0);
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value: any = null;
+      if (type === 's') {
+        value = raw !== undefined ? this.sharedStrings[Number(raw)] ?? null : null;
+      } else if (type === 'inlineStr') {
+        value = textContent(body);
+      } else if (type === 'str') {
+        value = raw !== undefined ? decodeXml(raw) : null;
+      } else if (type === 'b') {
+        value = raw === '1';
+      } else if (type === 'e') {
+        value = null;
+      } else if (type === 'd') {
+        value = raw !== undefined ? decodeXml(raw) : null;
+      } else if (raw !== undefined && raw !== '') {
+        const number = Number(raw);
+        value = this.dateStyles.has(style) ? excelSerialToIso(number, this.date1904) : number;
+      }
+
+      if (value === null) continue;
+      cells.set(`${row}:${col}`, value);
+    }
+  }
+
+  private readMerges(xml: string): CellRange[] {
+    return (xml.match(/<mergeCell\b[^>]*>/g) ?? [])
+      .map(tag => attribute(tag, 'ref'))
+      .filter((ref): ref is string => Boolean(ref))
+      .map(parseRange);
+  }
+
+  private usedRange(cells: Map<string, any>): CellRange | null {
+    if (cells.size === 0) return null;
+    const range = { startRow: Infinity, startCol: Infinity, endRow: -1, endCol: -1 };
+    cells.forEach((_, key) => {
+      const [row, col] = key.split(':').map(Number);
+      range.startRow = Math.min(range.startRow, row);
+      range.startCol = Math.min(range.startCol, col);
+      range.endRow = Math.max(range.endRow, row);
+      range.endCol = Math.max(range.endCol, col);
+    });
+    return range;
+  }
+}
@@ -0,0 +1,23 @@
+import { cellText, ExportTable } from './table';
+
+export interface CsvWriteOptions {
+  delimiter?: string;
+}
+
+/** Quotes a field when it holds the delimiter, a quote, a line break or edge whitespace (RFC 4180). */
+function csvField(value: unknown, delimiter: string): string {
+  if (value === null || value === undefined) return '';
+  const text = cellText(value);
+  const needsQuotes = text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** CSV text with a header row and CRLF line endings. */
+export function writeCsv(table: ExportTable, options: CsvWriteOptions = {}): string {
+  const delimiter = options.delimiter ?? ',';
+  const lines = [
+    table.columns.map(column => csvField(column, delimiter)).join(delimiter),
+    ...table.rows.map(row => table.columns.map(column => csvField(row[column], delimiter)).join(delimiter)),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,62 @@
+import { parquetMetadata, parquetReadObjects } from 'hyparquet';
+import { describe, expect, it } from 'vitest';
+import { gunzipSync } from 'zlib';
+import { inferSchema } from '../data/typeInference';
+import { XlsxWorkbook } from '../data/xlsxReader';
+import { encodeTable, ExportTable, typedColumns } from './index';
+
+const rows = [
+  { id: 1, city: 'Paris, FR', price: 9.5, active: true, opened: '2024-03-01', note: 'said "hi"' },
+  { id: 2, city: ' Oslo', price: null, active: false, opened: '2024-03-02', note: 'n/a' },
+  { id: 3, city: 'Rome', price: 12, active: true, opened: null, note: 'two\nlines' },
+];
+const columns = ['id', 'city', 'price', 'active', 'opened', 'note'];
+const table: ExportTable = { name: 'shops', columns, rows, schema: inferSchema(rows, columns) };
+
+describe('typedColumns', () => {
+  it('writes columns as their inferred kinds, falling back to strings', () => {
+    expect(typedColumns(table).map(column => column.kind)).toEqual(['integer', 'string', 'number', 'boolean', 'date', 'string']);
+    const mixed = typedColumns({ name: 't', columns: ['n'], rows: [{ n: 1 }, { n: 1.5 }], schema: [{ name: 'n', type: 'integer' } as any] });
+    expect(mixed[0]).toMatchObject({ kind: 'string', values: ['1', '1.5'] });
+  });
+});
+
+describe('encodeTable', () => {
+  it('quotes CSV fields as RFC 4180 asks, with the chosen delimiter', () => {
+    expect(encodeTable(table, 'csv').toString('utf-8')).toBe(
+      'id,city,price,active,opened,note\r\n' +
+        '1,"Paris, FR",9.5,true,2024-03-01,"said ""hi"""\r\n' +
+        '2," Oslo",,false,2024-03-02,n/a\r\n' +
+        '3,Rome,12,true,,"two\nlines"\r\n',
+    );
+    expect(encodeTable({ ...table, columns: ['city', 'id'] }, 'csv', { delimiter: ';' }).toString('utf-8'))
+      .toBe('city;id\r\nParis, FR;1\r\n" Oslo";2\r\nRome;3\r\n');
+  });
+
+  it('writes one JSON object per line in column order', () => {
+    const lines = encodeTable({ ...table, columns: ['price', 'id'] }, 'jsonl').toString('utf-8').split('\n');
+    expect(lines).toEqual(['{"price":9.5,"id":1}', '{"price":null,"id":2}', '{"price":12,"id":3}', '']);
+  });
+
+  it('writes Parquet that an independent reader reads back with its types', async () => {
+    const bytes = encodeTable(table, 'parquet');
+    const file = new Uint8Array(bytes).buffer;
+    expect(parquetMetadata(file).num_rows).toBe(3n);
+    // hyparquet leaves GZIP to the caller
+    const read = await parquetReadObjects({ file, compressors: { GZIP: input => new Uint8Array(gunzipSync(input)) } });
+    expect(read.map(row => [row.id, row.city, row.price, row.active, row.note])).toEqual([
+      [1n, 'Paris, FR', 9.5, true, 'said "hi"'],
+      [2n, ' Oslo', null, false, 'n/a'],
+      [3n, 'Rome', 12, true, 'two\nlines'],
+    ]);
+    expect(read.map(row => row.opened)).toEqual([new Date('2024-03-01T00:00:00Z'), new Date('2024-03-02T00:00:00Z'), null]);
+  });
+
+  it('writes an Excel sheet with typed cells under a header row', () => {
+    const sheet = XlsxWorkbook.fromBytes(new Uint8Array(encodeTable(table, 'xlsx'))).readSheet();
+    expect(sheet.sheetName).toBe('shops');
+    expect(sheet.columns).toEqual(columns);
+    expect(sheet.data[0]).toMatchObject({ id: 1, city: 'Paris, FR', price: 9.5, active: true, opened: '2024-03-01' });
+    expect(sheet.data[2]).toMatchObject({ id: 3, price: 12, note: 'two\nlines' });
+  });
+});
@@ -0,0 +1,36 @@
+import { writeCsv } from './csv';
+import { writeJsonLines } from './jsonl';
+import { writeParquet } from './parquet';
+import { ExportTable } from './table';
+import { writeXlsx } from './xlsx';
+
+export { writeCsv } from './csv';
+export type { CsvWriteOptions } from './csv';
+export { writeJsonLines } from './jsonl';
+export { writeParquet } from './parquet';
+export { writeXlsx } from './xlsx';
+export { typedColumns } from './table';
+export type { CellKind, ExportTable, TypedColumn } from './table';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'parquet' | 'xlsx';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  jsonl: { extension: 'jsonl', mimeType: 'application/x-ndjson' },
+  parquet: { extension: 'parquet', mimeType: 'application/vnd.apache.parquet' },
+  xlsx: { extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+};
+
+/** The file contents of a table in the given format. */
+export function encodeTable(table: ExportTable, format: ExportFormat, options: { delimiter?: string } = {}): Buffer {
+  switch (format) {
+    case 'csv':
+      return Buffer.from(writeCsv(table, options), 'utf-8');
+    case 'jsonl':
+      return Buffer.from(writeJsonLines(table), 'utf-8');
+    case 'parquet':
+      return writeParquet(table);
+    case 'xlsx':
+      return writeXlsx(table);
+  }
+}
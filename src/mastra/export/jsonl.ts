@@ -0,0 +1,9 @@
+import { ExportTable } from './table';
+
+/** One JSON object per line, with its keys in column order. */
+export function writeJsonLines(table: ExportTable): string {
+  return table.rows
+    .map(row => JSON.stringify(Object.fromEntries(table.columns.map(column => [column, row[column] ?? null]))))
+    .map(line => `${line}\n`)
+    .join('');
+}
@@ -0,0 +1,285 @@
+import { gzipSync } from 'zlib';
+import { ExportTable, TypedColumn, typedColumns } from './table';
+
+// Enum values from the Parquet format's parquet.thrift
+const PhysicalType = { BOOLEAN: 0, INT32: 1, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 };
+const ConvertedType = { UTF8: 0, DATE: 6, TIMESTAMP_MILLIS: 9 };
+const Encoding = { PLAIN: 0, RLE: 3 };
+const CompressionCodec = { GZIP: 2 };
+const Repetition = { REQUIRED: 0, OPTIONAL: 1 };
+const PageType = { DATA_PAGE: 0 };
+
+const MAGIC = Buffer.from('PAR1', 'ascii');
+const DAY = 24 * 60 * 60 * 1000;
+
+// Field types of the Thrift compact protocol
+const CompactType = { I32: 5, I64: 6, BINARY: 8, LIST: 9, STRUCT: 12 };
+
+type ThriftValue =
+  | { type: 'i32'; value: number }
+  | { type: 'i64'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'struct'; value: ThriftStruct }
+  | { type: 'list'; element: 'i32' | 'string' | 'struct'; value: (number | string | ThriftStruct)[] };
+
+/** Field id → value; undefined fields are left out, as optional fields are. */
+type ThriftStruct = Record<number, ThriftValue | undefined>;
+
+const i32 = (value: number): ThriftValue => ({ type: 'i32', value });
+const i64 = (value: number): ThriftValue => ({ type: 'i64', value });
+const str = (value: string): ThriftValue => ({ type: 'string', value });
+const struct = (value: ThriftStruct): ThriftValue => ({ type: 'struct', value });
+
+/** Serialises Thrift structs with the compact protocol, which Parquet uses for its metadata. */
+class CompactWriter {
+  private bytes: number[] = [];
+
+  varint(value: bigint) {
+    let rest = value;
+    while (rest >= 0x80n) {
+      this.bytes.push(Number(rest & 0x7fn) | 0x80);
+      rest >>= 7n;
+    }
+    this.bytes.push(Number(rest));
+  }
+
+  zigzag(value: number) {
+    const big = BigInt(value);
+    this.varint(big >= 0n ? big << 1n : (-big << 1n) - 1n);
+  }
+
+  binary(value: string) {
+    const encoded = Buffer.from(value, 'utf-8');
+    this.varint(BigInt(encoded.length));
+    encoded.forEach(byte => this.bytes.push(byte));
+  }
+
+  struct(fields: ThriftStruct) {
+    let lastId = 0;
+    Object.entries(fields)
+      .map(([id, field]) => [Number(id), field] as const)
+      .filter((entry): entry is [number, ThriftValue] => entry[1] !== undefined)
+      .sort((a, b) => a[0] - b[0])
+      .forEach(([id, field]) => {
+        const type = this.compactType(field);
+        const delta = id - lastId;
+        if (delta > 0 && delta <= 15) {
+          this.bytes.push((delta << 4) | type);
+        } else {
+          this.bytes.push(type);
+          this.zigzag(id);
+        }
+        lastId = id;
+        this.value(field);
+      });
+    this.bytes.push(0);
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.bytes);
+  }
+
+  private compactType(field: ThriftValue): number {
+    switch (field.type) {
+      case 'i32': return CompactType.I32;
+      case 'i64': return CompactType.I64;
+      case 'string': return CompactType.BINARY;
+      case 'struct': return CompactType.STRUCT;
+      case 'list': return CompactType.LIST;
+    }
+  }
+
+  private value(field: ThriftValue) {
+    switch (field.type) {
+      case 'i32':
+      case 'i64':
+        this.zigzag(field.value);
+        break;
+      case 'string':
+        this.binary(field.value);
+        break;
+      case 'struct':
+        this.struct(field.value);
+        break;
+      case 'list': {
+        const elementType = { i32: CompactType.I32, string: CompactType.BINARY, struct: CompactType.STRUCT }[field.element];
+        if (field.value.length < 15) {
+          this.bytes.push((field.value.length << 4) | elementType);
+        } else {
+          this.bytes.push(0xf0 | elementType);
+          this.varint(BigInt(field.value.length));
+        }
+        field.value.forEach(item => {
+          if (field.element === 'i32') this.zigzag(item as number);
+          else if (field.element === 'string') this.binary(item as string);
+          else this.struct(item as ThriftStruct);
+        });
+        break;
+      }
+    }
+  }
+}
+
+function serialize(fields: ThriftStruct): Buffer {
+  const writer = new CompactWriter();
+  writer.struct(fields);
+  return writer.toBuffer();
+}
+
+interface ColumnLayout {
+  type: number;
+  convertedType?: number;
+  encode: (values: (number | boolean | Date | string)[]) => Buffer;
+}
+
+function plainBooleans(values: (number | boolean | Date | string)[]): Buffer {
+  // Bit-packed, least significant bit first
+  const buffer = Buffer.alloc(Math.ceil(values.length / 8));
+  values.forEach((value, index) => {
+    if (value) buffer[index >> 3] |= 1 << (index & 7);
+  });
+  return buffer;
+}
+
+function plainInt64(values: (number | boolean | Date | string)[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 8);
+  values.forEach((value, index) => {
+    const number = value instanceof Date ? value.getTime() : (value as number);
+    buffer.writeBigInt64LE(BigInt(number), index * 8);
+  });
+  return buffer;
+}
+
+const LAYOUTS: Record<TypedColumn['kind'], ColumnLayout> = {
+  boolean: { type: PhysicalType.BOOLEAN, encode: plainBooleans },
+  integer: { type: PhysicalType.INT64, encode: plainInt64 },
+  number: {
+    type: PhysicalType.DOUBLE,
+    encode: values => {
+      const buffer = Buffer.alloc(values.length * 8);
+      values.forEach((value, index) => buffer.writeDoubleLE(value as number, index * 8));
+      return buffer;
+    },
+  },
+  date: {
+    type: PhysicalType.INT32,
+    convertedType: ConvertedType.DATE,
+    encode: values => {
+      // Days since the Unix epoch
+      const buffer = Buffer.alloc(values.length * 4);
+      values.forEach((value, index) => buffer.writeInt32LE(Math.floor((value as Date).getTime() / DAY), index * 4));
+      return buffer;
+    },
+  },
+  datetime: { type: PhysicalType.INT64, convertedType: ConvertedType.TIMESTAMP_MILLIS, encode: plainInt64 },
+  string: {
+    type: PhysicalType.BYTE_ARRAY,
+    convertedType: ConvertedType.UTF8,
+    encode: values =>
+      Buffer.concat(values.flatMap(value => {
+        const bytes = Buffer.from(value as string, 'utf-8');
+        const length = Buffer.alloc(4);
+        length.writeUInt32LE(bytes.length);
+        return [length, bytes];
+      })),
+  },
+};
+
+/** Definition levels (1 = present, 0 = null) as runs of the RLE/bit-packing hybrid, prefixed with their length. */
+function definitionLevels(values: unknown[]): Buffer {
+  const runs: number[] = [];
+  for (let start = 0; start < values.length;) {
+    const present = values[start] !== null;
+    let end = start;
+    while (end < values.length && (values[end] !== null) === present) end++;
+    const writer = new CompactWriter();
+    writer.varint(BigInt(end - start) << 1n);
+    runs.push(...writer.toBuffer(), present ? 1 : 0);
+    start = end;
+  }
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(runs.length);
+  return Buffer.concat([length, Buffer.from(runs)]);
+}
+
+/**
+ * A Parquet file with one row group and one GZIP-compressed data page per
+ * column. Every column is OPTIONAL; integers are INT64, dates INT32 DATE and
+ * datetimes INT64 TIMESTAMP_MILLIS in UTC.
+ */
+export function writeParquet(table: ExportTable): Buffer {
+  const columns = typedColumns(table);
+  const chunks: Buffer[] = [MAGIC];
+  let offset = MAGIC.length;
+
+  const columnChunks = columns.map(column => {
+    const layout = LAYOUTS[column.kind];
+    const present = column.values.filter((value): value is NonNullable<typeof value> => value !== null);
+    const page = Buffer.concat([definitionLevels(column.values), layout.encode(present)]);
+    const compressed = gzipSync(page);
+    const header = serialize({
+      1: i32(PageType.DATA_PAGE),
+      2: i32(page.length),
+      3: i32(compressed.length),
+      5: struct({
+        1: i32(column.values.length),
+        2: i32(Encoding.PLAIN),
+        3: i32(Encoding.RLE),
+        4: i32(Encoding.RLE),
+      }),
+    });
+
+    const pageOffset = offset;
+    chunks.push(header, compressed);
+    offset += header.length + compressed.length;
+
+    return {
+      uncompressed: header.length + page.length,
+      compressed: header.length + compressed.length,
+      chunk: {
+        2: i64(pageOffset),
+        3: struct({
+          1: i32(layout.type),
+          2: { type: 'list', element: 'i32', value: [Encoding.PLAIN, Encoding.RLE] },
+          3: { type: 'list', element: 'string', value: [column.name] },
+          4: i32(CompressionCodec.GZIP),
+          5: i64(column.values.length),
+          6: i64(header.length + page.length),
+          7: i64(header.length + compressed.length),
+          9: i64(pageOffset),
+        }),
+      } as ThriftStruct,
+    };
+  });
+
+  const schema: ThriftStruct[] = [
+    { 4: str('schema'), 5: i32(columns.length) },
+    ...columns.map(column => ({
+      1: i32(LAYOUTS[column.kind].type),
+      3: i32(Repetition.OPTIONAL),
+      4: str(column.name),
+      6: LAYOUTS[column.kind].convertedType === undefined ? undefined : i32(LAYOUTS[column.kind].convertedType!),
+    })),
+  ];
+
+  const footer = serialize({
+    1: i32(1),
+    2: { type: 'list', element: 'struct', value: schema },
+    3: i64(table.rows.length),
+    4: {
+      type: 'list',
+      element: 'struct',
+      value: [{
+        1: { type: 'list', element: 'struct', value: columnChunks.map(column => column.chunk) },
+        2: i64(columnChunks.reduce((sum, column) => sum + column.uncompressed, 0)),
+        3: i64(table.rows.length),
+      }],
+    },
+    6: str('mastra-data-analyst'),
+  });
+
+  const footerLength = Buffer.alloc(4);
+  footerLength.writeUInt32LE(footer.length);
+  chunks.push(footer, footerLength, MAGIC);
+  return Buffer.concat(chunks);
+}
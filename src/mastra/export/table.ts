@@ -0,0 +1,81 @@
+import { toDate } from '../data/dates';
+import { ColumnSchema, ColumnType, isNullToken } from '../data/typeInference';
+
+/** Rows to export, with the columns in the order they are written. */
+export interface ExportTable {
+  name: string;
+  columns: string[];
+  rows: Record<string, any>[];
+  schema: ColumnSchema[];
+}
+
+/** The physical type a column is written as in typed formats (Parquet and Excel). */
+export type CellKind = 'integer' | 'number' | 'boolean' | 'date' | 'datetime' | 'string';
+
+export interface TypedColumn {
+  name: string;
+  kind: CellKind;
+  /** The inferred column type, which picks the Excel number format. */
+  type: ColumnType;
+  /** Values converted to the kind: numbers, booleans, Dates or strings, with null for missing values. */
+  values: (number | boolean | Date | string | null)[];
+}
+
+const KINDS: Partial<Record<ColumnType, CellKind>> = {
+  integer: 'integer',
+  float: 'number',
+  currency: 'number',
+  percent: 'number',
+  boolean: 'boolean',
+  date: 'date',
+  datetime: 'datetime',
+};
+
+function convert(value: unknown, kind: CellKind): number | boolean | Date | string | null | undefined {
+  switch (kind) {
+    case 'integer':
+      return typeof value === 'number' && Number.isSafeInteger(value) ? value : undefined;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+    case 'boolean':
+      return typeof value === 'boolean' ? value : undefined;
+    case 'date':
+    case 'datetime':
+      return toDate(value) ?? undefined;
+    case 'string':
+      return cellText(value);
+  }
+}
+
+/** Text of a value in untyped formats; objects and arrays are written as JSON. */
+export function cellText(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Converts each column to the kind its schema type maps to. A column with a
+ * value that does not convert (an integer column holding a fraction, say) is
+ * written as strings instead, so no value is lost or silently altered.
+ */
+export function typedColumns(table: ExportTable): TypedColumn[] {
+  const schemas = new Map(table.schema.map(column => [column.name, column]));
+  return table.columns.map(name => {
+    const type = schemas.get(name)?.type ?? 'text';
+    const raw = table.rows.map(row => row[name]);
+    const kind = KINDS[type] ?? 'string';
+    // Text keeps placeholders such as 'n/a' as written; typed columns read them as missing
+    const missing = (value: unknown) => (kind === 'string' ? value === null || value === undefined : isNullToken(value));
+    const values = raw.map(value => (missing(value) ? null : convert(value, kind)));
+    if (values.every(value => value !== undefined)) {
+      return { name, kind, type, values: values as TypedColumn['values'] };
+    }
+    return {
+      name,
+      kind: 'string',
+      type,
+      values: raw.map(value => (value === null || value === undefined ? null : cellText(value))),
+    };
+  });
+}
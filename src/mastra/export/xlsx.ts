@@ -0,0 +1,156 @@
+import { strToU8, zipSync } from 'fflate';
+import { ExportTable, TypedColumn, typedColumns } from './table';
+
+// Sheet size limits of the .xlsx format
+const MAX_ROWS = 1048576;
+const MAX_COLUMNS = 16384;
+
+// Indexes into cellXfs in STYLES
+const STYLE = { header: 1, date: 2, datetime: 3, percent: 4, currency: 5 };
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="6">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters other than tab and line breaks are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Zero-based column index → `A`, `B`, …, `AA`. */
+function columnLetters(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/** Excel's 1900 date serial of a moment; the inverse of `excelSerialToIso`. */
+function toExcelSerial(date: Date): number {
+  const serial = date.getTime() / 86400000 + 25569;
+  // Serials before 1900-03-01 skip the fictitious 1900-02-29
+  return serial < 61 ? serial - 1 : serial;
+}
+
+/** Sheet names are at most 31 characters and cannot contain []:*?/\ */
+function sheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, '_').slice(0, 31) || 'Sheet1';
+}
+
+function stringCell(ref: string, text: string, style?: number): string {
+  return `<c r="${ref}"${style ? ` s="${style}"` : ''} t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+function valueCell(column: TypedColumn, ref: string, value: TypedColumn['values'][number]): string {
+  if (value === null) return '';
+  if (typeof value === 'string') return stringCell(ref, value);
+  if (typeof value === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  if (value instanceof Date) {
+    const serial = toExcelSerial(value);
+    // Excel has no dates before 1900, so those stay readable as text
+    if (serial < 1) return stringCell(ref, column.kind === 'date' ? value.toISOString().slice(0, 10) : value.toISOString());
+    return `<c r="${ref}" s="${column.kind === 'date' ? STYLE.date : STYLE.datetime}"><v>${serial}</v></c>`;
+  }
+  const style = column.type === 'percent' ? STYLE.percent : column.type === 'currency' ? STYLE.currency : 0;
+  return `<c r="${ref}"${style ? ` s="${style}"` : ''}><v>${value}</v></c>`;
+}
+
+/** Rough column width in characters, from the header and the first rows. */
+function columnWidth(column: TypedColumn): number {
+  if (column.kind === 'datetime') return 20;
+  const sample = column.values.slice(0, 200).map(value => (value === null ? 0 : String(value).length));
+  return Math.min(60, Math.max(column.kind === 'date' ? 12 : 8, column.name.length + 2, ...sample.map(length => length + 1)));
+}
+
+/**
+ * A single-sheet .xlsx workbook. Numbers, booleans and dates are written as
+ * typed cells (dates with a date format), everything else as inline strings;
+ * the bold header row is frozen and filterable.
+ */
+export function writeXlsx(table: ExportTable): Buffer {
+  if (table.rows.length + 1 > MAX_ROWS) {
+    throw new Error(`Excel sheets hold at most ${MAX_ROWS - 1} data rows; ${table.name} has ${table.rows.length}`);
+  }
+  if (table.columns.length > MAX_COLUMNS) {
+    throw new Error(`Excel sheets hold at most ${MAX_COLUMNS} columns; ${table.name} has ${table.columns.length}`);
+  }
+
+  const columns = typedColumns(table);
+  const letters = columns.map((_, index) => columnLetters(index));
+  const rows = [
+    `<row r="1">${columns.map((column, c) => stringCell(`${letters[c]}1`, column.name, STYLE.header)).join('')}</row>`,
+  ];
+  for (let r = 0; r < table.rows.length; r++) {
+    const cells = columns.map((column, c) => valueCell(column, `${letters[c]}${r + 2}`, column.values[r])).join('');
+    rows.push(`<row r="${r + 2}">${cells}</row>`);
+  }
+
+  const lastCell = `${letters[letters.length - 1] ?? 'A'}${table.rows.length + 1}`;
+  const cols = columns.map((column, c) => `<col min="${c + 1}" max="${c + 1}" width="${columnWidth(column)}" customWidth="1"/>`);
+  const sheet = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    `<dimension ref="A1:${lastCell}"/>`,
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>',
+    cols.length > 0 ? `<cols>${cols.join('')}</cols>` : '',
+    `<sheetData>${rows.join('')}</sheetData>`,
+    columns.length > 0 ? `<autoFilter ref="A1:${lastCell}"/>` : '',
+    '</worksheet>',
+  ].join('');
+
+  const workbook = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+    `<sheets><sheet name="${escapeXml(sheetName(table.name))}" sheetId="1" r:id="rId1"/></sheets>`,
+    '</workbook>',
+  ].join('');
+
+  return Buffer.from(zipSync({
+    '[Content_Types].xml': strToU8(CONTENT_TYPES),
+    '_rels/.rels': strToU8(ROOT_RELS),
+    'xl/workbook.xml': strToU8(workbook),
+    'xl/_rels/workbook.xml.rels': strToU8(WORKBOOK_RELS),
+    'xl/styles.xml': strToU8(STYLES),
+    'xl/worksheets/sheet1.xml': strToU8(sheet),
+  }));
+}
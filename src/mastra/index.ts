@@ -2,16 +2,24 @@
 import { Mastra } from '@mastra/core/mastra';
 import { PinoLogger } from '@mastra/loggers';
 import { LibSQLStore } from '@mastra/libsql';
-import { weatherWorkflow } from './workflows/weather-workflow';
-import { weatherAgent } from './agents/weather-agent';
+import { analysisWorkflow } from './workflows/analysisWorkflow';
+import { coordinatorAgent } from './agents/coordinatorAgent';
+import { dataAnalysisAgent } from './agents/dataAnalysisAgent';
+import { dataVisualizationAgent } from './agents/dataVisualizationAgent';
+import { datasetRegistry } from './data/datasetRegistry';
+
+const storage = new LibSQLStore({
+  // stores telemetry, evals, conversation memory, datasets, ... into memory storage, if it needs to persist, change to file:../mastra.db
+  url: ":memory:",
+});
+
+// Processed files are registered as named datasets in the same storage
+datasetRegistry.attachStorage(storage);
 
 export const mastra = new Mastra({
-  workflows: { weatherWorkflow },
-  agents: { weatherAgent },
-  storage: new LibSQLStore({
-    // stores telemetry, evals, ... into memory storage, if it needs to persist, change to file:../mastra.db
-    url: ":memory:",
-  }),
+  workflows: { analysisWorkflow },
+  agents: { dataAnalysisAgent, dataVisualizationAgent, coordinatorAgent },
+  storage,
   logger: new PinoLogger({
     name: 'Mastra',
     level: 'info',
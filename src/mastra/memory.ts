@@ -0,0 +1,28 @@
+import { Memory } from '@mastra/memory';
+
+// Working memory the agents keep up to date, so later turns know which datasets exist
+const WORKING_MEMORY_TEMPLATE = `# Analysis session
+
+## Loaded datasets
+<!-- One line per dataset: name, source file, row count, key columns -->
+-
+
+## Findings so far
+-
+
+## Open questions
+-
+`;
+
+/**
+ * Conversation memory shared by the agents: the recent messages of each
+ * thread plus a working-memory note of the datasets loaded in it. The storage
+ * is the Mastra instance's, where the datasets themselves are persisted too.
+ */
+export const memory = new Memory({
+  options: {
+    lastMessages: 20,
+    semanticRecall: false,
+    workingMemory: { enabled: true, template: WORKING_MEMORY_TEMPLATE },
+  },
+});
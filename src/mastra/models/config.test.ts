@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { configureModels, loadModelConfig, modelFor, resetModelConfig, resolveModelSettings } from './index';
+
+// Records whether the mock model module, which pulls in 'ai/test', has been loaded
+const loaded = vi.hoisted(() => ({ mockModel: false }));
+vi.mock('./mockModel', async importOriginal => {
+  loaded.mockModel = true;
+  return importOriginal();
+});
+
+afterEach(() => {
+  resetModelConfig();
+});
+
+describe('loadModelConfig', () => {
+  it('reads the default and per-agent settings from the environment', () => {
+    const config = loadModelConfig({
+      MODEL_PROVIDER: 'openai',
+      MODEL_NAME: 'gpt-4o-mini',
+      MODEL_TEMPERATURE: '0.3',
+      DATA_ANALYSIS_AGENT_MODEL_PROVIDER: 'local',
+      DATA_ANALYSIS_AGENT_MODEL_BASE_URL: 'http://localhost:8000/v1',
+    });
+    expect(config).toEqual({
+      default: { provider: 'openai', model: 'gpt-4o-mini', temperature: 0.3 },
+      agents: { dataAnalysisAgent: { provider: 'local', baseURL: 'http://localhost:8000/v1' } },
+    });
+  });
+
+  it('rejects unknown providers and temperatures out of range', () => {
+    expect(() => loadModelConfig({ MODEL_PROVIDER: 'cohere' })).toThrow(
+      "MODEL_PROVIDER must be one of google, openai, anthropic, local, mock, got 'cohere'",
+    );
+    expect(() => loadModelConfig({ COORDINATOR_AGENT_MODEL_TEMPERATURE: '3' })).toThrow(
+      "COORDINATOR_AGENT_MODEL_TEMPERATURE must be a number from 0 to 2, got '3'",
+    );
+  });
+});
+
+describe('resolveModelSettings', () => {
+  it('applies agent overrides, dropping the default model when the provider changes', () => {
+    configureModels({
+      default: { provider: 'openai', model: 'gpt-4o-mini', temperature: 0.5 },
+      agents: {
+        dataAnalysisAgent: { temperature: 0 },
+        dataVisualizationAgent: { provider: 'anthropic' },
+      },
+    });
+    expect(resolveModelSettings('coordinatorAgent')).toMatchObject({ provider: 'openai', model: 'gpt-4o-mini', temperature: 0.5 });
+    expect(resolveModelSettings('dataAnalysisAgent')).toMatchObject({ provider: 'openai', model: 'gpt-4o-mini', temperature: 0 });
+    expect(resolveModelSettings('dataVisualizationAgent')).toMatchObject({
+      provider: 'anthropic', model: 'claude-3-5-sonnet-latest', temperature: 0.5,
+    });
+  });
+});
+
+describe('modelFor', () => {
+  it('loads the mock model only when the mock provider is chosen', async () => {
+    configureModels({ default: { provider: 'openai', apiKey: 'test' } });
+    expect((await modelFor('coordinatorAgent')).provider).toMatch(/^openai/);
+    expect(loaded.mockModel).toBe(false);
+
+    configureModels({ default: { provider: 'mock', mockSteps: [{ text: 'Scripted' }] } });
+    const model = await modelFor('coordinatorAgent');
+    expect(loaded.mockModel).toBe(true);
+    expect(model.provider).toBe('mock');
+    expect(await modelFor('coordinatorAgent')).toBe(model);
+  });
+});
@@ -0,0 +1,172 @@
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createOpenAI } from '@ai-sdk/openai';
+import type { LanguageModelV1 } from 'ai';
+import type { MockStep } from './mockModel';
+
+export const MODEL_PROVIDERS = ['google', 'openai', 'anthropic', 'local', 'mock'] as const;
+
+export type ModelProvider = (typeof MODEL_PROVIDERS)[number];
+
+export type AgentName = 'coordinatorAgent' | 'dataAnalysisAgent' | 'dataVisualizationAgent';
+
+export interface ModelSettings {
+  provider?: ModelProvider;
+  /** Model id at the provider, e.g. `gemini-1.5-pro`; each provider has a default. */
+  model?: string;
+  temperature?: number;
+  /** Endpoint of the provider's API; required in practice for `local`, an OpenAI-compatible server. */
+  baseURL?: string;
+  /** Falls back to the provider's usual variable, such as OPENAI_API_KEY. */
+  apiKey?: string;
+  /** Scripted turns of the `mock` provider. */
+  mockSteps?: MockStep[];
+}
+
+export type ResolvedModelSettings = ModelSettings & { provider: ModelProvider; model: string; temperature: number };
+
+export interface ModelConfig {
+  default: ModelSettings;
+  agents: Partial<Record<AgentName, ModelSettings>>;
+}
+
+const DEFAULT_MODELS: Record<ModelProvider, string> = {
+  google: 'gemini-1.5-pro',
+  openai: 'gpt-4o',
+  anthropic: 'claude-3-5-sonnet-latest',
+  local: 'llama3.1',
+  mock: 'mock',
+};
+
+const DEFAULT_TEMPERATURE = 0.1;
+
+// Ollama's OpenAI-compatible endpoint
+const DEFAULT_LOCAL_URL = 'http://localhost:11434/v1';
+
+const AGENT_NAMES: AgentName[] = ['coordinatorAgent', 'dataAnalysisAgent', 'dataVisualizationAgent'];
+
+/**
+ * Reads the model configuration from the environment. MODEL_PROVIDER,
+ * MODEL_NAME, MODEL_TEMPERATURE, MODEL_BASE_URL and MODEL_API_KEY set the
+ * default for every agent; the same variables prefixed with an agent's name
+ * in upper snake case (e.g. DATA_ANALYSIS_AGENT_MODEL_NAME) override it for
+ * that agent.
+ */
+export function loadModelConfig(env: Record<string, string | undefined> = process.env): ModelConfig {
+  const agents: ModelConfig['agents'] = {};
+  AGENT_NAMES.forEach(agent => {
+    const settings = readSettings(env, `${toEnvPrefix(agent)}_`);
+    if (Object.keys(settings).length > 0) agents[agent] = settings;
+  });
+  return { default: readSettings(env, ''), agents };
+}
+
+let config: ModelConfig = loadModelConfig();
+const models = new Map<string, Promise<LanguageModelV1>>();
+
+/**
+ * Replaces parts of the configuration, such as switching every agent to the
+ * mock model in tests. Agents pick the change up on their next call.
+ */
+export function configureModels(changes: { default?: ModelSettings; agents?: ModelConfig['agents'] }) {
+  config = {
+    default: { ...config.default, ...changes.default },
+    agents: { ...config.agents, ...changes.agents },
+  };
+  models.clear();
+}
+
+/** Goes back to the configuration in the environment. */
+export function resetModelConfig() {
+  config = loadModelConfig();
+  models.clear();
+}
+
+export function resolveModelSettings(agent: AgentName): ResolvedModelSettings {
+  const override = config.agents[agent] ?? {};
+  // The default's model and endpoint do not carry over to an agent that uses another provider
+  const switched = override.provider !== undefined && override.provider !== (config.default.provider ?? 'google');
+  const settings = { ...(switched ? { temperature: config.default.temperature } : config.default), ...override };
+  const provider = settings.provider ?? 'google';
+  return {
+    ...settings,
+    provider,
+    model: settings.model ?? DEFAULT_MODELS[provider],
+    temperature: settings.temperature ?? DEFAULT_TEMPERATURE,
+  };
+}
+
+/** The agent's language model, created once per configuration. */
+export function modelFor(agent: AgentName): Promise<LanguageModelV1> {
+  let model = models.get(agent);
+  if (!model) {
+    model = createModel(resolveModelSettings(agent));
+    models.set(agent, model);
+  }
+  return model;
+}
+
+/** The model and generation options of an agent, resolved from the configuration on every call. */
+export function agentModelOptions(agent: AgentName) {
+  const options = () => ({ temperature: resolveModelSettings(agent).temperature });
+  return {
+    model: () => modelFor(agent),
+    defaultGenerateOptions: options,
+    defaultStreamOptions: options,
+  };
+}
+
+async function createModel(settings: ResolvedModelSettings): Promise<LanguageModelV1> {
+  const { provider, model, baseURL, apiKey } = settings;
+  switch (provider) {
+    case 'google':
+      return createGoogleGenerativeAI({ baseURL, apiKey })(model);
+    case 'openai':
+      return createOpenAI({ baseURL, apiKey, compatibility: 'strict' })(model);
+    case 'anthropic':
+      return createAnthropic({ baseURL, apiKey })(model);
+    case 'local':
+      // Local servers rarely check the key, but the client requires one
+      return createOpenAI({
+        name: 'local',
+        baseURL: baseURL ?? DEFAULT_LOCAL_URL,
+        apiKey: apiKey ?? 'local',
+        compatibility: 'compatible',
+      })(model);
+    case 'mock': {
+      // Imported on demand so the test helpers of 'ai' are only loaded when the mock is used
+      const { createMockModel } = await import('./mockModel');
+      return createMockModel(settings.mockSteps, model);
+    }
+  }
+}
+
+function readSettings(env: Record<string, string | undefined>, prefix: string): ModelSettings {
+  const settings: ModelSettings = {};
+  const provider = env[`${prefix}MODEL_PROVIDER`];
+  if (provider) {
+    if (!(MODEL_PROVIDERS as readonly string[]).includes(provider)) {
+      throw new Error(`${prefix}MODEL_PROVIDER must be one of ${MODEL_PROVIDERS.join(', ')}, got '${provider}'`);
+    }
+    settings.provider = provider as ModelProvider;
+  }
+  const temperature = env[`${prefix}MODEL_TEMPERATURE`];
+  if (temperature) {
+    const value = Number(temperature);
+    if (!Number.isFinite(value) || value < 0 || value > 2) {
+      throw new Error(`${prefix}MODEL_TEMPERATURE must be a number from 0 to 2, got '${temperature}'`);
+    }
+    settings.temperature = value;
+  }
+  const model = env[`${prefix}MODEL_NAME`];
+  const baseURL = env[`${prefix}MODEL_BASE_URL`];
+  const apiKey = env[`${prefix}MODEL_API_KEY`];
+  if (model) settings.model = model;
+  if (baseURL) settings.baseURL = baseURL;
+  if (apiKey) settings.apiKey = apiKey;
+  return settings;
+}
+
+function toEnvPrefix(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
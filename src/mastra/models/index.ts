@@ -0,0 +1,11 @@
+export {
+  agentModelOptions,
+  configureModels,
+  loadModelConfig,
+  MODEL_PROVIDERS,
+  modelFor,
+  resetModelConfig,
+  resolveModelSettings,
+} from './config';
+export type { AgentName, ModelConfig, ModelProvider, ModelSettings, ResolvedModelSettings } from './config';
+export type { MockStep } from './mockModel';
@@ -0,0 +1,65 @@
+import { LanguageModelV1Prompt, LanguageModelV1StreamPart, simulateReadableStream } from 'ai';
+import { MockLanguageModelV1 } from 'ai/test';
+
+/** One scripted model turn: a text answer, or tool calls for the agent to run. */
+export type MockStep =
+  | { text: string }
+  | { toolCalls: { toolName: string; args: Record<string, any> }[] };
+
+const USAGE = { promptTokens: 0, completionTokens: 0 };
+
+/**
+ * A model that needs no network: it plays the scripted steps in order, one
+ * per call, and afterwards answers every call by echoing the latest user
+ * message. The same calls always produce the same answers.
+ */
+export function createMockModel(steps: MockStep[] = [], modelId = 'mock'): MockLanguageModelV1 {
+  let calls = 0;
+  const next = (prompt: LanguageModelV1Prompt): MockStep =>
+    steps[calls++] ?? { text: `Mock answer to: ${latestUserText(prompt)}` };
+
+  return new MockLanguageModelV1({
+    provider: 'mock',
+    modelId,
+    doGenerate: async ({ prompt }) => {
+      const step = next(prompt);
+      const rawCall = { rawPrompt: prompt, rawSettings: {} };
+      if ('text' in step) {
+        return { rawCall, finishReason: 'stop', usage: USAGE, text: step.text };
+      }
+      return { rawCall, finishReason: 'tool-calls', usage: USAGE, toolCalls: toolCalls(step, calls) };
+    },
+    doStream: async ({ prompt }) => {
+      const step = next(prompt);
+      const chunks: LanguageModelV1StreamPart[] =
+        'text' in step
+          ? [{ type: 'text-delta', textDelta: step.text }, { type: 'finish', finishReason: 'stop', usage: USAGE }]
+          : [
+              ...toolCalls(step, calls).map(call => ({ type: 'tool-call' as const, ...call })),
+              { type: 'finish', finishReason: 'tool-calls', usage: USAGE },
+            ];
+      return {
+        stream: simulateReadableStream({ chunks, initialDelayInMs: null, chunkDelayInMs: null }),
+        rawCall: { rawPrompt: prompt, rawSettings: {} },
+      };
+    },
+  });
+}
+
+function toolCalls(step: Extract<MockStep, { toolCalls: unknown }>, call: number) {
+  return step.toolCalls.map((toolCall, i) => ({
+    toolCallType: 'function' as const,
+    toolCallId: `mock-call-${call}-${i}`,
+    toolName: toolCall.toolName,
+    args: JSON.stringify(toolCall.args),
+  }));
+}
+
+function latestUserText(prompt: LanguageModelV1Prompt): string {
+  const message = [...prompt].reverse().find(entry => entry.role === 'user');
+  if (!message || message.role !== 'user') return '';
+  return message.content
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join(' ')
+    .trim();
+}
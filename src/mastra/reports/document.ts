@@ -0,0 +1,73 @@
+import { formatNumber } from '../stats';
+
+/** A chart rendered both ways: SVG for Markdown and HTML, RGBA pixels for PDF. */
+export interface ReportChart {
+  title: string;
+  /** Text alternative stating what the chart shows; the title when omitted. */
+  altText?: string;
+  svg: string;
+  image: { width: number; height: number; pixels: Uint8ClampedArray };
+}
+
+export type ReportBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; items: string[] }
+  | { type: 'table'; columns: string[]; rows: unknown[][]; caption?: string }
+  | { type: 'code'; text: string; language?: string }
+  | { type: 'chart'; chart: ReportChart };
+
+/**
+ * Format-neutral report content, rendered by `renderMarkdown`, `renderHtml`
+ * and `renderPdf`. Paragraph and list text may use **bold**, *italic* and
+ * `code` inline markup.
+ */
+export interface ReportDocument {
+  title: string;
+  generatedAt: Date;
+  blocks: ReportBlock[];
+}
+
+export function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return formatNumber(value);
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Splits narrative Markdown into paragraphs and bullet lists. Headings are
+ * kept as bold paragraphs, as the report supplies its own structure.
+ */
+export function parseNarrative(text: string): ReportBlock[] {
+  const blocks: ReportBlock[] = [];
+  text
+    .trim()
+    .split(/\n\s*\n/)
+    .forEach(chunk => {
+      const lines = chunk.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+      if (lines.length === 0) return;
+      if (lines.every(line => /^([-*+]|\d+[.)])\s+/.test(line))) {
+        blocks.push({ type: 'list', items: lines.map(line => line.replace(/^([-*+]|\d+[.)])\s+/, '')) });
+        return;
+      }
+      const heading = lines[0].match(/^#{1,6}\s+(.*)$/);
+      if (heading) {
+        blocks.push({ type: 'paragraph', text: `**${heading[1]}**` });
+        lines.shift();
+      }
+      if (lines.length > 0) {
+        blocks.push({ type: 'paragraph', text: lines.join(' ') });
+      }
+    });
+  return blocks;
+}
+
+/** Inline markup removed, for formats that draw plain text. */
+export function plainText(text: string): string {
+  return text
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/(^|[^*])\*(?!\s)(.+?)\*/g, '$1$2')
+    .replace(/`([^`]+)`/g, '$1');
+}
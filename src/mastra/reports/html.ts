@@ -0,0 +1,74 @@
+import { formatCell, ReportBlock, ReportDocument } from './document';
+
+const STYLE = `
+body { font-family: Helvetica, Arial, sans-serif; color: #1F2937; max-width: 960px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+h1 { border-bottom: 2px solid #E5E7EB; padding-bottom: 0.3rem; }
+.generated { color: #6B7280; font-size: 0.9rem; }
+table { border-collapse: collapse; margin: 1rem 0; font-size: 0.9rem; }
+caption { text-align: left; color: #6B7280; padding-bottom: 0.3rem; }
+th, td { border: 1px solid #E5E7EB; padding: 0.3rem 0.6rem; text-align: left; }
+th { background: #F3F4F6; }
+td.number { text-align: right; }
+pre { background: #F3F4F6; padding: 0.8rem; overflow-x: auto; }
+figure { margin: 1rem 0; }
+figure svg { max-width: 100%; height: auto; }
+figcaption { color: #6B7280; font-size: 0.9rem; }
+`.trim();
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Escapes text and turns its **bold**, *italic* and `code` markup into tags. */
+function inline(text: string): string {
+  return escapeHtml(text)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*(?!\s)(.+?)\*/g, '$1<em>$2</em>');
+}
+
+/** A single HTML file with its styles inline and the charts as embedded SVG elements. */
+export function renderHtml(document: ReportDocument): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(document.title)}</title>`,
+    `<style>\n${STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(document.title)}</h1>`,
+    `<p class="generated">Generated ${document.generatedAt.toISOString()}</p>`,
+    ...document.blocks.map(renderBlock),
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+function renderBlock(block: ReportBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `<h${block.level + 1}>${escapeHtml(block.text)}</h${block.level + 1}>`;
+    case 'paragraph':
+      return `<p>${inline(block.text)}</p>`;
+    case 'list':
+      return `<ul>\n${block.items.map(item => `<li>${inline(item)}</li>`).join('\n')}\n</ul>`;
+    case 'table': {
+      const header = block.columns.map(column => `<th>${escapeHtml(column)}</th>`).join('');
+      const rows = block.rows.map(row => {
+        const cells = row.map(value => {
+          const attr = typeof value === 'number' ? ' class="number"' : '';
+          return `<td${attr}>${escapeHtml(formatCell(value))}</td>`;
+        });
+        return `<tr>${cells.join('')}</tr>`;
+      });
+      const caption = block.caption ? `<caption>${escapeHtml(block.caption)}</caption>\n` : '';
+      return `<table>\n${caption}<thead><tr>${header}</tr></thead>\n<tbody>\n${rows.join('\n')}\n</tbody>\n</table>`;
+    }
+    case 'code':
+      return `<pre><code${block.language ? ` class="language-${block.language}"` : ''}>${escapeHtml(block.text)}</code></pre>`;
+    case 'chart':
+      return `<figure>\n${block.chart.svg}\n<figcaption>${escapeHtml(block.chart.title)}</figcaption>\n</figure>`;
+  }
+}
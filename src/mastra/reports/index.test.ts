@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { formatCell, parseNarrative, plainText, renderHtml, renderMarkdown, renderPdf, ReportDocument } from './index';
+
+const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="2" height="2"><rect width="2" height="2" fill="#3B82F6"/></svg>';
+
+const report: ReportDocument = {
+  title: 'Sales <Q1> & more',
+  generatedAt: new Date('2024-04-01T09:00:00Z'),
+  blocks: [
+    { type: 'heading', level: 1, text: 'Summary' },
+    { type: 'paragraph', text: 'Revenue **rose** by *12%* in `north`.' },
+    { type: 'list', items: ['One', 'Two'] },
+    { type: 'table', columns: ['region', 'total'], rows: [['North | East', 1234.5678], ['South', null]], caption: '2 row(s)' },
+    { type: 'code', language: 'sql', text: 'SELECT 1' },
+    { type: 'chart', chart: { title: 'Revenue', altText: 'Bar chart [revenue]', svg, image: { width: 2, height: 2, pixels: new Uint8ClampedArray(16).fill(255) } } },
+  ],
+};
+
+describe('parseNarrative', () => {
+  it('splits paragraphs and bullet lists, keeping headings as bold text', () => {
+    expect(parseNarrative('## Trend\nSales grew\nsteadily.\n\n- first\n* second\n\n1. third')).toEqual([
+      { type: 'paragraph', text: '**Trend**' },
+      { type: 'paragraph', text: 'Sales grew steadily.' },
+      { type: 'list', items: ['first', 'second'] },
+      { type: 'list', items: ['third'] },
+    ]);
+  });
+});
+
+describe('inline text', () => {
+  it('formats cells and strips markup', () => {
+    expect(formatCell(null)).toBe('');
+    expect(formatCell(1234.5678)).toBe('1234.6');
+    expect(formatCell({ a: 1 })).toBe('{"a":1}');
+    expect(plainText('a **b** *c* `d`')).toBe('a b c d');
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('nests headings under the title and embeds charts as data URIs', () => {
+    const markdown = renderMarkdown(report);
+    expect(markdown).toMatch(/^# Sales <Q1> & more\n\n_Generated 2024-04-01T09:00:00.000Z_/);
+    expect(markdown).toContain('## Summary');
+    expect(markdown).toContain('| North \\| East | 1234.6 |');
+    expect(markdown).toContain('| South |  |');
+    expect(markdown).toContain('```sql\nSELECT 1\n```');
+    expect(markdown).toContain(`![Bar chart \\[revenue\\]](data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')})`);
+  });
+});
+
+describe('renderHtml', () => {
+  it('escapes text, converts inline markup and embeds the SVG', () => {
+    const html = renderHtml(report);
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>Sales &lt;Q1&gt; &amp; more</title>');
+    expect(html).toContain('<p>Revenue <strong>rose</strong> by <em>12%</em> in <code>north</code>.</p>');
+    expect(html).toContain(svg);
+    // Self-contained: nothing is fetched from elsewhere
+    expect(html).not.toMatch(/<(link|script)\b|src="http/);
+  });
+});
+
+describe('renderPdf', () => {
+  it('writes a PDF with a page footer and the chart as an image', () => {
+    const pdf = renderPdf(report);
+    const text = pdf.toString('latin1');
+    expect(text).toMatch(/^%PDF-1\.4/);
+    expect(text.trimEnd()).toMatch(/%%EOF$/);
+    expect(text).toMatch(/\/Subtype \/Image/);
+    const xref = Number(text.match(/startxref\s+(\d+)/)![1]);
+    expect(text.slice(xref, xref + 4)).toBe('xref');
+  });
+
+  it('breaks long tables across pages', () => {
+    const long: ReportDocument = {
+      ...report,
+      blocks: [{ type: 'table', columns: ['n'], rows: Array.from({ length: 200 }, (_, i) => [i]) }],
+    };
+    expect(renderPdf(long).toString('latin1').match(/\/Type \/Page\b/g)!.length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,5 @@
+export { formatCell, parseNarrative, plainText } from './document';
+export type { ReportBlock, ReportChart, ReportDocument } from './document';
+export { markdownTable, renderMarkdown } from './markdown';
+export { renderHtml } from './html';
+export { renderPdf } from './pdf';
@@ -0,0 +1,37 @@
+import { formatCell, ReportBlock, ReportDocument } from './document';
+
+export function markdownTable(columns: string[], rows: unknown[][]): string[] {
+  const cell = (value: unknown) => formatCell(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  return [
+    `| ${columns.map(cell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+  ];
+}
+
+/** Self-contained Markdown: charts are embedded as SVG data URIs. */
+export function renderMarkdown(document: ReportDocument): string {
+  const lines = [`# ${document.title}`, '', `_Generated ${document.generatedAt.toISOString()}_`, ''];
+  document.blocks.forEach(block => {
+    lines.push(...renderBlock(block), '');
+  });
+  return lines.join('\n');
+}
+
+function renderBlock(block: ReportBlock): string[] {
+  switch (block.type) {
+    case 'heading':
+      // The document title is the only level-1 heading
+      return [`${'#'.repeat(block.level + 1)} ${block.text}`];
+    case 'paragraph':
+      return [block.text];
+    case 'list':
+      return block.items.map(item => `- ${item}`);
+    case 'table':
+      return [...(block.caption ? [block.caption, ''] : []), ...markdownTable(block.columns, block.rows)];
+    case 'code':
+      return ['```' + (block.language ?? ''), block.text, '```'];
+    case 'chart':
+      return [`![${(block.chart.altText ?? block.chart.title).replace(/[[\]]/g, '\\$&')}](data:image/svg+xml;base64,${Buffer.from(block.chart.svg).toString('base64')})`];
+  }
+}
@@ -0,0 +1,399 @@
+import { deflateSync } from 'zlib';
+import { formatCell, plainText, ReportBlock, ReportChart, ReportDocument } from './document';
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_SIZE = 8;
+
+type Font = 'regular' | 'bold' | 'mono';
+type Rgb = [number, number, number];
+
+const FONTS: Record<Font, { resource: string; baseFont: string }> = {
+  regular: { resource: 'F1', baseFont: 'Helvetica' },
+  bold: { resource: 'F2', baseFont: 'Helvetica-Bold' },
+  mono: { resource: 'F3', baseFont: 'Courier' },
+};
+
+const TEXT_COLOR: Rgb = [0.122, 0.161, 0.216];
+const MUTED_COLOR: Rgb = [0.42, 0.447, 0.502];
+const BORDER_COLOR: Rgb = [0.898, 0.906, 0.922];
+const SHADE_COLOR: Rgb = [0.953, 0.957, 0.965];
+
+// Helvetica advance widths (per 1000 units of font size) of the printable ASCII characters, from its AFM
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Helvetica-Bold runs about 6% wider; measuring with this factor keeps bold text inside its box
+const BOLD_FACTOR = 1.06;
+
+// WinAnsiEncoding codes of the characters outside Latin-1 that reports commonly contain
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+function encodeChar(char: string): number {
+  const code = char.codePointAt(0)!;
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+  return WIN_ANSI_EXTRAS[char] ?? 63; // '?'
+}
+
+function charWidth(char: string, font: Font): number {
+  if (font === 'mono') return 600;
+  const code = char.codePointAt(0)!;
+  const width = code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  return font === 'bold' ? width * BOLD_FACTOR : width;
+}
+
+function measure(text: string, font: Font, size: number): number {
+  let width = 0;
+  for (const char of text) width += charWidth(char, font);
+  return (width * size) / 1000;
+}
+
+/** Cuts text to fit `maxWidth`, ending it with an ellipsis when shortened. */
+function truncate(text: string, font: Font, size: number, maxWidth: number): string {
+  if (measure(text, font, size) <= maxWidth) return text;
+  const chars = Array.from(text);
+  while (chars.length > 0 && measure(`${chars.join('')}…`, font, size) > maxWidth) chars.pop();
+  return chars.length > 0 ? `${chars.join('')}…` : '';
+}
+
+/** Greedy word wrap; words longer than a line are broken between characters. */
+function wrap(text: string, font: Font, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(word => word.length > 0).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measure(candidate, font, size) <= maxWidth) {
+      line = candidate;
+      return;
+    }
+    if (line) lines.push(line);
+    line = '';
+    let rest = word;
+    while (measure(rest, font, size) > maxWidth) {
+      const chars = Array.from(rest);
+      let cut = chars.length - 1;
+      while (cut > 1 && measure(chars.slice(0, cut).join(''), font, size) > maxWidth) cut--;
+      lines.push(chars.slice(0, cut).join(''));
+      rest = chars.slice(cut).join('');
+    }
+    line = rest;
+  });
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [''];
+}
+
+/** Breaks a code line at spaces where possible, otherwise every `maxChars` characters. */
+function wrapCode(line: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let rest = line;
+  while (rest.length > maxChars) {
+    const space = rest.lastIndexOf(' ', maxChars);
+    const cut = space > maxChars / 2 ? space : maxChars;
+    pieces.push(rest.slice(0, cut));
+    rest = rest.slice(cut).replace(/^ /, '');
+  }
+  pieces.push(rest);
+  return pieces;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function color(rgb: Rgb, stroke = false): string {
+  return `${rgb.map(num).join(' ')} ${stroke ? 'RG' : 'rg'}`;
+}
+
+function hexString(text: string): string {
+  return `<${Array.from(text).map(char => encodeChar(char).toString(16).padStart(2, '0')).join('')}>`;
+}
+
+/** Lays blocks out top to bottom on A4 pages, collecting each page's content stream operators. */
+class PageWriter {
+  pages: string[][] = [];
+  images: ReportChart['image'][] = [];
+  private y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  newPage() {
+    this.pages.push([]);
+    this.y = MARGIN;
+  }
+
+  /** Starts a new page unless `height` more points fit on the current one. */
+  ensure(height: number) {
+    if (this.y + height > PAGE_HEIGHT - MARGIN && this.y > MARGIN) this.newPage();
+  }
+
+  space(height: number) {
+    this.y += height;
+  }
+
+  get top(): number {
+    return this.y;
+  }
+
+  text(x: number, text: string, font: Font, size: number, rgb: Rgb = TEXT_COLOR, lineHeight = size * 1.4) {
+    this.ensure(lineHeight);
+    const baseline = this.y + size;
+    this.ops().push(`BT /${FONTS[font].resource} ${num(size)} Tf ${color(rgb)} ${num(x)} ${num(PAGE_HEIGHT - baseline)} Td ${hexString(text)} Tj ET`);
+    this.y += lineHeight;
+  }
+
+  /** Draws text at an absolute position on the current page without moving down. */
+  textAt(x: number, top: number, text: string, font: Font, size: number, rgb: Rgb = TEXT_COLOR) {
+    this.ops().push(`BT /${FONTS[font].resource} ${num(size)} Tf ${color(rgb)} ${num(x)} ${num(PAGE_HEIGHT - top - size)} Td ${hexString(text)} Tj ET`);
+  }
+
+  rect(x: number, top: number, width: number, height: number, rgb: Rgb) {
+    this.ops().push(`${color(rgb)} ${num(x)} ${num(PAGE_HEIGHT - top - height)} ${num(width)} ${num(height)} re f`);
+  }
+
+  hline(x1: number, x2: number, top: number, rgb: Rgb = BORDER_COLOR) {
+    const y = num(PAGE_HEIGHT - top);
+    this.ops().push(`${color(rgb, true)} 0.5 w ${num(x1)} ${y} m ${num(x2)} ${y} l S`);
+  }
+
+  image(image: ReportChart['image'], width: number, height: number) {
+    this.ensure(height);
+    this.images.push(image);
+    const name = `Im${this.images.length}`;
+    this.ops().push(`q ${num(width)} 0 0 ${num(height)} ${num(MARGIN)} ${num(PAGE_HEIGHT - this.y - height)} cm /${name} Do Q`);
+    this.y += height;
+  }
+
+  private ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
+
+function layoutBlock(writer: PageWriter, block: ReportBlock) {
+  switch (block.type) {
+    case 'heading': {
+      const size = [15, 12, 11][block.level - 1];
+      // Keep a heading together with the start of what follows it
+      writer.ensure(size * 1.4 + 40);
+      writer.space(size * 0.6);
+      wrap(block.text, 'bold', size, CONTENT_WIDTH).forEach(line => writer.text(MARGIN, line, 'bold', size));
+      writer.space(2);
+      break;
+    }
+    case 'paragraph':
+      wrap(plainText(block.text), 'regular', 10, CONTENT_WIDTH).forEach(line => writer.text(MARGIN, line, 'regular', 10));
+      writer.space(6);
+      break;
+    case 'list':
+      block.items.forEach(item => {
+        wrap(plainText(item), 'regular', 10, CONTENT_WIDTH - 14).forEach((line, i) => {
+          if (i === 0) {
+            writer.ensure(14);
+            writer.textAt(MARGIN + 2, writer.top, '•', 'regular', 10);
+          }
+          writer.text(MARGIN + 14, line, 'regular', 10);
+        });
+      });
+      writer.space(6);
+      break;
+    case 'code': {
+      const size = 8.5;
+      const lineHeight = 11;
+      const maxChars = Math.floor((CONTENT_WIDTH - 12) / (0.6 * size));
+      block.text.split('\n').flatMap(line => wrapCode(line, maxChars)).forEach(line => {
+        writer.ensure(lineHeight);
+        writer.rect(MARGIN, writer.top, CONTENT_WIDTH, lineHeight, SHADE_COLOR);
+        writer.textAt(MARGIN + 6, writer.top + 1.5, line, 'mono', size);
+        writer.space(lineHeight);
+      });
+      writer.space(8);
+      break;
+    }
+    case 'table':
+      layoutTable(writer, block);
+      break;
+    case 'chart': {
+      const { image, title } = block.chart;
+      const scale = Math.min(CONTENT_WIDTH / image.width, (PAGE_HEIGHT - 2 * MARGIN - 30) / image.height);
+      writer.image(image, image.width * scale, image.height * scale);
+      writer.space(4);
+      wrap(title, 'regular', 9, CONTENT_WIDTH).forEach(line => writer.text(MARGIN, line, 'regular', 9, MUTED_COLOR));
+      writer.space(8);
+      break;
+    }
+  }
+}
+
+/**
+ * Column widths within `available`: when the natural widths do not fit, the
+ * widest columns are narrowed to a common cap so that narrow ones stay whole.
+ */
+function fitColumns(natural: number[], available: number): number[] {
+  if (natural.reduce((sum, width) => sum + width, 0) <= available) return natural;
+  const sorted = [...natural].sort((a, b) => a - b);
+  let used = 0;
+  let cap = available / natural.length;
+  for (let i = 0; i < sorted.length; i++) {
+    const share = (available - used) / (sorted.length - i);
+    if (sorted[i] > share) {
+      cap = share;
+      break;
+    }
+    used += sorted[i];
+  }
+  return natural.map(width => Math.min(width, cap));
+}
+
+function layoutTable(writer: PageWriter, block: Extract<ReportBlock, { type: 'table' }>) {
+  const size = 8;
+  const rowHeight = 13;
+  const padding = 4;
+  const cells = block.rows.map(row => row.map(formatCell));
+
+  const natural = block.columns.map((column, c) =>
+    Math.max(30, measure(column, 'bold', size), ...cells.map(row => measure(row[c] ?? '', 'regular', size))) + 2 * padding,
+  );
+  const widths = fitColumns(natural, CONTENT_WIDTH);
+  const right = MARGIN + widths.reduce((sum, width) => sum + width, 0);
+
+  const drawRow = (values: string[], font: Font, numeric: boolean[]) => {
+    const top = writer.top;
+    let x = MARGIN;
+    values.forEach((value, c) => {
+      const text = truncate(value, font, size, widths[c] - 2 * padding);
+      const offset = numeric[c] ? widths[c] - padding - measure(text, font, size) : padding;
+      writer.textAt(x + offset, top + 3, text, font, size);
+      x += widths[c];
+    });
+    writer.space(rowHeight);
+    writer.hline(MARGIN, right, writer.top);
+  };
+  const drawHeader = () => {
+    writer.rect(MARGIN, writer.top, right - MARGIN, rowHeight, SHADE_COLOR);
+    drawRow(block.columns, 'bold', block.columns.map(() => false));
+  };
+
+  if (block.caption) {
+    writer.ensure(rowHeight * 3);
+    wrap(block.caption, 'regular', 9, CONTENT_WIDTH).forEach(line => writer.text(MARGIN, line, 'regular', 9, MUTED_COLOR));
+  }
+  writer.ensure(rowHeight * 2);
+  drawHeader();
+  block.rows.forEach((row, r) => {
+    const pages = writer.pages.length;
+    writer.ensure(rowHeight);
+    // Repeat the header at the top of each new page
+    if (writer.pages.length > pages) drawHeader();
+    drawRow(cells[r], 'regular', row.map(value => typeof value === 'number'));
+  });
+  writer.space(10);
+}
+
+/**
+ * Renders the report as a PDF 1.4 file using the standard Helvetica and
+ * Courier fonts, which viewers provide, so no fonts are embedded. Text is
+ * limited to the WinAnsi character set; charts are embedded as images.
+ */
+export function renderPdf(document: ReportDocument): Buffer {
+  const writer = new PageWriter();
+  wrap(document.title, 'bold', 20, CONTENT_WIDTH).forEach(line => writer.text(MARGIN, line, 'bold', 20));
+  writer.text(MARGIN, `Generated ${document.generatedAt.toISOString()}`, 'regular', 9, MUTED_COLOR);
+  writer.space(6);
+  document.blocks.forEach(block => layoutBlock(writer, block));
+
+  const pageCount = writer.pages.length;
+  writer.pages.forEach((ops, i) => {
+    const label = `Page ${i + 1} of ${pageCount}`;
+    const x = PAGE_WIDTH - MARGIN - measure(label, 'regular', FOOTER_SIZE);
+    ops.push(`BT /F1 ${FOOTER_SIZE} Tf ${color(MUTED_COLOR)} ${num(x)} ${num(MARGIN / 2)} Td ${hexString(label)} Tj ET`);
+  });
+
+  return serialize(document, writer);
+}
+
+function serialize(document: ReportDocument, writer: PageWriter): Buffer {
+  const objects: Buffer[] = [];
+  const add = (body: string | Buffer) => {
+    objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+    return objects.length;
+  };
+  const stream = (dictionary: string, data: Buffer) =>
+    Buffer.concat([
+      Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, 'latin1'),
+      data,
+      Buffer.from('\nendstream', 'latin1'),
+    ]);
+
+  // Object numbers are fixed up front so pages can refer to their parent
+  const catalogId = add('');
+  const pagesId = add('');
+  const fontIds = Object.values(FONTS).map(({ baseFont }) =>
+    add(`<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`),
+  );
+  const imageIds = writer.images.map(image => {
+    const rgb = Buffer.alloc(image.width * image.height * 3);
+    for (let i = 0, j = 0; i < image.pixels.length; i += 4, j += 3) {
+      // Composite onto white, as PDF images here carry no alpha channel
+      const alpha = image.pixels[i + 3] / 255;
+      rgb[j] = Math.round(image.pixels[i] * alpha + 255 * (1 - alpha));
+      rgb[j + 1] = Math.round(image.pixels[i + 1] * alpha + 255 * (1 - alpha));
+      rgb[j + 2] = Math.round(image.pixels[i + 2] * alpha + 255 * (1 - alpha));
+    }
+    return add(stream(
+      `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode`,
+      deflateSync(rgb),
+    ));
+  });
+
+  const fonts = Object.values(FONTS).map(({ resource }, i) => `/${resource} ${fontIds[i]} 0 R`).join(' ');
+  const xObjects = imageIds.map((id, i) => `/Im${i + 1} ${id} 0 R`).join(' ');
+  const resources = `<< /Font << ${fonts} >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >>`;
+  const pageIds = writer.pages.map(ops => {
+    const contentId = add(stream('/Filter /FlateDecode', deflateSync(Buffer.from(ops.join('\n'), 'latin1'))));
+    return add(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] /Resources ${resources} /Contents ${contentId} 0 R >>`,
+    );
+  });
+  objects[catalogId - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`, 'latin1');
+  objects[pagesId - 1] = Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`, 'latin1');
+  const created = document.generatedAt.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  // Document information strings are UTF-16 with a byte order mark rather than WinAnsi
+  const title = Buffer.from(`\uFEFF${document.title}`, 'utf16le').swap16().toString('hex');
+  const infoId = add(`<< /Title <${title}> /CreationDate (D:${created}Z) >>`);
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'latin1')];
+  let offset = chunks[0].length;
+  const offsets = objects.map((body, i) => {
+    const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+    chunks.push(chunk);
+    const start = offset;
+    offset += chunk.length;
+    return start;
+  });
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(start => `${start.toString().padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+    'startxref',
+    `${offset}`,
+    '%%EOF',
+  ].join('\n');
+  chunks.push(Buffer.from(`${xref}\n`, 'latin1'));
+  return Buffer.concat(chunks);
+}
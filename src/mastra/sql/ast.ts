@@ -0,0 +1,229 @@
+import { SourcePosition } from './errors';
+
+export type Expr =
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'column'; table?: string; name: string; position: SourcePosition }
+  | { kind: 'star'; table?: string }
+  | { kind: 'unary'; op: '-' | '+' | 'NOT'; operand: Expr }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr }
+  | { kind: 'isNull'; operand: Expr; negated: boolean }
+  | { kind: 'in'; operand: Expr; values: Expr[]; negated: boolean }
+  | { kind: 'like'; operand: Expr; pattern: Expr; negated: boolean }
+  | { kind: 'between'; operand: Expr; low: Expr; high: Expr; negated: boolean }
+  | { kind: 'call'; name: string; args: Expr[]; distinct: boolean; position: SourcePosition }
+  | { kind: 'window'; call: CallExpr; partitionBy: Expr[]; orderBy: OrderItem[]; frame?: WindowFrame }
+  | { kind: 'case'; operand?: Expr; whens: { when: Expr; then: Expr }[]; otherwise?: Expr }
+  | { kind: 'subquery'; query: QueryStatement }
+  | { kind: 'inSubquery'; operand: Expr; query: QueryStatement; negated: boolean }
+  | { kind: 'exists'; query: QueryStatement; negated: boolean };
+
+export type CallExpr = Extract<Expr, { kind: 'call' }>;
+export type WindowExpr = Extract<Expr, { kind: 'window' }>;
+
+/**
+ * ROWS frame as offsets from the current row (negative means PRECEDING),
+ * with null for UNBOUNDED.
+ */
+export interface WindowFrame {
+  start: number | null;
+  end: number | null;
+}
+
+export interface SelectItem {
+  expr: Expr;
+  alias?: string;
+}
+
+export interface OrderItem {
+  expr: Expr;
+  direction: 'ASC' | 'DESC';
+  nulls?: 'FIRST' | 'LAST';
+}
+
+export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS';
+
+export type FromItem =
+  | { kind: 'table'; name: string; alias?: string }
+  | { kind: 'subquery'; query: QueryStatement; alias: string }
+  | { kind: 'join'; joinType: JoinType; left: FromItem; right: FromItem; on?: Expr };
+
+export interface CommonTableExpression {
+  name: string;
+  query: QueryStatement;
+}
+
+export interface SelectStatement {
+  type: 'select';
+  ctes: CommonTableExpression[];
+  distinct: boolean;
+  columns: SelectItem[];
+  from?: FromItem;
+  where?: Expr;
+  groupBy: Expr[];
+  having?: Expr;
+  orderBy: OrderItem[];
+  limit?: number;
+  offset?: number;
+}
+
+export type SetOperator = 'UNION' | 'UNION ALL' | 'INTERSECT' | 'EXCEPT';
+
+/** `a UNION b EXCEPT c ...`, applied left to right; ORDER BY/LIMIT apply to the combined rows. */
+export interface CompoundStatement {
+  type: 'compound';
+  ctes: CommonTableExpression[];
+  parts: SelectStatement[];
+  operators: SetOperator[];
+  orderBy: OrderItem[];
+  limit?: number;
+  offset?: number;
+}
+
+export type QueryStatement = SelectStatement | CompoundStatement;
+
+/**
+ * Renders an expression back to SQL text. Used to name unaliased result
+ * columns, e.g. `SUM(revenue)`.
+ */
+export function formatExpr(expr: Expr): string {
+  switch (expr.kind) {
+    case 'literal':
+      if (expr.value === null) return 'NULL';
+      if (typeof expr.value === 'string') return `'${expr.value.replace(/'/g, "''")}'`;
+      if (typeof expr.value === 'boolean') return expr.value ? 'TRUE' : 'FALSE';
+      return String(expr.value);
+    case 'column':
+      return expr.table ? `${expr.table}.${expr.name}` : expr.name;
+    case 'star':
+      return expr.table ? `${expr.table}.*` : '*';
+    case 'unary':
+      return expr.op === 'NOT' ? `NOT ${formatExpr(expr.operand)}` : `${expr.op}${formatExpr(expr.operand)}`;
+    case 'binary':
+      return `${formatExpr(expr.left)} ${expr.op} ${formatExpr(expr.right)}`;
+    case 'isNull':
+      return `${formatExpr(expr.operand)} IS ${expr.negated ? 'NOT ' : ''}NULL`;
+    case 'in':
+      return `${formatExpr(expr.operand)} ${expr.negated ? 'NOT ' : ''}IN (${expr.values.map(formatExpr).join(', ')})`;
+    case 'like':
+      return `${formatExpr(expr.operand)} ${expr.negated ? 'NOT ' : ''}LIKE ${formatExpr(expr.pattern)}`;
+    case 'between':
+      return `${formatExpr(expr.operand)} ${expr.negated ? 'NOT ' : ''}BETWEEN ${formatExpr(expr.low)} AND ${formatExpr(expr.high)}`;
+    case 'call':
+      return `${expr.name}(${expr.distinct ? 'DISTINCT ' : ''}${expr.args.map(formatExpr).join(', ')})`;
+    case 'window': {
+      const parts: string[] = [];
+      if (expr.partitionBy.length > 0) parts.push(`PARTITION BY ${expr.partitionBy.map(formatExpr).join(', ')}`);
+      if (expr.orderBy.length > 0) {
+        parts.push(`ORDER BY ${expr.orderBy.map(item => `${formatExpr(item.expr)}${item.direction === 'DESC' ? ' DESC' : ''}`).join(', ')}`);
+      }
+      if (expr.frame) parts.push(`ROWS BETWEEN ${formatBound(expr.frame.start, 'PRECEDING')} AND ${formatBound(expr.frame.end, 'FOLLOWING')}`);
+      return `${formatExpr(expr.call)} OVER (${parts.join(' ')})`;
+    }
+    case 'case': {
+      const parts = ['CASE'];
+      if (expr.operand) parts.push(formatExpr(expr.operand));
+      expr.whens.forEach(({ when, then }) => parts.push(`WHEN ${formatExpr(when)} THEN ${formatExpr(then)}`));
+      if (expr.otherwise) parts.push(`ELSE ${formatExpr(expr.otherwise)}`);
+      parts.push('END');
+      return parts.join(' ');
+    }
+    case 'subquery':
+      return '(subquery)';
+    case 'inSubquery':
+      return `${formatExpr(expr.operand)} ${expr.negated ? 'NOT ' : ''}IN (subquery)`;
+    case 'exists':
+      return `${expr.negated ? 'NOT ' : ''}EXISTS (subquery)`;
+  }
+}
+
+function formatBound(offset: number | null, unbounded: 'PRECEDING' | 'FOLLOWING'): string {
+  if (offset === null) return `UNBOUNDED ${unbounded}`;
+  if (offset === 0) return 'CURRENT ROW';
+  return offset < 0 ? `${-offset} PRECEDING` : `${offset} FOLLOWING`;
+}
+
+/**
+ * Names of the tables a statement reads, excluding names defined by its own
+ * WITH clauses.
+ */
+export function referencedTables(statement: QueryStatement): string[] {
+  const tables = new Set<string>();
+
+  const visitStatement = (query: QueryStatement, scope: Set<string>) => {
+    const inner = new Set(scope);
+    query.ctes.forEach(cte => {
+      visitStatement(cte.query, inner);
+      inner.add(cte.name.toLowerCase());
+    });
+    const parts = query.type === 'select' ? [query] : query.parts;
+    parts.forEach(part => {
+      if (part.from) visitFrom(part.from, inner);
+      part.columns.forEach(item => visitExpr(item.expr, inner));
+      [part.where, part.having, ...part.groupBy].forEach(expr => expr && visitExpr(expr, inner));
+      part.orderBy.forEach(item => visitExpr(item.expr, inner));
+    });
+  };
+
+  const visitFrom = (item: FromItem, scope: Set<string>) => {
+    if (item.kind === 'table') {
+      if (!scope.has(item.name.toLowerCase())) tables.add(item.name);
+    } else if (item.kind === 'subquery') {
+      visitStatement(item.query, scope);
+    } else {
+      visitFrom(item.left, scope);
+      visitFrom(item.right, scope);
+      if (item.on) visitExpr(item.on, scope);
+    }
+  };
+
+  const visitExpr = (expr: Expr, scope: Set<string>) => {
+    switch (expr.kind) {
+      case 'subquery':
+      case 'exists':
+        visitStatement(expr.query, scope);
+        break;
+      case 'inSubquery':
+        visitExpr(expr.operand, scope);
+        visitStatement(expr.query, scope);
+        break;
+      case 'unary':
+      case 'isNull':
+        visitExpr(expr.operand, scope);
+        break;
+      case 'binary':
+        visitExpr(expr.left, scope);
+        visitExpr(expr.right, scope);
+        break;
+      case 'in':
+        visitExpr(expr.operand, scope);
+        expr.values.forEach(value => visitExpr(value, scope));
+        break;
+      case 'like':
+        visitExpr(expr.operand, scope);
+        visitExpr(expr.pattern, scope);
+        break;
+      case 'between':
+        [expr.operand, expr.low, expr.high].forEach(value => visitExpr(value, scope));
+        break;
+      case 'call':
+        expr.args.forEach(arg => visitExpr(arg, scope));
+        break;
+      case 'window':
+        visitExpr(expr.call, scope);
+        expr.partitionBy.forEach(value => visitExpr(value, scope));
+        expr.orderBy.forEach(item => visitExpr(item.expr, scope));
+        break;
+      case 'case':
+        if (expr.operand) visitExpr(expr.operand, scope);
+        expr.whens.forEach(({ when, then }) => {
+          visitExpr(when, scope);
+          visitExpr(then, scope);
+        });
+        if (expr.otherwise) visitExpr(expr.otherwise, scope);
+        break;
+    }
+  };
+
+  visitStatement(statement, new Set());
+  return Array.from(tables);
+}
@@ -0,0 +1,28 @@
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export class SqlSyntaxError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, position: SourcePosition) {
+    super(`Syntax error at line ${position.line}, column ${position.column}: ${message}`);
+    this.name = 'SqlSyntaxError';
+    this.line = position.line;
+    this.column = position.column;
+  }
+}
+
+export class SqlExecutionError extends Error {
+  line?: number;
+  column?: number;
+
+  constructor(message: string, position?: SourcePosition) {
+    super(position ? `${message} (line ${position.line}, column ${position.column})` : message);
+    this.name = 'SqlExecutionError';
+    this.line = position?.line;
+    this.column = position?.column;
+  }
+}
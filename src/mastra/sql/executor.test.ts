@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { runQuery, SqlExecutionError } from './index';
+
+const sales = {
+  data: [
+    { region: 'North', product: 'A', amount: 100, qty: 2 },
+    { region: 'North', product: 'B', amount: 50, qty: 1 },
+    { region: 'South', product: 'A', amount: 200, qty: 4 },
+    { region: 'South', product: 'B', amount: null, qty: 3 },
+    { region: 'East', product: 'A', amount: 75, qty: 1 },
+  ],
+  columns: ['region', 'product', 'amount', 'qty'],
+};
+const catalog = { sales };
+
+describe('runQuery', () => {
+  it('projects columns and computed expressions with aliases', () => {
+    const result = runQuery('SELECT region, amount * qty AS total FROM sales WHERE product = \'A\'', catalog);
+    expect(result.columns).toEqual(['region', 'total']);
+    expect(result.data).toEqual([
+      { region: 'North', total: 200 },
+      { region: 'South', total: 800 },
+      { region: 'East', total: 75 },
+    ]);
+    expect(result.queryType).toBe('FILTER');
+  });
+
+  it('evaluates WHERE with AND, OR, IN, LIKE and IS NULL', () => {
+    const query = (where: string) => runQuery(`SELECT region, product FROM sales WHERE ${where}`, catalog).data.length;
+    expect(query('amount > 60 AND qty < 4')).toBe(2);
+    expect(query('region = \'East\' OR amount IS NULL')).toBe(2);
+    expect(query('region IN (\'North\', \'East\')')).toBe(3);
+    expect(query('region LIKE \'%th\'')).toBe(4);
+    // Comparisons with NULL are unknown, so the row is filtered out
+    expect(query('amount <> 100')).toBe(3);
+  });
+
+  it('orders by columns, positions and direction, with LIMIT and OFFSET', () => {
+    const result = runQuery('SELECT region, amount FROM sales ORDER BY 2 DESC, region LIMIT 2 OFFSET 1', catalog);
+    expect(result.data).toEqual([{ region: 'North', amount: 100 }, { region: 'East', amount: 75 }]);
+  });
+
+  it('sorts nulls first ascending and last descending', () => {
+    const ascending = runQuery('SELECT amount FROM sales ORDER BY amount', catalog).data.map(row => row.amount);
+    const descending = runQuery('SELECT amount FROM sales ORDER BY amount DESC', catalog).data.map(row => row.amount);
+    expect(ascending).toEqual([null, 50, 75, 100, 200]);
+    expect(descending).toEqual([200, 100, 75, 50, null]);
+  });
+
+  it('filters groups with HAVING', () => {
+    const result = runQuery(
+      'SELECT region, SUM(amount) AS total FROM sales GROUP BY region HAVING SUM(amount) > 100 ORDER BY region',
+      catalog,
+    );
+    expect(result.data).toEqual([{ region: 'North', total: 150 }, { region: 'South', total: 200 }]);
+    expect(result.queryType).toBe('GROUP_BY');
+  });
+
+  it('groups by select-list positions', () => {
+    const result = runQuery('SELECT region, SUM(qty) AS qty FROM sales GROUP BY 1 ORDER BY 1', catalog);
+    expect(result.data).toEqual([
+      { region: 'East', qty: 1 },
+      { region: 'North', qty: 3 },
+      { region: 'South', qty: 7 },
+    ]);
+  });
+
+  it('groups by a position that names an expression', () => {
+    const result = runQuery('SELECT amount > 60 AS big, COUNT(*) AS n FROM sales GROUP BY 1 ORDER BY 2 DESC', catalog);
+    expect(result.data).toEqual([{ big: true, n: 3 }, { big: false, n: 1 }, { big: null, n: 1 }]);
+  });
+
+  it('rejects GROUP BY positions outside the select list', () => {
+    expect(() => runQuery('SELECT region, SUM(qty) FROM sales GROUP BY 3', catalog))
+      .toThrow(new SqlExecutionError('GROUP BY position 3 is out of range'));
+  });
+
+  it('buckets dates with DATE_TRUNC', () => {
+    const orders = {
+      data: [{ day: '2024-01-15', amount: 10 }, { day: '2024-01-31', amount: 5 }, { day: '2024-02-01', amount: 7 }],
+      columns: ['day', 'amount'],
+    };
+    const result = runQuery(
+      "SELECT DATE_TRUNC('month', day) AS month, SUM(amount) AS total FROM orders GROUP BY 1 ORDER BY 1",
+      { orders },
+    );
+    expect(result.data).toEqual([{ month: '2024-01-01', total: 15 }, { month: '2024-02-01', total: 7 }]);
+  });
+
+  it('computes window functions over ordered partitions', () => {
+    const result = runQuery(
+      `SELECT region, amount,
+        SUM(amount) OVER (PARTITION BY region ORDER BY amount) AS running,
+        LAG(amount) OVER (PARTITION BY region ORDER BY amount) AS previous
+      FROM sales WHERE region = 'North' ORDER BY amount`,
+      catalog,
+    );
+    expect(result.data).toEqual([
+      { region: 'North', amount: 50, running: 50, previous: null },
+      { region: 'North', amount: 100, running: 150, previous: 50 },
+    ]);
+  });
+
+  it('reports unknown tables', () => {
+    expect(() => runQuery('SELECT * FROM missing', catalog)).toThrow(SqlExecutionError);
+  });
+});
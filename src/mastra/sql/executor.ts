@@ -0,0 +1,1073 @@
+import {
+  CallExpr,
+  CompoundStatement,
+  Expr,
+  FromItem,
+  formatExpr,
+  OrderItem,
+  QueryStatement,
+  SelectItem,
+  SelectStatement,
+  WindowExpr,
+} from './ast';
+import { SqlExecutionError } from './errors';
+import {
+  AGGREGATE_FUNCTIONS,
+  compareValues,
+  isAggregateFunction,
+  isNullish,
+  likeToRegExp,
+  SCALAR_FUNCTIONS,
+  toNumber,
+  WINDOW_FUNCTIONS,
+} from './functions';
+
+export type QueryType = 'SELECT' | 'AGGREGATE' | 'GROUP_BY' | 'FILTER';
+
+export interface QuerySource {
+  data: Record<string, any>[];
+  columns: string[];
+}
+
+export interface QueryResult {
+  data: Record<string, any>[];
+  columns: string[];
+  queryType: QueryType;
+}
+
+/** Tables a query can read, keyed by name (matched case-insensitively). */
+export type Catalog = Record<string, QuerySource>;
+
+interface TableBinding {
+  alias: string;
+  columns: string[];
+}
+
+// One source row per bound table, keyed by table alias
+type Tuple = Record<string, Record<string, any> | null>;
+
+interface EvalContext {
+  tuple: Tuple;
+  group?: Tuple[];
+  outputs?: Record<string, any>;
+  // Values of the query's window functions for this row, once computed
+  windows?: Map<WindowExpr, any>;
+}
+
+interface ResolvedColumn {
+  alias: string;
+  column: string;
+}
+
+// The enclosing query row a (possibly correlated) subquery is evaluated against
+interface OuterRef {
+  executor: SelectExecutor;
+  context: EvalContext;
+  used: boolean;
+}
+
+class TableScope {
+  constructor(private tables: Map<string, QuerySource>, private parent?: TableScope) {}
+
+  static fromCatalog(catalog: Catalog): TableScope {
+    return new TableScope(new Map(Object.entries(catalog).map(([name, source]) => [name.toLowerCase(), source])));
+  }
+
+  with(name: string, source: QuerySource): TableScope {
+    return new TableScope(new Map([[name.toLowerCase(), source]]), this);
+  }
+
+  lookup(name: string): QuerySource | undefined {
+    return this.tables.get(name.toLowerCase()) ?? this.parent?.lookup(name);
+  }
+}
+
+export function executeStatement(statement: QueryStatement, catalog: Catalog): QueryResult {
+  return runStatement(statement, TableScope.fromCatalog(catalog));
+}
+
+function runStatement(statement: QueryStatement, scope: TableScope, outer?: OuterRef): QueryResult {
+  // Each CTE can read the ones defined before it
+  statement.ctes.forEach(cte => {
+    const result = runStatement(cte.query, scope, outer);
+    scope = scope.with(cte.name, { data: result.data, columns: result.columns });
+  });
+
+  if (statement.type === 'select') {
+    return new SelectExecutor(statement, scope, outer).run();
+  }
+  return runCompound(statement, scope, outer);
+}
+
+function runCompound(statement: CompoundStatement, scope: TableScope, outer?: OuterRef): QueryResult {
+  const results = statement.parts.map(part => new SelectExecutor(part, scope, outer).run());
+  const columns = results[0].columns;
+
+  results.forEach((result, index) => {
+    if (result.columns.length !== columns.length) {
+      throw new SqlExecutionError(
+        `Each ${statement.operators[Math.max(index - 1, 0)]} query must have the same number of columns ` +
+        `(expected ${columns.length}, got ${result.columns.length})`,
+      );
+    }
+  });
+
+  // Rows are combined positionally and take the first query's column names
+  const toValues = (result: QueryResult) => result.data.map(row => result.columns.map(col => row[col] ?? null));
+  const rowKey = (values: any[]) => JSON.stringify(values.map(joinKey));
+  const distinct = (rows: any[][]) => {
+    const seen = new Set<string>();
+    return rows.filter(values => {
+      const key = rowKey(values);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  };
+
+  let rows = toValues(results[0]);
+  statement.operators.forEach((operator, index) => {
+    const next = toValues(results[index + 1]);
+    if (operator === 'UNION ALL') {
+      rows = [...rows, ...next];
+    } else if (operator === 'UNION') {
+      rows = distinct([...rows, ...next]);
+    } else {
+      const keys = new Set(next.map(rowKey));
+      rows = distinct(rows).filter(values => keys.has(rowKey(values)) === (operator === 'INTERSECT'));
+    }
+  });
+
+  let data = rows.map(values => Object.fromEntries(columns.map((col, i) => [col, values[i]])));
+
+  if (statement.orderBy.length > 0) {
+    const keys = statement.orderBy.map(({ expr }) => {
+      if (expr.kind === 'literal' && typeof expr.value === 'number' && columns[expr.value - 1] !== undefined) {
+        return columns[expr.value - 1];
+      }
+      const column = expr.kind === 'column' && !expr.table
+        ? columns.find(col => col.toLowerCase() === expr.name.toLowerCase())
+        : undefined;
+      if (column === undefined) {
+        throw new SqlExecutionError(
+          `ORDER BY on a ${statement.operators[0]} query must name or number a result column, got '${formatExpr(expr)}'`,
+        );
+      }
+      return column;
+    });
+    data = data
+      .map(row => ({ row, values: keys.map(key => row[key]) }))
+      .sort((a, b) => compareSortKeys(statement.orderBy, a.values, b.values))
+      .map(item => item.row);
+  }
+
+  const start = statement.offset ?? 0;
+  const end = statement.limit !== undefined ? start + statement.limit : undefined;
+  return { data: data.slice(start, end), columns, queryType: 'SELECT' };
+}
+
+/**
+ * Compares two rows' ORDER BY values. Nulls sort first ascending and last
+ * descending unless NULLS FIRST/LAST says otherwise.
+ */
+function compareSortKeys(orderBy: OrderItem[], a: any[], b: any[]): number {
+  for (let i = 0; i < orderBy.length; i++) {
+    const { direction, nulls } = orderBy[i];
+    const left = a[i];
+    const right = b[i];
+    const nullsFirst = nulls ? nulls === 'FIRST' : direction === 'ASC';
+
+    if (isNullish(left) || isNullish(right)) {
+      if (isNullish(left) && isNullish(right)) continue;
+      return isNullish(left) === nullsFirst ? -1 : 1;
+    }
+
+    const comparison = compareValues(left, right);
+    if (comparison !== 0) {
+      return direction === 'ASC' ? comparison : -comparison;
+    }
+  }
+  return 0;
+}
+
+/** Normalised hash key for equi-joins, matching `=` semantics (1 joins '1'). */
+function joinKey(value: unknown): string | null {
+  if (isNullish(value)) return null;
+  const number = typeof value === 'boolean' ? null : toNumber(value);
+  return number !== null ? `n:${number}` : `s:${String(value)}`;
+}
+
+class SelectExecutor {
+  private tables: TableBinding[] = [];
+  private resolved = new WeakMap<Expr, ResolvedColumn | null>();
+  private subqueryResults = new WeakMap<QueryStatement, QueryResult>();
+
+  constructor(private statement: SelectStatement, private scope: TableScope, private outer?: OuterRef) {}
+
+  run(): QueryResult {
+    const { statement } = this;
+
+    let tuples: Tuple[] = [{}];
+    if (statement.from) {
+      const from = this.buildFrom(statement.from);
+      this.tables = from.bindings;
+      tuples = from.tuples;
+    }
+
+    if (statement.where) {
+      this.assertNoAggregates(statement.where, 'WHERE');
+      this.assertNoWindows(statement.where, 'WHERE');
+      tuples = tuples.filter(tuple => this.evaluate(statement.where!, { tuple }) === true);
+    }
+
+    const isAggregate =
+      statement.groupBy.length > 0 ||
+      statement.columns.some(item => containsAggregate(item.expr)) ||
+      (statement.having !== undefined && containsAggregate(statement.having));
+
+    let contexts: EvalContext[];
+    if (isAggregate) {
+      this.groupKeys().forEach(expr => {
+        this.assertNoAggregates(expr, 'GROUP BY');
+        this.assertNoWindows(expr, 'GROUP BY');
+      });
+      contexts = this.group(tuples);
+    } else {
+      if (statement.having) {
+        throw new SqlExecutionError('HAVING requires GROUP BY or an aggregate function');
+      }
+      contexts = tuples.map(tuple => ({ tuple }));
+    }
+
+    const columns = this.outputColumns(statement.columns);
+    contexts.forEach(context => {
+      context.outputs = this.project(statement.columns, columns, context);
+    });
+
+    if (statement.having) {
+      this.assertNoWindows(statement.having, 'HAVING');
+      contexts = contexts.filter(context => this.evaluate(statement.having!, context) === true);
+    }
+
+    // Window functions see the rows left after grouping and HAVING, so their columns are filled in afterwards
+    const windows = collectWindows([...statement.columns.map(item => item.expr), ...statement.orderBy.map(item => item.expr)]);
+    if (windows.length > 0) {
+      windows.forEach(window => this.computeWindow(window, contexts));
+      contexts.forEach(context => {
+        context.outputs = this.project(statement.columns, columns, context);
+      });
+    }
+
+    if (statement.distinct) {
+      const seen = new Set<string>();
+      contexts = contexts.filter(context => {
+        const key = JSON.stringify(columns.map(col => context.outputs![col] ?? null));
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+
+    if (statement.orderBy.length > 0) {
+      contexts = this.sort(contexts, columns);
+    }
+
+    const start = statement.offset ?? 0;
+    const end = statement.limit !== undefined ? start + statement.limit : undefined;
+    contexts = contexts.slice(start, end);
+
+    let queryType: QueryType = 'SELECT';
+    if (statement.groupBy.length > 0) {
+      queryType = 'GROUP_BY';
+    } else if (isAggregate) {
+      queryType = 'AGGREGATE';
+    } else if (statement.where) {
+      queryType = 'FILTER';
+    }
+
+    return {
+      data: contexts.map(context => context.outputs!),
+      columns,
+      queryType,
+    };
+  }
+
+  private buildFrom(item: FromItem): { bindings: TableBinding[]; tuples: Tuple[] } {
+    if (item.kind === 'table') {
+      const source = this.scope.lookup(item.name);
+      if (!source) {
+        throw new SqlExecutionError(`Unknown table '${item.name}'`);
+      }
+      const alias = item.alias ?? item.name;
+      return {
+        bindings: [{ alias, columns: source.columns }],
+        tuples: source.data.map(row => ({ [alias]: row })),
+      };
+    }
+
+    if (item.kind === 'subquery') {
+      const result = runStatement(item.query, this.scope, this.outer);
+      return {
+        bindings: [{ alias: item.alias, columns: result.columns }],
+        tuples: result.data.map(row => ({ [item.alias]: row })),
+      };
+    }
+
+    const left = this.buildFrom(item.left);
+    const right = this.buildFrom(item.right);
+    const bindings = [...left.bindings, ...right.bindings];
+    const aliases = new Set<string>();
+    bindings.forEach(binding => {
+      if (aliases.has(binding.alias)) {
+        throw new SqlExecutionError(`Table name '${binding.alias}' is used more than once; give it an alias`);
+      }
+      aliases.add(binding.alias);
+    });
+    // The ON condition sees both sides of this join
+    this.tables = bindings;
+
+    const nullTuple = (side: TableBinding[]) => Object.fromEntries(side.map(binding => [binding.alias, null]));
+    const tuples: Tuple[] = [];
+    const matchedRight = new Set<number>();
+
+    const candidatesFor = this.joinCandidates(item.on, left.bindings, right.bindings, right.tuples);
+    left.tuples.forEach(leftTuple => {
+      let matched = false;
+      candidatesFor(leftTuple).forEach(index => {
+        const tuple = { ...leftTuple, ...right.tuples[index] };
+        if (!item.on || this.evaluate(item.on, { tuple }) === true) {
+          matched = true;
+          matchedRight.add(index);
+          tuples.push(tuple);
+        }
+      });
+      if (!matched && (item.joinType === 'LEFT' || item.joinType === 'FULL')) {
+        tuples.push({ ...leftTuple, ...nullTuple(right.bindings) });
+      }
+    });
+
+    if (item.joinType === 'RIGHT' || item.joinType === 'FULL') {
+      right.tuples.forEach((rightTuple, index) => {
+        if (!matchedRight.has(index)) {
+          tuples.push({ ...nullTuple(left.bindings), ...rightTuple });
+        }
+      });
+    }
+
+    return { bindings, tuples };
+  }
+
+  /**
+   * Returns a lookup from a left tuple to the indices of right tuples worth
+   * testing against the ON condition. Conditions made only of
+   * `left.col = right.col` comparisons use a hash index; anything else falls
+   * back to testing every pair.
+   */
+  private joinCandidates(
+    on: Expr | undefined,
+    leftBindings: TableBinding[],
+    rightBindings: TableBinding[],
+    rightTuples: Tuple[],
+  ): (tuple: Tuple) => number[] {
+    const everyRow = rightTuples.map((_, index) => index);
+    const pairs = on ? this.equiJoinPairs(on, leftBindings, rightBindings) : null;
+    if (!pairs) {
+      return () => everyRow;
+    }
+
+    const valueAt = (tuple: Tuple, column: ResolvedColumn) => tuple[column.alias]?.[column.column];
+    const keyOf = (tuple: Tuple, side: 'left' | 'right') => {
+      const parts = pairs.map(pair => joinKey(valueAt(tuple, pair[side])));
+      return parts.includes(null) ? null : JSON.stringify(parts);
+    };
+
+    const index = new Map<string, number[]>();
+    rightTuples.forEach((tuple, position) => {
+      const key = keyOf(tuple, 'right');
+      if (key === null) return;
+      if (!index.has(key)) index.set(key, []);
+      index.get(key)!.push(position);
+    });
+
+    return tuple => {
+      const key = keyOf(tuple, 'left');
+      return key === null ? [] : index.get(key) ?? [];
+    };
+  }
+
+  private equiJoinPairs(
+    on: Expr,
+    leftBindings: TableBinding[],
+    rightBindings: TableBinding[],
+  ): { left: ResolvedColumn; right: ResolvedColumn }[] | null {
+    const conjuncts: Expr[] = [];
+    const flatten = (expr: Expr) => {
+      if (expr.kind === 'binary' && expr.op === 'AND') {
+        flatten(expr.left);
+        flatten(expr.right);
+      } else {
+        conjuncts.push(expr);
+      }
+    };
+    flatten(on);
+
+    const pairs: { left: ResolvedColumn; right: ResolvedColumn }[] = [];
+    for (const conjunct of conjuncts) {
+      if (conjunct.kind !== 'binary' || conjunct.op !== '=' ||
+          conjunct.left.kind !== 'column' || conjunct.right.kind !== 'column') {
+        return null;
+      }
+      const a = { left: findColumn(conjunct.left, leftBindings), right: findColumn(conjunct.left, rightBindings) };
+      const b = { left: findColumn(conjunct.right, leftBindings), right: findColumn(conjunct.right, rightBindings) };
+      if (a.left && !a.right && b.right && !b.left) {
+        pairs.push({ left: a.left, right: b.right });
+      } else if (a.right && !a.left && b.left && !b.right) {
+        pairs.push({ left: b.left, right: a.right });
+      } else {
+        return null;
+      }
+    }
+    return pairs;
+  }
+
+  /** GROUP BY expressions, with positions such as GROUP BY 1 replaced by that select-list expression. */
+  private groupKeys(): Expr[] {
+    const { columns } = this.statement;
+    return this.statement.groupBy.map(expr => {
+      if (expr.kind !== 'literal' || typeof expr.value !== 'number') return expr;
+      const item = columns[expr.value - 1];
+      if (!Number.isInteger(expr.value) || item === undefined) {
+        throw new SqlExecutionError(`GROUP BY position ${expr.value} is out of range`);
+      }
+      if (item.expr.kind === 'star') {
+        throw new SqlExecutionError(`GROUP BY position ${expr.value} refers to *; name the columns instead`);
+      }
+      return item.expr;
+    });
+  }
+
+  private group(tuples: Tuple[]): EvalContext[] {
+    const groupBy = this.groupKeys();
+
+    // Aggregates without GROUP BY collapse everything into one group, even when empty
+    if (groupBy.length === 0) {
+      return [{ tuple: tuples[0] ?? this.emptyTuple(), group: tuples }];
+    }
+
+    const groups = new Map<string, Tuple[]>();
+    tuples.forEach(tuple => {
+      const key = JSON.stringify(groupBy.map(expr => this.evaluate(expr, { tuple }) ?? null));
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(tuple);
+    });
+
+    return Array.from(groups.values()).map(group => ({ tuple: group[0], group }));
+  }
+
+  private emptyTuple(): Tuple {
+    return Object.fromEntries(this.tables.map(table => [table.alias, null]));
+  }
+
+  private outputColumns(items: SelectItem[]): string[] {
+    const names: string[] = [];
+    const used = new Map<string, number>();
+
+    const add = (name: string) => {
+      const count = used.get(name) ?? 0;
+      used.set(name, count + 1);
+      names.push(count === 0 ? name : `${name}_${count + 1}`);
+    };
+
+    items.forEach(item => {
+      if (item.expr.kind === 'star') {
+        this.starColumns(item.expr.table).forEach(({ column }) => add(column));
+      } else if (item.alias) {
+        add(item.alias);
+      } else if (item.expr.kind === 'column') {
+        add(item.expr.name);
+      } else {
+        add(formatExpr(item.expr));
+      }
+    });
+
+    return names;
+  }
+
+  private starColumns(table?: string): ResolvedColumn[] {
+    const tables = table ? this.tables.filter(binding => binding.alias === table) : this.tables;
+    if (table && tables.length === 0) {
+      throw new SqlExecutionError(`Unknown table '${table}'`);
+    }
+    return tables.flatMap(binding => binding.columns.map(column => ({ alias: binding.alias, column })));
+  }
+
+  private project(items: SelectItem[], columns: string[], context: EvalContext): Record<string, any> {
+    const row: Record<string, any> = {};
+    let index = 0;
+
+    items.forEach(item => {
+      if (item.expr.kind === 'star') {
+        this.starColumns(item.expr.table).forEach(({ alias, column }) => {
+          row[columns[index++]] = context.tuple[alias]?.[column] ?? null;
+        });
+      } else {
+        row[columns[index++]] = this.evaluate(item.expr, context) ?? null;
+      }
+    });
+
+    return row;
+  }
+
+  private sort(contexts: EvalContext[], columns: string[]): EvalContext[] {
+    const keys = this.statement.orderBy.map(item => {
+      const { expr } = item;
+      // ORDER BY 2 refers to the second output column
+      if (expr.kind === 'literal' && typeof expr.value === 'number') {
+        const column = columns[expr.value - 1];
+        if (column === undefined) {
+          throw new SqlExecutionError(`ORDER BY position ${expr.value} is out of range`);
+        }
+        return (context: EvalContext) => context.outputs![column];
+      }
+      if (expr.kind === 'column' && !expr.table && columns.includes(expr.name)) {
+        return (context: EvalContext) => context.outputs![expr.name];
+      }
+      return (context: EvalContext) => this.evaluate(expr, context);
+    });
+
+    const decorated = contexts.map(context => ({
+      context,
+      values: keys.map(key => key(context)),
+    }));
+
+    decorated.sort((a, b) => compareSortKeys(this.statement.orderBy, a.values, b.values));
+
+    return decorated.map(item => item.context);
+  }
+
+  private evaluate(expr: Expr, context: EvalContext): any {
+    switch (expr.kind) {
+      case 'literal':
+        return expr.value;
+
+      case 'column':
+        return this.evaluateColumn(expr, context);
+
+      case 'star':
+        throw new SqlExecutionError('* is only allowed in the select list or COUNT(*)');
+
+      case 'unary': {
+        const value = this.evaluate(expr.operand, context);
+        if (isNullish(value)) return null;
+        if (expr.op === 'NOT') return !toBoolean(value);
+        const number = toNumber(value);
+        if (number === null) return null;
+        return expr.op === '-' ? -number : number;
+      }
+
+      case 'binary':
+        return this.evaluateBinary(expr.op, expr.left, expr.right, context);
+
+      case 'isNull': {
+        const isNull = isNullish(this.evaluate(expr.operand, context));
+        return expr.negated ? !isNull : isNull;
+      }
+
+      case 'in': {
+        const value = this.evaluate(expr.operand, context);
+        if (isNullish(value)) return null;
+        let sawNull = false;
+        const found = expr.values.some(candidate => {
+          const candidateValue = this.evaluate(candidate, context);
+          if (isNullish(candidateValue)) {
+            sawNull = true;
+            return false;
+          }
+          return compareValues(value, candidateValue) === 0;
+        });
+        if (found) return !expr.negated;
+        return sawNull ? null : expr.negated;
+      }
+
+      case 'like': {
+        const value = this.evaluate(expr.operand, context);
+        const pattern = this.evaluate(expr.pattern, context);
+        if (isNullish(value) || isNullish(pattern)) return null;
+        const matches = likeToRegExp(String(pattern)).test(String(value));
+        return expr.negated ? !matches : matches;
+      }
+
+      case 'between': {
+        const value = this.evaluate(expr.operand, context);
+        const low = this.evaluate(expr.low, context);
+        const high = this.evaluate(expr.high, context);
+        if (isNullish(value) || isNullish(low) || isNullish(high)) return null;
+        const within = compareValues(value, low) >= 0 && compareValues(value, high) <= 0;
+        return expr.negated ? !within : within;
+      }
+
+      case 'call':
+        return this.evaluateCall(expr, context);
+
+      case 'window':
+        return context.windows?.get(expr) ?? null;
+
+      case 'case': {
+        const operand = expr.operand ? this.evaluate(expr.operand, context) : undefined;
+        for (const { when, then } of expr.whens) {
+          const condition = this.evaluate(when, context);
+          const matched = expr.operand
+            ? !isNullish(operand) && !isNullish(condition) && compareValues(operand, condition) === 0
+            : condition === true;
+          if (matched) return this.evaluate(then, context);
+        }
+        return expr.otherwise ? this.evaluate(expr.otherwise, context) : null;
+      }
+
+      case 'subquery': {
+        const result = this.runSubquery(expr.query, context);
+        if (result.columns.length !== 1) {
+          throw new SqlExecutionError('A scalar subquery must return exactly one column');
+        }
+        if (result.data.length > 1) {
+          throw new SqlExecutionError('A scalar subquery returned more than one row');
+        }
+        return result.data.length === 0 ? null : result.data[0][result.columns[0]];
+      }
+
+      case 'inSubquery': {
+        const value = this.evaluate(expr.operand, context);
+        if (isNullish(value)) return null;
+        const result = this.runSubquery(expr.query, context);
+        if (result.columns.length !== 1) {
+          throw new SqlExecutionError('A subquery used with IN must return exactly one column');
+        }
+        const values = result.data.map(row => row[result.columns[0]]);
+        if (values.some(candidate => !isNullish(candidate) && compareValues(value, candidate) === 0)) {
+          return !expr.negated;
+        }
+        return values.some(isNullish) ? null : expr.negated;
+      }
+
+      case 'exists': {
+        const exists = this.runSubquery(expr.query, context).data.length > 0;
+        return expr.negated ? !exists : exists;
+      }
+    }
+  }
+
+  /**
+   * Runs a subquery against the current row. Results of subqueries that never
+   * read the enclosing row are cached, so uncorrelated subqueries run once.
+   */
+  private runSubquery(query: QueryStatement, context: EvalContext): QueryResult {
+    const cached = this.subqueryResults.get(query);
+    if (cached) return cached;
+
+    const outer: OuterRef = { executor: this, context, used: false };
+    const result = runStatement(query, this.scope, outer);
+    if (!outer.used) {
+      this.subqueryResults.set(query, result);
+    }
+    return result;
+  }
+
+  evaluateColumn(expr: Extract<Expr, { kind: 'column' }>, context: EvalContext): any {
+    const resolved = this.resolveColumn(expr, context);
+    if (resolved) {
+      return context.tuple[resolved.alias]?.[resolved.column] ?? null;
+    }
+    // HAVING and ORDER BY may refer to select-list aliases
+    if (!expr.table && context.outputs && expr.name in context.outputs) {
+      return context.outputs[expr.name];
+    }
+    // Correlated subqueries read columns of the enclosing query's current row
+    if (this.outer) {
+      this.outer.used = true;
+      return this.outer.executor.evaluateColumn(expr, this.outer.context);
+    }
+    throw new SqlExecutionError(`Unknown column '${formatExpr(expr)}'`, expr.position);
+  }
+
+  private resolveColumn(expr: Extract<Expr, { kind: 'column' }>, context: EvalContext): ResolvedColumn | null {
+    if (this.resolved.has(expr)) {
+      return this.resolved.get(expr)!;
+    }
+
+    const resolved = findColumn(expr, this.tables);
+    // Select-list aliases are only visible once outputs exist, so don't cache misses before then
+    if (resolved || context.outputs) {
+      this.resolved.set(expr, resolved);
+    }
+    return resolved;
+  }
+
+  private evaluateBinary(op: string, leftExpr: Expr, rightExpr: Expr, context: EvalContext): any {
+    if (op === 'AND' || op === 'OR') {
+      const left = this.evaluate(leftExpr, context);
+      const leftBool = isNullish(left) ? null : toBoolean(left);
+      if (op === 'AND' && leftBool === false) return false;
+      if (op === 'OR' && leftBool === true) return true;
+      const right = this.evaluate(rightExpr, context);
+      const rightBool = isNullish(right) ? null : toBoolean(right);
+      if (op === 'AND') {
+        if (rightBool === false) return false;
+        return leftBool === null || rightBool === null ? null : true;
+      }
+      if (rightBool === true) return true;
+      return leftBool === null || rightBool === null ? null : false;
+    }
+
+    const left = this.evaluate(leftExpr, context);
+    const right = this.evaluate(rightExpr, context);
+    if (isNullish(left) || isNullish(right)) return null;
+
+    switch (op) {
+      case '=': return compareValues(left, right) === 0;
+      case '!=': return compareValues(left, right) !== 0;
+      case '<': return compareValues(left, right) < 0;
+      case '>': return compareValues(left, right) > 0;
+      case '<=': return compareValues(left, right) <= 0;
+      case '>=': return compareValues(left, right) >= 0;
+      case '||': return `${left}${right}`;
+    }
+
+    const a = toNumber(left);
+    const b = toNumber(right);
+    if (a === null || b === null) {
+      throw new SqlExecutionError(`Operator '${op}' expects numbers but got '${left}' and '${right}'`);
+    }
+    switch (op) {
+      case '+': return a + b;
+      case '-': return a - b;
+      case '*': return a * b;
+      case '/': return b === 0 ? null : a / b;
+      case '%': return b === 0 ? null : a % b;
+    }
+    throw new SqlExecutionError(`Unsupported operator '${op}'`);
+  }
+
+  private evaluateCall(expr: Extract<Expr, { kind: 'call' }>, context: EvalContext): any {
+    if (isAggregateFunction(expr.name)) {
+      if (!context.group) {
+        throw new SqlExecutionError(`Aggregate function ${expr.name} is not allowed here`, expr.position);
+      }
+      const [arg, ...paramExprs] = expr.args;
+      if (!arg) {
+        throw new SqlExecutionError(`${expr.name} expects an argument`, expr.position);
+      }
+      if (arg.kind === 'star') {
+        if (expr.name !== 'COUNT') {
+          throw new SqlExecutionError(`${expr.name}(*) is not supported`, expr.position);
+        }
+        return context.group.length;
+      }
+      let values = context.group
+        .map(tuple => this.evaluate(arg, { tuple }))
+        .filter(value => !isNullish(value));
+      if (expr.distinct) {
+        const seen = new Set<string>();
+        values = values.filter(value => {
+          const key = JSON.stringify(value);
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+      }
+      const params = paramExprs.map(param => this.evaluate(param, context));
+      try {
+        return AGGREGATE_FUNCTIONS[expr.name](values, params);
+      } catch (error) {
+        throw new SqlExecutionError(error instanceof Error ? error.message : String(error), expr.position);
+      }
+    }
+
+    const fn = SCALAR_FUNCTIONS[expr.name];
+    if (!fn) {
+      throw new SqlExecutionError(`Unknown function '${expr.name}'`, expr.position);
+    }
+    const args = expr.args.map(arg => this.evaluate(arg, context));
+    try {
+      return fn(args);
+    } catch (error) {
+      throw new SqlExecutionError(error instanceof Error ? error.message : String(error), expr.position);
+    }
+  }
+
+  /**
+   * Computes a window function for every row. Rows are split into
+   * partitions and ordered; without a ROWS frame an ordered window runs from
+   * the start of the partition to the current row and its peers, and an
+   * unordered one covers the whole partition.
+   */
+  private computeWindow(window: WindowExpr, contexts: EvalContext[]) {
+    const { call } = window;
+    if (!WINDOW_FUNCTIONS.has(call.name) && !isAggregateFunction(call.name)) {
+      throw new SqlExecutionError(`${call.name} cannot be used as a window function`, call.position);
+    }
+    call.args.forEach(arg => {
+      if (arg.kind !== 'star' && containsWindow(arg)) {
+        throw new SqlExecutionError('Window functions cannot be nested', call.position);
+      }
+    });
+
+    const partitions = new Map<string, EvalContext[]>();
+    contexts.forEach(context => {
+      const key = JSON.stringify(window.partitionBy.map(expr => this.evaluate(expr, context) ?? null));
+      if (!partitions.has(key)) partitions.set(key, []);
+      partitions.get(key)!.push(context);
+    });
+
+    partitions.forEach(partition => {
+      const rows = partition
+        .map(context => ({ context, keys: window.orderBy.map(item => this.evaluate(item.expr, context)) }))
+        .sort((a, b) => compareSortKeys(window.orderBy, a.keys, b.keys));
+
+      // Rows with equal ORDER BY values are peers and share a rank and a default frame
+      const peerGroup: number[] = [];
+      rows.forEach((row, i) => {
+        const isPeer = i > 0 && compareSortKeys(window.orderBy, rows[i - 1].keys, row.keys) === 0;
+        peerGroup.push(i === 0 ? 0 : isPeer ? peerGroup[i - 1] : peerGroup[i - 1] + 1);
+      });
+      const firstPeer = rows.map((_, i) => peerGroup.indexOf(peerGroup[i]));
+      const lastPeer = rows.map((_, i) => peerGroup.lastIndexOf(peerGroup[i]));
+
+      const frameOf = (i: number): [number, number] => {
+        if (window.frame) {
+          const { start, end } = window.frame;
+          return [start === null ? 0 : Math.max(i + start, 0), end === null ? rows.length - 1 : Math.min(i + end, rows.length - 1)];
+        }
+        return [0, window.orderBy.length > 0 ? lastPeer[i] : rows.length - 1];
+      };
+
+      const values = this.windowValues(call, rows.map(row => row.context), { peerGroup, firstPeer, frameOf });
+      rows.forEach((row, i) => {
+        if (!row.context.windows) row.context.windows = new Map();
+        row.context.windows.set(window, values[i]);
+      });
+    });
+  }
+
+  private windowValues(
+    call: CallExpr,
+    rows: EvalContext[],
+    { peerGroup, firstPeer, frameOf }: { peerGroup: number[]; firstPeer: number[]; frameOf: (i: number) => [number, number] },
+  ): any[] {
+    const [arg, ...paramExprs] = call.args;
+    const argValues = () => rows.map(context => this.evaluate(arg, context) ?? null);
+    const requireArg = () => {
+      if (!arg || arg.kind === 'star') {
+        throw new SqlExecutionError(`${call.name} expects an argument`, call.position);
+      }
+    };
+
+    switch (call.name) {
+      case 'ROW_NUMBER':
+        return rows.map((_, i) => i + 1);
+      case 'RANK':
+        return rows.map((_, i) => firstPeer[i] + 1);
+      case 'DENSE_RANK':
+        return rows.map((_, i) => peerGroup[i] + 1);
+      case 'LAG':
+      case 'LEAD': {
+        requireArg();
+        const values = argValues();
+        return rows.map((context, i) => {
+          const offset = paramExprs[0] ? toNumber(this.evaluate(paramExprs[0], context)) ?? 1 : 1;
+          const target = call.name === 'LAG' ? i - offset : i + offset;
+          if (target >= 0 && target < rows.length) return values[target];
+          return paramExprs[1] ? this.evaluate(paramExprs[1], context) ?? null : null;
+        });
+      }
+      case 'FIRST_VALUE':
+      case 'LAST_VALUE': {
+        requireArg();
+        const values = argValues();
+        return rows.map((_, i) => {
+          const [start, end] = frameOf(i);
+          if (start > end) return null;
+          return values[call.name === 'FIRST_VALUE' ? start : end];
+        });
+      }
+    }
+
+    // Aggregates over the frame
+    if (!arg) {
+      throw new SqlExecutionError(`${call.name} expects an argument`, call.position);
+    }
+    if (arg.kind === 'star') {
+      if (call.name !== 'COUNT') {
+        throw new SqlExecutionError(`${call.name}(*) is not supported`, call.position);
+      }
+      return rows.map((_, i) => {
+        const [start, end] = frameOf(i);
+        return Math.max(end - start + 1, 0);
+      });
+    }
+    const values = argValues();
+
+    // Running and rolling sums are common enough to avoid rescanning each frame
+    if (!call.distinct && (call.name === 'SUM' || call.name === 'AVG' || call.name === 'COUNT')) {
+      const sums = [0];
+      const numbers = [0];
+      const present = [0];
+      values.forEach((value, i) => {
+        const number = toNumber(value);
+        sums.push(sums[i] + (number ?? 0));
+        numbers.push(numbers[i] + (number === null ? 0 : 1));
+        present.push(present[i] + (isNullish(value) ? 0 : 1));
+      });
+      return rows.map((_, i) => {
+        const [start, end] = frameOf(i);
+        if (start > end) return call.name === 'COUNT' ? 0 : null;
+        if (call.name === 'COUNT') return present[end + 1] - present[start];
+        const count = numbers[end + 1] - numbers[start];
+        const total = sums[end + 1] - sums[start];
+        if (count === 0) return null;
+        return call.name === 'SUM' ? total : total / count;
+      });
+    }
+
+    return rows.map((context, i) => {
+      const [start, end] = frameOf(i);
+      let frame = values.slice(start, end + 1).filter(value => !isNullish(value));
+      if (call.distinct) {
+        const seen = new Set<string>();
+        frame = frame.filter(value => {
+          const key = JSON.stringify(value);
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+      }
+      const params = paramExprs.map(param => this.evaluate(param, context));
+      try {
+        return AGGREGATE_FUNCTIONS[call.name](frame, params);
+      } catch (error) {
+        throw new SqlExecutionError(error instanceof Error ? error.message : String(error), call.position);
+      }
+    });
+  }
+
+  private assertNoWindows(expr: Expr, clause: string) {
+    if (containsWindow(expr)) {
+      throw new SqlExecutionError(`Window functions are not allowed in ${clause}`);
+    }
+  }
+
+  private assertNoAggregates(expr: Expr, clause: string) {
+    if (containsAggregate(expr)) {
+      throw new SqlExecutionError(`Aggregate functions are not allowed in ${clause}`);
+    }
+  }
+}
+
+/**
+ * Finds the table column an expression refers to among `bindings`, or null
+ * when none has it. Exact names win over case-insensitive matches.
+ */
+function findColumn(expr: Extract<Expr, { kind: 'column' }>, bindings: TableBinding[]): ResolvedColumn | null {
+  const candidates = expr.table ? bindings.filter(table => table.alias === expr.table) : bindings;
+
+  const matches: ResolvedColumn[] = [];
+  candidates.forEach(table => {
+    const column = table.columns.find(col => col === expr.name)
+      ?? table.columns.find(col => col.toLowerCase() === expr.name.toLowerCase());
+    if (column !== undefined) {
+      matches.push({ alias: table.alias, column });
+    }
+  });
+
+  if (matches.length > 1) {
+    throw new SqlExecutionError(`Column '${expr.name}' is ambiguous`, expr.position);
+  }
+  return matches[0] ?? null;
+}
+
+function toBoolean(value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string') return value !== '' && value.toLowerCase() !== 'false' && value !== '0';
+  return Boolean(value);
+}
+
+/** Direct sub-expressions, not descending into subqueries. */
+function childExprs(expr: Expr): Expr[] {
+  switch (expr.kind) {
+    case 'unary':
+    case 'isNull':
+    case 'inSubquery':
+      return [expr.operand];
+    case 'binary':
+      return [expr.left, expr.right];
+    case 'in':
+      return [expr.operand, ...expr.values];
+    case 'like':
+      return [expr.operand, expr.pattern];
+    case 'between':
+      return [expr.operand, expr.low, expr.high];
+    case 'call':
+      return expr.args;
+    case 'window':
+      return [expr.call, ...expr.partitionBy, ...expr.orderBy.map(item => item.expr)];
+    case 'case':
+      return [
+        ...(expr.operand ? [expr.operand] : []),
+        ...expr.whens.flatMap(({ when, then }) => [when, then]),
+        ...(expr.otherwise ? [expr.otherwise] : []),
+      ];
+    default:
+      return [];
+  }
+}
+
+function containsWindow(expr: Expr): boolean {
+  return expr.kind === 'window' || childExprs(expr).some(containsWindow);
+}
+
+function collectWindows(exprs: Expr[]): WindowExpr[] {
+  const windows: WindowExpr[] = [];
+  const visit = (expr: Expr) => {
+    if (expr.kind === 'window') {
+      windows.push(expr);
+    } else {
+      childExprs(expr).forEach(visit);
+    }
+  };
+  exprs.forEach(visit);
+  return windows;
+}
+
+function containsAggregate(expr: Expr): boolean {
+  switch (expr.kind) {
+    case 'call':
+      return isAggregateFunction(expr.name) || expr.args.some(containsAggregate);
+    case 'window':
+      // SUM(x) OVER (...) is not itself an aggregate, but SUM(SUM(x)) OVER (...) groups rows
+      return expr.call.args.some(containsAggregate) || expr.partitionBy.some(containsAggregate) ||
+        expr.orderBy.some(item => containsAggregate(item.expr));
+    case 'unary':
+    case 'isNull':
+      return containsAggregate(expr.operand);
+    case 'binary':
+      return containsAggregate(expr.left) || containsAggregate(expr.right);
+    case 'in':
+      return containsAggregate(expr.operand) || expr.values.some(containsAggregate);
+    case 'like':
+      return containsAggregate(expr.operand) || containsAggregate(expr.pattern);
+    case 'between':
+      return containsAggregate(expr.operand) || containsAggregate(expr.low) || containsAggregate(expr.high);
+    case 'inSubquery':
+      return containsAggregate(expr.operand);
+    case 'case':
+      return (
+        (expr.operand !== undefined && containsAggregate(expr.operand)) ||
+        expr.whens.some(({ when, then }) => containsAggregate(when) || containsAggregate(then)) ||
+        (expr.otherwise !== undefined && containsAggregate(expr.otherwise))
+      );
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { runQuery } from './index';
+
+const orders = {
+  data: [
+    { region: 'North', year: 2023, amount: 10 },
+    { region: 'North', year: 2023, amount: 20 },
+    { region: 'North', year: 2024, amount: 30 },
+    { region: 'South', year: 2023, amount: 40 },
+    { region: 'South', year: 2024, amount: null },
+    { region: 'South', year: 2024, amount: 60 },
+  ],
+  columns: ['region', 'year', 'amount'],
+};
+const catalog = { orders };
+
+describe('aggregate functions', () => {
+  it('computes the named aggregates, skipping nulls', () => {
+    const [row] = runQuery(
+      `SELECT COUNT(*) AS rows, COUNT(amount) AS amounts, SUM(amount) AS total, AVG(amount) AS mean,
+        MIN(amount) AS low, MAX(amount) AS high, MEDIAN(amount) AS median, PERCENTILE(amount, 0.25) AS q1
+      FROM orders`,
+      catalog,
+    ).data;
+    expect(row).toEqual({ rows: 6, amounts: 5, total: 160, mean: 32, low: 10, high: 60, median: 30, q1: 20 });
+  });
+
+  it('computes sample and population spread', () => {
+    const [row] = runQuery(
+      'SELECT VARIANCE(amount) AS v, VAR_POP(amount) AS vp, STDDEV(amount) AS sd, STDDEV_POP(amount) AS sdp FROM orders',
+      catalog,
+    ).data;
+    expect(row.v).toBeCloseTo(370);
+    expect(row.vp).toBeCloseTo(296);
+    expect(row.sd).toBeCloseTo(Math.sqrt(370));
+    expect(row.sdp).toBeCloseTo(Math.sqrt(296));
+  });
+
+  it('returns null for aggregates of no values, except COUNT', () => {
+    const [row] = runQuery('SELECT COUNT(amount) AS n, SUM(amount) AS total, AVG(amount) AS mean FROM orders WHERE year > 2030', catalog).data;
+    expect(row).toEqual({ n: 0, total: null, mean: null });
+  });
+
+  it('groups by several columns', () => {
+    const result = runQuery(
+      'SELECT region, year, SUM(amount) AS total, COUNT(*) AS n FROM orders GROUP BY region, year ORDER BY region, year',
+      catalog,
+    );
+    expect(result.data).toEqual([
+      { region: 'North', year: 2023, total: 30, n: 2 },
+      { region: 'North', year: 2024, total: 30, n: 1 },
+      { region: 'South', year: 2023, total: 40, n: 1 },
+      { region: 'South', year: 2024, total: 60, n: 2 },
+    ]);
+  });
+
+  it('counts distinct values', () => {
+    const [row] = runQuery('SELECT COUNT(DISTINCT region) AS regions, COUNT(DISTINCT year) AS years FROM orders', catalog).data;
+    expect(row).toEqual({ regions: 2, years: 2 });
+  });
+
+  it('rejects a percentile outside 0 to 1', () => {
+    expect(() => runQuery('SELECT PERCENTILE(amount, 2) FROM orders', catalog)).toThrow(/between 0 and 1/);
+  });
+});
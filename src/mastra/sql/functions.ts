@@ -0,0 +1,210 @@
+import { datePart, formatDate, isDatePart, isPeriod, toDate, truncateDate } from '../data/dates';
+
+export function isNullish(value: unknown): value is null | undefined {
+  return value === null || value === undefined;
+}
+
+/**
+ * Numeric view of a value. Numeric strings are accepted so that untyped CSV
+ * columns still compare and aggregate as numbers.
+ */
+export function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+/**
+ * Three-way comparison used by comparison operators and ORDER BY. Numbers and
+ * numeric strings compare numerically, everything else compares as strings.
+ * Nulls are handled by the caller.
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  const left = toNumber(a);
+  const right = toNumber(b);
+  if (left !== null && right !== null && typeof a !== 'boolean' && typeof b !== 'boolean') {
+    return left - right;
+  }
+  if (typeof a === 'boolean' && typeof b === 'boolean') {
+    return Number(a) - Number(b);
+  }
+  const leftText = String(a);
+  const rightText = String(b);
+  return leftText < rightText ? -1 : leftText > rightText ? 1 : 0;
+}
+
+export function likeToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '%') return '.*';
+      if (char === '_') return '.';
+      return char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'is');
+}
+
+type ScalarFunction = (args: any[]) => any;
+
+function unitName<T extends string>(value: unknown, valid: (unit: string) => unit is T, fn: string, expected: string): T {
+  const unit = String(value ?? '').toLowerCase();
+  if (!valid(unit)) {
+    throw new Error(`${fn} expects ${expected} as its first argument, got '${value}'`);
+  }
+  return unit;
+}
+
+export const SCALAR_FUNCTIONS: Record<string, ScalarFunction> = {
+  UPPER: ([value]) => (isNullish(value) ? null : String(value).toUpperCase()),
+  LOWER: ([value]) => (isNullish(value) ? null : String(value).toLowerCase()),
+  TRIM: ([value]) => (isNullish(value) ? null : String(value).trim()),
+  LENGTH: ([value]) => (isNullish(value) ? null : String(value).length),
+  ABS: ([value]) => {
+    const number = toNumber(value);
+    return number === null ? null : Math.abs(number);
+  },
+  ROUND: ([value, digits]) => {
+    const number = toNumber(value);
+    if (number === null) return null;
+    const factor = Math.pow(10, toNumber(digits) ?? 0);
+    return Math.round(number * factor) / factor;
+  },
+  FLOOR: ([value]) => {
+    const number = toNumber(value);
+    return number === null ? null : Math.floor(number);
+  },
+  CEIL: ([value]) => {
+    const number = toNumber(value);
+    return number === null ? null : Math.ceil(number);
+  },
+  COALESCE: args => args.find(value => !isNullish(value)) ?? null,
+  NULLIF: ([a, b]) => (!isNullish(a) && !isNullish(b) && compareValues(a, b) === 0 ? null : a),
+  SUBSTR: ([value, start, length]) => {
+    if (isNullish(value)) return null;
+    const from = Math.max((toNumber(start) ?? 1) - 1, 0);
+    return isNullish(length) ? String(value).slice(from) : String(value).substr(from, toNumber(length) ?? 0);
+  },
+  CONCAT: args => args.filter(value => !isNullish(value)).map(String).join(''),
+  // Dates are ISO strings; DATE_TRUNC('month', order_date) returns the first day of the month
+  DATE: ([value]) => {
+    const date = toDate(value);
+    return date ? formatDate(truncateDate(date, 'day')) : null;
+  },
+  DATE_TRUNC: ([unit, value]) => {
+    const period = unitName(unit, isPeriod, 'DATE_TRUNC', 'hour, day, week, month, quarter or year');
+    const date = toDate(value);
+    return date ? formatDate(truncateDate(date, period)) : null;
+  },
+  DATE_PART: ([unit, value]) => {
+    const part = unitName(unit, isDatePart, 'DATE_PART', 'year, quarter, month, week, day, dayofweek, dayofyear, hour or minute');
+    const date = toDate(value);
+    return date ? datePart(date, part) : null;
+  },
+};
+SCALAR_FUNCTIONS.CEILING = SCALAR_FUNCTIONS.CEIL;
+SCALAR_FUNCTIONS.SUBSTRING = SCALAR_FUNCTIONS.SUBSTR;
+SCALAR_FUNCTIONS.IFNULL = SCALAR_FUNCTIONS.COALESCE;
+SCALAR_FUNCTIONS.DATEPART = SCALAR_FUNCTIONS.DATE_PART;
+
+/**
+ * Aggregates receive the non-null values of their first argument for every
+ * row in the group (COUNT(*) is special-cased by the executor). Any further
+ * arguments, such as the fraction in PERCENTILE(price, 0.9), are passed as
+ * `params`.
+ */
+type AggregateFunction = (values: any[], params: any[]) => any;
+
+const numericValues = (values: any[]) =>
+  values.map(toNumber).filter((value): value is number => value !== null);
+
+const sum = (numbers: number[]) => numbers.reduce((total, val) => total + val, 0);
+
+function variance(values: any[], sample: boolean): number | null {
+  const numbers = numericValues(values);
+  const denominator = sample ? numbers.length - 1 : numbers.length;
+  if (denominator <= 0) return null;
+  const mean = sum(numbers) / numbers.length;
+  return sum(numbers.map(val => Math.pow(val - mean, 2))) / denominator;
+}
+
+/**
+ * Linear-interpolation percentile (the same definition as PERCENTILE_CONT),
+ * with `fraction` between 0 and 1.
+ */
+export function percentile(numbers: number[], fraction: number): number | null {
+  if (numbers.length === 0) return null;
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const rank = fraction * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export const AGGREGATE_FUNCTIONS: Record<string, AggregateFunction> = {
+  COUNT: values => values.length,
+  SUM: values => {
+    const numbers = numericValues(values);
+    return numbers.length > 0 ? sum(numbers) : null;
+  },
+  AVG: values => {
+    const numbers = numericValues(values);
+    return numbers.length > 0 ? sum(numbers) / numbers.length : null;
+  },
+  MIN: values => (values.length > 0 ? values.reduce((min, val) => (compareValues(val, min) < 0 ? val : min)) : null),
+  MAX: values => (values.length > 0 ? values.reduce((max, val) => (compareValues(val, max) > 0 ? val : max)) : null),
+  MEDIAN: values => percentile(numericValues(values), 0.5),
+  PERCENTILE: (values, [fraction]) => {
+    const p = toNumber(fraction);
+    if (p === null || p < 0 || p > 1) {
+      throw new Error('PERCENTILE expects a fraction between 0 and 1 as its second argument');
+    }
+    return percentile(numericValues(values), p);
+  },
+  STDDEV: values => {
+    const result = variance(values, true);
+    return result === null ? null : Math.sqrt(result);
+  },
+  STDDEV_POP: values => {
+    const result = variance(values, false);
+    return result === null ? null : Math.sqrt(result);
+  },
+  VARIANCE: values => variance(values, true),
+  VAR_POP: values => variance(values, false),
+  MODE: values => {
+    const counts = new Map<string, { value: any; count: number }>();
+    values.forEach(value => {
+      const key = JSON.stringify(value);
+      const entry = counts.get(key) ?? { value, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    });
+    let mode: any = null;
+    let modeCount = 0;
+    counts.forEach(({ value, count }) => {
+      if (count > modeCount) {
+        mode = value;
+        modeCount = count;
+      }
+    });
+    return mode;
+  },
+};
+AGGREGATE_FUNCTIONS.AVERAGE = AGGREGATE_FUNCTIONS.AVG;
+AGGREGATE_FUNCTIONS.STDDEV_SAMP = AGGREGATE_FUNCTIONS.STDDEV;
+AGGREGATE_FUNCTIONS.VAR_SAMP = AGGREGATE_FUNCTIONS.VARIANCE;
+AGGREGATE_FUNCTIONS.PERCENTILE_CONT = AGGREGATE_FUNCTIONS.PERCENTILE;
+
+export function isAggregateFunction(name: string): boolean {
+  return name in AGGREGATE_FUNCTIONS;
+}
+
+/**
+ * Functions that only make sense over a window, e.g. LAG(revenue) OVER
+ * (ORDER BY month). Aggregates can be used with OVER as well.
+ */
+export const WINDOW_FUNCTIONS = new Set(['ROW_NUMBER', 'RANK', 'DENSE_RANK', 'LAG', 'LEAD', 'FIRST_VALUE', 'LAST_VALUE']);
@@ -0,0 +1,15 @@
+import { Catalog, executeStatement, QueryResult } from './executor';
+import { parseQuery } from './parser';
+
+export { parseQuery } from './parser';
+export { executeStatement } from './executor';
+export { referencedTables } from './ast';
+export type { QueryStatement } from './ast';
+export type { Catalog, QueryResult, QuerySource, QueryType } from './executor';
+export { SqlExecutionError, SqlSyntaxError } from './errors';
+export { validateQuery } from './validator';
+export type { SchemaCatalog, SqlIssue, SqlIssueCode } from './validator';
+
+export function runQuery(sql: string, catalog: Catalog): QueryResult {
+  return executeStatement(parseQuery(sql), catalog);
+}
@@ -0,0 +1,134 @@
+import { SqlSyntaxError, SourcePosition } from './errors';
+
+export type TokenType = 'identifier' | 'keyword' | 'number' | 'string' | 'operator' | 'punctuation' | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  position: SourcePosition;
+}
+
+const KEYWORDS = new Set([
+  'SELECT', 'DISTINCT', 'FROM', 'WHERE', 'GROUP', 'BY', 'HAVING', 'ORDER', 'ASC', 'DESC',
+  'LIMIT', 'OFFSET', 'AS', 'AND', 'OR', 'NOT', 'IN', 'LIKE', 'BETWEEN', 'IS', 'NULL',
+  'TRUE', 'FALSE', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'NULLS', 'FIRST', 'LAST',
+  'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS', 'ON', 'USING', 'UNION', 'ALL',
+  'INTERSECT', 'EXCEPT', 'WITH', 'EXISTS',
+]);
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '||', '=', '<', '>', '+', '-', '*', '/', '%'];
+const PUNCTUATION = ['(', ')', ',', '.', ';'];
+
+export function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = (count = 1) => {
+    for (let i = 0; i < count; i++) {
+      if (sql[index] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      index++;
+    }
+  };
+
+  while (index < sql.length) {
+    const char = sql[index];
+    const position = { line, column };
+
+    if (/\s/.test(char)) {
+      advance();
+      continue;
+    }
+
+    // Line and block comments
+    if (sql.startsWith('--', index)) {
+      while (index < sql.length && sql[index] !== '\n') advance();
+      continue;
+    }
+    if (sql.startsWith('/*', index)) {
+      const end = sql.indexOf('*/', index + 2);
+      if (end === -1) {
+        throw new SqlSyntaxError('Unterminated block comment', position);
+      }
+      advance(end + 2 - index);
+      continue;
+    }
+
+    if (char === "'") {
+      let value = '';
+      advance();
+      while (true) {
+        if (index >= sql.length) {
+          throw new SqlSyntaxError('Unterminated string literal', position);
+        }
+        if (sql[index] === "'") {
+          if (sql[index + 1] === "'") {
+            value += "'";
+            advance(2);
+            continue;
+          }
+          advance();
+          break;
+        }
+        value += sql[index];
+        advance();
+      }
+      tokens.push({ type: 'string', value, position });
+      continue;
+    }
+
+    // Quoted identifiers: "name", `name` or [name]
+    if (char === '"' || char === '`' || char === '[') {
+      const closing = char === '[' ? ']' : char;
+      const end = sql.indexOf(closing, index + 1);
+      if (end === -1) {
+        throw new SqlSyntaxError('Unterminated quoted identifier', position);
+      }
+      const value = sql.slice(index + 1, end);
+      advance(end + 1 - index);
+      tokens.push({ type: 'identifier', value, position });
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(sql[index + 1] ?? ''))) {
+      const match = sql.slice(index).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/)!;
+      advance(match[0].length);
+      tokens.push({ type: 'number', value: match[0], position });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = sql.slice(index).match(/^[A-Za-z_][A-Za-z0-9_$]*/)!;
+      advance(match[0].length);
+      const upper = match[0].toUpperCase();
+      tokens.push(KEYWORDS.has(upper)
+        ? { type: 'keyword', value: upper, position }
+        : { type: 'identifier', value: match[0], position });
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => sql.startsWith(op, index));
+    if (operator) {
+      advance(operator.length);
+      tokens.push({ type: 'operator', value: operator, position });
+      continue;
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      advance();
+      tokens.push({ type: 'punctuation', value: char, position });
+      continue;
+    }
+
+    throw new SqlSyntaxError(`Unexpected character '${char}'`, position);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: { line, column } });
+  return tokens;
+}
@@ -0,0 +1,615 @@
+import {
+  CallExpr,
+  CommonTableExpression,
+  Expr,
+  FromItem,
+  JoinType,
+  OrderItem,
+  QueryStatement,
+  SelectItem,
+  SelectStatement,
+  SetOperator,
+  WindowFrame,
+} from './ast';
+import { SqlSyntaxError } from './errors';
+import { Token, tokenize } from './lexer';
+
+const COMPARISON_OPERATORS = ['=', '!=', '<>', '<', '>', '<=', '>='];
+
+export function parseQuery(sql: string): QueryStatement {
+  return new Parser(tokenize(sql)).parseStatement();
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parseStatement(): QueryStatement {
+    const statement = this.parseQueryStatement();
+    this.matchPunctuation(';');
+    if (this.peek().type !== 'eof') {
+      this.fail(`Unexpected ${this.describe(this.peek())} after end of query`);
+    }
+    return statement;
+  }
+
+  private parseQueryStatement(): QueryStatement {
+    const ctes = this.matchKeyword('WITH') ? this.parseCtes() : [];
+
+    const parts = [this.parseSelect()];
+    const operators: SetOperator[] = [];
+    while (true) {
+      if (this.matchKeyword('UNION')) {
+        operators.push(this.matchKeyword('ALL') ? 'UNION ALL' : 'UNION');
+      } else if (this.matchKeyword('INTERSECT')) {
+        operators.push('INTERSECT');
+      } else if (this.matchKeyword('EXCEPT')) {
+        operators.push('EXCEPT');
+      } else {
+        break;
+      }
+      parts.push(this.parseSelect());
+    }
+
+    const orderBy: OrderItem[] = [];
+    if (this.matchKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      do {
+        orderBy.push(this.parseOrderItem());
+      } while (this.matchPunctuation(','));
+    }
+
+    let limit: number | undefined;
+    let offset: number | undefined;
+    if (this.matchKeyword('LIMIT')) {
+      limit = this.parseNonNegativeInteger('LIMIT');
+      // MySQL-style LIMIT offset, count
+      if (this.matchPunctuation(',')) {
+        offset = limit;
+        limit = this.parseNonNegativeInteger('LIMIT');
+      }
+    }
+    if (this.matchKeyword('OFFSET')) {
+      offset = this.parseNonNegativeInteger('OFFSET');
+    }
+
+    if (parts.length === 1) {
+      return { ...parts[0], ctes, orderBy, limit, offset };
+    }
+    return { type: 'compound', ctes, parts, operators, orderBy, limit, offset };
+  }
+
+  private parseCtes(): CommonTableExpression[] {
+    const ctes: CommonTableExpression[] = [];
+    do {
+      const name = this.expectIdentifier();
+      this.expectKeyword('AS');
+      this.expectPunctuation('(');
+      const query = this.parseQueryStatement();
+      this.expectPunctuation(')');
+      ctes.push({ name, query });
+    } while (this.matchPunctuation(','));
+    return ctes;
+  }
+
+  // SELECT ... HAVING; ORDER BY and LIMIT are parsed by parseQueryStatement
+  private parseSelect(): SelectStatement {
+    this.expectKeyword('SELECT');
+    const distinct = this.matchKeyword('DISTINCT');
+    const columns = this.parseSelectList();
+
+    const from = this.matchKeyword('FROM') ? this.parseFrom() : undefined;
+    const where = this.matchKeyword('WHERE') ? this.parseExpr() : undefined;
+
+    const groupBy: Expr[] = [];
+    if (this.matchKeyword('GROUP')) {
+      this.expectKeyword('BY');
+      do {
+        groupBy.push(this.parseExpr());
+      } while (this.matchPunctuation(','));
+    }
+
+    const having = this.matchKeyword('HAVING') ? this.parseExpr() : undefined;
+
+    return { type: 'select', ctes: [], distinct, columns, from, where, groupBy, having, orderBy: [] };
+  }
+
+  private parseSelectList(): SelectItem[] {
+    const items: SelectItem[] = [];
+    do {
+      const expr = this.parseSelectExpr();
+      if (expr.kind === 'star') {
+        items.push({ expr });
+        continue;
+      }
+      items.push({ expr, alias: this.parseAlias() });
+    } while (this.matchPunctuation(','));
+    return items;
+  }
+
+  private parseSelectExpr(): Expr {
+    if (this.matchOperator('*')) {
+      return { kind: 'star' };
+    }
+    // table.*
+    const token = this.peek();
+    if (token.type === 'identifier' && this.peek(1).value === '.' && this.peek(2).value === '*') {
+      this.index += 3;
+      return { kind: 'star', table: token.value };
+    }
+    return this.parseExpr();
+  }
+
+  private parseAlias(): string | undefined {
+    if (this.matchKeyword('AS')) {
+      return this.expectIdentifier();
+    }
+    if (this.peek().type === 'identifier') {
+      return this.advance().value;
+    }
+    return undefined;
+  }
+
+  private parseFrom(): FromItem {
+    let item = this.parseJoinChain();
+    // FROM a, b is a cross join
+    while (this.matchPunctuation(',')) {
+      item = { kind: 'join', joinType: 'CROSS', left: item, right: this.parseJoinChain() };
+    }
+    return item;
+  }
+
+  private parseJoinChain(): FromItem {
+    let item = this.parseFromPrimary();
+    while (true) {
+      const joinType = this.parseJoinType();
+      if (!joinType) return item;
+
+      const right = this.parseFromPrimary();
+      let on: Expr | undefined;
+      if (joinType !== 'CROSS') {
+        if (this.matchKeyword('USING')) {
+          on = this.parseUsing(item, right);
+        } else {
+          this.expectKeyword('ON');
+          on = this.parseExpr();
+        }
+      }
+      item = { kind: 'join', joinType, left: item, right, on };
+    }
+  }
+
+  private parseJoinType(): JoinType | null {
+    if (this.matchKeyword('JOIN')) return 'INNER';
+    const token = this.peek();
+    if (token.type !== 'keyword' || !['INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS'].includes(token.value)) {
+      return null;
+    }
+    this.advance();
+    if (token.value !== 'INNER' && token.value !== 'CROSS') {
+      this.matchKeyword('OUTER');
+    }
+    this.expectKeyword('JOIN');
+    return token.value as JoinType;
+  }
+
+  // JOIN b USING (id) is shorthand for ON a.id = b.id
+  private parseUsing(left: FromItem, right: FromItem): Expr {
+    const leftName = this.fromItemName(left);
+    const rightName = this.fromItemName(right);
+    this.expectPunctuation('(');
+    const conditions: Expr[] = [];
+    do {
+      const token = this.peek();
+      const name = this.expectIdentifier();
+      conditions.push({
+        kind: 'binary',
+        op: '=',
+        left: { kind: 'column', table: leftName, name, position: token.position },
+        right: { kind: 'column', table: rightName, name, position: token.position },
+      });
+    } while (this.matchPunctuation(','));
+    this.expectPunctuation(')');
+    return conditions.reduce((left, right) => ({ kind: 'binary', op: 'AND', left, right }));
+  }
+
+  private fromItemName(item: FromItem): string | undefined {
+    if (item.kind === 'table') return item.alias ?? item.name;
+    if (item.kind === 'subquery') return item.alias;
+    // USING after a chain of joins refers to the most recently joined table
+    return this.fromItemName(item.right);
+  }
+
+  private parseFromPrimary(): FromItem {
+    if (this.matchPunctuation('(')) {
+      if (this.isQueryStart()) {
+        const query = this.parseQueryStatement();
+        this.expectPunctuation(')');
+        const alias = this.parseAlias();
+        if (!alias) {
+          this.fail('A subquery in FROM must have an alias');
+        }
+        return { kind: 'subquery', query, alias };
+      }
+      const item = this.parseFrom();
+      this.expectPunctuation(')');
+      return item;
+    }
+    const name = this.expectIdentifier();
+    return { kind: 'table', name, alias: this.parseAlias() };
+  }
+
+  private isQueryStart(): boolean {
+    const token = this.peek();
+    return token.type === 'keyword' && (token.value === 'SELECT' || token.value === 'WITH');
+  }
+
+  private parseOrderItem(): OrderItem {
+    const expr = this.parseExpr();
+    let direction: 'ASC' | 'DESC' = 'ASC';
+    if (this.matchKeyword('DESC')) {
+      direction = 'DESC';
+    } else {
+      this.matchKeyword('ASC');
+    }
+    let nulls: 'FIRST' | 'LAST' | undefined;
+    if (this.matchKeyword('NULLS')) {
+      if (this.matchKeyword('FIRST')) {
+        nulls = 'FIRST';
+      } else {
+        this.expectKeyword('LAST');
+        nulls = 'LAST';
+      }
+    }
+    return { expr, direction, nulls };
+  }
+
+  private parseNonNegativeInteger(clause: string): number {
+    const token = this.peek();
+    if (token.type !== 'number' || !/^\d+$/.test(token.value)) {
+      this.fail(`${clause} expects a non-negative integer but found ${this.describe(token)}`);
+    }
+    this.advance();
+    return parseInt(token.value, 10);
+  }
+
+  // Expression grammar, lowest precedence first
+
+  parseExpr(): Expr {
+    return this.parseOr();
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd();
+    while (this.matchKeyword('OR')) {
+      left = { kind: 'binary', op: 'OR', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseNot();
+    while (this.matchKeyword('AND')) {
+      left = { kind: 'binary', op: 'AND', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expr {
+    if (this.peek().value === 'NOT' && this.peek(1).value === 'EXISTS') {
+      this.advance();
+      return { ...this.parseExists(), negated: true };
+    }
+    if (this.matchKeyword('NOT')) {
+      return { kind: 'unary', op: 'NOT', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expr {
+    const left = this.parseAdditive();
+    const token = this.peek();
+
+    if (token.type === 'operator' && COMPARISON_OPERATORS.includes(token.value)) {
+      this.advance();
+      const op = token.value === '<>' ? '!=' : token.value;
+      return { kind: 'binary', op, left, right: this.parseAdditive() };
+    }
+
+    if (this.matchKeyword('IS')) {
+      const negated = this.matchKeyword('NOT');
+      this.expectKeyword('NULL');
+      return { kind: 'isNull', operand: left, negated };
+    }
+
+    const negated = this.matchKeyword('NOT');
+    if (this.matchKeyword('IN')) {
+      this.expectPunctuation('(');
+      if (this.isQueryStart()) {
+        const query = this.parseQueryStatement();
+        this.expectPunctuation(')');
+        return { kind: 'inSubquery', operand: left, query, negated };
+      }
+      const values: Expr[] = [];
+      do {
+        values.push(this.parseExpr());
+      } while (this.matchPunctuation(','));
+      this.expectPunctuation(')');
+      return { kind: 'in', operand: left, values, negated };
+    }
+    if (this.matchKeyword('LIKE')) {
+      return { kind: 'like', operand: left, pattern: this.parseAdditive(), negated };
+    }
+    if (this.matchKeyword('BETWEEN')) {
+      const low = this.parseAdditive();
+      this.expectKeyword('AND');
+      const high = this.parseAdditive();
+      return { kind: 'between', operand: left, low, high, negated };
+    }
+    if (negated) {
+      this.fail(`Expected IN, LIKE or BETWEEN after NOT but found ${this.describe(this.peek())}`);
+    }
+
+    return left;
+  }
+
+  private parseAdditive(): Expr {
+    let left = this.parseMultiplicative();
+    while (true) {
+      const token = this.peek();
+      if (token.type === 'operator' && ['+', '-', '||'].includes(token.value)) {
+        this.advance();
+        left = { kind: 'binary', op: token.value, left, right: this.parseMultiplicative() };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseMultiplicative(): Expr {
+    let left = this.parseUnary();
+    while (true) {
+      const token = this.peek();
+      if (token.type === 'operator' && ['*', '/', '%'].includes(token.value)) {
+        this.advance();
+        left = { kind: 'binary', op: token.value, left, right: this.parseUnary() };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseUnary(): Expr {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '-' || token.value === '+')) {
+      this.advance();
+      return { kind: 'unary', op: token.value, operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.peek();
+
+    if (token.type === 'number') {
+      this.advance();
+      return { kind: 'literal', value: Number(token.value) };
+    }
+    if (token.type === 'string') {
+      this.advance();
+      return { kind: 'literal', value: token.value };
+    }
+    if (token.type === 'keyword') {
+      if (token.value === 'NULL' || token.value === 'TRUE' || token.value === 'FALSE') {
+        this.advance();
+        return { kind: 'literal', value: token.value === 'NULL' ? null : token.value === 'TRUE' };
+      }
+      if (token.value === 'CASE') {
+        return this.parseCase();
+      }
+      if (token.value === 'EXISTS') {
+        return this.parseExists();
+      }
+    }
+    if (this.matchPunctuation('(')) {
+      if (this.isQueryStart()) {
+        const query = this.parseQueryStatement();
+        this.expectPunctuation(')');
+        return { kind: 'subquery', query };
+      }
+      const expr = this.parseExpr();
+      this.expectPunctuation(')');
+      return expr;
+    }
+    if (token.type === 'identifier') {
+      this.advance();
+      if (this.matchPunctuation('(')) {
+        return this.parseCall(token);
+      }
+      if (this.matchPunctuation('.')) {
+        const name = this.expectIdentifier();
+        return { kind: 'column', table: token.value, name, position: token.position };
+      }
+      return { kind: 'column', name: token.value, position: token.position };
+    }
+
+    this.fail(`Expected an expression but found ${this.describe(token)}`);
+  }
+
+  private parseCall(nameToken: Token): Expr {
+    const name = nameToken.value.toUpperCase();
+    const distinct = this.matchKeyword('DISTINCT');
+    const args: Expr[] = [];
+    if (this.matchOperator('*')) {
+      args.push({ kind: 'star' });
+    } else if (this.peek().value !== ')') {
+      do {
+        args.push(this.parseExpr());
+      } while (this.matchPunctuation(','));
+    }
+    this.expectPunctuation(')');
+    const call: CallExpr = { kind: 'call', name, args, distinct, position: nameToken.position };
+    return this.matchWord('OVER') ? this.parseWindow(call) : call;
+  }
+
+  // OVER ([PARTITION BY ...] [ORDER BY ...] [ROWS ...]); these words stay usable as column names elsewhere
+  private parseWindow(call: CallExpr): Expr {
+    this.expectPunctuation('(');
+    const partitionBy: Expr[] = [];
+    if (this.matchWord('PARTITION')) {
+      this.expectKeyword('BY');
+      do {
+        partitionBy.push(this.parseExpr());
+      } while (this.matchPunctuation(','));
+    }
+    const orderBy: OrderItem[] = [];
+    if (this.matchKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      do {
+        orderBy.push(this.parseOrderItem());
+      } while (this.matchPunctuation(','));
+    }
+    let frame: WindowFrame | undefined;
+    if (this.matchWord('ROWS')) {
+      frame = this.parseFrame();
+    } else if (this.peek().value.toUpperCase() === 'RANGE') {
+      this.fail('Only ROWS window frames are supported');
+    }
+    this.expectPunctuation(')');
+    return { kind: 'window', call, partitionBy, orderBy, frame };
+  }
+
+  private parseFrame(): WindowFrame {
+    if (!this.matchKeyword('BETWEEN')) {
+      // ROWS 6 PRECEDING is short for ROWS BETWEEN 6 PRECEDING AND CURRENT ROW
+      return { start: this.parseFrameBound(), end: 0 };
+    }
+    const start = this.parseFrameBound();
+    this.expectKeyword('AND');
+    const end = this.parseFrameBound();
+    if (start !== null && end !== null && start > end) {
+      this.fail('The window frame starts after it ends');
+    }
+    return { start, end };
+  }
+
+  private parseFrameBound(): number | null {
+    if (this.matchWord('UNBOUNDED')) {
+      if (this.matchWord('PRECEDING') || this.matchWord('FOLLOWING')) return null;
+      this.fail(`Expected PRECEDING or FOLLOWING but found ${this.describe(this.peek())}`);
+    }
+    if (this.matchWord('CURRENT')) {
+      if (!this.matchWord('ROW')) {
+        this.fail(`Expected ROW but found ${this.describe(this.peek())}`);
+      }
+      return 0;
+    }
+    const offset = this.parseNonNegativeInteger('A window frame bound');
+    if (this.matchWord('PRECEDING')) return -offset;
+    if (this.matchWord('FOLLOWING')) return offset;
+    this.fail(`Expected PRECEDING or FOLLOWING but found ${this.describe(this.peek())}`);
+  }
+
+  private parseExists(): Extract<Expr, { kind: 'exists' }> {
+    this.expectKeyword('EXISTS');
+    this.expectPunctuation('(');
+    const query = this.parseQueryStatement();
+    this.expectPunctuation(')');
+    return { kind: 'exists', query, negated: false };
+  }
+
+  private parseCase(): Expr {
+    this.expectKeyword('CASE');
+    const operand = this.peek().value === 'WHEN' && this.peek().type === 'keyword' ? undefined : this.parseExpr();
+    const whens: { when: Expr; then: Expr }[] = [];
+    while (this.matchKeyword('WHEN')) {
+      const when = this.parseExpr();
+      this.expectKeyword('THEN');
+      whens.push({ when, then: this.parseExpr() });
+    }
+    if (whens.length === 0) {
+      this.fail(`Expected WHEN but found ${this.describe(this.peek())}`);
+    }
+    const otherwise = this.matchKeyword('ELSE') ? this.parseExpr() : undefined;
+    this.expectKeyword('END');
+    return { kind: 'case', operand, whens, otherwise };
+  }
+
+  // Token helpers
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type === 'keyword' && token.value === keyword) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  // Non-reserved words such as OVER or ROWS arrive as identifiers
+  private matchWord(word: string): boolean {
+    const token = this.peek();
+    if ((token.type === 'identifier' || token.type === 'keyword') && token.value.toUpperCase() === word) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private matchPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuation' && token.value === value) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === value) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string) {
+    if (!this.matchKeyword(keyword)) {
+      this.fail(`Expected ${keyword} but found ${this.describe(this.peek())}`);
+    }
+  }
+
+  private expectPunctuation(value: string) {
+    if (!this.matchPunctuation(value)) {
+      this.fail(`Expected '${value}' but found ${this.describe(this.peek())}`);
+    }
+  }
+
+  private expectIdentifier(): string {
+    const token = this.peek();
+    if (token.type !== 'identifier') {
+      this.fail(`Expected an identifier but found ${this.describe(token)}`);
+    }
+    return this.advance().value;
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'eof' ? 'end of query' : `'${token.value}'`;
+  }
+
+  private fail(message: string): never {
+    throw new SqlSyntaxError(message, this.peek().position);
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnSchema } from '../data/typeInference';
+import { parseQuery, SchemaCatalog, validateQuery } from './index';
+
+const column = (name: string, type: ColumnSchema['type']): ColumnSchema => ({ name, type, nullable: false });
+
+const catalog: SchemaCatalog = {
+  orders: [column('order_id', 'integer'), column('customer_id', 'integer'), column('total', 'float'), column('ordered_at', 'date'), column('status', 'categorical')],
+  customers: [column('customer_id', 'integer'), column('name', 'text'), column('Home Country', 'categorical')],
+};
+
+const issues = (sql: string) => validateQuery(parseQuery(sql), catalog);
+
+describe('validateQuery', () => {
+  it('accepts queries that resolve every name', () => {
+    expect(issues(`
+      WITH spend AS (SELECT customer_id, SUM(total) AS spent FROM orders GROUP BY customer_id)
+      SELECT c.name, c."Home Country", s.spent, RANK() OVER (ORDER BY s.spent DESC) AS place
+      FROM customers c JOIN spend s ON s.customer_id = c.customer_id
+      WHERE s.spent > 10 AND DATE_TRUNC('month', '2024-01-05') IS NOT NULL`)).toEqual([]);
+  });
+
+  it('reports unknown tables and columns with close matches', () => {
+    expect(issues('SELECT totl FROM orders')).toEqual([expect.objectContaining({ code: 'unknownColumn', suggestions: ['total'] })]);
+    expect(issues('SELECT * FROM ordrs')).toEqual([expect.objectContaining({ code: 'unknownTable', suggestions: ['orders'] })]);
+    expect(issues('SELECT home_country FROM customers')[0]).toMatchObject({ code: 'unknownColumn', suggestions: ['Home Country'] });
+  });
+
+  it('reports ambiguous columns and unknown functions', () => {
+    expect(issues('SELECT customer_id FROM orders JOIN customers ON orders.customer_id = customers.customer_id')[0]).toMatchObject({
+      code: 'ambiguousColumn', line: 1, column: 8,
+    });
+    expect(issues('SELECT TOTAL_OF(total) FROM orders')).toEqual([expect.objectContaining({ code: 'unknownFunction', message: "Unknown function 'TOTAL_OF'" })]);
+  });
+
+  it('reports values of the wrong type', () => {
+    expect(issues('SELECT SUM(status) FROM orders')[0].code).toBe('typeMismatch');
+    expect(issues("SELECT * FROM orders WHERE total > 'lots'")[0].code).toBe('typeMismatch');
+    expect(issues("SELECT * FROM orders WHERE ordered_at > 'yesterday'")[0].code).toBe('typeMismatch');
+  });
+
+  it('reports set operations with different column counts', () => {
+    expect(issues('SELECT order_id FROM orders UNION SELECT customer_id, name FROM customers')[0]).toMatchObject({
+      code: 'invalidQuery',
+      message: 'Each UNION query must have the same number of columns (expected 1, got 2)',
+    });
+  });
+});
@@ -0,0 +1,478 @@
+import { ColumnSchema, isNumericType } from '../data/typeInference';
+import { isDatePart, isPeriod, toDate } from '../data/dates';
+import { CallExpr, Expr, formatExpr, FromItem, QueryStatement, SelectStatement } from './ast';
+import { SourcePosition } from './errors';
+import { AGGREGATE_FUNCTIONS, isAggregateFunction, SCALAR_FUNCTIONS, toNumber, WINDOW_FUNCTIONS } from './functions';
+
+export type SqlIssueCode =
+  | 'unknownTable'
+  | 'unknownColumn'
+  | 'ambiguousColumn'
+  | 'unknownFunction'
+  | 'typeMismatch'
+  | 'invalidQuery'
+  // Not found by validateQuery: the query did not parse, or failed when run
+  | 'syntaxError'
+  | 'executionError';
+
+/** A problem found in a query before running it, in a form that can be handed back to whoever wrote the query. */
+export interface SqlIssue {
+  code: SqlIssueCode;
+  message: string;
+  line?: number;
+  column?: number;
+  /** Close matches for an unknown name. */
+  suggestions?: string[];
+}
+
+/** Column schemas of the tables a query may read, keyed by table name (matched case-insensitively). */
+export type SchemaCatalog = Record<string, ColumnSchema[]>;
+
+type ValueKind = 'number' | 'text' | 'date' | 'boolean' | 'unknown';
+
+interface ColumnInfo {
+  name: string;
+  kind: ValueKind;
+}
+
+interface Binding {
+  alias: string;
+  columns: ColumnInfo[];
+  /** The table itself is unknown, so its columns cannot be checked. */
+  unresolved?: boolean;
+}
+
+// The tables of one SELECT, and those of the queries it is nested in
+interface Frame {
+  bindings: Binding[];
+  parent?: Frame;
+}
+
+const NUMERIC_AGGREGATES = new Set([
+  'SUM', 'AVG', 'AVERAGE', 'MEDIAN', 'PERCENTILE', 'PERCENTILE_CONT', 'STDDEV', 'STDDEV_SAMP', 'STDDEV_POP',
+  'VARIANCE', 'VAR_SAMP', 'VAR_POP',
+]);
+
+const NUMBER_FUNCTIONS = new Set(['LENGTH', 'ABS', 'ROUND', 'FLOOR', 'CEIL', 'CEILING', 'DATE_PART', 'DATEPART', 'COUNT']);
+const TEXT_FUNCTIONS = new Set(['UPPER', 'LOWER', 'TRIM', 'SUBSTR', 'SUBSTRING', 'CONCAT']);
+const DATE_FUNCTIONS = new Set(['DATE', 'DATE_TRUNC']);
+const RANKING_FUNCTIONS = new Set(['ROW_NUMBER', 'RANK', 'DENSE_RANK']);
+const COMPARISONS = new Set(['=', '!=', '<>', '<', '>', '<=', '>=']);
+const ARITHMETIC = new Set(['+', '-', '*', '/', '%']);
+
+function valueKind(type: ColumnSchema['type']): ValueKind {
+  if (isNumericType(type)) return 'number';
+  if (type === 'date' || type === 'datetime') return 'date';
+  if (type === 'boolean') return 'boolean';
+  if (type === 'categorical' || type === 'text') return 'text';
+  return 'unknown';
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+/** Names close to `name`: the same once case and separators are ignored, or a few edits away. */
+function closestNames(name: string, candidates: string[]): string[] {
+  const simplify = (text: string) => text.toLowerCase().replace(/[\s_-]+/g, '');
+  const target = simplify(name);
+  return Array.from(new Set(candidates))
+    .map(candidate => ({ candidate, distance: editDistance(target, simplify(candidate)) }))
+    .filter(({ candidate, distance }) =>
+      distance <= Math.max(1, Math.floor(target.length / 3)) || simplify(candidate).includes(target) || target.includes(simplify(candidate)))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Checks a parsed query against the schemas of the tables it reads without
+ * running it: unknown tables, columns and functions, ambiguous columns, and
+ * values of the wrong type for an operator or function, such as SUM over a
+ * text column or a number column compared with a word. The checks follow the
+ * executor's scoping rules, so a query with no issues resolves every name.
+ */
+export function validateQuery(statement: QueryStatement, catalog: SchemaCatalog): SqlIssue[] {
+  const tables = new Map(
+    Object.entries(catalog).map(([name, schema]) => [
+      name.toLowerCase(),
+      schema.map(column => ({ name: column.name, kind: valueKind(column.type) })),
+    ]),
+  );
+  const validator = new QueryValidator(Object.keys(catalog));
+  validator.statement(statement, tables);
+  return validator.issues;
+}
+
+class QueryValidator {
+  issues: SqlIssue[] = [];
+
+  constructor(private tableNames: string[]) {}
+
+  statement(query: QueryStatement, tables: Map<string, ColumnInfo[]>, outer?: Frame): ColumnInfo[] {
+    // Each CTE can read the ones defined before it
+    let scope = tables;
+    query.ctes.forEach(cte => {
+      const columns = this.statement(cte.query, scope, outer);
+      scope = new Map(scope).set(cte.name.toLowerCase(), columns);
+    });
+    if (query.type === 'select') {
+      return this.select(query, scope, outer);
+    }
+
+    const parts = query.parts.map(part => this.select(part, scope, outer));
+    parts.slice(1).forEach((columns, index) => {
+      if (columns.length !== parts[0].length) {
+        this.report('invalidQuery', `Each ${query.operators[index]} query must have the same number of columns (expected ${parts[0].length}, got ${columns.length})`);
+      }
+    });
+    query.orderBy.forEach(({ expr }) => {
+      const named = expr.kind === 'column' && !expr.table && parts[0].some(column => column.name.toLowerCase() === expr.name.toLowerCase());
+      const numbered = expr.kind === 'literal' && typeof expr.value === 'number' && expr.value >= 1 && expr.value <= parts[0].length;
+      if (!named && !numbered) {
+        this.report('invalidQuery', `ORDER BY on a ${query.operators[0]} query must name or number a result column, got '${formatExpr(expr)}'`);
+      }
+    });
+    return parts[0];
+  }
+
+  private select(query: SelectStatement, tables: Map<string, ColumnInfo[]>, outer?: Frame): ColumnInfo[] {
+    const frame: Frame = { bindings: query.from ? this.from(query.from, tables, outer) : [], parent: outer };
+    const aliases = new Set<string>();
+    frame.bindings.forEach(binding => {
+      if (aliases.has(binding.alias)) {
+        this.report('invalidQuery', `Table name '${binding.alias}' is used more than once; give it an alias`);
+      }
+      aliases.add(binding.alias);
+    });
+    // ON conditions are checked against every table of the FROM clause, which is looser than the executor but never stricter
+    this.joinConditions(query.from, frame, tables);
+
+    if (query.where) this.expr(query.where, frame, tables);
+
+    const outputs: ColumnInfo[] = [];
+    const used = new Map<string, number>();
+    const add = (name: string, kind: ValueKind) => {
+      const count = used.get(name) ?? 0;
+      used.set(name, count + 1);
+      outputs.push({ name: count === 0 ? name : `${name}_${count + 1}`, kind });
+    };
+    query.columns.forEach(item => {
+      if (item.expr.kind === 'star') {
+        const table = item.expr.table;
+        const bindings = table ? frame.bindings.filter(binding => binding.alias === table) : frame.bindings;
+        if (table && bindings.length === 0) {
+          this.report('unknownTable', `Unknown table '${table}' in ${table}.*`, undefined, closestNames(table, frame.bindings.map(b => b.alias)));
+        }
+        bindings.forEach(binding => binding.columns.forEach(column => add(column.name, column.kind)));
+        return;
+      }
+      const kind = this.expr(item.expr, frame, tables);
+      add(item.alias ?? (item.expr.kind === 'column' ? item.expr.name : formatExpr(item.expr)), kind);
+    });
+
+    // GROUP BY runs before the select list exists, so its aliases are not visible there
+    query.groupBy.forEach(expr => this.expr(expr, frame, tables, { groupByAliases: outputs }));
+    if (query.having) this.expr(query.having, frame, tables, { outputs });
+    query.orderBy.forEach(({ expr }) => {
+      if (expr.kind === 'literal' && typeof expr.value === 'number') {
+        if (expr.value < 1 || expr.value > outputs.length) {
+          this.report('invalidQuery', `ORDER BY position ${expr.value} is out of range (the query has ${outputs.length} columns)`);
+        }
+        return;
+      }
+      this.expr(expr, frame, tables, { outputs });
+    });
+    return outputs;
+  }
+
+  private from(item: FromItem, tables: Map<string, ColumnInfo[]>, outer?: Frame): Binding[] {
+    if (item.kind === 'table') {
+      const columns = tables.get(item.name.toLowerCase());
+      if (!columns) {
+        this.report('unknownTable', `Unknown table '${item.name}'`, undefined, closestNames(item.name, this.tableNames));
+        return [{ alias: item.alias ?? item.name, columns: [], unresolved: true }];
+      }
+      return [{ alias: item.alias ?? item.name, columns }];
+    }
+    if (item.kind === 'subquery') {
+      return [{ alias: item.alias, columns: this.statement(item.query, tables, outer) }];
+    }
+    return [...this.from(item.left, tables, outer), ...this.from(item.right, tables, outer)];
+  }
+
+  private joinConditions(item: FromItem | undefined, frame: Frame, tables: Map<string, ColumnInfo[]>) {
+    if (!item || item.kind !== 'join') return;
+    this.joinConditions(item.left, frame, tables);
+    this.joinConditions(item.right, frame, tables);
+    if (item.on) this.expr(item.on, frame, tables);
+  }
+
+  /** Checks an expression and returns the kind of value it produces. */
+  private expr(
+    expr: Expr,
+    frame: Frame,
+    tables: Map<string, ColumnInfo[]>,
+    aliases: { outputs?: ColumnInfo[]; groupByAliases?: ColumnInfo[] } = {},
+  ): ValueKind {
+    const visit = (child: Expr) => this.expr(child, frame, tables, aliases);
+    switch (expr.kind) {
+      case 'literal':
+        if (expr.value === null) return 'unknown';
+        return typeof expr.value === 'number' ? 'number' : typeof expr.value === 'boolean' ? 'boolean' : 'text';
+      case 'column':
+        return this.column(expr, frame, aliases);
+      case 'star':
+        return 'unknown';
+      case 'unary': {
+        const kind = visit(expr.operand);
+        if (expr.op === 'NOT') return 'boolean';
+        this.expectNumber(kind, expr.operand, `unary ${expr.op}`);
+        return 'number';
+      }
+      case 'binary': {
+        const left = visit(expr.left);
+        const right = visit(expr.right);
+        if (expr.op === '||') return 'text';
+        if (ARITHMETIC.has(expr.op)) {
+          this.expectNumber(left, expr.left, `operator '${expr.op}'`);
+          this.expectNumber(right, expr.right, `operator '${expr.op}'`);
+          return 'number';
+        }
+        if (COMPARISONS.has(expr.op)) this.compare(expr.left, left, expr.right, right);
+        return 'boolean';
+      }
+      case 'isNull':
+        visit(expr.operand);
+        return 'boolean';
+      case 'in': {
+        const kind = visit(expr.operand);
+        expr.values.forEach(value => this.compare(expr.operand, kind, value, visit(value)));
+        return 'boolean';
+      }
+      case 'like':
+        visit(expr.operand);
+        visit(expr.pattern);
+        return 'boolean';
+      case 'between': {
+        const kind = visit(expr.operand);
+        [expr.low, expr.high].forEach(bound => this.compare(expr.operand, kind, bound, visit(bound)));
+        return 'boolean';
+      }
+      case 'call':
+        return this.call(expr, visit);
+      case 'window': {
+        expr.partitionBy.forEach(visit);
+        expr.orderBy.forEach(item => visit(item.expr));
+        const name = expr.call.name;
+        if (!WINDOW_FUNCTIONS.has(name) && !isAggregateFunction(name)) {
+          this.report('unknownFunction', `${name} cannot be used as a window function`, expr.call.position);
+          expr.call.args.forEach(visit);
+          return 'unknown';
+        }
+        if (RANKING_FUNCTIONS.has(name)) return 'number';
+        if (WINDOW_FUNCTIONS.has(name)) {
+          const kinds = expr.call.args.map(visit);
+          return kinds[0] ?? 'unknown';
+        }
+        return this.call(expr.call, visit);
+      }
+      case 'case': {
+        if (expr.operand) visit(expr.operand);
+        const kinds = expr.whens.map(({ when, then }) => {
+          visit(when);
+          return visit(then);
+        });
+        if (expr.otherwise) kinds.push(visit(expr.otherwise));
+        return kinds.find(kind => kind !== 'unknown') ?? 'unknown';
+      }
+      case 'subquery': {
+        const columns = this.statement(expr.query, tables, frame);
+        if (columns.length !== 1) this.report('invalidQuery', 'A scalar subquery must return exactly one column');
+        return columns[0]?.kind ?? 'unknown';
+      }
+      case 'inSubquery': {
+        visit(expr.operand);
+        const columns = this.statement(expr.query, tables, frame);
+        if (columns.length !== 1) this.report('invalidQuery', 'A subquery used with IN must return exactly one column');
+        return 'boolean';
+      }
+      case 'exists':
+        this.statement(expr.query, tables, frame);
+        return 'boolean';
+    }
+  }
+
+  private call(expr: CallExpr, visit: (child: Expr) => ValueKind): ValueKind {
+    const kinds = expr.args.map(arg => (arg.kind === 'star' ? 'unknown' : visit(arg)));
+    if (isAggregateFunction(expr.name)) {
+      if (NUMERIC_AGGREGATES.has(expr.name)) {
+        if (expr.args[0]) this.expectNumber(kinds[0], expr.args[0], expr.name);
+        return 'number';
+      }
+      // COUNT counts any values, MIN and MAX keep their type and MODE picks one
+      return expr.name === 'COUNT' ? 'number' : kinds[0] ?? 'unknown';
+    }
+    if (WINDOW_FUNCTIONS.has(expr.name)) {
+      this.report('invalidQuery', `${expr.name} needs an OVER clause`, expr.position);
+      return 'unknown';
+    }
+    if (!SCALAR_FUNCTIONS[expr.name]) {
+      const known = [...Object.keys(SCALAR_FUNCTIONS), ...Object.keys(AGGREGATE_FUNCTIONS), ...WINDOW_FUNCTIONS];
+      this.report('unknownFunction', `Unknown function '${expr.name}'`, expr.position, closestNames(expr.name, known));
+      return 'unknown';
+    }
+
+    if (expr.name === 'DATE_TRUNC' || expr.name === 'DATE_PART' || expr.name === 'DATEPART') {
+      const [unit, value] = expr.args;
+      const valid = expr.name === 'DATE_TRUNC' ? isPeriod : isDatePart;
+      if (unit?.kind === 'literal' && !valid(String(unit.value).toLowerCase())) {
+        const expected = expr.name === 'DATE_TRUNC' ? 'hour, day, week, month, quarter or year' : 'year, quarter, month, week, day, dayofweek, dayofyear, hour or minute';
+        this.report('typeMismatch', `${expr.name} expects ${expected} as its first argument, got ${formatExpr(unit)}`, expr.position);
+      }
+      if (value && (kinds[1] === 'number' || kinds[1] === 'boolean')) {
+        this.report('typeMismatch', `${expr.name} expects a date but ${describe(value)} is a ${kinds[1]}`, expr.position);
+      }
+    }
+    if (['ABS', 'ROUND', 'FLOOR', 'CEIL', 'CEILING'].includes(expr.name) && expr.args[0]) {
+      this.expectNumber(kinds[0], expr.args[0], expr.name);
+    }
+
+    if (NUMBER_FUNCTIONS.has(expr.name)) return 'number';
+    if (TEXT_FUNCTIONS.has(expr.name)) return 'text';
+    if (DATE_FUNCTIONS.has(expr.name)) return 'date';
+    // COALESCE, NULLIF and the like return one of their arguments
+    return kinds.find(kind => kind !== 'unknown') ?? 'unknown';
+  }
+
+  private column(
+    expr: Extract<Expr, { kind: 'column' }>,
+    frame: Frame,
+    aliases: { outputs?: ColumnInfo[]; groupByAliases?: ColumnInfo[] },
+  ): ValueKind {
+    let unresolved = false;
+    for (let current: Frame | undefined = frame; current; current = current.parent) {
+      const bindings = expr.table ? current.bindings.filter(binding => binding.alias === expr.table) : current.bindings;
+      unresolved ||= bindings.some(binding => binding.unresolved);
+      const matches = bindings.flatMap(binding => {
+        const column = binding.columns.find(col => col.name === expr.name)
+          ?? binding.columns.find(col => col.name.toLowerCase() === expr.name.toLowerCase());
+        return column ? [column] : [];
+      });
+      if (matches.length > 1) {
+        this.report('ambiguousColumn', `Column '${expr.name}' is ambiguous; qualify it with a table name`, expr.position);
+        return matches[0].kind;
+      }
+      if (matches.length === 1) return matches[0].kind;
+      // HAVING and ORDER BY may refer to select-list aliases of their own query
+      if (current === frame && !expr.table && aliases.outputs) {
+        const output = aliases.outputs.find(column => column.name === expr.name);
+        if (output) return output.kind;
+      }
+    }
+    // A column of a table that is itself unknown has already been reported
+    if (unresolved) return 'unknown';
+
+    const alias = !expr.table ? aliases.groupByAliases?.find(column => column.name === expr.name) : undefined;
+    if (alias) {
+      this.report('unknownColumn', `GROUP BY cannot refer to the select-list alias '${expr.name}'; repeat its expression instead`, expr.position);
+      return alias.kind;
+    }
+    if (expr.table && !this.hasAlias(frame, expr.table)) {
+      const aliasNames = this.aliasNames(frame);
+      this.report('unknownTable', `Unknown table '${expr.table}' in ${formatExpr(expr)}; tables in scope: ${aliasNames.join(', ') || 'none'}`, expr.position, closestNames(expr.table, aliasNames));
+      return 'unknown';
+    }
+    const available = this.columnNames(frame, expr.table);
+    this.report(
+      'unknownColumn',
+      `Unknown column '${formatExpr(expr)}'. Available columns: ${available.join(', ') || 'none'}`,
+      expr.position,
+      closestNames(expr.name, available),
+    );
+    return 'unknown';
+  }
+
+  private hasAlias(frame: Frame, alias: string): boolean {
+    return this.aliasNames(frame).includes(alias);
+  }
+
+  private aliasNames(frame: Frame): string[] {
+    const names: string[] = [];
+    for (let current: Frame | undefined = frame; current; current = current.parent) {
+      names.push(...current.bindings.map(binding => binding.alias));
+    }
+    return names;
+  }
+
+  private columnNames(frame: Frame, table?: string): string[] {
+    const names: string[] = [];
+    for (let current: Frame | undefined = frame; current; current = current.parent) {
+      current.bindings
+        .filter(binding => !table || binding.alias === table)
+        .forEach(binding => names.push(...binding.columns.map(column => column.name)));
+    }
+    return Array.from(new Set(names));
+  }
+
+  private expectNumber(kind: ValueKind, expr: Expr, context: string) {
+    if (kind === 'text' || kind === 'date') {
+      const hint = kind === 'date' ? '; use DATE_PART or DATE_TRUNC for dates' : '';
+      this.report('typeMismatch', `${context} expects numbers but ${describe(expr)} is ${kind}${hint}`, positionOf(expr));
+    }
+  }
+
+  /** Flags comparisons that can never match, such as a number column against a word or a date column against a number. */
+  private compare(leftExpr: Expr, left: ValueKind, rightExpr: Expr, right: ValueKind) {
+    const check = (columnExpr: Expr, kind: ValueKind, otherExpr: Expr, other: ValueKind) => {
+      if (otherExpr.kind === 'literal') {
+        const value = otherExpr.value;
+        if (kind === 'number' && typeof value === 'string' && toNumber(value) === null) {
+          return `${describe(columnExpr)} is a number but is compared with the text ${formatExpr(otherExpr)}`;
+        }
+        if (kind === 'date' && typeof value === 'number') {
+          return `${describe(columnExpr)} is a date but is compared with the number ${value}; use DATE_PART('year', ...) and the like to compare parts of a date`;
+        }
+        if (kind === 'date' && typeof value === 'string' && toDate(value) === null) {
+          return `${describe(columnExpr)} is a date but ${formatExpr(otherExpr)} is not a date; write dates as 'YYYY-MM-DD'`;
+        }
+        return null;
+      }
+      if (columnExpr.kind === 'column' && otherExpr.kind === 'column' && kind === 'number' && other === 'date') {
+        return `${describe(columnExpr)} is a number but is compared with the date ${describe(otherExpr)}`;
+      }
+      return null;
+    };
+    const problem = check(leftExpr, left, rightExpr, right) ?? check(rightExpr, right, leftExpr, left);
+    if (problem) this.report('typeMismatch', problem, positionOf(leftExpr) ?? positionOf(rightExpr));
+  }
+
+  private report(code: SqlIssueCode, message: string, position?: SourcePosition, suggestions?: string[]) {
+    if (this.issues.some(issue => issue.message === message)) return;
+    this.issues.push({
+      code,
+      message,
+      line: position?.line,
+      column: position?.column,
+      suggestions: suggestions && suggestions.length > 0 ? suggestions : undefined,
+    });
+  }
+}
+
+function describe(expr: Expr): string {
+  return expr.kind === 'column' ? `column '${formatExpr(expr)}'` : `'${formatExpr(expr)}'`;
+}
+
+function positionOf(expr: Expr): SourcePosition | undefined {
+  return expr.kind === 'column' || expr.kind === 'call' ? expr.position : undefined;
+}
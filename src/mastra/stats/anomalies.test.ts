@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { decompose, iqrFences, iqrScores, modifiedZScores, zScores } from './anomalies';
+import { isolationForestScores } from './isolationForest';
+
+const values = [10, 11, 9, 10, 12, 10, 60];
+
+describe('scores', () => {
+  it('measures z-scores in sample standard deviations', () => {
+    const { scores, center, scale } = zScores([2, 4, 4, 4, 5, 5, 7, 9]);
+    expect(center).toBe(5);
+    expect(scale).toBeCloseTo(2.13809, 5);
+    expect(scores[7]).toBeCloseTo(4 / 2.13809, 5);
+  });
+
+  it('keeps modified z-scores robust to the outlier itself', () => {
+    const { scores, center, scale } = modifiedZScores(values);
+    expect(center).toBe(10);
+    expect(scale).toBeCloseTo(1 / 0.6745, 10);
+    expect(scores[6]).toBeCloseTo(50 * 0.6745, 10);
+    // The plain z-score of the same value stays under 3
+    expect(zScores(values).scores[6]).toBeLessThan(3);
+  });
+
+  it('falls back to the mean absolute deviation when the MAD is 0', () => {
+    const { scores } = modifiedZScores([5, 5, 5, 5, 9]);
+    expect(scores[4]).toBeGreaterThan(3.5);
+    expect(scores[0]).toBe(0);
+  });
+
+  it('scores values by IQRs beyond the quartiles', () => {
+    const fences = iqrFences([1, 2, 3, 4, 100]);
+    expect(fences).toEqual({ q1: 2, q3: 4, lower: -1, upper: 7 });
+    expect(iqrScores([3, 0, 100], fences)).toEqual([0, 1, 48]);
+  });
+});
+
+describe('decompose', () => {
+  it('splits a series into trend, season and residual', () => {
+    const series = Array.from({ length: 16 }, (_, i) => 10 + i + [3, -1, -3, 1][i % 4]);
+    const { trend, seasonal, residual } = decompose(series, 4);
+    expect(seasonal.slice(0, 4)).toEqual([3, -1, -3, 1].map(value => expect.closeTo(value, 10)));
+    expect(trend[6]).toBeCloseTo(16, 10);
+    expect(residual.slice(2, 14).every(value => Math.abs(value) < 1e-9)).toBe(true);
+
+    series[9] += 8;
+    const spiked = decompose(series, 4).residual.map(Math.abs);
+    const largest = spiked.indexOf(Math.max(...spiked));
+    expect(largest).toBe(9);
+  });
+
+  it('needs two full seasons', () => {
+    expect(() => decompose([1, 2, 3, 4, 5], 4)).toThrow('at least two full seasons: 5 values for a season of 4');
+  });
+});
+
+describe('isolationForestScores', () => {
+  it('gives the isolated point the highest score, repeatably', () => {
+    const points = Array.from({ length: 50 }, (_, i) => [i % 10, (i * 7) % 10]);
+    points.push([40, -30]);
+    const scores = isolationForestScores(points, { seed: 7 });
+    expect(scores.indexOf(Math.max(...scores))).toBe(50);
+    expect(scores[50]).toBeGreaterThan(0.65);
+    expect(isolationForestScores(points, { seed: 7 })).toEqual(scores);
+  });
+});
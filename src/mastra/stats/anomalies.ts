@@ -0,0 +1,110 @@
+import { percentile } from '../sql/functions';
+import { mean, variance } from './descriptive';
+
+// Scales the MAD to the standard deviation of a normal distribution
+const MAD_SCALE = 0.6745;
+// Same for the mean absolute deviation, used when more than half the values are equal
+const MEAN_AD_SCALE = 0.7979;
+
+export interface Scored {
+  scores: number[];
+  center: number;
+  /** Spread the scores are measured in: SD, scaled MAD or IQR. */
+  scale: number;
+}
+
+/** Distance from the mean in sample standard deviations. */
+export function zScores(values: number[]): Scored {
+  const center = mean(values);
+  const scale = values.length > 1 ? Math.sqrt(variance(values)) : 0;
+  return { scores: values.map(value => deviation(value - center, scale)), center, scale };
+}
+
+/**
+ * Iglewicz and Hoaglin's modified z-score, 0.6745 (x - median) / MAD. It
+ * uses the median and median absolute deviation, so the outliers being
+ * looked for cannot mask themselves by inflating the spread.
+ */
+export function modifiedZScores(values: number[]): Scored {
+  const center = percentile(values, 0.5)!;
+  const deviations = values.map(value => Math.abs(value - center));
+  const mad = percentile(deviations, 0.5)!;
+  const scale = mad > 0 ? mad / MAD_SCALE : mean(deviations) / MEAN_AD_SCALE;
+  return { scores: values.map(value => deviation(value - center, scale)), center, scale };
+}
+
+export interface Fences {
+  q1: number;
+  q3: number;
+  lower: number;
+  upper: number;
+}
+
+/** Tukey's fences, `multiplier` interquartile ranges beyond the quartiles. */
+export function iqrFences(values: number[], multiplier = 1.5): Fences {
+  const q1 = percentile(values, 0.25)!;
+  const q3 = percentile(values, 0.75)!;
+  return { q1, q3, lower: q1 - multiplier * (q3 - q1), upper: q3 + multiplier * (q3 - q1) };
+}
+
+/** How many IQRs a value lies beyond the quartiles; 0 inside them. */
+export function iqrScores(values: number[], fences: Fences): number[] {
+  const iqr = fences.q3 - fences.q1;
+  return values.map(value => {
+    const beyond = value < fences.q1 ? fences.q1 - value : value > fences.q3 ? value - fences.q3 : 0;
+    return deviation(beyond, iqr);
+  });
+}
+
+function deviation(distance: number, scale: number): number {
+  if (scale > 0) return distance / scale;
+  return distance === 0 ? 0 : Infinity * Math.sign(distance);
+}
+
+export interface Decomposition {
+  trend: number[];
+  seasonal: number[];
+  residual: number[];
+}
+
+/**
+ * Classical additive decomposition of an evenly spaced series into a
+ * centred moving-average trend, a repeating seasonal pattern (the median
+ * detrended value at each position in the season) and the residual.
+ */
+export function decompose(values: number[], seasonLength: number): Decomposition {
+  const n = values.length;
+  if (seasonLength < 2) {
+    throw new Error('The season length must be at least 2');
+  }
+  if (n < 2 * seasonLength) {
+    throw new Error(`Seasonal detection needs at least two full seasons: ${n} values for a season of ${seasonLength}`);
+  }
+
+  // Even seasons use a 2×m moving average so the window stays centred
+  const half = Math.floor(seasonLength / 2);
+  const trend: (number | null)[] = values.map((_, i) => {
+    if (i < half || i + half >= n) return null;
+    if (seasonLength % 2 === 1) return mean(values.slice(i - half, i + half + 1));
+    const inner = values.slice(i - half + 1, i + half).reduce((sum, value) => sum + value, 0);
+    return (inner + (values[i - half] + values[i + half]) / 2) / seasonLength;
+  });
+  // The ends have no full window, so they carry the nearest trend value
+  const first = trend.findIndex(value => value !== null);
+  const last = n - 1 - [...trend].reverse().findIndex(value => value !== null);
+  const filled = trend.map((value, i) => value ?? trend[i < first ? first : last]!);
+
+  const byPosition = Array.from({ length: seasonLength }, () => [] as number[]);
+  values.forEach((value, i) => {
+    if (trend[i] !== null) byPosition[i % seasonLength].push(value - trend[i]!);
+  });
+  const pattern = byPosition.map(detrended => percentile(detrended, 0.5) ?? 0);
+  const offset = mean(pattern);
+  const seasonal = values.map((_, i) => pattern[i % seasonLength] - offset);
+
+  return {
+    trend: filled,
+    seasonal,
+    residual: values.map((value, i) => value - filled[i] - seasonal[i]),
+  };
+}
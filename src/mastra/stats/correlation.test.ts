@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { correlate, correlationMatrix } from './correlation';
+
+describe('correlate', () => {
+  it('computes Pearson r with its p-value', () => {
+    const result = correlate([1, 2, 3, 4, 5], [2, 4, 5, 4, 5]);
+    expect(result.r).toBeCloseTo(0.7745967, 6);
+    expect(result.pValue).toBeCloseTo(0.1240, 4);
+  });
+
+  it('ranks values for Spearman, sharing ranks between ties', () => {
+    expect(correlate([1, 2, 3, 4, 5], [1, 8, 27, 64, 125], 'spearman')).toEqual({ r: 1, n: 5, pValue: 0 });
+    expect(correlate([1, 2, 3, 4], [1, 1, 2, 3], 'spearman').r).toBeCloseTo(0.9486833, 6);
+  });
+
+  it('uses complete pairs only and gives no r for constant columns', () => {
+    expect(correlate([1, null, 3, 4], [2, 5, null, 8]).n).toBe(2);
+    expect(correlate([1, 2, 3], [7, 7, 7])).toEqual({ r: null, n: 3, pValue: null });
+  });
+});
+
+describe('correlationMatrix', () => {
+  it('is symmetric with a unit diagonal', () => {
+    const matrix = correlationMatrix([
+      { name: 'a', values: [1, 2, 3, 4] },
+      { name: 'b', values: [4, 3, 2, 1] },
+      { name: 'c', values: [1, 3, 2, 4] },
+    ]);
+    expect(matrix.columns).toEqual(['a', 'b', 'c']);
+    expect(matrix.r[0]).toEqual([1, -1, 0.8]);
+    expect(matrix.r[2][0]).toBe(matrix.r[0][2]);
+    expect(matrix.pValues[1][1]).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import { mean, ranks } from './descriptive';
+import { studentTPValue } from './distributions';
+
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+export interface Correlation {
+  r: number | null;
+  n: number;
+  /** Two-sided p-value for r = 0, from the t distribution with n - 2 degrees of freedom. */
+  pValue: number | null;
+}
+
+export interface CorrelationMatrix {
+  method: CorrelationMethod;
+  columns: string[];
+  r: (number | null)[][];
+  pValues: (number | null)[][];
+  n: number[][];
+}
+
+function pearsonR(x: number[], y: number[]): number | null {
+  const meanX = mean(x);
+  const meanY = mean(y);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < x.length; i++) {
+    sxy += (x[i] - meanX) * (y[i] - meanY);
+    sxx += (x[i] - meanX) ** 2;
+    syy += (y[i] - meanY) ** 2;
+  }
+  // A constant column has no defined correlation
+  if (sxx === 0 || syy === 0) return null;
+  return Math.max(-1, Math.min(1, sxy / Math.sqrt(sxx * syy)));
+}
+
+/** Correlation of the pairs where both values are present. */
+export function correlate(x: (number | null)[], y: (number | null)[], method: CorrelationMethod = 'pearson'): Correlation {
+  const pairs = x
+    .map((value, i) => [value, y[i]] as const)
+    .filter((pair): pair is readonly [number, number] => pair[0] !== null && pair[1] !== null);
+  const n = pairs.length;
+  if (n < 3) return { r: null, n, pValue: null };
+
+  let left = pairs.map(pair => pair[0]);
+  let right = pairs.map(pair => pair[1]);
+  if (method === 'spearman') {
+    left = ranks(left);
+    right = ranks(right);
+  }
+  const r = pearsonR(left, right);
+  if (r === null) return { r, n, pValue: null };
+
+  const t = Math.abs(r) === 1 ? Infinity : r * Math.sqrt((n - 2) / (1 - r * r));
+  return { r, n, pValue: isFinite(t) ? studentTPValue(t, n - 2) : 0 };
+}
+
+export function correlationMatrix(columns: { name: string; values: (number | null)[] }[], method: CorrelationMethod = 'pearson'): CorrelationMatrix {
+  const size = columns.length;
+  const r = columns.map(() => new Array<number | null>(size).fill(null));
+  const pValues = columns.map(() => new Array<number | null>(size).fill(null));
+  const n = columns.map(() => new Array<number>(size).fill(0));
+
+  for (let i = 0; i < size; i++) {
+    for (let j = i; j < size; j++) {
+      const result = correlate(columns[i].values, columns[j].values, method);
+      if (i === j) {
+        r[i][j] = result.r === null ? null : 1;
+        n[i][j] = result.n;
+        continue;
+      }
+      r[i][j] = r[j][i] = result.r;
+      pValues[i][j] = pValues[j][i] = result.pValue;
+      n[i][j] = n[j][i] = result.n;
+    }
+  }
+
+  return { method, columns: columns.map(column => column.name), r, pValues, n };
+}
@@ -0,0 +1,85 @@
+import { percentile } from '../sql/functions';
+import { studentTQuantile } from './distributions';
+
+export interface DescriptiveStats {
+  count: number;
+  mean: number;
+  standardDeviation: number | null;
+  standardError: number | null;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  iqr: number;
+  /** Adjusted Fisher-Pearson skewness; null below 3 values. */
+  skewness: number | null;
+  /** Excess kurtosis (0 for a normal distribution); null below 4 values. */
+  kurtosis: number | null;
+  /** Confidence interval for the mean at the requested level. */
+  confidenceInterval: [number, number] | null;
+}
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/** Sample variance (n - 1 denominator). */
+export function variance(values: number[]): number {
+  const center = mean(values);
+  return values.reduce((sum, value) => sum + (value - center) ** 2, 0) / (values.length - 1);
+}
+
+/** Ranks starting at 1, with tied values sharing their average rank. */
+export function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) result[order[i].index] = rank;
+    start = end + 1;
+  }
+  return result;
+}
+
+export function describe(values: number[], confidence = 0.95): DescriptiveStats {
+  if (values.length === 0) {
+    throw new Error('No numeric values to describe');
+  }
+  const n = values.length;
+  const center = mean(values);
+  const sd = n > 1 ? Math.sqrt(variance(values)) : null;
+  const se = sd !== null ? sd / Math.sqrt(n) : null;
+
+  let skewness: number | null = null;
+  let kurtosis: number | null = null;
+  if (sd) {
+    const m2 = values.reduce((sum, value) => sum + (value - center) ** 2, 0) / n;
+    const m3 = values.reduce((sum, value) => sum + (value - center) ** 3, 0) / n;
+    const m4 = values.reduce((sum, value) => sum + (value - center) ** 4, 0) / n;
+    if (n >= 3) skewness = (Math.sqrt(n * (n - 1)) / (n - 2)) * (m3 / m2 ** 1.5);
+    if (n >= 4) kurtosis = ((n - 1) / ((n - 2) * (n - 3))) * ((n + 1) * (m4 / m2 ** 2) - 3 * (n - 1));
+  }
+
+  const q1 = percentile(values, 0.25)!;
+  const q3 = percentile(values, 0.75)!;
+  const margin = se !== null ? studentTQuantile(1 - (1 - confidence) / 2, n - 1) * se : null;
+
+  return {
+    count: n,
+    mean: center,
+    standardDeviation: sd,
+    standardError: se,
+    min: values.reduce((low, value) => Math.min(low, value)),
+    q1,
+    median: percentile(values, 0.5)!,
+    q3,
+    max: values.reduce((high, value) => Math.max(high, value)),
+    iqr: q3 - q1,
+    skewness,
+    kurtosis,
+    confidenceInterval: margin !== null ? [center - margin, center + margin] : null,
+  };
+}
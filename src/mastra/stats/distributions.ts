@@ -0,0 +1,175 @@
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+const EPSILON = 3e-14;
+const TINY = 1e-300;
+const MAX_ITERATIONS = 300;
+
+/** Natural log of the gamma function (Lanczos approximation, g = 7). */
+export function lnGamma(x: number): number {
+  if (x < 0.5) {
+    // Reflection formula keeps the approximation accurate near zero
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - lnGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let result = d;
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const even = (m * (b - m) * x) / ((a + 2 * m - 1) * (a + 2 * m));
+    d = 1 + even * d;
+    c = 1 + even / c;
+    d = 1 / (Math.abs(d) < TINY ? TINY : d);
+    c = Math.abs(c) < TINY ? TINY : c;
+    result *= d * c;
+
+    const odd = (-(a + m) * (a + b + m) * x) / ((a + 2 * m) * (a + 2 * m + 1));
+    d = 1 + odd * d;
+    c = 1 + odd / c;
+    d = 1 / (Math.abs(d) < TINY ? TINY : d);
+    c = Math.abs(c) < TINY ? TINY : c;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return result;
+}
+
+/** Regularized incomplete beta function I_x(a, b). */
+export function regularizedBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(lnGamma(a + b) - lnGamma(a) - lnGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  // The continued fraction converges quickly only on one side of the mean
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/** Regularized upper incomplete gamma function Q(a, x) = 1 - P(a, x). */
+export function regularizedGammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const logFront = -x + a * Math.log(x) - lnGamma(a);
+
+  if (x < a + 1) {
+    // Series for P(a, x)
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n <= MAX_ITERATIONS; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * EPSILON) break;
+    }
+    return 1 - sum * Math.exp(logFront);
+  }
+
+  // Continued fraction for Q(a, x)
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let result = d;
+  for (let n = 1; n <= MAX_ITERATIONS; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    d = 1 / (Math.abs(d) < TINY ? TINY : d);
+    c = b + an / c;
+    c = Math.abs(c) < TINY ? TINY : c;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return Math.exp(logFront) * result;
+}
+
+/** P(T <= t) for Student's t distribution with `df` degrees of freedom. */
+export function studentTCdf(t: number, df: number): number {
+  if (!isFinite(t)) return t > 0 ? 1 : 0;
+  const tail = 0.5 * regularizedBeta(df / (df + t * t), df / 2, 0.5);
+  return t > 0 ? 1 - tail : tail;
+}
+
+/** The t value with P(T <= t) = p, found by bisection. */
+export function studentTQuantile(p: number, df: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  let low = -1;
+  let high = 1;
+  while (studentTCdf(low, df) > p) low *= 2;
+  while (studentTCdf(high, df) < p) high *= 2;
+  for (let i = 0; i < 100 && high - low > 1e-12 * Math.max(1, Math.abs(low)); i++) {
+    const mid = (low + high) / 2;
+    if (studentTCdf(mid, df) < p) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+export type Alternative = 'two-sided' | 'greater' | 'less';
+
+/** p-value of a t statistic for the given alternative hypothesis. */
+export function studentTPValue(t: number, df: number, alternative: Alternative = 'two-sided'): number {
+  switch (alternative) {
+    case 'greater':
+      return 1 - studentTCdf(t, df);
+    case 'less':
+      return studentTCdf(t, df);
+    default:
+      return Math.min(1, regularizedBeta(df / (df + t * t), df / 2, 0.5));
+  }
+}
+
+/** P(F >= f) for the F distribution with `df1` and `df2` degrees of freedom. */
+export function fSurvival(f: number, df1: number, df2: number): number {
+  if (f <= 0) return 1;
+  if (!isFinite(f)) return 0;
+  return regularizedBeta(df2 / (df2 + df1 * f), df2 / 2, df1 / 2);
+}
+
+/** P(X >= x) for the chi-square distribution with `df` degrees of freedom. */
+export function chiSquareSurvival(x: number, df: number): number {
+  return regularizedGammaQ(df / 2, x / 2);
+}
+
+// Coefficients of Acklam's rational approximation to the normal quantile
+const NORMAL_A = [
+  -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1,
+  2.506628277459239,
+];
+const NORMAL_B = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+const NORMAL_C = [
+  -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968,
+  2.938163982698783,
+];
+const NORMAL_D = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+const NORMAL_TAIL = 0.02425;
+
+function polynomial(coefficients: number[], x: number): number {
+  return coefficients.reduce((sum, coefficient) => sum * x + coefficient, 0);
+}
+
+/** The z with P(Z <= z) = p for the standard normal distribution (Acklam's approximation). */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  if (p < NORMAL_TAIL || p > 1 - NORMAL_TAIL) {
+    const q = Math.sqrt(-2 * Math.log(Math.min(p, 1 - p)));
+    const z = polynomial(NORMAL_C, q) / (polynomial(NORMAL_D, q) * q + 1);
+    return p < NORMAL_TAIL ? z : -z;
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (polynomial(NORMAL_A, r) * q) / (polynomial(NORMAL_B, r) * r + 1);
+}
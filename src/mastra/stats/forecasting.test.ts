@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { fitForecast, forecastAccuracy, unsuitableReason } from './forecasting';
+
+const seasonal = Array.from({ length: 36 }, (_, i) => 100 + 2 * i + [10, -5, -15, 10][i % 4]);
+
+describe('fitForecast', () => {
+  it('extends a straight line exactly', () => {
+    const fitted = fitForecast('linearTrend', [3, 5, 7, 9, 11]);
+    const forecast = fitted.forecast(2, 0.95);
+    expect(forecast.map(point => point.value)).toEqual([expect.closeTo(13, 10), expect.closeTo(15, 10)]);
+    expect(fitted.residualSd).toBeCloseTo(0, 10);
+  });
+
+  it('forecasts a flat level with widening intervals', () => {
+    const forecast = fitForecast('ses', [10, 12, 9, 11, 10, 12, 9, 11]).forecast(3, 0.95);
+    expect(new Set(forecast.map(point => point.value)).size).toBe(1);
+    expect(forecast[2].upper - forecast[2].lower).toBeGreaterThanOrEqual(forecast[0].upper - forecast[0].lower);
+  });
+
+  it('follows the trend and season with Holt-Winters', () => {
+    const forecast = fitForecast('holtWintersAdditive', seasonal, 4).forecast(4, 0.8);
+    const expected = [36, 37, 38, 39].map(i => 100 + 2 * i + [10, -5, -15, 10][i % 4]);
+    forecast.forEach((point, i) => {
+      expect(point.value).toBeCloseTo(expected[i], 0);
+      expect(point.lower).toBeLessThanOrEqual(point.value);
+      expect(point.upper).toBeGreaterThanOrEqual(point.value);
+    });
+  });
+
+  it('explains why a model cannot be fitted', () => {
+    expect(unsuitableReason('holtWintersAdditive', seasonal)).toBe('needs a season length');
+    expect(unsuitableReason('holtWintersMultiplicative', [1, 0, 2], 1)).toBe('multiplicative seasonality needs strictly positive values');
+    expect(() => fitForecast('holtWintersAdditive', seasonal.slice(0, 8), 4)).toThrow('Cannot fit holtWintersAdditive: needs at least 9 values, got 8');
+  });
+});
+
+describe('forecastAccuracy', () => {
+  it('skips zero actuals in the MAPE', () => {
+    expect(forecastAccuracy([10, 0, 20], [12, 1, 20])).toEqual({ mae: 1, mape: 10, rmse: Math.sqrt(5 / 3) });
+    expect(forecastAccuracy([0], [1]).mape).toBeNull();
+  });
+});
@@ -0,0 +1,217 @@
+import { mean } from './descriptive';
+import { normalQuantile, studentTQuantile } from './distributions';
+
+export type ForecastModel = 'ses' | 'holtWintersAdditive' | 'holtWintersMultiplicative' | 'linearTrend';
+
+export const FORECAST_MODELS: ForecastModel[] = ['ses', 'holtWintersAdditive', 'holtWintersMultiplicative', 'linearTrend'];
+
+// Smoothing parameters are picked from this grid by in-sample one-step error
+const SMOOTHING_GRID = [0.01, 0.05, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 0.99];
+
+export interface ForecastPoint {
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface FittedForecast {
+  model: ForecastModel;
+  parameters: Record<string, number>;
+  /** Standard deviation of the in-sample one-step-ahead errors. */
+  residualSd: number;
+  /** Point forecasts for the next `horizon` steps with prediction intervals at `confidence` (e.g. 0.95). */
+  forecast(horizon: number, confidence: number): ForecastPoint[];
+}
+
+export interface Accuracy {
+  mae: number;
+  /** Mean absolute percentage error over non-zero actuals; null when every actual is zero. */
+  mape: number | null;
+  rmse: number;
+}
+
+/** Shortest series each model can be fitted to. */
+export function minimumLength(model: ForecastModel, seasonLength?: number): number {
+  switch (model) {
+    case 'ses':
+    case 'linearTrend':
+      return 3;
+    default:
+      return 2 * (seasonLength ?? 0) + 1;
+  }
+}
+
+/** Why a model cannot be fitted to the series, or null when it can. */
+export function unsuitableReason(model: ForecastModel, values: number[], seasonLength?: number): string | null {
+  const seasonal = model === 'holtWintersAdditive' || model === 'holtWintersMultiplicative';
+  if (seasonal && !seasonLength) return 'needs a season length';
+  if (model === 'holtWintersMultiplicative' && values.some(value => value <= 0)) {
+    return 'multiplicative seasonality needs strictly positive values';
+  }
+  const needed = minimumLength(model, seasonLength);
+  if (values.length < needed) return `needs at least ${needed} values, got ${values.length}`;
+  return null;
+}
+
+export function fitForecast(model: ForecastModel, values: number[], seasonLength?: number): FittedForecast {
+  const reason = unsuitableReason(model, values, seasonLength);
+  if (reason) throw new Error(`Cannot fit ${model}: ${reason}`);
+  switch (model) {
+    case 'ses':
+      return fitSimpleSmoothing(values);
+    case 'holtWintersAdditive':
+      return fitHoltWinters(values, seasonLength!, 'additive');
+    case 'holtWintersMultiplicative':
+      return fitHoltWinters(values, seasonLength!, 'multiplicative');
+    case 'linearTrend':
+      return fitLinearTrend(values);
+  }
+}
+
+/** Error of `predicted` against `actual`, position by position. */
+export function forecastAccuracy(actual: number[], predicted: number[]): Accuracy {
+  const errors = actual.map((value, i) => value - predicted[i]);
+  const percentages = actual
+    .map((value, i) => (value === 0 ? null : Math.abs(errors[i] / value) * 100))
+    .filter((value): value is number => value !== null);
+  return {
+    mae: mean(errors.map(Math.abs)),
+    mape: percentages.length > 0 ? mean(percentages) : null,
+    rmse: Math.sqrt(mean(errors.map(error => error * error))),
+  };
+}
+
+function rootMeanSquare(errors: number[], lostDegrees = 0): number {
+  const df = Math.max(errors.length - lostDegrees, 1);
+  return Math.sqrt(errors.reduce((sum, error) => sum + error * error, 0) / df);
+}
+
+function interval(value: number, sd: number, z: number): ForecastPoint {
+  return { value, lower: value - z * sd, upper: value + z * sd };
+}
+
+/** Simple exponential smoothing: a level that follows each observation by a share alpha. */
+function fitSimpleSmoothing(values: number[]): FittedForecast {
+  const run = (alpha: number) => {
+    let level = values[0];
+    const errors: number[] = [];
+    for (let t = 1; t < values.length; t++) {
+      errors.push(values[t] - level);
+      level += alpha * (values[t] - level);
+    }
+    return { level, errors };
+  };
+
+  let best = { alpha: SMOOTHING_GRID[0], sse: Infinity };
+  for (const alpha of SMOOTHING_GRID) {
+    const sse = run(alpha).errors.reduce((sum, error) => sum + error * error, 0);
+    if (sse < best.sse) best = { alpha, sse };
+  }
+  const { alpha } = best;
+  const { level, errors } = run(alpha);
+  const residualSd = rootMeanSquare(errors);
+
+  return {
+    model: 'ses',
+    parameters: { alpha },
+    residualSd,
+    forecast: (horizon, confidence) => {
+      const z = normalQuantile(0.5 + confidence / 2);
+      return Array.from({ length: horizon }, (_, i) => interval(level, residualSd * Math.sqrt(1 + i * alpha * alpha), z));
+    },
+  };
+}
+
+/**
+ * Holt-Winters smoothing of a level, a linear trend and a seasonal pattern of
+ * `seasonLength` periods that is added to (or multiplies) the trend.
+ * The first two seasons initialise the level, trend and pattern.
+ */
+function fitHoltWinters(values: number[], seasonLength: number, seasonality: 'additive' | 'multiplicative'): FittedForecast {
+  const m = seasonLength;
+  const additive = seasonality === 'additive';
+  const firstMean = mean(values.slice(0, m));
+  const initialTrend = (mean(values.slice(m, 2 * m)) - firstMean) / m;
+  const initialSeason = values.slice(0, m).map(value => (additive ? value - firstMean : value / firstMean));
+
+  const run = (alpha: number, beta: number, gamma: number) => {
+    let level = firstMean;
+    let trend = initialTrend;
+    const season = [...initialSeason];
+    const errors: number[] = [];
+    for (let t = m; t < values.length; t++) {
+      const s = season[t - m];
+      errors.push(values[t] - (additive ? level + trend + s : (level + trend) * s));
+      const previous = level;
+      level = alpha * (additive ? values[t] - s : values[t] / s) + (1 - alpha) * (level + trend);
+      trend = beta * (level - previous) + (1 - beta) * trend;
+      season.push(gamma * (additive ? values[t] - level : values[t] / level) + (1 - gamma) * s);
+    }
+    return { level, trend, season: season.slice(-m), errors };
+  };
+
+  let best = { alpha: SMOOTHING_GRID[0], beta: SMOOTHING_GRID[0], gamma: SMOOTHING_GRID[0], sse: Infinity };
+  for (const alpha of SMOOTHING_GRID) {
+    for (const beta of SMOOTHING_GRID) {
+      for (const gamma of SMOOTHING_GRID) {
+        const sse = run(alpha, beta, gamma).errors.reduce((sum, error) => sum + error * error, 0);
+        if (sse < best.sse) best = { alpha, beta, gamma, sse };
+      }
+    }
+  }
+  const { alpha, beta, gamma } = best;
+  const { level, trend, season, errors } = run(alpha, beta, gamma);
+  const residualSd = rootMeanSquare(errors);
+
+  return {
+    model: additive ? 'holtWintersAdditive' : 'holtWintersMultiplicative',
+    parameters: { alpha, beta, gamma, seasonLength: m },
+    residualSd,
+    forecast: (horizon, confidence) => {
+      const z = normalQuantile(0.5 + confidence / 2);
+      // Additive-error variance of h-step forecasts (Hyndman et al., 2008); an
+      // approximation for multiplicative seasonality
+      let variance = 0;
+      return Array.from({ length: horizon }, (_, i) => {
+        const h = i + 1;
+        if (i > 0) {
+          const weight = alpha * (1 + i * beta) + (i % m === 0 ? gamma * (1 - alpha) : 0);
+          variance += weight * weight;
+        }
+        const base = level + h * trend;
+        const s = season[i % m];
+        return interval(additive ? base + s : base * s, residualSd * Math.sqrt(1 + variance), z);
+      });
+    },
+  };
+}
+
+/** Ordinary least-squares line through the values against their position. */
+function fitLinearTrend(values: number[]): FittedForecast {
+  const n = values.length;
+  const tMean = (n - 1) / 2;
+  const yMean = mean(values);
+  let sxx = 0;
+  let sxy = 0;
+  values.forEach((value, t) => {
+    sxx += (t - tMean) ** 2;
+    sxy += (t - tMean) * (value - yMean);
+  });
+  const slope = sxy / sxx;
+  const intercept = yMean - slope * tMean;
+  const residualSd = rootMeanSquare(values.map((value, t) => value - (intercept + slope * t)), 2);
+
+  return {
+    model: 'linearTrend',
+    parameters: { intercept, slope },
+    residualSd,
+    forecast: (horizon, confidence) => {
+      const multiplier = studentTQuantile(0.5 + confidence / 2, n - 2);
+      return Array.from({ length: horizon }, (_, i) => {
+        const t = n + i;
+        const sd = residualSd * Math.sqrt(1 + 1 / n + (t - tMean) ** 2 / sxx);
+        return interval(intercept + slope * t, sd, multiplier);
+      });
+    },
+  };
+}
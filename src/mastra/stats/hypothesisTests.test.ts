@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { chiSquareTest, oneSampleTTest, oneWayAnova, pairedTTest, twoSampleTTest } from './hypothesisTests';
+
+// Reference values are R's t.test, chisq.test and aov on its sleep, PlantGrowth and chisq.test example data
+const sleep = {
+  drug1: [0.7, -1.6, -0.2, -1.2, -0.1, 3.4, 3.7, 0.8, 0.0, 2.0],
+  drug2: [1.9, 0.8, 1.1, 0.1, -0.1, 4.4, 5.5, 1.6, 4.6, 3.4],
+};
+
+describe('t-tests', () => {
+  it("runs Welch's two-sample test", () => {
+    const result = twoSampleTTest(sleep.drug1, sleep.drug2);
+    expect(result.tStatistic).toBeCloseTo(-1.8608, 4);
+    expect(result.df).toBeCloseTo(17.776, 3);
+    expect(result.pValue).toBeCloseTo(0.07939, 5);
+    expect(result.confidenceInterval[0]).toBeCloseTo(-3.3654832, 5);
+    expect(result.confidenceInterval[1]).toBeCloseTo(0.2054832, 5);
+  });
+
+  it('runs the paired test on the differences', () => {
+    const result = pairedTTest(sleep.drug1, sleep.drug2);
+    expect(result).toMatchObject({ kind: 'paired', df: 9, estimate: expect.closeTo(-1.58, 10) });
+    expect(result.tStatistic).toBeCloseTo(-4.0621, 4);
+    expect(result.pValue).toBeCloseTo(0.002833, 6);
+  });
+
+  it('gives one-sided tests a one-sided interval', () => {
+    const result = oneSampleTTest(sleep.drug2, 0, 'greater');
+    expect(result.tStatistic).toBeCloseTo(3.6799, 4);
+    expect(result.pValue).toBeCloseTo(0.002538, 6);
+    expect(result.confidenceInterval[0]).toBeCloseTo(1.169334, 5);
+    expect(result.confidenceInterval[1]).toBe(Infinity);
+  });
+});
+
+describe('chiSquareTest', () => {
+  it('tests independence of a contingency table', () => {
+    const result = chiSquareTest([[762, 327, 468], [484, 239, 477]]);
+    expect(result.chiSquare).toBeCloseTo(30.0701, 4);
+    expect(result.df).toBe(2);
+    expect(result.pValue).toBeCloseTo(2.954e-7, 9);
+    expect(result.expected[0][0]).toBeCloseTo(703.6714, 4);
+    expect(result.lowExpectedShare).toBe(0);
+  });
+});
+
+describe('oneWayAnova', () => {
+  it('compares group means', () => {
+    const result = oneWayAnova([
+      [4.17, 5.58, 5.18, 6.11, 4.5, 4.61, 5.17, 4.53, 5.33, 5.14],
+      [4.81, 4.17, 4.41, 3.59, 5.87, 3.83, 6.03, 4.89, 4.32, 4.69],
+      [6.31, 5.12, 5.54, 5.5, 5.37, 5.29, 4.92, 6.15, 5.8, 5.26],
+    ]);
+    expect(result).toMatchObject({ dfBetween: 2, dfWithin: 27 });
+    expect(result.fStatistic).toBeCloseTo(4.8461, 4);
+    expect(result.pValue).toBeCloseTo(0.01591, 5);
+    expect(result.sumSquaresBetween).toBeCloseTo(3.76634, 5);
+    expect(result.etaSquared).toBeCloseTo(3.76634 / (3.76634 + 10.49209), 4);
+  });
+});
@@ -0,0 +1,212 @@
+import { mean, variance } from './descriptive';
+import { Alternative, chiSquareSurvival, fSurvival, studentTPValue, studentTQuantile } from './distributions';
+
+export interface TTestResult {
+  kind: 'one-sample' | 'two-sample' | 'paired';
+  tStatistic: number;
+  df: number;
+  pValue: number;
+  alternative: Alternative;
+  /** Mean (one-sample), mean difference (paired) or difference of means (two-sample) being tested. */
+  estimate: number;
+  confidenceInterval: [number, number];
+  /** Cohen's d; for paired data the mean difference over the SD of the differences. */
+  cohensD: number;
+  groups: { n: number; mean: number; standardDeviation: number }[];
+}
+
+export interface ChiSquareResult {
+  chiSquare: number;
+  df: number;
+  pValue: number;
+  cramersV: number;
+  expected: number[][];
+  /** Share of cells with an expected count below 5, where the approximation gets unreliable. */
+  lowExpectedShare: number;
+}
+
+export interface AnovaResult {
+  fStatistic: number;
+  dfBetween: number;
+  dfWithin: number;
+  pValue: number;
+  sumSquaresBetween: number;
+  sumSquaresWithin: number;
+  etaSquared: number;
+  omegaSquared: number;
+  groups: { n: number; mean: number; standardDeviation: number | null }[];
+}
+
+function summary(values: number[]) {
+  return { n: values.length, mean: mean(values), standardDeviation: Math.sqrt(variance(values)) };
+}
+
+function testStatistic(estimate: number, standardError: number): number {
+  if (standardError > 0) return estimate / standardError;
+  return estimate === 0 ? 0 : Infinity * Math.sign(estimate);
+}
+
+function pValueOf(t: number, df: number, alternative: Alternative): number {
+  if (isFinite(t)) return studentTPValue(t, df, alternative);
+  return alternative === 'two-sided' || (alternative === 'greater') === t > 0 ? 0 : 1;
+}
+
+/** Confidence interval matching the alternative: one-sided tests get a one-sided bound. */
+function interval(estimate: number, standardError: number, df: number, alternative: Alternative, confidence: number): [number, number] {
+  if (alternative === 'two-sided') {
+    const margin = studentTQuantile(1 - (1 - confidence) / 2, df) * standardError;
+    return [estimate - margin, estimate + margin];
+  }
+  const margin = studentTQuantile(confidence, df) * standardError;
+  return alternative === 'greater' ? [estimate - margin, Infinity] : [-Infinity, estimate + margin];
+}
+
+function requireValues(values: number[], minimum: number, label: string) {
+  if (values.length < minimum) {
+    throw new Error(`${label} needs at least ${minimum} values, got ${values.length}`);
+  }
+}
+
+export function oneSampleTTest(values: number[], mu = 0, alternative: Alternative = 'two-sided', confidence = 0.95): TTestResult {
+  requireValues(values, 2, 'A one-sample t-test');
+  const group = summary(values);
+  const standardError = group.standardDeviation / Math.sqrt(group.n);
+  const df = group.n - 1;
+  const t = testStatistic(group.mean - mu, standardError);
+  return {
+    kind: 'one-sample',
+    tStatistic: t,
+    df,
+    pValue: pValueOf(t, df, alternative),
+    alternative,
+    estimate: group.mean,
+    confidenceInterval: interval(group.mean, standardError, df, alternative, confidence),
+    cohensD: group.standardDeviation > 0 ? (group.mean - mu) / group.standardDeviation : 0,
+    groups: [group],
+  };
+}
+
+export function pairedTTest(before: number[], after: number[], alternative: Alternative = 'two-sided', confidence = 0.95): TTestResult {
+  const differences = before.map((value, i) => value - after[i]);
+  const result = oneSampleTTest(differences, 0, alternative, confidence);
+  return { ...result, kind: 'paired', groups: [summary(before), summary(after)] };
+}
+
+/**
+ * Two-sample t-test of mean(a) - mean(b). Welch's test is used unless equal
+ * variances are assumed; Cohen's d always uses the pooled standard deviation.
+ */
+export function twoSampleTTest(
+  a: number[],
+  b: number[],
+  options: { equalVariance?: boolean; alternative?: Alternative; confidence?: number } = {},
+): TTestResult {
+  requireValues(a, 2, 'Each group of a two-sample t-test');
+  requireValues(b, 2, 'Each group of a two-sample t-test');
+  const { equalVariance = false, alternative = 'two-sided', confidence = 0.95 } = options;
+  const first = summary(a);
+  const second = summary(b);
+  const va = first.standardDeviation ** 2;
+  const vb = second.standardDeviation ** 2;
+  const pooled = ((first.n - 1) * va + (second.n - 1) * vb) / (first.n + second.n - 2);
+
+  let standardError: number;
+  let df: number;
+  if (equalVariance) {
+    standardError = Math.sqrt(pooled * (1 / first.n + 1 / second.n));
+    df = first.n + second.n - 2;
+  } else {
+    const ua = va / first.n;
+    const ub = vb / second.n;
+    standardError = Math.sqrt(ua + ub);
+    // Welch-Satterthwaite approximation
+    df = ua + ub > 0 ? (ua + ub) ** 2 / (ua ** 2 / (first.n - 1) + ub ** 2 / (second.n - 1)) : first.n + second.n - 2;
+  }
+
+  const difference = first.mean - second.mean;
+  const t = testStatistic(difference, standardError);
+  return {
+    kind: 'two-sample',
+    tStatistic: t,
+    df,
+    pValue: pValueOf(t, df, alternative),
+    alternative,
+    estimate: difference,
+    confidenceInterval: interval(difference, standardError, df, alternative, confidence),
+    cohensD: pooled > 0 ? difference / Math.sqrt(pooled) : 0,
+    groups: [first, second],
+  };
+}
+
+/** Pearson's chi-square test of independence on a contingency table of counts. */
+export function chiSquareTest(observed: number[][]): ChiSquareResult {
+  const rows = observed.length;
+  const columns = observed[0]?.length ?? 0;
+  if (rows < 2 || columns < 2) {
+    throw new Error('A chi-square test needs at least two categories in each variable');
+  }
+  const rowTotals = observed.map(row => row.reduce((sum, count) => sum + count, 0));
+  const columnTotals = observed[0].map((_, j) => observed.reduce((sum, row) => sum + row[j], 0));
+  const total = rowTotals.reduce((sum, count) => sum + count, 0);
+
+  const expected = rowTotals.map(rowTotal => columnTotals.map(columnTotal => (rowTotal * columnTotal) / total));
+  let chiSquare = 0;
+  let lowCells = 0;
+  expected.forEach((row, i) => row.forEach((value, j) => {
+    if (value > 0) chiSquare += (observed[i][j] - value) ** 2 / value;
+    if (value < 5) lowCells++;
+  }));
+
+  const df = (rows - 1) * (columns - 1);
+  return {
+    chiSquare,
+    df,
+    pValue: chiSquareSurvival(chiSquare, df),
+    cramersV: Math.sqrt(chiSquare / (total * (Math.min(rows, columns) - 1))),
+    expected,
+    lowExpectedShare: lowCells / (rows * columns),
+  };
+}
+
+/** One-way analysis of variance across two or more groups. */
+export function oneWayAnova(groups: number[][]): AnovaResult {
+  if (groups.length < 2) {
+    throw new Error('ANOVA needs at least two groups');
+  }
+  groups.forEach(group => requireValues(group, 1, 'Each ANOVA group'));
+  const all = groups.flat();
+  const grandMean = mean(all);
+  const summaries = groups.map(group => ({
+    n: group.length,
+    mean: mean(group),
+    standardDeviation: group.length > 1 ? Math.sqrt(variance(group)) : null,
+  }));
+
+  const sumSquaresBetween = summaries.reduce((sum, group) => sum + group.n * (group.mean - grandMean) ** 2, 0);
+  const sumSquaresWithin = groups.reduce((sum, group, i) => sum + group.reduce((inner, value) => inner + (value - summaries[i].mean) ** 2, 0), 0);
+  const dfBetween = groups.length - 1;
+  const dfWithin = all.length - groups.length;
+  if (dfWithin < 1) {
+    throw new Error('ANOVA needs more values than groups');
+  }
+
+  const meanSquareWithin = sumSquaresWithin / dfWithin;
+  const fStatistic = meanSquareWithin > 0
+    ? sumSquaresBetween / dfBetween / meanSquareWithin
+    : sumSquaresBetween > 0 ? Infinity : 0;
+  const totalSquares = sumSquaresBetween + sumSquaresWithin;
+
+  return {
+    fStatistic,
+    dfBetween,
+    dfWithin,
+    pValue: fSurvival(fStatistic, dfBetween, dfWithin),
+    sumSquaresBetween,
+    sumSquaresWithin,
+    etaSquared: totalSquares > 0 ? sumSquaresBetween / totalSquares : 0,
+    omegaSquared: totalSquares > 0
+      ? Math.max(0, (sumSquaresBetween - dfBetween * meanSquareWithin) / (totalSquares + meanSquareWithin))
+      : 0,
+    groups: summaries,
+  };
+}
@@ -0,0 +1,18 @@
+export { describe, mean, ranks, variance } from './descriptive';
+export type { DescriptiveStats } from './descriptive';
+export { correlate, correlationMatrix } from './correlation';
+export type { Correlation, CorrelationMatrix, CorrelationMethod } from './correlation';
+export { linearRegression } from './regression';
+export type { Coefficient, RegressionResult } from './regression';
+export { chiSquareTest, oneSampleTTest, oneWayAnova, pairedTTest, twoSampleTTest } from './hypothesisTests';
+export type { AnovaResult, ChiSquareResult, TTestResult } from './hypothesisTests';
+export { chiSquareSurvival, fSurvival, normalQuantile, studentTCdf, studentTPValue, studentTQuantile } from './distributions';
+export type { Alternative } from './distributions';
+export { effectMagnitude, formatNumber, formatPValue } from './interpretation';
+export type { EffectMeasure, Magnitude } from './interpretation';
+export { decompose, iqrFences, iqrScores, modifiedZScores, zScores } from './anomalies';
+export type { Decomposition, Fences, Scored } from './anomalies';
+export { isolationForestScores } from './isolationForest';
+export type { IsolationForestOptions } from './isolationForest';
+export { FORECAST_MODELS, fitForecast, forecastAccuracy, minimumLength, unsuitableReason } from './forecasting';
+export type { Accuracy, FittedForecast, ForecastModel, ForecastPoint } from './forecasting';
@@ -0,0 +1,38 @@
+export type EffectMeasure = 'cohensD' | 'r' | 'etaSquared' | 'omegaSquared' | 'cohensF2' | 'cramersV';
+
+export type Magnitude = 'negligible' | 'small' | 'medium' | 'large';
+
+// Cohen's conventional small, medium and large benchmarks
+const BENCHMARKS: Record<EffectMeasure, [number, number, number]> = {
+  cohensD: [0.2, 0.5, 0.8],
+  r: [0.1, 0.3, 0.5],
+  etaSquared: [0.01, 0.06, 0.14],
+  omegaSquared: [0.01, 0.06, 0.14],
+  cohensF2: [0.02, 0.15, 0.35],
+  cramersV: [0.1, 0.3, 0.5],
+};
+
+/**
+ * Conventional size label for an effect. Cramér's V benchmarks shrink with
+ * the smaller table dimension, passed as `minDimension`.
+ */
+export function effectMagnitude(measure: EffectMeasure, value: number, minDimension = 2): Magnitude {
+  const scale = measure === 'cramersV' ? 1 / Math.sqrt(Math.max(minDimension - 1, 1)) : 1;
+  const [small, medium, large] = BENCHMARKS[measure].map(benchmark => benchmark * scale);
+  const size = Math.abs(value);
+  if (size >= large) return 'large';
+  if (size >= medium) return 'medium';
+  if (size >= small) return 'small';
+  return 'negligible';
+}
+
+/** Compact number for prose: three significant digits, one decimal from 100 up. */
+export function formatNumber(value: number): string {
+  if (!isFinite(value)) return value > 0 ? '∞' : '-∞';
+  if (Math.abs(value) >= 100) return String(Number(value.toFixed(1)));
+  return String(Number(value.toPrecision(3)));
+}
+
+export function formatPValue(p: number): string {
+  return p < 0.001 ? 'p < 0.001' : `p = ${p.toFixed(3)}`;
+}
@@ -0,0 +1,93 @@
+const EULER_GAMMA = 0.5772156649;
+
+type IsolationNode =
+  | { size: number }
+  | { feature: number; split: number; left: IsolationNode; right: IsolationNode };
+
+export interface IsolationForestOptions {
+  trees?: number;
+  /** Rows drawn for each tree; small samples isolate anomalies best. */
+  sampleSize?: number;
+  /** Seed for the random splits, so repeated runs flag the same rows. */
+  seed?: number;
+}
+
+/** Mulberry32, a small seeded generator returning numbers in [0, 1). */
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Average path length of an unsuccessful search in a binary search tree of n items. */
+function averagePath(n: number): number {
+  if (n <= 1) return 0;
+  if (n === 2) return 1;
+  return 2 * (Math.log(n - 1) + EULER_GAMMA) - (2 * (n - 1)) / n;
+}
+
+function grow(points: number[][], rows: number[], depth: number, limit: number, next: () => number): IsolationNode {
+  if (depth >= limit || rows.length <= 1) return { size: rows.length };
+
+  // Only features that still vary within this node can split it
+  const features = points[rows[0]]
+    .map((_, feature) => {
+      let min = Infinity;
+      let max = -Infinity;
+      rows.forEach(row => {
+        min = Math.min(min, points[row][feature]);
+        max = Math.max(max, points[row][feature]);
+      });
+      return { feature, min, max };
+    })
+    .filter(range => range.max > range.min);
+  if (features.length === 0) return { size: rows.length };
+
+  const { feature, min, max } = features[Math.floor(next() * features.length)];
+  const split = min + next() * (max - min);
+  return {
+    feature,
+    split,
+    left: grow(points, rows.filter(row => points[row][feature] < split), depth + 1, limit, next),
+    right: grow(points, rows.filter(row => points[row][feature] >= split), depth + 1, limit, next),
+  };
+}
+
+function pathLength(point: number[], node: IsolationNode, depth: number): number {
+  if ('size' in node) return depth + averagePath(node.size);
+  return pathLength(point, point[node.feature] < node.split ? node.left : node.right, depth + 1);
+}
+
+/**
+ * Isolation forest anomaly scores (Liu, Ting and Zhou, 2008) in (0, 1].
+ * Anomalies are isolated by few random splits, so scores well above 0.5
+ * mark them, while values at or below 0.5 are ordinary.
+ */
+export function isolationForestScores(points: number[][], options: IsolationForestOptions = {}): number[] {
+  const { trees = 100, seed = 42 } = options;
+  const sampleSize = Math.min(options.sampleSize ?? 256, points.length);
+  if (sampleSize < 2) return points.map(() => 0);
+
+  const next = random(seed);
+  const limit = Math.ceil(Math.log2(sampleSize));
+  const forest = Array.from({ length: trees }, () => {
+    // Partial Fisher-Yates shuffle draws the sample without replacement
+    const indices = points.map((_, i) => i);
+    for (let i = 0; i < sampleSize; i++) {
+      const j = i + Math.floor(next() * (indices.length - i));
+      [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
+    return grow(points, indices.slice(0, sampleSize), 0, limit, next);
+  });
+
+  const normaliser = averagePath(sampleSize);
+  return points.map(point => {
+    const average = forest.reduce((sum, tree) => sum + pathLength(point, tree, 0), 0) / trees;
+    return Math.pow(2, -average / normaliser);
+  });
+}
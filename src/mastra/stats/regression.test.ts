@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { linearRegression } from './regression';
+
+describe('linearRegression', () => {
+  it('fits a simple regression with standard errors and p-values', () => {
+    const result = linearRegression([1, 3, 2, 5, 4], [[1], [2], [3], [4], [5]], ['x']);
+    const [intercept, slope] = result.coefficients;
+    expect(intercept.estimate).toBeCloseTo(0.6, 10);
+    expect(slope).toMatchObject({ term: 'x', estimate: expect.closeTo(0.8, 10), standardError: expect.closeTo(Math.sqrt(0.12), 10) });
+    expect(slope.tStatistic).toBeCloseTo(2.3094, 4);
+    expect(slope.pValue).toBeCloseTo(0.1041, 4);
+    expect(result).toMatchObject({ n: 5, dfModel: 1, dfResidual: 3, rSquared: expect.closeTo(0.64, 10) });
+    expect(result.fPValue).toBeCloseTo(slope.pValue, 10);
+  });
+
+  it('recovers exact multiple regression coefficients, even for large predictor values', () => {
+    const x = [[2000, 1], [2001, 4], [2002, 2], [2003, 8], [2004, 5], [2005, 7]];
+    const y = x.map(([year, units]) => 3 + 0.5 * (year - 2000) - 2 * units);
+    const result = linearRegression(y, x, ['year', 'units']);
+    expect(result.coefficients.map(coefficient => coefficient.estimate)).toEqual([
+      expect.closeTo(-997, 6), expect.closeTo(0.5, 8), expect.closeTo(-2, 8),
+    ]);
+    expect(result.rSquared).toBeCloseTo(1, 10);
+  });
+
+  it('rejects collinear predictors and too few rows', () => {
+    expect(() => linearRegression([1, 2, 3, 5], [[1, 2], [2, 4], [3, 6], [4, 8]], ['a', 'b'])).toThrow('perfectly collinear');
+    expect(() => linearRegression([1, 2], [[1], [2]], ['a'])).toThrow('2 rows for 2 coefficients');
+  });
+});
@@ -0,0 +1,115 @@
+import { mean } from './descriptive';
+import { fSurvival, studentTPValue, studentTQuantile } from './distributions';
+
+export interface Coefficient {
+  term: string;
+  estimate: number;
+  standardError: number;
+  tStatistic: number;
+  pValue: number;
+  confidenceInterval: [number, number];
+}
+
+export interface RegressionResult {
+  coefficients: Coefficient[];
+  n: number;
+  rSquared: number;
+  adjustedRSquared: number;
+  fStatistic: number;
+  fPValue: number;
+  dfModel: number;
+  dfResidual: number;
+  residualStandardError: number;
+}
+
+/**
+ * Inverse of a symmetric positive semi-definite matrix by Gauss-Jordan
+ * elimination, or null when it is singular. Each pivot, relative to its
+ * original diagonal, is 1 - R² of that variable on the earlier ones, so a
+ * tiny ratio means the variable is (nearly) a combination of the others.
+ */
+function invert(matrix: number[][]): number[][] | null {
+  const size = matrix.length;
+  const work = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+
+  for (let column = 0; column < size; column++) {
+    const divisor = work[column][column];
+    if (!(divisor > matrix[column][column] * 1e-10) || matrix[column][column] === 0) return null;
+    for (let j = 0; j < 2 * size; j++) work[column][j] /= divisor;
+    for (let row = 0; row < size; row++) {
+      if (row === column || work[row][column] === 0) continue;
+      const factor = work[row][column];
+      for (let j = 0; j < 2 * size; j++) work[row][j] -= factor * work[column][j];
+    }
+  }
+  return work.map(row => row.slice(size));
+}
+
+/**
+ * Ordinary least squares of `y` on the predictor columns in `x` (one row per
+ * observation) with an intercept. The predictors are centred before solving
+ * the normal equations, which keeps them well conditioned for large values
+ * such as years, and the intercept is recovered from the means.
+ */
+export function linearRegression(y: number[], x: number[][], terms: string[], confidence = 0.95): RegressionResult {
+  const n = y.length;
+  const k = terms.length;
+  const dfResidual = n - k - 1;
+  if (dfResidual < 1) {
+    throw new Error(`Regression needs more observations than coefficients: ${n} rows for ${k + 1} coefficients`);
+  }
+
+  const meanY = mean(y);
+  const means = terms.map((_, j) => mean(x.map(row => row[j])));
+  const centred = x.map(row => row.map((value, j) => value - means[j]));
+  const xtx = terms.map((_, i) => terms.map((_, j) => centred.reduce((sum, row) => sum + row[i] * row[j], 0)));
+  const xty = terms.map((_, i) => centred.reduce((sum, row, r) => sum + row[i] * (y[r] - meanY), 0));
+  const inverse = invert(xtx);
+  if (!inverse) {
+    throw new Error('Predictors are perfectly collinear or constant; remove redundant predictors');
+  }
+  const slopes = inverse.map(row => row.reduce((sum, value, j) => sum + value * xty[j], 0));
+  const intercept = meanY - slopes.reduce((sum, slope, j) => sum + slope * means[j], 0);
+
+  let residualSum = 0;
+  let totalSum = 0;
+  centred.forEach((row, r) => {
+    const fitted = meanY + row.reduce((sum, value, j) => sum + value * slopes[j], 0);
+    residualSum += (y[r] - fitted) ** 2;
+    totalSum += (y[r] - meanY) ** 2;
+  });
+
+  const sigma2 = residualSum / dfResidual;
+  // Var(intercept) = sigma² (1/n + m' (X'X)⁻¹ m) for the predictor means m
+  const interceptVariance = sigma2 * (1 / n + means.reduce((sum, mi, i) => sum + mi * means.reduce((inner, mj, j) => inner + inverse[i][j] * mj, 0), 0));
+  const variances = [interceptVariance, ...slopes.map((_, j) => sigma2 * inverse[j][j])];
+  const critical = studentTQuantile(1 - (1 - confidence) / 2, dfResidual);
+  const coefficients = ['(Intercept)', ...terms].map((term, j) => {
+    const estimate = j === 0 ? intercept : slopes[j - 1];
+    const standardError = Math.sqrt(Math.max(variances[j], 0));
+    const tStatistic = standardError === 0 ? (estimate === 0 ? 0 : Infinity * Math.sign(estimate)) : estimate / standardError;
+    return {
+      term,
+      estimate,
+      standardError,
+      tStatistic,
+      pValue: isFinite(tStatistic) ? studentTPValue(tStatistic, dfResidual) : 0,
+      confidenceInterval: [estimate - critical * standardError, estimate + critical * standardError] as [number, number],
+    };
+  });
+
+  const rSquared = totalSum === 0 ? 0 : 1 - residualSum / totalSum;
+  const fStatistic = k === 0 || residualSum === 0 ? (k === 0 ? 0 : Infinity) : ((totalSum - residualSum) / k) / sigma2;
+
+  return {
+    coefficients,
+    n,
+    rSquared,
+    adjustedRSquared: 1 - ((1 - rSquared) * (n - 1)) / dfResidual,
+    fStatistic,
+    fPValue: k === 0 ? 1 : fSurvival(fStatistic, k, dfResidual),
+    dfModel: k,
+    dfResidual,
+    residualStandardError: Math.sqrt(sigma2),
+  };
+}
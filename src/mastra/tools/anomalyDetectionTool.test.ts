@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { AnomalyDetectionTool } from './anomalyDetectionTool';
+
+const tool = new AnomalyDetectionTool();
+
+const readings = [10, 11, 9, 10, 12, 10, 60, 11, null, 10, 2].map((value, i) => ({ sensor: `s${i}`, value }));
+
+describe('AnomalyDetectionTool', () => {
+  it('lists anomalous rows with scores and reasons, highest first', async () => {
+    const result = await tool.invoke({ data: readings, columns: ['sensor', 'value'], targetColumns: ['value'] });
+    expect(result).toMatchObject({ success: true, method: 'modifiedZScore', threshold: 3.5, rowCount: 11, anomalyCount: 2 });
+    expect(result.rowIndices).toEqual([6, 10]);
+    expect(result.anomalies![0]).toEqual({
+      row: 6,
+      column: 'value',
+      value: 60,
+      score: expect.closeTo(50 * 0.6745, 10),
+      reason: 'value = 60 is above the median (10) with a modified z-score of 33.7',
+    });
+    expect(result.columnSummaries![0]).toMatchObject({ column: 'value', checked: 10, anomalies: 2, center: 10 });
+  });
+
+  it('applies Tukey fences with the iqr method', async () => {
+    const result = await tool.invoke({ data: readings, columns: ['sensor', 'value'], method: 'iqr', threshold: 3 });
+    expect(result.rowIndices).toEqual([6, 10]);
+    expect(result.anomalies![0].reason).toMatch(/^value = 60 is above the upper fence/);
+  });
+
+  it('flags the share of rows asked for with the isolation forest', async () => {
+    const data = Array.from({ length: 40 }, (_, i) => ({ x: i % 8, y: (i * 3) % 8 }));
+    data.push({ x: 30, y: -20 });
+    const result = await tool.invoke({ data, method: 'isolationForest', contamination: 0.02 });
+    expect(result.rowIndices).toEqual([40]);
+    expect(result.anomalies![0].reason).toMatch(/most unusual value: x = 30/);
+  });
+
+  it('finds spikes against the seasonal pattern', async () => {
+    const data = Array.from({ length: 28 }, (_, i) => ({
+      day: new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10),
+      visits: 100 + 2 * i + (i % 7 >= 5 ? -40 : 0) + ((i * 3) % 5) - 2 + (i === 17 ? 35 : 0),
+    }));
+    const result = await tool.invoke({ data, method: 'seasonal', dateColumn: 'day' });
+    expect(result.rowIndices).toEqual([17]);
+    expect(result.columnSummaries![0].seasonLength).toBe(7);
+    expect(result.anomalies![0].reason).toMatch(/^visits = 168 on 2024-01-18 is [\d.]+ above the expected/);
+  });
+
+  it('needs a date column for the seasonal method', async () => {
+    expect(await tool.invoke({ data: readings, method: 'seasonal' })).toEqual({ success: false, error: 'The seasonal method needs a dateColumn' });
+  });
+});
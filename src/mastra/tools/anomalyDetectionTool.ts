@@ -0,0 +1,338 @@
+import { z } from 'zod';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { formatDate, inferPeriod, SEASON_LENGTHS, toDate } from '../data/dates';
+import { isNullish, percentile, toNumber } from '../sql/functions';
+import {
+  decompose,
+  formatNumber,
+  iqrFences,
+  iqrScores,
+  isolationForestScores,
+  modifiedZScores,
+  zScores,
+} from '../stats';
+import { DataTool } from './dataTool';
+
+type Method = 'zScore' | 'modifiedZScore' | 'iqr' | 'isolationForest' | 'seasonal';
+
+const DEFAULT_THRESHOLDS: Record<Method, number> = {
+  zScore: 3,
+  modifiedZScore: 3.5,
+  iqr: 1.5,
+  isolationForest: 0.65,
+  seasonal: 3.5,
+};
+
+const AnomalyDetectionInputSchema = z.object({
+  datasetName: z.string().optional().describe('Name or ID of the registered dataset to check'),
+  data: z.array(z.record(z.any())).optional().describe('Inline rows to check when no dataset is named'),
+  columns: z.array(z.string()).optional().describe('The column names of the inline data'),
+  targetColumns: z.array(z.string()).optional().describe('Numeric columns to check, defaults to every numeric column'),
+  method: z.enum(['zScore', 'modifiedZScore', 'iqr', 'isolationForest', 'seasonal']).optional().default('modifiedZScore').describe(
+    'zScore (mean and SD), modifiedZScore (median and MAD, robust to the outliers themselves), iqr (Tukey fences), ' +
+    'isolationForest (unusual combinations across all target columns) or seasonal (residuals after removing trend and seasonality)',
+  ),
+  threshold: z.number().positive().optional().describe(
+    'Cut-off: 3 for zScore, 3.5 for modifiedZScore and seasonal, the IQR multiplier 1.5 for iqr, the anomaly score 0.65 for isolationForest',
+  ),
+  contamination: z.number().gt(0).max(0.5).optional().describe(
+    'isolationForest only: flag this fraction of rows with the highest scores instead of using a threshold',
+  ),
+  dateColumn: z.string().optional().describe('Date column ordering the series, required for the seasonal method'),
+  seasonLength: z.number().int().min(2).optional().describe(
+    'Periods per season for the seasonal method, e.g. 7 for daily data with a weekly cycle; inferred from the date spacing when omitted',
+  ),
+  seed: z.number().int().optional().default(42).describe('Random seed for isolationForest, so results are repeatable'),
+  maxResults: z.number().int().min(1).optional().default(100).describe('Most anomalies to list, highest scores first'),
+});
+
+const AnomalyDetectionOutputSchema = z.object({
+  success: z.boolean(),
+  method: z.string().optional(),
+  threshold: z.number().optional(),
+  rowCount: z.number().optional(),
+  anomalyCount: z.number().optional().describe('Anomalous rows found'),
+  rowIndices: z.array(z.number()).optional().describe(
+    'Zero-based indices of every anomalous row; pass them to the visualization tool as highlightRows',
+  ),
+  anomalies: z.array(z.object({
+    row: z.number(),
+    column: z.string().optional().describe('The column checked; omitted for isolationForest, which scores whole rows'),
+    value: z.any(),
+    score: z.number().nullable().describe('Method-specific anomaly score; null when infinite (zero spread)'),
+    reason: z.string(),
+  })).optional().describe('Anomalies with the highest scores first, up to maxResults'),
+  truncated: z.boolean().optional().describe('Whether more anomalies were found than listed'),
+  columnSummaries: z.array(z.object({
+    column: z.string(),
+    checked: z.number(),
+    anomalies: z.number().describe('Anomalies in this column; for isolationForest, rows where it is the most unusual value'),
+    center: z.number().optional(),
+    scale: z.number().optional(),
+    lowerBound: z.number().optional(),
+    upperBound: z.number().optional(),
+    seasonLength: z.number().optional(),
+  })).optional().describe('Per-column statistics the scores are based on'),
+  error: z.string().optional(),
+});
+
+interface Anomaly {
+  row: number;
+  column?: string;
+  value: any;
+  score: number;
+  reason: string;
+}
+
+type ColumnSummary = NonNullable<z.infer<typeof AnomalyDetectionOutputSchema>['columnSummaries']>[number];
+
+type Rows = Record<string, any>[];
+
+export class AnomalyDetectionTool extends DataTool<
+  typeof AnomalyDetectionInputSchema,
+  typeof AnomalyDetectionOutputSchema
+> {
+  id = 'anomalyDetectionTool';
+  description = 'Finds anomalous rows in a registered dataset or inline data with z-score, modified z-score (MAD), IQR, isolation forest or seasonal residual detection, returning the row indices, scores and reasons';
+  inputSchema = AnomalyDetectionInputSchema;
+  outputSchema = AnomalyDetectionOutputSchema;
+
+  async run(input: z.infer<typeof AnomalyDetectionInputSchema>) {
+    try {
+      const method = input.method ?? 'modifiedZScore';
+      const threshold = input.threshold ?? DEFAULT_THRESHOLDS[method];
+      const maxResults = input.maxResults ?? 100;
+      const { data, columns } = await this.loadData(input);
+      const targets = this.targetColumns(data, columns, input.targetColumns);
+
+      let found: { anomalies: Anomaly[]; summaries: ColumnSummary[] };
+      switch (method) {
+        case 'isolationForest':
+          found = this.isolationForest(data, targets, threshold, input.contamination, input.seed ?? 42);
+          break;
+        case 'seasonal':
+          if (!input.dateColumn) {
+            throw new Error('The seasonal method needs a dateColumn');
+          }
+          if (!columns.includes(input.dateColumn)) {
+            throw new Error(`Unknown date column ${input.dateColumn}`);
+          }
+          found = this.seasonal(data, targets.filter(column => column !== input.dateColumn), input.dateColumn, threshold, input.seasonLength);
+          break;
+        default:
+          found = this.univariate(data, targets, method, threshold);
+      }
+
+      const anomalies = found.anomalies.sort((a, b) => b.score - a.score || a.row - b.row);
+      const rowIndices = Array.from(new Set(anomalies.map(anomaly => anomaly.row))).sort((a, b) => a - b);
+
+      return {
+        success: true,
+        method,
+        threshold,
+        rowCount: data.length,
+        anomalyCount: rowIndices.length,
+        rowIndices,
+        // JSON has no Infinity, so scores of values off a zero spread come back as null
+        anomalies: anomalies.slice(0, maxResults).map(anomaly => ({ ...anomaly, score: isFinite(anomaly.score) ? anomaly.score : null })),
+        truncated: anomalies.length > maxResults,
+        columnSummaries: found.summaries,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+
+  private async loadData(input: z.infer<typeof AnomalyDetectionInputSchema>): Promise<{ data: Rows; columns: string[] }> {
+    if (input.datasetName) {
+      const dataset = await datasetRegistry.get(input.datasetName);
+      if (!dataset) {
+        const available = datasetRegistry.list().map(entry => entry.name);
+        throw new Error(
+          `Unknown dataset '${input.datasetName}'. ${available.length > 0 ? `Available datasets: ${available.join(', ')}` : 'No datasets are registered'}`,
+        );
+      }
+      return { data: dataset.data, columns: dataset.columns };
+    }
+    if (input.data) {
+      return { data: input.data, columns: input.columns ?? (input.data.length > 0 ? Object.keys(input.data[0]) : []) };
+    }
+    throw new Error('Provide a datasetName or inline data to check');
+  }
+
+  private isNumericColumn(data: Rows, column: string): boolean {
+    const values = data.map(row => row[column]).filter(value => !isNullish(value));
+    return values.length > 0 && values.every(value => typeof value !== 'boolean' && toNumber(value) !== null);
+  }
+
+  private targetColumns(data: Rows, columns: string[], requested?: string[]): string[] {
+    if (!requested) {
+      const numeric = columns.filter(column => this.isNumericColumn(data, column));
+      if (numeric.length === 0) {
+        throw new Error('There are no numeric columns to check');
+      }
+      return numeric;
+    }
+    const unknown = requested.filter(column => !columns.includes(column));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown column(s) ${unknown.join(', ')}. Available columns: ${columns.join(', ')}`);
+    }
+    const nonNumeric = requested.filter(column => !this.isNumericColumn(data, column));
+    if (nonNumeric.length > 0) {
+      throw new Error(`Column(s) ${nonNumeric.join(', ')} are not numeric`);
+    }
+    return requested;
+  }
+
+  /** Row indices and values of a column, skipping missing values. */
+  private present(data: Rows, column: string): { rows: number[]; values: number[] } {
+    const rows: number[] = [];
+    const values: number[] = [];
+    data.forEach((row, index) => {
+      const value = toNumber(row[column]);
+      if (value === null) return;
+      rows.push(index);
+      values.push(value);
+    });
+    return { rows, values };
+  }
+
+  private univariate(data: Rows, targets: string[], method: 'zScore' | 'modifiedZScore' | 'iqr', threshold: number) {
+    const anomalies: Anomaly[] = [];
+    const summaries: ColumnSummary[] = [];
+
+    targets.forEach(column => {
+      const { rows, values } = this.present(data, column);
+      if (values.length === 0) return;
+      let flagged = 0;
+
+      if (method === 'iqr') {
+        const fences = iqrFences(values, threshold);
+        const scores = iqrScores(values, fences);
+        values.forEach((value, i) => {
+          if (value >= fences.lower && value <= fences.upper) return;
+          flagged++;
+          const side = value > fences.upper ? 'above the upper' : 'below the lower';
+          anomalies.push({
+            row: rows[i], column, value: data[rows[i]][column], score: scores[i],
+            reason: `${column} = ${formatNumber(value)} is ${side} fence ${formatNumber(value > fences.upper ? fences.upper : fences.lower)} (quartiles ${formatNumber(fences.q1)} to ${formatNumber(fences.q3)}, ${threshold} × IQR)`,
+          });
+        });
+        summaries.push({
+          column, checked: values.length, anomalies: flagged,
+          center: percentile(values, 0.5)!, scale: fences.q3 - fences.q1, lowerBound: fences.lower, upperBound: fences.upper,
+        });
+        return;
+      }
+
+      const scored = method === 'zScore' ? zScores(values) : modifiedZScores(values);
+      values.forEach((value, i) => {
+        const score = Math.abs(scored.scores[i]);
+        if (score <= threshold) return;
+        flagged++;
+        const direction = scored.scores[i] > 0 ? 'above' : 'below';
+        anomalies.push({
+          row: rows[i], column, value: data[rows[i]][column], score,
+          reason: method === 'zScore'
+            ? `${column} = ${formatNumber(value)} is ${formatNumber(score)} standard deviations ${direction} the mean (${formatNumber(scored.center)})`
+            : `${column} = ${formatNumber(value)} is ${direction} the median (${formatNumber(scored.center)}) with a modified z-score of ${formatNumber(score)}`,
+        });
+      });
+      summaries.push({
+        column, checked: values.length, anomalies: flagged, center: scored.center, scale: scored.scale,
+        lowerBound: scored.center - threshold * scored.scale, upperBound: scored.center + threshold * scored.scale,
+      });
+    });
+
+    return { anomalies, summaries };
+  }
+
+  private isolationForest(data: Rows, targets: string[], threshold: number, contamination: number | undefined, seed: number) {
+    // Whole rows are scored, so only rows with every target value take part
+    const rows: number[] = [];
+    const points: number[][] = [];
+    data.forEach((row, index) => {
+      const point = targets.map(column => toNumber(row[column]));
+      if (point.some(value => value === null)) return;
+      rows.push(index);
+      points.push(point as number[]);
+    });
+    if (points.length < 3) {
+      throw new Error('The isolation forest needs at least 3 complete rows');
+    }
+
+    const scores = isolationForestScores(points, { seed });
+    let cutoff = threshold;
+    if (contamination !== undefined) {
+      const sorted = [...scores].sort((a, b) => b - a);
+      cutoff = sorted[Math.max(0, Math.ceil(contamination * scores.length) - 1)];
+    }
+
+    // The reason names the column that departs most from its typical range
+    const robust = targets.map((_, j) => modifiedZScores(points.map(point => point[j])));
+    const anomalies: Anomaly[] = [];
+    const attributed = targets.map(() => 0);
+    scores.forEach((score, i) => {
+      if (contamination !== undefined ? score < cutoff : score <= cutoff) return;
+      const furthest = targets
+        .map((column, j) => ({ column, value: points[i][j], z: Math.abs(robust[j].scores[i]) }))
+        .sort((a, b) => b.z - a.z)[0];
+      attributed[targets.indexOf(furthest.column)]++;
+      anomalies.push({
+        row: rows[i],
+        value: Object.fromEntries(targets.map(column => [column, data[rows[i]][column]])),
+        score,
+        reason: `Isolated by unusually few random splits (anomaly score ${formatNumber(score)}); most unusual value: ${furthest.column} = ${formatNumber(furthest.value)} against a median of ${formatNumber(robust[targets.indexOf(furthest.column)].center)}`,
+      });
+    });
+
+    const summaries = targets.map((column, j) => ({
+      column, checked: points.length, anomalies: attributed[j], center: robust[j].center, scale: robust[j].scale,
+    }));
+    return { anomalies, summaries };
+  }
+
+  private seasonal(data: Rows, targets: string[], dateColumn: string, threshold: number, seasonLength?: number) {
+    if (targets.length === 0) {
+      throw new Error('There are no numeric columns to check besides the date column');
+    }
+    const anomalies: Anomaly[] = [];
+    const summaries: ColumnSummary[] = [];
+
+    targets.forEach(column => {
+      // The series is read in date order and assumed to be evenly spaced
+      const series = data
+        .map((row, index) => ({ index, date: toDate(row[dateColumn]), value: toNumber(row[column]) }))
+        .filter((point): point is { index: number; date: Date; value: number } => point.date !== null && point.value !== null)
+        .sort((a, b) => a.date.getTime() - b.date.getTime() || a.index - b.index);
+      const length = seasonLength ?? this.inferSeasonLength(series.map(point => point.date));
+      const parts = decompose(series.map(point => point.value), length);
+      const scored = modifiedZScores(parts.residual);
+      let flagged = 0;
+
+      series.forEach((point, i) => {
+        const score = Math.abs(scored.scores[i]);
+        if (score <= threshold) return;
+        flagged++;
+        const expected = parts.trend[i] + parts.seasonal[i];
+        anomalies.push({
+          row: point.index, column, value: data[point.index][column], score,
+          reason: `${column} = ${formatNumber(point.value)} on ${formatDate(point.date)} is ${formatNumber(Math.abs(point.value - expected))} ${point.value > expected ? 'above' : 'below'} the expected ${formatNumber(expected)} (trend ${formatNumber(parts.trend[i])}, seasonal ${formatNumber(parts.seasonal[i])}); residual score ${formatNumber(score)}`,
+        });
+      });
+      summaries.push({ column, checked: series.length, anomalies: flagged, center: scored.center, scale: scored.scale, seasonLength: length });
+    });
+
+    return { anomalies, summaries };
+  }
+
+  private inferSeasonLength(dates: Date[]): number {
+    const period = inferPeriod(dates);
+    const length = period ? SEASON_LENGTHS[period] : undefined;
+    if (length) return length;
+    throw new Error('Cannot infer a season length from the date spacing; set seasonLength');
+  }
+}
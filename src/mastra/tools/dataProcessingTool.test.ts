@@ -0,0 +1,73 @@
+import { createHash } from 'crypto';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { DataProcessingTool } from './dataProcessingTool';
+
+const tool = new DataProcessingTool();
+const previousRoot = process.env.DATA_DIR;
+let root: string;
+
+// Large enough to take several stream chunks
+const regions = ['North', 'South', 'East', 'West'];
+const csv = ['id,region,amount', ...Array.from({ length: 20000 }, (_, i) => `${i + 1},${regions[i % 4]},${(i % 97) + 0.5}`)].join('\n');
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), 'data-'));
+  process.env.DATA_DIR = root;
+  await mkdir(join(root, 'sales'));
+  await writeFile(join(root, 'sales', 'orders.csv'), csv);
+  await writeFile(join(root, 'people.json'), JSON.stringify([{ name: 'Ada', age: 36 }, { name: 'Grace', age: 45 }]));
+});
+
+afterAll(async () => {
+  if (previousRoot === undefined) delete process.env.DATA_DIR;
+  else process.env.DATA_DIR = previousRoot;
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('DataProcessingTool', () => {
+  it('streams a file from the data directory and returns a summary rather than the rows', async () => {
+    const result = await tool.invoke({
+      filePath: 'sales/orders.csv', fileType: 'csv', datasetName: 'processing_orders', options: { previewRows: 3, sampleSize: 8 },
+    });
+    expect(result).toMatchObject({ success: true, datasetName: 'processing_orders', rowCount: 20000, parseErrorCount: 0 });
+    expect(result).not.toHaveProperty('data');
+    expect(result.preview).toEqual([
+      { id: 1, region: 'North', amount: 0.5 },
+      { id: 2, region: 'South', amount: 1.5 },
+      { id: 3, region: 'East', amount: 2.5 },
+    ]);
+    expect(result.sample!.column).toBe('region');
+    expect(result.sample!.rows).toHaveLength(8);
+    expect(result.sample!.strata.map(stratum => stratum.sampled)).toEqual([2, 2, 2, 2]);
+    expect(result.profile!.rowCount).toBe(20000);
+    expect(result.sourceHash).toBe(createHash('sha256').update(csv).digest('hex'));
+
+    const dataset = await datasetRegistry.get('processing_orders');
+    expect(dataset!.rowCount).toBe(20000);
+    expect(dataset!.metadata).toMatchObject({ fileType: 'csv', sourceHash: result.sourceHash });
+  });
+
+  it('reads JSON files by path and hashes inline content like the file', async () => {
+    const byPath = await tool.invoke({ filePath: './people.json', fileType: 'json' });
+    expect(byPath).toMatchObject({ success: true, columns: ['name', 'age'], rowCount: 2 });
+    const inline = await tool.invoke({ fileContent: JSON.stringify([{ name: 'Ada', age: 36 }, { name: 'Grace', age: 45 }]), fileType: 'json' });
+    expect(inline.sourceHash).toBe(byPath.sourceHash);
+  });
+
+  it('refuses paths outside the data directory', async () => {
+    for (const filePath of ['/etc/passwd', '../secrets.csv', 'sales/../../secrets.csv']) {
+      expect(await tool.invoke({ filePath, fileType: 'csv' }))
+        .toEqual({ success: false, error: `filePath '${filePath}' must be a relative path inside ${root}` });
+    }
+  });
+
+  it('needs exactly one of fileContent and filePath', async () => {
+    expect((await tool.invoke({ fileType: 'csv' })).error).toBe('Provide either fileContent or filePath');
+    expect((await tool.invoke({ fileContent: 'a\n1', filePath: 'sales/orders.csv', fileType: 'csv' })).error)
+      .toBe('Provide either fileContent or filePath');
+  });
+});
@@ -1,71 +1,165 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { readFile } from 'fs/promises';
 import { z } from 'zod';
-import { Tool } from '@mastra/core';
+import { applyCleaning, CleaningRuleSchema, CleaningStepReport } from '../data/cleaning';
+import { parseCsv, readCsvFile } from '../data/csvParser';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { DatasetProfile, profileData } from '../data/profiler';
+import { stratifiedSample } from '../data/sampling';
+import { applyTimeSeries, TimeSeriesReport, TimeSeriesSchema } from '../data/timeSeries';
+import { applySchema, ColumnSchema, inferSchema } from '../data/typeInference';
+import { XlsxWorkbook } from '../data/xlsxReader';
+import { DataTool, resolveWithinRoot } from './dataTool';
+
+// Malformed rows beyond this are counted but not listed
+const MAX_PARSE_ERRORS = 50;
+
+// Columns with more values than this are not used to stratify the sample by default
+const MAX_STRATA = 20;
 
 const DataProcessingInputSchema = z.object({
-  fileContent: z.string().describe('The content of the uploaded file (CSV or Excel)'),
+  fileContent: z.string().optional().describe('The content of the uploaded file (CSV or JSON text, or a base64-encoded .xlsx workbook)'),
+  filePath: z.string().optional().describe(
+    'Path of a file in the data directory ($DATA_DIR or ./data), relative to it, to read instead of fileContent; CSV files are parsed as they stream in, so use this for large files',
+  ),
   fileType: z.enum(['csv', 'xlsx', 'json']).describe('The type of file being processed'),
+  datasetName: z.string().optional().describe(
+    'Name to register the cleaned data under so SQL queries can reference it as a table (letters, digits and underscores)',
+  ),
   options: z.object({
-    encoding: z.string().optional().default('utf-8'),
+    encoding: z.string().optional().default('utf-8').describe('Character encoding used to decode base64 file content'),
+    isBase64: z.boolean().optional().default(false).describe('Whether fileContent holds the base64-encoded bytes of the file'),
     hasHeader: z.boolean().optional().default(true),
-    delimiter: z.string().optional().default(','),
+    delimiter: z.string().optional().default('auto').describe("Field delimiter, or 'auto' to detect comma, semicolon, tab or pipe"),
+    quote: z.string().optional().default('"'),
+    escape: z.string().optional().describe('Escape character inside quoted fields, defaults to the quote character'),
+    commentChar: z.string().optional().describe('Skip lines starting with this character'),
+    sheet: z.union([z.string(), z.number()]).optional().describe('Excel sheet name or zero-based index, defaults to the first sheet'),
+    range: z.string().optional().describe('Excel cell range to read, e.g. A1:F200; defaults to the used range'),
+    headerRows: z.number().optional().default(1).describe('Number of Excel header rows combined into column names'),
+    inferTypes: z.boolean().optional().default(true).describe('Infer column types and convert the cleaned values to them'),
+    previewRows: z.number().int().min(0).max(100).optional().default(10).describe('Number of leading cleaned rows to return'),
+    sampleSize: z.number().int().min(0).max(200).optional().default(20).describe('Number of rows in the stratified sample'),
+    stratifyBy: z.string().optional().describe(
+      'Column whose values the sample is stratified by; defaults to the first categorical column with at most 20 values',
+    ),
   }).optional(),
+  cleaning: z.array(CleaningRuleSchema).optional().describe(
+    'Cleaning rules applied in order after type conversion: dedupe, impute, capOutliers, normalizeStrings, renameColumns, selectColumns',
+  ),
+  timeSeries: TimeSeriesSchema.optional().describe(
+    'Applied after cleaning: sort by a date column, resample to a period with gap filling, and add rolling, change and cumulative columns',
+  ),
 });
 
 const DataProcessingOutputSchema = z.object({
   success: z.boolean(),
-  data: z.array(z.record(z.any())).optional(),
-  columns: z.array(z.string()).optional(),
-  rowCount: z.number().optional(),
+  datasetName: z.string().optional().describe('The table name the cleaned data was registered under'),
+  datasetId: z.string().optional().describe('ID of the registered dataset, accepted wherever a dataset name is'),
+  columns: z.array(z.string()).optional().describe('Columns of the file as read'),
+  rowCount: z.number().optional().describe('Rows read from the file'),
   error: z.string().optional(),
-  cleanedData: z.array(z.record(z.any())).optional(),
+  preview: z.array(z.record(z.any())).optional().describe(
+    'The first cleaned rows; the full data stays on the server and is queried through the dataset',
+  ),
+  sample: z.object({
+    rows: z.array(z.record(z.any())),
+    column: z.string().optional().describe('The column the sample is stratified by'),
+    strata: z.array(z.object({ value: z.string(), rows: z.number(), sampled: z.number() })),
+  }).optional().describe('Cleaned rows sampled across the values of a categorical column, or evenly when there is none'),
+  parseErrors: z.array(z.object({
+    line: z.number(),
+    message: z.string(),
+  })).optional().describe(`Malformed CSV rows, which are skipped (the first ${MAX_PARSE_ERRORS})`),
+  parseErrorCount: z.number().optional().describe('Number of malformed CSV rows'),
+  sourceHash: z.string().optional().describe('SHA-256 of the file bytes, recorded with the dataset for reproducibility'),
+  sheets: z.array(z.string()).optional().describe('Sheet names in the Excel workbook'),
+  sheetName: z.string().optional().describe('The Excel sheet that was read'),
+  schema: z.array(z.object({
+    name: z.string(),
+    type: z.enum(['integer', 'float', 'boolean', 'date', 'datetime', 'currency', 'percent', 'categorical', 'text', 'empty']),
+    nullable: z.boolean(),
+    format: z.string().optional(),
+  })).optional().describe('Inferred column types; dates are converted to ISO strings and currency/percent to numbers'),
+  profile: z.object({
+    rowCount: z.number(),
+    columnCount: z.number(),
+    columns: z.array(z.object({
+      name: z.string(),
+      type: z.string(),
+      nullCount: z.number(),
+      nullRate: z.number(),
+      distinctCount: z.number(),
+      min: z.union([z.number(), z.string()]).optional(),
+      max: z.union([z.number(), z.string()]).optional(),
+      mean: z.number().optional(),
+      topValues: z.array(z.object({ value: z.any(), count: z.number() })),
+      sampleValues: z.array(z.any()),
+    })),
+  }).optional(),
+  cleaningReport: z.array(z.object({
+    rule: z.string(),
+    columns: z.array(z.string()),
+    cellsChanged: z.number(),
+    rowsChanged: z.number(),
+    rowsRemoved: z.number(),
+    details: z.string().optional(),
+  })).optional().describe('What each cleaning rule changed'),
+  timeSeriesReport: z.object({
+    period: z.string().optional(),
+    series: z.number(),
+    periods: z.number(),
+    filledRows: z.number(),
+    droppedRows: z.number(),
+    addedColumns: z.array(z.string()),
+  }).optional().describe('How the time series step reshaped the data'),
 });
 
-export class DataProcessingTool extends Tool<
+export class DataProcessingTool extends DataTool<
   typeof DataProcessingInputSchema,
   typeof DataProcessingOutputSchema
 > {
-  name = 'dataProcessingTool';
-  description = 'Processes and cleans uploaded data files (CSV, Excel, JSON) for analysis';
+  id = 'dataProcessingTool';
+  description = 'Processes and cleans uploaded data files (CSV, Excel, JSON), given as content or as a server file path, and registers the result as a dataset; returns a profile, the first rows and a stratified sample rather than the full data';
   inputSchema = DataProcessingInputSchema;
   outputSchema = DataProcessingOutputSchema;
 
-  async execute(input: z.infer<typeof DataProcessingInputSchema>) {
+  async run(input: z.infer<typeof DataProcessingInputSchema>) {
     try {
-      const { fileContent, fileType, options = {} } = input;
+      const { fileContent, filePath, fileType, datasetName, cleaning = [], timeSeries } = input;
+      const options: Partial<NonNullable<typeof input.options>> = input.options ?? {};
+      if ((fileContent === undefined) === (filePath === undefined)) {
+        throw new Error('Provide either fileContent or filePath');
+      }
+      const path = filePath === undefined ? undefined : resolveWithinRoot(process.env.DATA_DIR ?? 'data', filePath, 'filePath');
       
       let data: any[] = [];
       let columns: string[] = [];
+      let parseErrors: { line: number; message: string }[] = [];
+      let sheetInfo: { sheets: string[]; sheetName: string } | undefined;
 
       // Parse the file content based on type
       if (fileType === 'csv') {
-        const lines = fileContent.split('\n');
-        if (options.hasHeader && lines.length > 0) {
-          columns = lines[0].split(options.delimiter || ',').map(col => col.trim());
-          data = lines.slice(1).map(line => {
-            const values = line.split(options.delimiter || ',');
-            const row: Record<string, any> = {};
-            columns.forEach((col, index) => {
-              row[col] = values[index]?.trim() || '';
-            });
-            return row;
-          });
-        } else {
-          // Generate column names if no header
-          const firstLine = lines[0];
-          const columnCount = firstLine.split(options.delimiter || ',').length;
-          columns = Array.from({ length: columnCount }, (_, i) => `Column_${i + 1}`);
-          data = lines.map(line => {
-            const values = line.split(options.delimiter || ',');
-            const row: Record<string, any> = {};
-            columns.forEach((col, index) => {
-              row[col] = values[index]?.trim() || '';
-            });
-            return row;
-          });
-        }
+        const csvOptions = {
+          delimiter: options.delimiter,
+          quote: options.quote,
+          escape: options.escape,
+          comment: options.commentChar,
+          hasHeader: options.hasHeader ?? true,
+        };
+        const parsed = path
+          ? await readCsvFile(path, { ...csvOptions, encoding: options.encoding })
+          : parseCsv(this.decodeContent(fileContent!, options), csvOptions);
+        columns = parsed.columns;
+        data = parsed.data;
+        parseErrors = parsed.errors;
       } else if (fileType === 'json') {
         try {
-          const jsonData = JSON.parse(fileContent);
+          const text = path
+            ? this.decodeBytes(await readFile(path), options.encoding)
+            : this.decodeContent(fileContent!, options);
+          const jsonData = JSON.parse(text);
           if (Array.isArray(jsonData)) {
             data = jsonData;
             if (data.length > 0) {
@@ -78,19 +172,90 @@ export class DataProcessingTool extends Tool<
         } catch (parseError) {
           throw new Error(`Failed to parse JSON: ${parseError}`);
         }
+      } else if (fileType === 'xlsx') {
+        // Workbooks are binary, so their content always arrives base64-encoded
+        const workbook = path
+          ? XlsxWorkbook.fromBytes(new Uint8Array(await readFile(path)))
+          : XlsxWorkbook.fromBase64(fileContent!);
+        const sheet = workbook.readSheet({
+          sheet: options.sheet,
+          range: options.range,
+          hasHeader: options.hasHeader ?? true,
+          headerRows: options.headerRows,
+        });
+        columns = sheet.columns;
+        data = sheet.data;
+        sheetInfo = { sheets: sheet.sheets, sheetName: sheet.sheetName };
       } else {
         throw new Error(`Unsupported file type: ${fileType}`);
       }
 
-      // Clean the data
-      const cleanedData = this.cleanData(data);
+      // Clean the data, then infer column types and convert values to them
+      const cleanedRows = this.cleanData(data);
+      let schema = options.inferTypes === false ? undefined : inferSchema(cleanedRows, columns);
+      let cleanedData = schema ? applySchema(cleanedRows, schema) : cleanedRows;
+      let cleanedColumns = columns;
+      let cleaningReport: CleaningStepReport[] | undefined;
+
+      if (cleaning.length > 0) {
+        const cleaned = applyCleaning(cleanedData, columns, cleaning);
+        cleanedData = cleaned.data;
+        cleanedColumns = cleaned.columns;
+        cleaningReport = cleaned.report;
+
+        // Carry the inferred types over to renamed columns and drop removed ones
+        if (schema) {
+          const original = new Map(Object.entries(cleaned.renamed).map(([from, to]) => [to, from]));
+          const byName = new Map(schema.map(column => [column.name, column]));
+          schema = cleanedColumns.map(name => ({ ...byName.get(original.get(name) ?? name)!, name }));
+        }
+      }
+
+      let timeSeriesReport: TimeSeriesReport | undefined;
+      if (timeSeries) {
+        const resampled = applyTimeSeries(cleanedData, cleanedColumns, timeSeries);
+        cleanedData = resampled.data;
+        cleanedColumns = resampled.columns;
+        timeSeriesReport = resampled.report;
+        // Resampling changes the rows, so the types are inferred again from the result
+        if (schema) {
+          schema = inferSchema(cleanedData, cleanedColumns);
+        }
+      }
+
+      const profile = schema ? profileData(cleanedData, schema) : undefined;
+      const stratifyBy = options.stratifyBy ?? this.defaultStratum(schema, profile);
+      if (stratifyBy && !cleanedColumns.includes(stratifyBy)) {
+        throw new Error(`Cannot stratify the sample by '${stratifyBy}': no such column`);
+      }
+
+      // Register the cleaned data so later queries can refer to it by name
+      const sourceHash = path
+        ? await this.hashFile(path)
+        : this.hashContent(fileContent!, fileType === 'xlsx' || options.isBase64 === true);
+      const dataset = await datasetRegistry.register(datasetName ?? datasetRegistry.nextName(), {
+        data: cleanedData,
+        columns: cleanedColumns,
+        metadata: { fileType, sourceHash, schema, cleaning: cleaning.length > 0 ? cleaning : undefined, timeSeries },
+      });
 
+      // The data stays on the server; the agent gets a summary and a few representative rows
       return {
         success: true,
-        data,
+        datasetName: dataset.name,
+        datasetId: dataset.id,
         columns,
         rowCount: data.length,
-        cleanedData,
+        preview: cleanedData.slice(0, options.previewRows ?? 10),
+        sample: stratifiedSample(cleanedData, options.sampleSize ?? 20, stratifyBy),
+        parseErrors: parseErrors.slice(0, MAX_PARSE_ERRORS),
+        parseErrorCount: parseErrors.length,
+        sourceHash,
+        ...sheetInfo,
+        schema,
+        profile,
+        cleaningReport,
+        timeSeriesReport,
       };
     } catch (error) {
       return {
@@ -100,6 +265,44 @@ export class DataProcessingTool extends Tool<
     }
   }
 
+  /** The first categorical or boolean column with few enough values to sample each of them. */
+  private defaultStratum(schema?: ColumnSchema[], profile?: DatasetProfile): string | undefined {
+    return schema?.find(column => {
+      if (column.type !== 'categorical' && column.type !== 'boolean') return false;
+      const distinct = profile?.columns.find(entry => entry.name === column.name)?.distinctCount ?? Infinity;
+      return distinct > 1 && distinct <= MAX_STRATA;
+    })?.name;
+  }
+
+  private async hashFile(path: string): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of createReadStream(path)) {
+      hash.update(chunk as Buffer);
+    }
+    return hash.digest('hex');
+  }
+
+  /** Hashes the bytes of the file, so the hash matches one taken of the file itself. */
+  private hashContent(fileContent: string, isBase64: boolean): string {
+    const bytes = isBase64 ? Buffer.from(fileContent, 'base64') : Buffer.from(fileContent, 'utf-8');
+    return createHash('sha256').update(bytes).digest('hex');
+  }
+
+  private decodeContent(fileContent: string, options: { encoding?: string; isBase64?: boolean }): string {
+    if (!options.isBase64) {
+      return fileContent;
+    }
+    return this.decodeBytes(Buffer.from(fileContent, 'base64'), options.encoding);
+  }
+
+  private decodeBytes(bytes: Uint8Array, encoding?: string): string {
+    try {
+      return new TextDecoder(encoding || 'utf-8').decode(bytes);
+    } catch (error) {
+      throw new Error(`Unsupported encoding '${encoding}': ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
   private cleanData(data: Record<string, any>[]): Record<string, any>[] {
     return data.map(row => {
       const cleanedRow: Record<string, any> = {};
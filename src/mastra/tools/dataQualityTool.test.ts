@@ -0,0 +1,62 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { DataQualityTool } from './dataQualityTool';
+
+const tool = new DataQualityTool();
+
+beforeAll(async () => {
+  await datasetRegistry.register('quality_customers', {
+    data: [{ customer_id: 1 }, { customer_id: 2 }],
+    columns: ['customer_id'],
+  });
+  await datasetRegistry.register('quality_orders', {
+    data: [
+      { order_id: 10, customer_id: 1, ordered_at: '2024-05-01' },
+      { order_id: 11, customer_id: '2', ordered_at: '2024-05-03' },
+      { order_id: 12, customer_id: 7, ordered_at: '2024-05-04' },
+    ],
+    columns: ['order_id', 'customer_id', 'ordered_at'],
+  });
+});
+
+describe('DataQualityTool', () => {
+  it('reports each expectation with samples of the offending rows', async () => {
+    const result = await tool.invoke({
+      dataset: 'quality_orders',
+      expectations: [
+        { type: 'references', column: 'customer_id', dataset: 'quality_customers' },
+        { type: 'freshness', column: 'ordered_at', maxAgeDays: 3, severity: 'warning' },
+        { type: 'unique', columns: ['order_id'] },
+      ],
+      asOf: '2024-05-06',
+    });
+    expect(result).toMatchObject({
+      success: true, passed: false, rowCount: 3, summary: { expectations: 3, passed: 2, failed: 1, criticalFailures: 1 },
+    });
+    // Keys match by their text, so '2' refers to customer 2
+    expect(result.results![0]).toMatchObject({ success: false, failed: 1, samples: [{ row: 2, values: { customer_id: 7 } }] });
+    expect(result.results![1]).toMatchObject({ success: true, observed: 'latest 2024-05-04, 2 day(s) old' });
+    expect(result.failures).toEqual(['[critical] every customer_id exists in quality_customers.customer_id: 1 of 3 row(s) fail (33.3%); e.g. row(s) 2']);
+  });
+
+  it('passes when only warnings fail', async () => {
+    const result = await tool.invoke({
+      dataset: 'quality_orders',
+      expectations: [{ type: 'inSet', column: 'customer_id', values: [1, 2], severity: 'warning' }],
+      sampleSize: 0,
+    });
+    expect(result).toMatchObject({ success: true, passed: true, summary: { failed: 1, criticalFailures: 0 } });
+    expect(result.results![0].samples).toEqual([]);
+  });
+
+  it('reports unknown datasets, bad dates and invalid expectations', async () => {
+    expect((await tool.invoke({ dataset: 'quality_missing', expectations: [{ type: 'rowCount', min: 1 }] })).error)
+      .toMatch(/^Unknown dataset 'quality_missing'\. Available datasets: /);
+    expect((await tool.invoke({
+      dataset: 'quality_orders', expectations: [{ type: 'references', column: 'customer_id', dataset: 'quality_nowhere' }],
+    })).error).toMatch(/^Unknown dataset 'quality_nowhere'/);
+    expect((await tool.invoke({ dataset: 'quality_orders', expectations: [{ type: 'rowCount', min: 1 }], asOf: 'tomorrow' })).error)
+      .toBe("asOf 'tomorrow' is not a date");
+    expect((await tool.invoke({ dataset: 'quality_orders', expectations: [] })).error).toMatch(/^Invalid input to dataQualityTool: expectations: /);
+  });
+});
@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { ExpectationSchema, summarizeFailures, validateExpectations } from '../data/expectations';
+import { DataTool } from './dataTool';
+
+const DataQualityInputSchema = z.object({
+  dataset: z.string().describe('Name or ID of the registered dataset to validate'),
+  expectations: z.array(ExpectationSchema).min(1).describe(
+    'Expectations to check: notNull, unique, inRange, matchesRegex, inSet, references (another dataset\'s key), rowCount and freshness',
+  ),
+  sampleSize: z.number().int().min(0).max(100).optional().default(5).describe('Failing rows to list per expectation'),
+  asOf: z.string().optional().describe('Date freshness is measured from, as YYYY-MM-DD; defaults to now'),
+});
+
+const DataQualityOutputSchema = z.object({
+  success: z.boolean(),
+  passed: z.boolean().optional().describe('Whether every critical expectation held; gate the analysis on this'),
+  rowCount: z.number().optional(),
+  summary: z.object({
+    expectations: z.number(),
+    passed: z.number(),
+    failed: z.number(),
+    criticalFailures: z.number(),
+  }).optional(),
+  results: z.array(z.object({
+    expectation: z.string(),
+    description: z.string(),
+    columns: z.array(z.string()),
+    severity: z.enum(['critical', 'warning']),
+    success: z.boolean(),
+    checked: z.number().describe('Rows checked; missing values are skipped except by notNull'),
+    failed: z.number(),
+    observed: z.string().optional(),
+    samples: z.array(z.object({
+      row: z.number().describe('Zero-based row index'),
+      values: z.record(z.any()),
+    })).describe('The first failing rows'),
+  })).optional(),
+  failures: z.array(z.string()).optional().describe('One line per failed expectation, critical first'),
+  error: z.string().optional(),
+});
+
+type DataQualityInput = z.infer<typeof DataQualityInputSchema>;
+
+export class DataQualityTool extends DataTool<typeof DataQualityInputSchema, typeof DataQualityOutputSchema> {
+  id = 'dataQualityTool';
+  description = 'Validates a registered dataset against declared expectations (not null, unique, within range, matches regex, in an allowed set, referential integrity with another dataset, row count bounds and date freshness) and returns a pass/fail report with samples of the offending rows. Critical failures mean the data should not be analysed as it is';
+  inputSchema = DataQualityInputSchema;
+  outputSchema = DataQualityOutputSchema;
+
+  async run(input: DataQualityInput) {
+    try {
+      const dataset = await this.loadDataset(input.dataset);
+      const referenced = new Map<string, Record<string, any>[]>();
+      for (const expectation of input.expectations) {
+        if (expectation.type === 'references' && !referenced.has(expectation.dataset)) {
+          referenced.set(expectation.dataset, (await this.loadDataset(expectation.dataset)).data);
+        }
+      }
+      const now = input.asOf ? new Date(input.asOf) : undefined;
+      if (now && isNaN(now.getTime())) {
+        throw new Error(`asOf '${input.asOf}' is not a date`);
+      }
+
+      const report = validateExpectations(dataset.data, dataset.columns, input.expectations, {
+        referenced,
+        now,
+        sampleSize: input.sampleSize,
+      });
+      return {
+        success: true,
+        passed: report.success,
+        rowCount: report.rowCount,
+        summary: {
+          expectations: report.results.length,
+          passed: report.passed,
+          failed: report.failed,
+          criticalFailures: report.criticalFailures,
+        },
+        results: report.results,
+        failures: summarizeFailures(report),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+
+  private async loadDataset(name: string) {
+    const dataset = await datasetRegistry.get(name);
+    if (!dataset) {
+      const available = datasetRegistry.list().map(entry => entry.name);
+      throw new Error(
+        `Unknown dataset '${name}'. ${available.length > 0 ? `Available datasets: ${available.join(', ')}` : 'No datasets are registered'}`,
+      );
+    }
+    return dataset;
+  }
+}
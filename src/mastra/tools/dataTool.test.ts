@@ -0,0 +1,42 @@
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { resolveWithinRoot } from './dataTool';
+
+let dir: string;
+let root: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'within-root-'));
+  root = join(dir, 'root');
+  await mkdir(join(root, 'inside'), { recursive: true });
+  await mkdir(join(dir, 'outside'));
+  await writeFile(join(dir, 'outside', 'secret.csv'), 'a\n1\n');
+  await symlink(join(dir, 'outside'), join(root, 'escape'));
+  await symlink(join(root, 'inside'), join(root, 'shortcut'));
+});
+
+afterAll(() => rm(dir, { recursive: true, force: true }));
+
+describe('resolveWithinRoot', () => {
+  it('resolves relative paths under the root', () => {
+    expect(resolveWithinRoot(root, undefined, 'path')).toBe(root);
+    expect(resolveWithinRoot(root, 'inside/../data.csv', 'path')).toBe(join(root, 'data.csv'));
+    expect(resolveWithinRoot(root, '..data.csv', 'path')).toBe(join(root, '..data.csv'));
+    expect(resolveWithinRoot(root, 'new/dir', 'path')).toBe(join(root, 'new', 'dir'));
+    expect(resolveWithinRoot(root, 'shortcut/new', 'path')).toBe(join(root, 'shortcut', 'new'));
+  });
+
+  it('rejects absolute paths and paths that climb out of the root', () => {
+    for (const path of ['/etc/passwd', '..', '../outside', 'inside/../../outside']) {
+      expect(() => resolveWithinRoot(root, path, 'path')).toThrow(`path '${path}' must be a relative path inside ${root}`);
+    }
+  });
+
+  it('rejects symbolic links leading out of the root', () => {
+    for (const path of ['escape', 'escape/secret.csv', 'escape/new/dir']) {
+      expect(() => resolveWithinRoot(root, path, 'outputDir')).toThrow(`outputDir '${path}' must be a relative path inside ${root}`);
+    }
+  });
+});
@@ -0,0 +1,71 @@
+import { existsSync, realpathSync } from 'fs';
+import { dirname, isAbsolute, relative, resolve, sep } from 'path';
+import { z } from 'zod';
+import { Tool } from '@mastra/core/tools';
+
+type ToolOutput = z.ZodType<{ success: boolean; error?: string }>;
+
+/** The agent run a tool is called from, when there is one. */
+export interface ToolRunContext {
+  runId?: string;
+  threadId?: string;
+  resourceId?: string;
+}
+
+/** Whether `target` is `base` or lies below it. */
+function isWithin(base: string, target: string): boolean {
+  const fromBase = relative(base, target);
+  return fromBase !== '..' && !fromBase.startsWith(`..${sep}`) && !isAbsolute(fromBase);
+}
+
+/** The real path of `path`, or of its nearest ancestor that exists, with the rest appended. */
+function realPathOf(path: string): string {
+  let existing = path;
+  while (!existsSync(existing) && dirname(existing) !== existing) existing = dirname(existing);
+  return resolve(realpathSync(existing), relative(existing, path));
+}
+
+/**
+ * Resolves a path given to a tool against the directory the tool is confined
+ * to. Absolute paths and paths that climb out of the root are rejected, so
+ * agents cannot read or write files elsewhere on the server. Symbolic links
+ * are followed, so a link inside the root cannot lead out of it either.
+ */
+export function resolveWithinRoot(root: string, path: string | undefined, description: string): string {
+  const base = resolve(root);
+  if (path === undefined) return base;
+  const target = resolve(base, path);
+  if (isAbsolute(path) || !isWithin(base, target) || !isWithin(realPathOf(base), realPathOf(target))) {
+    throw new Error(`${description} '${path}' must be a relative path inside ${base}`);
+  }
+  return target;
+}
+
+/**
+ * Base class of the project's tools. Mastra declares `execute` as a field and
+ * calls it with the input wrapped in `{ context }`, so tools implement `run`
+ * on the bare input instead. `invoke` validates the input and applies the
+ * schema defaults before running, for agents and workflow steps alike.
+ */
+export abstract class DataTool<TInput extends z.ZodTypeAny, TOutput extends ToolOutput> extends Tool<TInput, TOutput> {
+  abstract override inputSchema: TInput;
+  abstract override outputSchema: TOutput;
+
+  constructor() {
+    // Subclasses set the id, description and schemas as fields
+    super({ id: '', description: '' });
+    this.execute = async ({ context, runId, threadId, resourceId }) =>
+      this.invoke(context, { runId, threadId, resourceId }) as Promise<any>;
+  }
+
+  abstract run(input: z.infer<TInput>, runContext: ToolRunContext): Promise<z.infer<TOutput>>;
+
+  async invoke(input: z.input<TInput>, runContext: ToolRunContext = {}): Promise<z.infer<TOutput>> {
+    const parsed = this.inputSchema.safeParse(input);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'input'}: ${issue.message}`);
+      return { success: false, error: `Invalid input to ${this.id}: ${issues.join('; ')}` } as z.infer<TOutput>;
+    }
+    return this.run(parsed.data, runContext);
+  }
+}
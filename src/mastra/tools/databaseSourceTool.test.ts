@@ -0,0 +1,66 @@
+import Database from 'libsql';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { DatabaseSourceTool } from './databaseSourceTool';
+
+const tool = new DatabaseSourceTool();
+const previousRoot = process.env.DATA_DIR;
+let root: string;
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), 'databases-'));
+  process.env.DATA_DIR = root;
+  const db = new Database(join(root, 'sales.db'));
+  db.exec(`
+    CREATE TABLE sales (month TEXT, region TEXT, revenue REAL);
+    INSERT INTO sales VALUES ('2024-01', 'North', 10), ('2024-01', 'South', 5), ('2024-02', 'North', 20);
+  `);
+  db.close();
+});
+
+afterAll(async () => {
+  if (previousRoot === undefined) delete process.env.DATA_DIR;
+  else process.env.DATA_DIR = previousRoot;
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('DatabaseSourceTool', () => {
+  it('lists the tables of a database in the data directory', async () => {
+    const result = await tool.invoke({ path: 'sales.db', action: 'listTables' });
+    expect(result.tables).toEqual([{
+      name: 'sales',
+      type: 'table',
+      rowCount: 3,
+      columns: [
+        { name: 'month', type: 'TEXT', nullable: true, primaryKey: false },
+        { name: 'region', type: 'TEXT', nullable: true, primaryKey: false },
+        { name: 'revenue', type: 'REAL', nullable: true, primaryKey: false },
+      ],
+    }]);
+  });
+
+  it('returns query results as data and columns, and saves them as a dataset', async () => {
+    const result = await tool.invoke({
+      path: 'sales.db', query: 'SELECT month, SUM(revenue) AS revenue FROM sales GROUP BY month', maxRows: 1, saveAs: 'database_monthly',
+    });
+    expect(result).toMatchObject({
+      success: true, columns: ['month', 'revenue'], data: [{ month: '2024-01', revenue: 15 }], rowCount: 1, truncated: true,
+      datasetName: 'database_monthly',
+    });
+    const dataset = await datasetRegistry.get('database_monthly');
+    expect(dataset!.metadata).toMatchObject({ source: { type: 'sqlite', path: 'sales.db' }, truncated: true });
+  });
+
+  it('rejects writes and databases outside the data directory', async () => {
+    expect((await tool.invoke({ path: 'sales.db', query: 'UPDATE sales SET revenue = 0' })).error)
+      .toBe('Only read-only SELECT queries are allowed, not UPDATE');
+    expect((await tool.invoke({ path: 'sales.db' })).error).toBe('Provide a query to run, or use action listTables to see the tables');
+    for (const path of [join(root, 'sales.db'), '../sales.db']) {
+      expect(await tool.invoke({ path, query: 'SELECT 1' }))
+        .toEqual({ success: false, error: `path '${path}' must be a relative path inside ${root}` });
+    }
+  });
+});
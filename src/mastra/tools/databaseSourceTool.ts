@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { listSqliteTables, querySqlite } from '../data/sqliteSource';
+import { DataTool, resolveWithinRoot } from './dataTool';
+
+// Rows returned per query by default, and the most a query may return
+const DEFAULT_MAX_ROWS = 1000;
+const MAX_ROWS = 10000;
+const DEFAULT_TIMEOUT_MS = 10000;
+const MAX_TIMEOUT_MS = 60000;
+
+const DatabaseSourceInputSchema = z.object({
+  path: z.string().describe(
+    'Path of a SQLite or LibSQL database file in the data directory ($DATA_DIR or ./data), relative to it; the file is opened read-only',
+  ),
+  action: z.enum(['listTables', 'query']).default('query').describe(
+    'listTables lists the tables and views with their columns and row counts; query runs a SELECT',
+  ),
+  table: z.string().optional().describe('With listTables, describe only this table or view'),
+  query: z.string().optional().describe('A single read-only SQL statement (SELECT, WITH, VALUES or EXPLAIN) in SQLite syntax'),
+  maxRows: z.number().int().min(1).max(MAX_ROWS).default(DEFAULT_MAX_ROWS).describe(
+    'Most rows to return; a result with more rows is truncated',
+  ),
+  timeoutMs: z.number().int().min(100).max(MAX_TIMEOUT_MS).default(DEFAULT_TIMEOUT_MS).describe(
+    'Milliseconds before the query is stopped',
+  ),
+  saveAs: z.string().optional().describe('Register the returned rows as a dataset under this name'),
+});
+
+const DatabaseSourceOutputSchema = z.object({
+  success: z.boolean(),
+  tables: z.array(z.object({
+    name: z.string(),
+    type: z.enum(['table', 'view']),
+    rowCount: z.number().optional(),
+    columns: z.array(z.object({
+      name: z.string(),
+      type: z.string().describe('Declared SQLite type'),
+      nullable: z.boolean(),
+      primaryKey: z.boolean(),
+    })),
+  })).optional(),
+  data: z.array(z.record(z.any())).optional().describe('Result rows, ready for the visualization tool'),
+  columns: z.array(z.string()).optional(),
+  rowCount: z.number().optional(),
+  truncated: z.boolean().optional().describe('Whether the query had more than maxRows rows'),
+  elapsedMs: z.number().optional(),
+  datasetName: z.string().optional(),
+  datasetId: z.string().optional(),
+  error: z.string().optional(),
+});
+
+type DatabaseSourceInput = z.infer<typeof DatabaseSourceInputSchema>;
+
+export class DatabaseSourceTool extends DataTool<typeof DatabaseSourceInputSchema, typeof DatabaseSourceOutputSchema> {
+  id = 'databaseSourceTool';
+  description = 'Connects read-only to a local SQLite or LibSQL database file: lists its tables, views and columns, or runs a real SQL SELECT against it (SQLite dialect, joins, window functions and CTEs included) with a row cap and time limit. Statements that write or change the schema are rejected. Results come back as data/columns for the visualization tool and can be saved as a dataset';
+  inputSchema = DatabaseSourceInputSchema;
+  outputSchema = DatabaseSourceOutputSchema;
+
+  async run(input: DatabaseSourceInput) {
+    try {
+      const path = resolveWithinRoot(process.env.DATA_DIR ?? 'data', input.path, 'path');
+      if (input.action === 'listTables') {
+        return {
+          success: true,
+          tables: await listSqliteTables(path, { table: input.table, timeoutMs: input.timeoutMs }),
+        };
+      }
+
+      if (!input.query) {
+        throw new Error('Provide a query to run, or use action listTables to see the tables');
+      }
+      const result = await querySqlite(path, input.query, { maxRows: input.maxRows, timeoutMs: input.timeoutMs });
+      const saved = input.saveAs
+        ? await datasetRegistry.register(input.saveAs, {
+          data: result.data,
+          columns: result.columns,
+          metadata: { source: { type: 'sqlite', path: input.path, query: input.query }, truncated: result.truncated },
+        })
+        : undefined;
+
+      return {
+        success: true,
+        data: result.data,
+        columns: result.columns,
+        rowCount: result.data.length,
+        truncated: result.truncated,
+        elapsedMs: result.elapsedMs,
+        datasetName: saved?.name,
+        datasetId: saved?.id,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+}
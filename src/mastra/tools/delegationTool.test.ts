@@ -0,0 +1,72 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { configureModels, MockStep, resetModelConfig } from '../models';
+import { DelegationTool } from './delegationTool';
+
+const tool = new DelegationTool('analysis');
+
+function scriptAnalysisAgent(mockSteps: MockStep[]) {
+  configureModels({ agents: { dataAnalysisAgent: { provider: 'mock', mockSteps } } });
+}
+
+beforeAll(async () => {
+  await datasetRegistry.register('delegation_sales', {
+    data: [{ region: 'North', sales: 10 }, { region: 'South', sales: 30 }],
+    columns: ['region', 'sales'],
+  });
+});
+
+afterEach(() => {
+  resetModelConfig();
+});
+
+describe('DelegationTool', () => {
+  it('returns the answer, the structured tool outputs and the trace', async () => {
+    scriptAnalysisAgent([
+      { toolCalls: [{ toolName: 'sqlQueryTool', args: { query: 'SELECT SUM(sales) AS total FROM delegation_sales', saveAs: 'delegation_total' } }] },
+      { text: 'Total sales are 40.' },
+    ]);
+    const result = await tool.invoke({ task: 'Total the sales', datasets: ['delegation_sales'] }, { runId: 'delegation-run-1' });
+    expect(result).toMatchObject({ success: true, agent: 'dataAnalysisAgent', answer: 'Total sales are 40.', attempts: 1, traceId: 'delegation-run-1' });
+    expect(result.outputs![0]).toMatchObject({ tool: 'sqlQueryTool', result: { success: true, result: [{ total: 40 }] } });
+    expect(result.datasets).toEqual(['delegation_total']);
+    expect(result.trace).toHaveLength(1);
+    expect(result.trace![0]).toMatchObject({
+      task: 'Total the sales', attempt: 1, datasets: ['delegation_sales'], status: 'succeeded',
+      toolCalls: [{ tool: 'sqlQueryTool', success: true }],
+    });
+  });
+
+  it('retries a failed attempt with the errors in a re-planning prompt', async () => {
+    scriptAnalysisAgent([
+      { toolCalls: [{ toolName: 'sqlQueryTool', args: { query: 'SELECT profit FROM delegation_sales' } }] },
+      { text: 'The query failed.' },
+      { toolCalls: [{ toolName: 'sqlQueryTool', args: { query: 'SELECT sales FROM delegation_sales' } }] },
+      // No script left: the mock echoes the latest prompt
+    ]);
+    const result = await tool.invoke({ task: 'Summarise profit', datasets: ['delegation_sales'] }, { runId: 'delegation-run-2' });
+    expect(result).toMatchObject({ success: true, attempts: 2 });
+    expect(result.answer).toContain('A previous attempt at this task failed:\n- sqlQueryTool failed:');
+    expect(result.answer).toContain('Re-plan before trying again');
+    expect(result.trace!.map(entry => entry.status)).toEqual(['failed', 'succeeded']);
+    expect(result.trace![0].error).toMatch(/^sqlQueryTool: /);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const failing: MockStep[] = [
+      { toolCalls: [{ toolName: 'sqlQueryTool', args: { query: 'SELECT profit FROM delegation_sales' } }] },
+      { text: 'The query failed.' },
+    ];
+    scriptAnalysisAgent([...failing, ...failing]);
+    const result = await tool.invoke({ task: 'Summarise profit', datasets: ['delegation_sales'], maxAttempts: 2 }, { runId: 'delegation-run-3' });
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^dataAnalysisAgent did not complete the task in 2 attempt\(s\): sqlQueryTool: /);
+    expect(result.trace).toHaveLength(2);
+  });
+
+  it('rejects unknown datasets before calling the agent', async () => {
+    const result = await tool.invoke({ task: 'Anything', datasets: ['delegation_missing'] }, { runId: 'delegation-run-4' });
+    expect(result.error).toMatch(/^Unknown dataset 'delegation_missing'/);
+    expect(result.trace).toEqual([]);
+  });
+});
@@ -0,0 +1,234 @@
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import type { Agent } from '@mastra/core/agent';
+import { dataAnalysisAgent } from '../agents/dataAnalysisAgent';
+import { dataVisualizationAgent } from '../agents/dataVisualizationAgent';
+import { delegationTraces, TracedToolCall, TraceEntry } from '../agents/delegationTrace';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { DataTool, ToolRunContext } from './dataTool';
+
+type SubAgent = 'analysis' | 'visualization';
+
+const SUB_AGENTS: Record<SubAgent, { agent: Agent; id: string; description: string }> = {
+  analysis: {
+    agent: dataAnalysisAgent,
+    id: 'delegateToAnalysisAgent',
+    description: 'Hands a task to the data analysis agent, which loads files, runs SQL, statistics, anomaly detection and forecasts on registered datasets',
+  },
+  visualization: {
+    agent: dataVisualizationAgent,
+    id: 'delegateToVisualizationAgent',
+    description: 'Hands a task to the data visualization agent, which designs and renders charts from query results',
+  },
+};
+
+// Sub-agent tool outputs are cut down before they reach the coordinator
+const MAX_ITEMS = 20;
+const MAX_TEXT = 2000;
+
+const DelegationInputSchema = z.object({
+  task: z.string().describe('What the sub-agent should do, with the question it should answer'),
+  datasets: z.array(z.string()).optional().describe(
+    'Registered datasets the task works on; they are passed by name, and the sub-agent queries them itself',
+  ),
+  context: z.string().optional().describe('Findings from earlier steps the sub-agent needs, such as the query results a chart should show'),
+  maxAttempts: z.number().int().min(1).max(5).optional().default(2).describe(
+    'Attempts before giving up; after a failed tool call the sub-agent is asked to re-plan',
+  ),
+});
+
+const DelegationOutputSchema = z.object({
+  success: z.boolean(),
+  agent: z.string().optional(),
+  answer: z.string().optional().describe("The sub-agent's final answer"),
+  outputs: z.array(z.object({
+    tool: z.string(),
+    args: z.any(),
+    result: z.any(),
+  })).optional().describe('Structured results of the successful tool calls, with long lists and texts shortened'),
+  datasets: z.array(z.string()).optional().describe('Datasets the sub-agent registered, to pass on to later steps'),
+  attempts: z.number().optional(),
+  traceId: z.string().optional().describe('Identifies the trace of the coordinator run'),
+  trace: z.array(z.object({
+    agent: z.string(),
+    task: z.string(),
+    attempt: z.number(),
+    datasets: z.array(z.string()),
+    toolCalls: z.array(z.object({ tool: z.string(), success: z.boolean(), error: z.string().optional() })),
+    status: z.enum(['succeeded', 'failed']),
+    error: z.string().optional(),
+    startedAt: z.date(),
+    durationMs: z.number(),
+  })).optional().describe('Every delegation of the coordinator run so far'),
+  error: z.string().optional(),
+});
+
+type DelegationInput = z.infer<typeof DelegationInputSchema>;
+
+interface ToolCallResult {
+  tool: string;
+  args: any;
+  result: any;
+}
+
+/**
+ * Runs a task on one of the sub-agents. Datasets go by name, the sub-agent's
+ * tool results come back as structured outputs, and a failed tool call that
+ * the sub-agent did not recover from triggers another attempt with the errors
+ * in the prompt. Every attempt is recorded in the trace of the calling run.
+ */
+export class DelegationTool extends DataTool<typeof DelegationInputSchema, typeof DelegationOutputSchema> {
+  id: string;
+  description: string;
+  inputSchema = DelegationInputSchema;
+  outputSchema = DelegationOutputSchema;
+
+  private agent: Agent;
+
+  constructor(target: SubAgent) {
+    super();
+    const { agent, id, description } = SUB_AGENTS[target];
+    this.agent = agent;
+    this.id = id;
+    this.description = description;
+  }
+
+  async run(input: DelegationInput, runContext: ToolRunContext) {
+    const traceId = runContext.runId ?? randomUUID();
+    const agentName = this.agent.name;
+    try {
+      const datasets = input.datasets ?? [];
+      const prompt = await this.buildPrompt(input, datasets);
+      const maxAttempts = input.maxAttempts ?? 2;
+
+      let failures: TracedToolCall[] = [];
+      let lastError = '';
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const startedAt = new Date();
+        const entry: Omit<TraceEntry, 'toolCalls' | 'status' | 'durationMs'> = {
+          agent: agentName,
+          task: input.task,
+          attempt,
+          datasets,
+          startedAt,
+        };
+        try {
+          const result = await this.agent.generate(attempt === 1 ? prompt : this.replanPrompt(prompt, failures, lastError), {
+            maxSteps: 10,
+          });
+          const calls = this.toolCalls(result.steps);
+          const toolCalls = calls.map(call => ({
+            tool: call.tool,
+            success: call.result?.success !== false,
+            error: call.result?.success === false ? String(call.result.error ?? 'failed') : undefined,
+          }));
+          failures = this.unrecovered(toolCalls);
+          lastError = '';
+          delegationTraces.record(traceId, {
+            ...entry,
+            toolCalls,
+            status: failures.length === 0 ? 'succeeded' : 'failed',
+            error: failures.length > 0 ? failures.map(call => `${call.tool}: ${call.error}`).join('; ') : undefined,
+            durationMs: Date.now() - startedAt.getTime(),
+          });
+
+          if (failures.length === 0) {
+            const succeeded = calls.filter(call => call.result?.success !== false);
+            return {
+              success: true,
+              agent: agentName,
+              answer: result.text,
+              outputs: succeeded.map(call => ({ ...call, result: compact(call.result) })),
+              datasets: this.registeredDatasets(succeeded),
+              attempts: attempt,
+              traceId,
+              trace: delegationTraces.get(traceId),
+            };
+          }
+        } catch (error) {
+          lastError = error instanceof Error ? error.message : String(error);
+          failures = [];
+          delegationTraces.record(traceId, {
+            ...entry,
+            toolCalls: [],
+            status: 'failed',
+            error: lastError,
+            durationMs: Date.now() - startedAt.getTime(),
+          });
+        }
+      }
+
+      const reason = lastError || failures.map(call => `${call.tool}: ${call.error}`).join('; ');
+      throw new Error(`${agentName} did not complete the task in ${maxAttempts} attempt(s): ${reason}`);
+    } catch (error) {
+      return {
+        success: false,
+        agent: agentName,
+        traceId,
+        trace: delegationTraces.get(traceId),
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+
+  private async buildPrompt(input: DelegationInput, datasets: string[]): Promise<string> {
+    const lines = [input.task];
+    if (datasets.length > 0) {
+      lines.push('', 'Work on these registered datasets. Query them by name with the SQL tool rather than asking for their rows:');
+      for (const name of datasets) {
+        const dataset = await datasetRegistry.get(name);
+        if (!dataset) {
+          const available = datasetRegistry.list().map(entry => entry.name);
+          throw new Error(
+            `Unknown dataset '${name}'. ${available.length > 0 ? `Available datasets: ${available.join(', ')}` : 'No datasets are registered'}`,
+          );
+        }
+        lines.push(`- ${dataset.name}: ${dataset.rowCount} rows; columns ${dataset.columns.join(', ')}`);
+      }
+    }
+    if (input.context) {
+      lines.push('', 'Context from earlier steps:', input.context);
+    }
+    return lines.join('\n');
+  }
+
+  private replanPrompt(prompt: string, failures: TracedToolCall[], lastError: string): string {
+    const problems = lastError ? [`- ${lastError}`] : failures.map(call => `- ${call.tool} failed: ${call.error}`);
+    return [
+      prompt,
+      '',
+      'A previous attempt at this task failed:',
+      ...problems,
+      'Re-plan before trying again: correct the inputs that caused the errors or take a different approach.',
+    ].join('\n');
+  }
+
+  private toolCalls(steps: { toolResults?: { toolName: string; args: any; result: any }[] }[] = []): ToolCallResult[] {
+    return steps.flatMap(step => step.toolResults ?? []).map(({ toolName, args, result }) => ({ tool: toolName, args, result }));
+  }
+
+  /** Failed calls of tools that were not later called successfully within the same attempt. */
+  private unrecovered(calls: TracedToolCall[]): TracedToolCall[] {
+    return calls.filter((call, i) => !call.success && !calls.slice(i + 1).some(later => later.tool === call.tool && later.success));
+  }
+
+  private registeredDatasets(calls: ToolCallResult[]): string[] {
+    const names = calls.map(call => call.result?.datasetName).filter((name): name is string => typeof name === 'string');
+    return Array.from(new Set(names));
+  }
+}
+
+/** Shortens long arrays and strings so a sub-agent's rows and images do not flood the coordinator. */
+function compact(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_TEXT ? `${value.slice(0, MAX_TEXT)}… (${value.length} characters)` : value;
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ITEMS).map(compact);
+    return value.length > MAX_ITEMS ? [...items, `… ${value.length - MAX_ITEMS} more`] : items;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, compact(item)]));
+  }
+  return value;
+}
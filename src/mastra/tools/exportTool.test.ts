@@ -0,0 +1,64 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { ExportTool } from './exportTool';
+
+const tool = new ExportTool();
+const previousRoot = process.env.EXPORT_OUTPUT_DIR;
+let root: string;
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), 'exports-'));
+  process.env.EXPORT_OUTPUT_DIR = root;
+  await datasetRegistry.register('export_orders', {
+    data: [
+      { id: 1, region: 'North', total: 30 },
+      { id: 2, region: 'South', total: 70 },
+    ],
+    columns: ['id', 'region', 'total'],
+  });
+});
+
+afterAll(async () => {
+  if (previousRoot === undefined) delete process.env.EXPORT_OUTPUT_DIR;
+  else process.env.EXPORT_OUTPUT_DIR = previousRoot;
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('ExportTool', () => {
+  it('writes a dataset to the export directory in each format', async () => {
+    const result = await tool.invoke({ dataset: 'export_orders', formats: ['csv', 'jsonl', 'csv'], columns: ['total', 'id'] });
+    expect(result).toMatchObject({ success: true, rowCount: 2, columns: ['total', 'id'] });
+    expect(result.files!.map(file => file.path)).toEqual([join(root, 'export_orders.csv'), join(root, 'export_orders.jsonl')]);
+    expect(await readFile(join(root, 'export_orders.csv'), 'utf-8')).toBe('total,id\r\n30,1\r\n70,2\r\n');
+    expect(result.files![1]).toMatchObject({ mimeType: 'application/x-ndjson', rowCount: 2 });
+  });
+
+  it('exports query results and inline rows into subdirectories of the root', async () => {
+    const query = await tool.invoke({
+      query: "SELECT region FROM export_orders WHERE total > 50", outputDir: 'nested/run-1', fileName: 'Big Orders!',
+    });
+    expect(query.files![0].path).toBe(join(root, 'nested', 'run-1', 'big-orders.csv'));
+    expect(await readFile(query.files![0].path, 'utf-8')).toBe('region\r\nSouth\r\n');
+
+    const inline = await tool.invoke({ data: [{ a: 1 }, { b: 2 }], formats: ['jsonl'], outputDir: 'inline/../inline' });
+    expect(inline.files![0].path).toBe(join(root, 'inline', 'data.jsonl'));
+    expect(await readFile(inline.files![0].path, 'utf-8')).toBe('{"a":1,"b":null}\n{"a":null,"b":2}\n');
+  });
+
+  it('refuses output directories outside the export root', async () => {
+    for (const outputDir of ['/tmp', '../elsewhere', 'nested/../../elsewhere']) {
+      expect(await tool.invoke({ dataset: 'export_orders', outputDir }))
+        .toEqual({ success: false, error: `outputDir '${outputDir}' must be a relative path inside ${root}` });
+    }
+  });
+
+  it('needs exactly one source and known columns', async () => {
+    expect((await tool.invoke({ dataset: 'export_orders', data: [] })).error).toBe('Provide exactly one of dataset, query or data to export');
+    expect((await tool.invoke({ dataset: 'export_orders', columns: ['price'] })).error)
+      .toBe('Unknown column(s) price. Available columns: id, region, total');
+    expect((await tool.invoke({ query: 'SELECT * FROM export_missing' })).error).toMatch(/^Query failed: /);
+  });
+});
@@ -0,0 +1,126 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { z } from 'zod';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { ColumnSchema, inferSchema } from '../data/typeInference';
+import { encodeTable, EXPORT_FORMATS, ExportFormat, ExportTable } from '../export';
+import { DataTool, resolveWithinRoot } from './dataTool';
+import { SQLQueryTool } from './sqlQueryTool';
+
+const ExportInputSchema = z.object({
+  dataset: z.string().optional().describe('Name or ID of a registered dataset to export'),
+  query: z.string().optional().describe('SQL SELECT query whose result is exported, run as by the SQL query tool'),
+  data: z.array(z.record(z.any())).optional().describe('Inline rows to export, such as a result already returned by another tool'),
+  columns: z.array(z.string()).optional().describe(
+    'Columns to write, in this order; defaults to all columns in their existing order',
+  ),
+  formats: z.array(z.enum(['csv', 'jsonl', 'parquet', 'xlsx'])).min(1).default(['csv']).describe(
+    'csv (RFC 4180 quoting), jsonl (one JSON object per line), parquet (typed columns) or xlsx (typed cells)',
+  ),
+  fileName: z.string().optional().describe('Base file name without extension; defaults to the dataset name or "query-result"'),
+  outputDir: z.string().optional().describe(
+    'Subdirectory of the export directory ($EXPORT_OUTPUT_DIR or ./exports) to write the files to; defaults to the export directory itself',
+  ),
+  delimiter: z.string().length(1).default(',').describe('CSV field delimiter'),
+});
+
+const ExportOutputSchema = z.object({
+  success: z.boolean(),
+  files: z.array(z.object({
+    format: z.enum(['csv', 'jsonl', 'parquet', 'xlsx']),
+    path: z.string().describe('Absolute path of the written file'),
+    mimeType: z.string(),
+    rowCount: z.number(),
+    bytes: z.number(),
+  })).optional(),
+  rowCount: z.number().optional(),
+  columns: z.array(z.string()).optional().describe('The exported columns in file order'),
+  error: z.string().optional(),
+});
+
+type ExportInput = z.infer<typeof ExportInputSchema>;
+
+function fileSlug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'export';
+}
+
+export class ExportTool extends DataTool<typeof ExportInputSchema, typeof ExportOutputSchema> {
+  id = 'exportTool';
+  description = 'Writes a registered dataset, the result of a SQL query or inline rows to files for use outside the agent: CSV, JSON Lines, Parquet or Excel (.xlsx) with typed cells, with a chosen column order, and returns the file paths and row counts';
+  inputSchema = ExportInputSchema;
+  outputSchema = ExportOutputSchema;
+
+  private sqlQueryTool = new SQLQueryTool();
+
+  async run(input: ExportInput) {
+    try {
+      const table = this.selectColumns(await this.loadTable(input), input.columns);
+      const dir = resolveWithinRoot(process.env.EXPORT_OUTPUT_DIR ?? 'exports', input.outputDir, 'outputDir');
+      await mkdir(dir, { recursive: true });
+
+      const base = fileSlug(input.fileName ?? table.name);
+      const formats = Array.from(new Set<ExportFormat>(input.formats));
+      const files = [];
+      for (const format of formats) {
+        const bytes = encodeTable(table, format, { delimiter: input.delimiter });
+        const { extension, mimeType } = EXPORT_FORMATS[format];
+        const path = join(dir, `${base}.${extension}`);
+        await writeFile(path, bytes);
+        files.push({ format, path, mimeType, rowCount: table.rows.length, bytes: bytes.length });
+      }
+
+      return {
+        success: true,
+        files,
+        rowCount: table.rows.length,
+        columns: table.columns,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+
+  /** Resolves exactly one of `dataset`, `query` and `data` to rows and a column schema. */
+  private async loadTable(input: ExportInput): Promise<ExportTable> {
+    const sources = [input.dataset, input.query, input.data].filter(source => source !== undefined);
+    if (sources.length !== 1) {
+      throw new Error('Provide exactly one of dataset, query or data to export');
+    }
+
+    if (input.dataset) {
+      const dataset = await datasetRegistry.get(input.dataset);
+      if (!dataset) {
+        const available = datasetRegistry.list().map(entry => entry.name);
+        throw new Error(
+          `Unknown dataset '${input.dataset}'. ${available.length > 0 ? `Available datasets: ${available.join(', ')}` : 'No datasets are registered'}`,
+        );
+      }
+      // Processed datasets carry their inferred schema; others are inferred now
+      const schema: ColumnSchema[] = dataset.metadata?.schema ?? inferSchema(dataset.data, dataset.columns);
+      return { name: dataset.name, columns: dataset.columns, rows: dataset.data, schema };
+    }
+
+    if (input.query) {
+      const result = await this.sqlQueryTool.runQuery(input.query).catch(error => {
+        throw new Error(`Query failed: ${error instanceof Error ? error.message : error}`);
+      });
+      return { name: 'query-result', columns: result.columns, rows: result.data, schema: inferSchema(result.data, result.columns) };
+    }
+
+    const rows = input.data!;
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    return { name: 'data', columns, rows, schema: inferSchema(rows, columns) };
+  }
+
+  private selectColumns(table: ExportTable, columns?: string[]): ExportTable {
+    if (!columns || columns.length === 0) return table;
+    const missing = columns.filter(column => !table.columns.includes(column));
+    if (missing.length > 0) {
+      throw new Error(`Unknown column(s) ${missing.join(', ')}. Available columns: ${table.columns.join(', ')}`);
+    }
+    return { ...table, columns: Array.from(new Set(columns)) };
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { ForecastingTool } from './forecastingTool';
+
+const tool = new ForecastingTool();
+
+const quarterly = Array.from({ length: 16 }, (_, i) => ({
+  quarter: `${2020 + Math.floor(i / 4)}-${String((i % 4) * 3 + 1).padStart(2, '0')}-01`,
+  sales: 200 + 5 * i + [30, -10, -40, 20][i % 4] + ((i * 3) % 5) - 2,
+}));
+
+describe('ForecastingTool', () => {
+  it('picks the model with the lowest holdout error and forecasts the next periods', async () => {
+    const result = await tool.invoke({ data: quarterly, dateColumn: 'quarter', valueColumn: 'sales' });
+    expect(result).toMatchObject({ success: true, period: 'quarter', seasonLength: 4, observations: 16, holdout: 4 });
+    expect(result.model).toMatch(/^holtWinters/);
+    expect(result.forecast!.map(point => point.date)).toEqual(['2024-01-01', '2024-04-01', '2024-07-01', '2024-10-01']);
+    const best = Math.min(...result.backtest!.filter(entry => entry.mae !== undefined).map(entry => entry.mae!));
+    expect(result.backtest!.find(entry => entry.model === result.model)!.mae).toBe(best);
+    result.forecast!.forEach(point => expect(point.lower).toBeLessThan(point.upper));
+  });
+
+  it('skips models the series is too short for', async () => {
+    const result = await tool.invoke({ data: quarterly.slice(0, 6), dateColumn: 'quarter', valueColumn: 'sales', horizon: 2 });
+    expect(result.success).toBe(true);
+    expect(result.backtest!.find(entry => entry.model === 'holtWintersAdditive')!.skipped).toMatch(/^needs at least 9 values/);
+  });
+
+  it('resamples repeated dates to the requested period', async () => {
+    const daily = [
+      { day: '2024-01-03', units: 2 }, { day: '2024-01-20', units: 3 },
+      { day: '2024-02-11', units: 7 }, { day: '2024-03-05', units: 9 },
+      { day: '2024-04-19', units: 11 }, { day: '2024-05-30', units: 13 },
+    ];
+    const result = await tool.invoke({ data: daily, dateColumn: 'day', valueColumn: 'units', period: 'month', models: ['linearTrend'], horizon: 1 });
+    expect(result).toMatchObject({ success: true, model: 'linearTrend', observations: 5 });
+    expect(result.forecast![0]).toMatchObject({ date: '2024-06-01', value: expect.closeTo(15, 6) });
+  });
+});
@@ -0,0 +1,244 @@
+import { z } from 'zod';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { addPeriods, formatDate, inferPeriod, Period, SEASON_LENGTHS, toDate, truncateDate } from '../data/dates';
+import { applyTimeSeries } from '../data/timeSeries';
+import { toNumber } from '../sql/functions';
+import {
+  fitForecast,
+  FORECAST_MODELS,
+  forecastAccuracy,
+  ForecastModel,
+  formatNumber,
+  unsuitableReason,
+} from '../stats';
+import { DataTool } from './dataTool';
+
+const MODEL_NAMES: Record<ForecastModel, string> = {
+  ses: 'simple exponential smoothing',
+  holtWintersAdditive: 'Holt-Winters with additive seasonality',
+  holtWintersMultiplicative: 'Holt-Winters with multiplicative seasonality',
+  linearTrend: 'linear trend',
+};
+
+const ForecastingInputSchema = z.object({
+  datasetName: z.string().optional().describe('Name or ID of the registered dataset holding the series'),
+  data: z.array(z.record(z.any())).optional().describe('Inline rows to forecast from when no dataset is named'),
+  columns: z.array(z.string()).optional().describe('The column names of the inline data'),
+  dateColumn: z.string().describe('Date column ordering the series'),
+  valueColumn: z.string().describe('Numeric column to forecast'),
+  horizon: z.number().int().min(1).max(1000).optional().describe(
+    'Periods to forecast past the last date; defaults to one season when the series spans at least two, otherwise 6',
+  ),
+  period: z.enum(['hour', 'day', 'week', 'month', 'quarter', 'year']).optional().describe(
+    'Resample to one value per period first, interpolating empty periods; needed when dates repeat or are unevenly spaced. ' +
+    'Omit for a series that already has one row per period',
+  ),
+  aggregation: z.enum(['sum', 'mean', 'median', 'min', 'max', 'count']).optional().default('sum').describe(
+    'How rows in the same period are combined when resampling',
+  ),
+  models: z.array(z.enum(['ses', 'holtWintersAdditive', 'holtWintersMultiplicative', 'linearTrend'])).min(1).optional().describe(
+    'Candidate models: ses (simple exponential smoothing, a flat level), holtWintersAdditive and holtWintersMultiplicative ' +
+    '(level, trend and a seasonal pattern that adds to or scales with the level) and linearTrend; defaults to every model that fits the series',
+  ),
+  seasonLength: z.number().int().min(2).optional().describe(
+    'Periods per season for Holt-Winters, e.g. 12 for monthly data; inferred from the period (24 hours, 7 days, 52 weeks, 12 months, 4 quarters) when omitted',
+  ),
+  holdout: z.number().int().min(1).optional().describe(
+    'Latest periods held back to compare the models; defaults to the horizon, at most a quarter of the series',
+  ),
+  selectionMetric: z.enum(['mae', 'mape']).optional().default('mae').describe('Holdout error used to choose the model'),
+  confidence: z.number().gt(0).lt(1).optional().default(0.95).describe('Coverage of the prediction intervals'),
+});
+
+const ForecastingOutputSchema = z.object({
+  success: z.boolean(),
+  model: z.string().optional().describe('The chosen model, refitted on the whole series'),
+  parameters: z.record(z.number()).optional(),
+  period: z.string().optional(),
+  seasonLength: z.number().optional(),
+  observations: z.number().optional().describe('Periods in the series the forecast is based on'),
+  holdout: z.number().optional(),
+  confidence: z.number().optional(),
+  forecast: z.array(z.object({
+    date: z.string(),
+    value: z.number(),
+    lower: z.number(),
+    upper: z.number(),
+  })).optional().describe('Point forecasts and prediction intervals; pass them to the visualization tool as forecast'),
+  backtest: z.array(z.object({
+    model: z.string(),
+    mae: z.number().optional(),
+    mape: z.number().nullable().optional().describe('Percent; null when every held-out value is zero'),
+    rmse: z.number().optional(),
+    parameters: z.record(z.number()).optional(),
+    skipped: z.string().optional().describe('Why the model could not be fitted'),
+  })).optional().describe('Holdout error of each candidate, fitted on the series without the held-out periods'),
+  selection: z.string().optional(),
+  warnings: z.array(z.string()).optional(),
+  error: z.string().optional(),
+});
+
+type ForecastingInput = z.infer<typeof ForecastingInputSchema>;
+
+type Backtest = NonNullable<z.infer<typeof ForecastingOutputSchema>['backtest']>[number];
+
+type Rows = Record<string, any>[];
+
+interface Series {
+  dates: Date[];
+  values: number[];
+  period: Period;
+}
+
+export class ForecastingTool extends DataTool<typeof ForecastingInputSchema, typeof ForecastingOutputSchema> {
+  id = 'forecastingTool';
+  description = 'Forecasts a time-series column with simple exponential smoothing, Holt-Winters (additive or multiplicative seasonality) and linear trend models, choosing the model with the lowest holdout error and returning point forecasts, prediction intervals and backtest MAE and MAPE';
+  inputSchema = ForecastingInputSchema;
+  outputSchema = ForecastingOutputSchema;
+
+  async run(input: ForecastingInput) {
+    try {
+      const confidence = input.confidence ?? 0.95;
+      const metric = input.selectionMetric ?? 'mae';
+      const warnings: string[] = [];
+      const { data, columns } = await this.loadData(input);
+      const unknown = [input.dateColumn, input.valueColumn].filter(column => !columns.includes(column));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown column(s) ${unknown.join(', ')}. Available columns: ${columns.join(', ')}`);
+      }
+
+      const series = input.period ? this.resample(data, columns, input, warnings) : this.readSeries(data, input, warnings);
+      const { values, period } = series;
+      const seasonLength = input.seasonLength ?? SEASON_LENGTHS[period];
+      const horizon = input.horizon ?? (seasonLength && values.length >= 2 * seasonLength ? seasonLength : 6);
+      const holdout = input.holdout ?? Math.max(1, Math.min(horizon, Math.floor(values.length / 4)));
+      if (values.length - holdout < 3) {
+        throw new Error(`The series has ${values.length} periods; at least ${holdout + 3} are needed to hold back ${holdout} for testing`);
+      }
+
+      // Each candidate is fitted without the holdout and scored on it
+      const train = values.slice(0, values.length - holdout);
+      const actual = values.slice(values.length - holdout);
+      const backtest: Backtest[] = (input.models ?? FORECAST_MODELS).map(model => {
+        const reason = unsuitableReason(model, train, seasonLength);
+        if (reason) return { model, skipped: reason };
+        const fitted = fitForecast(model, train, seasonLength);
+        const predicted = fitted.forecast(holdout, confidence).map(point => point.value);
+        return { model, ...forecastAccuracy(actual, predicted), parameters: fitted.parameters };
+      });
+
+      const scored = backtest.filter(entry => entry.mae !== undefined);
+      if (scored.length === 0) {
+        throw new Error(`No model could be fitted: ${backtest.map(entry => `${entry.model} ${entry.skipped}`).join('; ')}`);
+      }
+      let useMetric = metric;
+      if (metric === 'mape' && scored.every(entry => entry.mape === null)) {
+        warnings.push('MAPE is undefined because every held-out value is zero; the model was chosen by MAE');
+        useMetric = 'mae';
+      }
+      const score = (entry: Backtest) => (useMetric === 'mape' ? entry.mape ?? Infinity : entry.mae!);
+      const best = scored.reduce((winner, entry) => (score(entry) < score(winner) ? entry : winner));
+      const model = best.model as ForecastModel;
+
+      const final = fitForecast(model, values, seasonLength);
+      const last = series.dates[series.dates.length - 1];
+      const forecast = final.forecast(horizon, confidence).map((point, i) => ({
+        date: formatDate(addPeriods(last, period, i + 1)),
+        ...point,
+      }));
+
+      if (holdout < horizon) {
+        warnings.push(`Only ${holdout} period(s) were held back, so the backtest does not cover the full ${horizon}-period horizon`);
+      }
+      if (best.mape !== null && best.mape !== undefined && best.mape > 50) {
+        warnings.push(`The chosen model missed the holdout by ${formatNumber(best.mape)}% on average; treat the forecast as a rough guide`);
+      }
+
+      const label = useMetric === 'mape' ? 'MAPE' : 'MAE';
+      const value = useMetric === 'mape' ? `${formatNumber(best.mape!)}%` : formatNumber(best.mae!);
+      return {
+        success: true,
+        model,
+        parameters: final.parameters,
+        period,
+        seasonLength,
+        observations: values.length,
+        holdout,
+        confidence,
+        forecast,
+        backtest,
+        selection: `${MODEL_NAMES[model]} had the lowest ${label} (${value}) over the last ${holdout} period(s) of ${scored.length} model(s) compared`,
+        warnings,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+
+  private async loadData(input: ForecastingInput): Promise<{ data: Rows; columns: string[] }> {
+    if (input.datasetName) {
+      const dataset = await datasetRegistry.get(input.datasetName);
+      if (!dataset) {
+        const available = datasetRegistry.list().map(entry => entry.name);
+        throw new Error(
+          `Unknown dataset '${input.datasetName}'. ${available.length > 0 ? `Available datasets: ${available.join(', ')}` : 'No datasets are registered'}`,
+        );
+      }
+      return { data: dataset.data, columns: dataset.columns };
+    }
+    if (input.data) {
+      return { data: input.data, columns: input.columns ?? (input.data.length > 0 ? Object.keys(input.data[0]) : []) };
+    }
+    throw new Error('Provide a datasetName or inline data to forecast');
+  }
+
+  /** One value per period, aggregated by the time-series helpers, without leading or trailing empty periods. */
+  private resample(data: Rows, columns: string[], input: ForecastingInput, warnings: string[]): Series {
+    const period = input.period!;
+    const { data: rows, report } = applyTimeSeries(data, columns, {
+      dateColumn: input.dateColumn,
+      period,
+      values: [{ column: input.valueColumn, aggregation: input.aggregation ?? 'sum' }],
+      fill: 'linear',
+    });
+    if (report.filledRows > 0) {
+      warnings.push(`${report.filledRows} empty ${period}(s) were filled by linear interpolation`);
+    }
+    if (report.droppedRows > 0) {
+      warnings.push(`${report.droppedRows} row(s) with an unreadable ${input.dateColumn} were ignored`);
+    }
+    const points = rows
+      .map(row => ({ date: toDate(row[input.dateColumn]), value: toNumber(row[input.valueColumn]) }))
+      .filter((point): point is { date: Date; value: number } => point.date !== null && point.value !== null);
+    return { dates: points.map(point => point.date), values: points.map(point => point.value), period };
+  }
+
+  /** The rows as they are, in date order, which must already be one per period. */
+  private readSeries(data: Rows, input: ForecastingInput, warnings: string[]): Series {
+    const points = data
+      .map(row => ({ date: toDate(row[input.dateColumn]), value: toNumber(row[input.valueColumn]) }))
+      .filter((point): point is { date: Date; value: number } => point.date !== null && point.value !== null)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+    if (points.length < data.length) {
+      warnings.push(`${data.length - points.length} row(s) without a readable date or ${input.valueColumn} were ignored`);
+    }
+    const dates = points.map(point => point.date);
+    if (dates.some((date, i) => i > 0 && date.getTime() === dates[i - 1].getTime())) {
+      throw new Error(`Several rows share a ${input.dateColumn}; set period to aggregate them into one value per period`);
+    }
+    const period = inferPeriod(dates);
+    if (!period) {
+      throw new Error(`The ${input.dateColumn} values are not evenly spaced by hour, day, week, month, quarter or year; set period to resample them`);
+    }
+    const gaps = dates.filter((date, i) =>
+      i > 0 && truncateDate(addPeriods(dates[i - 1], period, 1), period).getTime() !== truncateDate(date, period).getTime(),
+    ).length;
+    if (gaps > 0) {
+      warnings.push(`The series skips or repeats ${period}s at ${gaps} point(s); set period to resample it evenly`);
+    }
+    return { dates, values: points.map(point => point.value), period };
+  }
+}
@@ -0,0 +1,94 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { PivotTool } from './pivotTool';
+
+const tool = new PivotTool();
+const previousRoot = process.env.CHART_OUTPUT_DIR;
+let root: string;
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), 'pivot-charts-'));
+  process.env.CHART_OUTPUT_DIR = root;
+  await datasetRegistry.register('pivot_orders', {
+    data: [
+      { region: 'North', quarter: 'Q1', revenue: 10 },
+      { region: 'North', quarter: 'Q2', revenue: 30 },
+      { region: 'South', quarter: 'Q1', revenue: 20 },
+      { region: 'South', quarter: 'Q1', revenue: 40 },
+      { region: 'East', quarter: 'Q2', revenue: 5 },
+    ],
+    columns: ['region', 'quarter', 'revenue'],
+  });
+});
+
+afterAll(async () => {
+  if (previousRoot === undefined) delete process.env.CHART_OUTPUT_DIR;
+  else process.env.CHART_OUTPUT_DIR = previousRoot;
+  await rm(root, { recursive: true, force: true });
+});
+
+const byRegion = { rows: ['region'], columns: ['quarter'], values: [{ column: 'revenue' }] };
+
+describe('PivotTool', () => {
+  it('pivots a dataset, returning the first rows and saving the full table', async () => {
+    const result = await tool.invoke({ dataset: 'pivot_orders', ...byRegion, columnTotals: true, fill: 0, maxRows: 2, saveAs: 'pivot_by_region' });
+    expect(result).toMatchObject({
+      success: true,
+      columns: ['region', 'Q1', 'Q2'],
+      rows: [{ region: 'East', Q1: 0, Q2: 5 }, { region: 'North', Q1: 10, Q2: 30 }],
+      rowCount: 4,
+      truncated: true,
+      rowKeyCount: 3,
+      columnKeyCount: 2,
+      measures: ['sum(revenue)'],
+      datasetName: 'pivot_by_region',
+    });
+    const saved = await datasetRegistry.get('pivot_by_region');
+    expect(saved!.data[3]).toEqual({ region: 'Total', Q1: 70, Q2: 35 });
+    expect(saved!.metadata?.pivot).toMatchObject({ rows: ['region'], columns: ['quarter'], percent: 'none' });
+  });
+
+  it('pivots query results and inline rows', async () => {
+    const query = await tool.invoke({ query: 'SELECT region, revenue FROM pivot_orders WHERE revenue > 15', rows: ['region'] });
+    expect(query.rows).toEqual([{ region: 'North', count: 1 }, { region: 'South', count: 2 }]);
+
+    const inline = await tool.invoke({ data: [{ a: 'x', b: 1 }, { a: 'x', c: 2 }], rows: ['a'], values: [{ column: 'c' }], percent: 'total' });
+    expect(inline.rows).toEqual([{ a: 'x', 'sum(c)': 100 }]);
+  });
+
+  it('draws the first value as a heatmap without returning its cells', async () => {
+    const result = await tool.invoke({
+      dataset: 'pivot_orders', ...byRegion, percent: 'row', rowTotals: true, heatmap: { formats: ['svg', 'png'] },
+    });
+    expect(result.success).toBe(true);
+    const [svg, png] = result.heatmap!.artifacts;
+    expect(svg).toMatchObject({ format: 'svg', mimeType: 'image/svg+xml' });
+    expect(svg.content).toContain('sum(revenue) (% of row) by region and quarter');
+    expect(png).toMatchObject({ format: 'png', mimeType: 'image/png' });
+    expect(Array.isArray(result.heatmap!.recommendations)).toBe(true);
+  });
+
+  it('writes heatmap images inside the chart directory only', async () => {
+    const result = await tool.invoke({ dataset: 'pivot_orders', ...byRegion, heatmap: { title: 'Revenue', outputDir: 'pivots' } });
+    const [svg] = result.heatmap!.artifacts;
+    expect(svg.path.startsWith(join(root, 'pivots', 'revenue-'))).toBe(true);
+    expect(await readFile(svg.path, 'utf-8')).toContain('<svg');
+
+    for (const outputDir of ['/tmp', '../elsewhere', 'pivots/../../elsewhere']) {
+      expect(await tool.invoke({ dataset: 'pivot_orders', ...byRegion, saveAs: 'pivot_refused', heatmap: { outputDir } }))
+        .toEqual({ success: false, error: `outputDir '${outputDir}' must be a relative path inside ${root}` });
+    }
+    expect(await datasetRegistry.get('pivot_refused')).toBeNull();
+  });
+
+  it('needs exactly one source and known columns', async () => {
+    expect((await tool.invoke({ dataset: 'pivot_orders', data: [], rows: ['region'] })).error)
+      .toBe('Provide exactly one of dataset, query or data to pivot');
+    expect((await tool.invoke({ dataset: 'pivot_missing', rows: ['region'] })).error).toMatch(/^Unknown dataset 'pivot_missing'\. Available datasets: /);
+    expect((await tool.invoke({ dataset: 'pivot_orders', rows: ['city'] })).error)
+      .toBe('Unknown column(s) city. Available columns: region, quarter, revenue');
+  });
+});
@@ -0,0 +1,146 @@
+import { z } from 'zod';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { PivotSchema, pivotTable } from '../data/pivot';
+import { DataTool } from './dataTool';
+import { SQLQueryTool } from './sqlQueryTool';
+import { chartOutputDir, VisualizationTool } from './visualizationTool';
+
+// Pivot rows returned per call; the full table can be saved as a dataset
+const DEFAULT_MAX_ROWS = 100;
+
+const PERCENT_LABELS = { none: '', row: ' (% of row)', column: ' (% of column)', total: ' (% of total)' };
+
+const PivotInputSchema = PivotSchema.extend({
+  dataset: z.string().optional().describe('Name or ID of a registered dataset to pivot'),
+  query: z.string().optional().describe('SQL SELECT query whose result is pivoted'),
+  data: z.array(z.record(z.any())).optional().describe('Inline rows to pivot, for small data'),
+  maxRows: z.number().int().min(1).max(1000).optional().default(DEFAULT_MAX_ROWS).describe('Most pivot rows to return'),
+  saveAs: z.string().optional().describe('Register the full pivot table as a dataset under this name'),
+  heatmap: z.object({
+    title: z.string().optional(),
+    colorScale: z.enum(['sequential', 'diverging']).optional(),
+    formats: z.array(z.enum(['svg', 'png'])).optional().default(['svg']),
+    outputDir: z.string().optional().describe(
+      'Subdirectory of the chart directory ($CHART_OUTPUT_DIR or ./charts) to write the images to; when omitted they are returned inline',
+    ),
+  }).optional().describe('Also draw the pivot (its first value, without totals) as a heatmap'),
+});
+
+const PivotOutputSchema = z.object({
+  success: z.boolean(),
+  columns: z.array(z.string()).optional().describe('Row key columns followed by one column per column key and value'),
+  rows: z.array(z.record(z.any())).optional().describe('The pivot rows, with the total row last when requested'),
+  rowCount: z.number().optional().describe('Rows in the full pivot table'),
+  truncated: z.boolean().optional().describe('Whether only the first maxRows rows are returned'),
+  rowKeyCount: z.number().optional(),
+  columnKeyCount: z.number().optional(),
+  measures: z.array(z.string()).optional().describe('The aggregated values, e.g. sum(revenue)'),
+  datasetName: z.string().optional().describe('Name the full pivot table was saved under'),
+  datasetId: z.string().optional(),
+  heatmap: z.object({
+    artifacts: z.array(z.any()),
+    recommendations: z.array(z.string()).optional(),
+  }).optional(),
+  error: z.string().optional(),
+});
+
+type PivotInput = z.infer<typeof PivotInputSchema>;
+
+export class PivotTool extends DataTool<typeof PivotInputSchema, typeof PivotOutputSchema> {
+  id = 'pivotTool';
+  description = 'Builds a pivot table (crosstab) from a registered dataset, SQL query result or inline rows: row keys down the side, column keys across the top and aggregated values (sum, mean, median, count, countDistinct, min, max) in the cells, with optional row and column totals, percent of row, column or grand total, a fill value for empty cells and a heatmap of the result';
+  inputSchema = PivotInputSchema;
+  outputSchema = PivotOutputSchema;
+
+  async run(input: PivotInput) {
+    try {
+      // Checked up front so that a refused directory does not leave a saved pivot behind
+      chartOutputDir(input.heatmap?.outputDir);
+      const { data, columns } = await this.loadData(input);
+      const result = pivotTable(data, columns, input);
+
+      const saved = input.saveAs
+        ? await datasetRegistry.register(input.saveAs, {
+          data: result.rows,
+          columns: result.columns,
+          metadata: { pivot: { rows: input.rows, columns: input.columns, values: input.values, percent: input.percent } },
+        })
+        : undefined;
+
+      const maxRows = input.maxRows ?? DEFAULT_MAX_ROWS;
+      return {
+        success: true,
+        columns: result.columns,
+        rows: result.rows.slice(0, maxRows),
+        rowCount: result.rows.length,
+        truncated: result.rows.length > maxRows,
+        rowKeyCount: result.rowKeyCount,
+        columnKeyCount: result.columnKeyCount,
+        measures: result.measures,
+        datasetName: saved?.name,
+        datasetId: saved?.id,
+        heatmap: input.heatmap ? await this.drawHeatmap(input, result) : undefined,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+
+  /** Resolves exactly one of `dataset`, `query` and `data` to rows and their columns. */
+  private async loadData(input: PivotInput): Promise<{ data: Record<string, any>[]; columns: string[] }> {
+    const sources = [input.dataset, input.query, input.data].filter(source => source !== undefined);
+    if (sources.length !== 1) {
+      throw new Error('Provide exactly one of dataset, query or data to pivot');
+    }
+    if (input.dataset) {
+      const dataset = await datasetRegistry.get(input.dataset);
+      if (!dataset) {
+        const available = datasetRegistry.list().map(entry => entry.name);
+        throw new Error(
+          `Unknown dataset '${input.dataset}'. ${available.length > 0 ? `Available datasets: ${available.join(', ')}` : 'No datasets are registered'}`,
+        );
+      }
+      return { data: dataset.data, columns: dataset.columns };
+    }
+    if (input.query) {
+      const result = await new SQLQueryTool().runQuery(input.query).catch(error => {
+        throw new Error(`Query failed: ${error instanceof Error ? error.message : error}`);
+      });
+      return { data: result.data, columns: result.columns };
+    }
+    const rows = input.data!;
+    return { data: rows, columns: Array.from(new Set(rows.flatMap(row => Object.keys(row)))) };
+  }
+
+  /** Draws the cells of the first measure, rows down and column keys across. */
+  private async drawHeatmap(input: PivotInput, result: ReturnType<typeof pivotTable>) {
+    const measure = result.measures[0];
+    const valueName = `${measure}${PERCENT_LABELS[input.percent ?? 'none']}`;
+    const xAxis = input.columns.length > 0 ? input.columns.join(' / ') : 'measure';
+    const yAxis = input.rows.join(' / ');
+    const cells = result.cells
+      .filter(cell => cell.measure === measure)
+      .map(cell => ({ [xAxis]: cell.column, [yAxis]: cell.row, [valueName]: cell.value }));
+
+    const chart = await new VisualizationTool().invoke({
+      data: cells,
+      columns: [xAxis, yAxis, valueName],
+      chartType: 'heatmap',
+      xAxis,
+      yAxis,
+      valueColumn: valueName,
+      aggregation: 'sum',
+      colorScale: input.heatmap!.colorScale,
+      title: input.heatmap!.title ?? `${valueName} by ${yAxis} and ${xAxis}`,
+      returnData: false,
+      options: { formats: input.heatmap!.formats, outputDir: input.heatmap!.outputDir },
+    });
+    if (!chart.success) {
+      throw new Error(`The heatmap failed: ${chart.error}`);
+    }
+    return { artifacts: chart.artifacts ?? [], recommendations: chart.recommendations };
+  }
+}
@@ -0,0 +1,106 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { ReportBuilderTool } from './reportBuilderTool';
+
+const tool = new ReportBuilderTool();
+const previousRoot = process.env.REPORT_OUTPUT_DIR;
+let root: string;
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), 'reports-'));
+  process.env.REPORT_OUTPUT_DIR = root;
+  await datasetRegistry.register('report_sales', {
+    data: [
+      { region: 'North', revenue: 120 },
+      { region: 'South', revenue: 80 },
+      { region: 'North', revenue: 30 },
+      { region: 'East', revenue: null },
+    ],
+    columns: ['region', 'revenue'],
+    metadata: {
+      fileType: 'csv',
+      sourceHash: 'ab'.repeat(32),
+      cleaning: [{ type: 'dedupe', columns: ['region', 'revenue'], keep: 'first' }],
+    },
+  });
+});
+
+afterAll(async () => {
+  if (previousRoot === undefined) delete process.env.REPORT_OUTPUT_DIR;
+  else process.env.REPORT_OUTPUT_DIR = previousRoot;
+  await rm(root, { recursive: true, force: true });
+});
+
+const salesSection = {
+  heading: 'Revenue by region',
+  text: 'North leads.\n\n- South follows',
+  query: 'SELECT region, SUM(revenue) AS revenue FROM report_sales GROUP BY region ORDER BY region',
+  chart: { chartType: 'bar' as const, xAxis: 'region', yAxis: 'revenue' },
+};
+
+describe('ReportBuilderTool', () => {
+  it('assembles narrative, profiles, query tables, charts and the appendix', async () => {
+    const result = await tool.invoke({
+      title: 'Quarterly sales',
+      summary: 'Sales were **up**.',
+      findings: ['North grew fastest'],
+      datasets: ['report_sales'],
+      sections: [salesSection],
+    });
+    expect(result.success).toBe(true);
+    expect(result.queries).toEqual([{ sql: salesSection.query, rowCount: 3 }]);
+
+    const [markdown, html] = result.documents!;
+    expect(markdown).toMatchObject({ format: 'markdown', mimeType: 'text/markdown' });
+    expect(markdown.content).toContain('### Key findings\n\n- North grew fastest');
+    expect(markdown.content).toContain('| Column | Type | Missing | Distinct | Min | Max | Mean |');
+    expect(markdown.content).toContain('| East |  |');
+    expect(markdown.content).toMatch(/!\[[^\]]*\]\(data:image\/svg\+xml;base64,/);
+    expect(markdown.content).toContain(`**report_sales**: csv file, SHA-256 \`${'ab'.repeat(32)}\``);
+    expect(markdown.content).toContain('- `dedupe` with columns = ["region","revenue"], keep = "first"');
+    expect(markdown.content).toContain(`**Query 1** (Revenue by region), returning 3 row(s):\n\n\`\`\`sql\n${salesSection.query}\n\`\`\``);
+    expect(html).toMatchObject({ format: 'html', mimeType: 'text/html' });
+    expect(html.content).toContain('<svg');
+    expect(html.bytes).toBe(Buffer.byteLength(html.content!));
+  });
+
+  it('cuts long query results short and lists datasets reached only through queries', async () => {
+    const result = await tool.invoke({
+      title: 'Top rows',
+      sections: [{ heading: 'Rows', query: 'WITH top AS (SELECT * FROM report_sales) SELECT * FROM top', maxRows: 2 }],
+      formats: ['markdown'],
+    });
+    const content = result.documents![0].content!;
+    expect(content).toContain('First 2 of 4 rows');
+    expect(content).toContain('**report_sales**: csv file');
+  });
+
+  it('writes the documents under the report directory, PDF included', async () => {
+    const result = await tool.invoke({ title: 'Sales / 2024', sections: [salesSection], formats: ['pdf', 'html'], outputDir: 'q1' });
+    const [pdf, html] = result.documents!;
+    expect(pdf).toMatchObject({ format: 'pdf', mimeType: 'application/pdf', path: join(root, 'q1', 'sales-2024.pdf') });
+    expect(pdf.content).toBeUndefined();
+    const bytes = await readFile(pdf.path!);
+    expect(bytes.subarray(0, 8).toString('latin1')).toBe('%PDF-1.4');
+    expect(bytes.length).toBe(pdf.bytes);
+    expect(await readFile(html.path!, 'utf-8')).toContain('<h1>Sales / 2024</h1>');
+  });
+
+  it('refuses output directories outside the report directory', async () => {
+    for (const outputDir of ['/tmp', '../elsewhere', 'q1/../../elsewhere']) {
+      expect(await tool.invoke({ title: 'x', formats: ['markdown'], outputDir }))
+        .toEqual({ success: false, error: `outputDir '${outputDir}' must be a relative path inside ${root}` });
+    }
+  });
+
+  it('reports unknown datasets, failed queries and charts without data', async () => {
+    expect((await tool.invoke({ title: 'x', datasets: ['report_missing'] })).error).toMatch(/^Unknown dataset 'report_missing'\. Available datasets: /);
+    expect((await tool.invoke({ title: 'x', sections: [{ heading: 'Bad', query: 'SELECT * FROM report_missing' }] })).error)
+      .toMatch(/^The query of section 'Bad' failed: /);
+    expect((await tool.invoke({ title: 'x', sections: [{ heading: 'Bare', chart: salesSection.chart }] })).error)
+      .toBe("Section 'Bare' has a chart but no query to take its data from");
+  });
+});
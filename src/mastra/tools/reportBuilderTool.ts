@@ -0,0 +1,300 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { z } from 'zod';
+import { buildChartScene, CATEGORICAL_PALETTES, ChartConfig, rasterize, THEME_NAMES } from '../charts';
+import { CleaningRule } from '../data/cleaning';
+import { Dataset, datasetRegistry } from '../data/datasetRegistry';
+import { profileData } from '../data/profiler';
+import { ColumnSchema, inferSchema } from '../data/typeInference';
+import { parseNarrative, renderHtml, renderMarkdown, renderPdf, ReportBlock, ReportDocument } from '../reports';
+import { parseQuery, referencedTables } from '../sql';
+import { formatNumber } from '../stats';
+import { DataTool, resolveWithinRoot } from './dataTool';
+import { SQLQueryTool } from './sqlQueryTool';
+import { VisualizationTool } from './visualizationTool';
+
+const REPORT_FORMATS = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  pdf: { extension: 'pdf', mimeType: 'application/pdf' },
+} as const;
+
+type ReportFormat = keyof typeof REPORT_FORMATS;
+
+const SectionSchema = z.object({
+  heading: z.string(),
+  text: z.string().optional().describe('Narrative findings for the section, as Markdown paragraphs and bullet lists'),
+  query: z.string().optional().describe('SQL SELECT on registered datasets; its result is shown as a table and feeds the chart'),
+  maxRows: z.number().int().min(1).max(500).optional().default(20).describe('Result rows shown in the table'),
+  chart: z.object({
+    chartType: z.enum(['bar', 'line', 'scatter', 'pie', 'histogram', 'box', 'heatmap']),
+    xAxis: z.string(),
+    yAxis: z.union([z.string(), z.array(z.string())]),
+    valueColumn: z.string().optional().describe('Heatmaps: the measure in each cell'),
+    groupBy: z.string().optional(),
+    aggregation: z.enum(['sum', 'mean', 'median', 'count', 'min', 'max']).optional(),
+    sort: z.enum(['none', 'x-asc', 'x-desc', 'y-asc', 'y-desc']).optional(),
+    timeUnit: z.enum(['hour', 'day', 'week', 'month', 'quarter', 'year']).optional(),
+    title: z.string().optional(),
+    theme: z.enum(THEME_NAMES).optional().describe('Chart theme; print suits PDF reports'),
+    palette: z.enum(CATEGORICAL_PALETTES).optional().describe('Series colours; okabeIto and tol are colour-blind safe'),
+  }).optional().describe("Chart of the section's query result, drawn by the visualization tool"),
+});
+
+const ReportBuilderInputSchema = z.object({
+  title: z.string(),
+  datasets: z.array(z.string()).optional().describe('Registered datasets the report covers; each gets a column profile'),
+  summary: z.string().optional().describe('The narrative summary of the analysis, as Markdown paragraphs and bullet lists'),
+  findings: z.array(z.string()).optional().describe('Key findings, listed after the summary'),
+  sections: z.array(SectionSchema).optional().default([]),
+  includeProfile: z.boolean().optional().default(true).describe('Add a profile table of each dataset\'s columns'),
+  formats: z.array(z.enum(['markdown', 'html', 'pdf'])).min(1).optional().default(['markdown', 'html']).describe(
+    'Documents to produce: self-contained Markdown, a single HTML file with embedded SVG charts, and PDF',
+  ),
+  outputDir: z.string().optional().describe(
+    'Subdirectory of the report directory ($REPORT_OUTPUT_DIR or ./reports) to write the documents to; when omitted they are returned inline',
+  ),
+});
+
+const ReportBuilderOutputSchema = z.object({
+  success: z.boolean(),
+  documents: z.array(z.object({
+    format: z.enum(['markdown', 'html', 'pdf']),
+    mimeType: z.string(),
+    content: z.string().optional().describe('The document text, or base64-encoded bytes for PDF, when returned inline'),
+    path: z.string().optional().describe('File the document was written to'),
+    bytes: z.number(),
+  })).optional(),
+  queries: z.array(z.object({
+    sql: z.string(),
+    rowCount: z.number(),
+  })).optional().describe('Queries run for the report, as listed in its appendix'),
+  error: z.string().optional(),
+});
+
+type ReportBuilderInput = z.infer<typeof ReportBuilderInputSchema>;
+type Section = z.infer<typeof SectionSchema>;
+
+interface ExecutedQuery {
+  sql: string;
+  section: string;
+  rowCount: number;
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'report';
+}
+
+export class ReportBuilderTool extends DataTool<typeof ReportBuilderInputSchema, typeof ReportBuilderOutputSchema> {
+  id = 'reportBuilderTool';
+  description = 'Builds an analysis report from dataset profiles, SQL query results as tables, rendered charts and narrative findings, as self-contained Markdown, single-file HTML with embedded SVG charts, or PDF, with a reproducibility appendix of source file hashes, cleaning steps and queries';
+  inputSchema = ReportBuilderInputSchema;
+  outputSchema = ReportBuilderOutputSchema;
+
+  async run(input: ReportBuilderInput) {
+    try {
+      const outputDir = input.outputDir === undefined
+        ? undefined
+        : resolveWithinRoot(process.env.REPORT_OUTPUT_DIR ?? 'reports', input.outputDir, 'outputDir');
+      const blocks: ReportBlock[] = [];
+      const queries: ExecutedQuery[] = [];
+
+      if (input.summary) {
+        blocks.push({ type: 'heading', level: 1, text: 'Summary' }, ...parseNarrative(input.summary));
+      }
+      if (input.findings && input.findings.length > 0) {
+        blocks.push({ type: 'heading', level: input.summary ? 2 : 1, text: 'Key findings' }, { type: 'list', items: input.findings });
+      }
+
+      const datasets = await this.loadDatasets(input.datasets ?? []);
+      if (datasets.length > 0) {
+        blocks.push({ type: 'heading', level: 1, text: 'Data' });
+        datasets.forEach(dataset => blocks.push(...this.datasetBlocks(dataset, input.includeProfile ?? true)));
+      }
+
+      for (const section of input.sections ?? []) {
+        blocks.push(...await this.sectionBlocks(section, queries));
+      }
+
+      // Datasets only reached through queries are listed in the appendix too
+      const queried = queries.flatMap(query => referencedTables(parseQuery(query.sql)));
+      const sources = new Map(datasets.map(dataset => [dataset.name, dataset]));
+      (await this.loadDatasets(queried, true)).forEach(dataset => sources.set(dataset.name, dataset));
+      blocks.push(...this.appendix(Array.from(sources.values()), queries));
+
+      const document: ReportDocument = { title: input.title, generatedAt: new Date(), blocks };
+      const formats = Array.from(new Set<ReportFormat>(input.formats ?? ['markdown', 'html']));
+      const documents = await Promise.all(formats.map(format => this.writeDocument(document, format, outputDir)));
+
+      return {
+        success: true,
+        documents,
+        queries: queries.map(({ sql, rowCount }) => ({ sql, rowCount })),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+
+  /** Looks the datasets up; with `skipMissing`, names that are not datasets (such as CTEs) are left out. */
+  private async loadDatasets(names: string[], skipMissing = false): Promise<Dataset[]> {
+    const datasets: Dataset[] = [];
+    for (const name of names) {
+      const dataset = await datasetRegistry.get(name);
+      if (dataset) {
+        datasets.push(dataset);
+      } else if (!skipMissing) {
+        const available = datasetRegistry.list().map(entry => entry.name);
+        throw new Error(
+          `Unknown dataset '${name}'. ${available.length > 0 ? `Available datasets: ${available.join(', ')}` : 'No datasets are registered'}`,
+        );
+      }
+    }
+    return datasets;
+  }
+
+  private datasetBlocks(dataset: Dataset, includeProfile: boolean): ReportBlock[] {
+    const blocks: ReportBlock[] = [
+      { type: 'heading', level: 2, text: dataset.name },
+      { type: 'paragraph', text: `${dataset.rowCount} rows and ${dataset.columns.length} columns.` },
+    ];
+    if (includeProfile) {
+      const schema: ColumnSchema[] = dataset.metadata?.schema ?? inferSchema(dataset.data, dataset.columns);
+      const profile = profileData(dataset.data, schema);
+      blocks.push({
+        type: 'table',
+        columns: ['Column', 'Type', 'Missing', 'Distinct', 'Min', 'Max', 'Mean'],
+        rows: profile.columns.map(column => [
+          column.name,
+          column.type,
+          `${column.nullCount} (${formatNumber(column.nullRate * 100)}%)`,
+          column.distinctCount,
+          column.min,
+          column.max,
+          column.mean,
+        ]),
+      });
+    }
+    return blocks;
+  }
+
+  private async sectionBlocks(section: Section, queries: ExecutedQuery[]): Promise<ReportBlock[]> {
+    const blocks: ReportBlock[] = [{ type: 'heading', level: 1, text: section.heading }];
+    if (section.text) {
+      blocks.push(...parseNarrative(section.text));
+    }
+    if (!section.query) {
+      if (section.chart) {
+        throw new Error(`Section '${section.heading}' has a chart but no query to take its data from`);
+      }
+      return blocks;
+    }
+
+    const { data: rows, columns } = await new SQLQueryTool().runQuery(section.query).catch(error => {
+      throw new Error(`The query of section '${section.heading}' failed: ${error instanceof Error ? error.message : error}`);
+    });
+    queries.push({ sql: section.query, section: section.heading, rowCount: rows.length });
+
+    const maxRows = section.maxRows ?? 20;
+    blocks.push({
+      type: 'table',
+      columns,
+      rows: rows.slice(0, maxRows).map(row => columns.map(column => row[column])),
+      caption: rows.length > maxRows ? `First ${maxRows} of ${rows.length} rows` : `${rows.length} row(s)`,
+    });
+
+    if (section.chart) {
+      const { theme, palette, ...spec } = section.chart;
+      const title = spec.title ?? section.heading;
+      const chart = await new VisualizationTool().invoke({
+        data: rows,
+        columns,
+        ...spec,
+        title,
+        // The PDF image is rasterized from chartConfig, so it needs every point
+        maxDataPoints: 0,
+        options: { formats: ['svg'], theme, palette },
+      });
+      const svg = chart.artifacts?.[0]?.content;
+      if (!chart.success || !svg || !chart.chartConfig) {
+        throw new Error(`The chart of section '${section.heading}' failed: ${chart.error ?? 'no SVG was rendered'}`);
+      }
+      // PDF embeds charts as images, rasterized from the same scene as the SVG
+      const image = rasterize(buildChartScene(chart.chartConfig as ChartConfig));
+      blocks.push({ type: 'chart', chart: { title, altText: chart.accessibility?.altText, svg, image } });
+    }
+    return blocks;
+  }
+
+  private appendix(datasets: Dataset[], queries: ExecutedQuery[]): ReportBlock[] {
+    const blocks: ReportBlock[] = [
+      { type: 'heading', level: 1, text: 'Appendix: reproducibility' },
+      { type: 'heading', level: 2, text: 'Source data' },
+    ];
+    if (datasets.length === 0) {
+      blocks.push({ type: 'paragraph', text: 'The report does not use any registered dataset.' });
+    } else {
+      // A list rather than a table, so that the hashes are never cut short
+      blocks.push({
+        type: 'list',
+        items: datasets.map(dataset => {
+          const hash = dataset.metadata?.sourceHash ? `SHA-256 \`${dataset.metadata.sourceHash}\`` : 'no source hash recorded';
+          const source = `${dataset.metadata?.fileType ?? 'unknown'} file, ${hash}`;
+          return `**${dataset.name}**: ${source}; ${dataset.rowCount} rows, registered ${dataset.createdAt.toISOString()}`;
+        }),
+      });
+    }
+
+    blocks.push({ type: 'heading', level: 2, text: 'Cleaning steps' });
+    const cleaned = datasets.filter(dataset => dataset.metadata?.cleaning || dataset.metadata?.timeSeries);
+    if (cleaned.length === 0) {
+      blocks.push({ type: 'paragraph', text: 'No cleaning rules were applied beyond type inference and trimming whitespace.' });
+    }
+    cleaned.forEach(dataset => {
+      const rules: CleaningRule[] = dataset.metadata?.cleaning ?? [];
+      const steps = rules.map(rule => `\`${rule.type}\` ${this.describeOptions(rule)}`);
+      if (dataset.metadata?.timeSeries) {
+        steps.push(`\`timeSeries\` ${this.describeOptions(dataset.metadata.timeSeries)}`);
+      }
+      blocks.push({ type: 'heading', level: 3, text: dataset.name }, { type: 'list', items: steps });
+    });
+
+    blocks.push({ type: 'heading', level: 2, text: 'Queries executed' });
+    if (queries.length === 0) {
+      blocks.push({ type: 'paragraph', text: 'The report did not run any queries.' });
+    }
+    queries.forEach((query, i) => {
+      blocks.push(
+        { type: 'paragraph', text: `**Query ${i + 1}** (${query.section}), returning ${query.rowCount} row(s):` },
+        { type: 'code', language: 'sql', text: query.sql.trim() },
+      );
+    });
+    return blocks;
+  }
+
+  private describeOptions(step: Record<string, any>): string {
+    const { type, ...options } = step;
+    const entries = Object.entries(options).filter(([, value]) => value !== undefined);
+    return entries.length > 0 ? `with ${entries.map(([key, value]) => `${key} = ${JSON.stringify(value)}`).join(', ')}` : '';
+  }
+
+  private async writeDocument(document: ReportDocument, format: ReportFormat, outputDir?: string) {
+    const bytes =
+      format === 'pdf'
+        ? renderPdf(document)
+        : Buffer.from(format === 'html' ? renderHtml(document) : renderMarkdown(document), 'utf-8');
+    const { extension, mimeType } = REPORT_FORMATS[format];
+
+    if (outputDir) {
+      await mkdir(outputDir, { recursive: true });
+      const path = join(outputDir, `${slugify(document.title)}.${extension}`);
+      await writeFile(path, bytes);
+      return { format, mimeType, path, bytes: bytes.length };
+    }
+    const content = format === 'pdf' ? bytes.toString('base64') : bytes.toString('utf-8');
+    return { format, mimeType, content, bytes: bytes.length };
+  }
+}
@@ -0,0 +1,68 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { SQLQueryTool } from './sqlQueryTool';
+
+const tool = new SQLQueryTool();
+
+beforeAll(async () => {
+  await datasetRegistry.register('sql_customers', {
+    data: [
+      { customer_id: 1, name: 'Ada', country: 'UK' },
+      { customer_id: 2, name: 'Grace', country: 'US' },
+      { customer_id: 3, name: 'Linus', country: 'FI' },
+    ],
+    columns: ['customer_id', 'name', 'country'],
+  });
+  await datasetRegistry.register('sql_orders', {
+    data: [
+      { order_id: 10, customer_id: 1, total: 30 },
+      { order_id: 11, customer_id: 1, total: 20 },
+      { order_id: 12, customer_id: 2, total: 70 },
+      { order_id: 13, customer_id: 9, total: 5 },
+    ],
+    columns: ['order_id', 'customer_id', 'total'],
+  });
+});
+
+describe('SQLQueryTool', () => {
+  it('joins registered datasets', async () => {
+    const result = await tool.invoke({
+      query: `SELECT c.name, SUM(o.total) AS spent
+        FROM sql_orders o JOIN sql_customers c ON o.customer_id = c.customer_id
+        GROUP BY c.name ORDER BY spent DESC`,
+    });
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual([{ name: 'Grace', spent: 70 }, { name: 'Ada', spent: 50 }]);
+  });
+
+  it('keeps unmatched rows in outer joins', async () => {
+    const result = await tool.invoke({
+      query: `SELECT c.name, COUNT(o.order_id) AS orders
+        FROM sql_customers c LEFT JOIN sql_orders o ON o.customer_id = c.customer_id
+        GROUP BY c.name ORDER BY c.name`,
+    });
+    expect(result.result).toEqual([{ name: 'Ada', orders: 2 }, { name: 'Grace', orders: 1 }, { name: 'Linus', orders: 0 }]);
+  });
+
+  it('refers to datasets by ID', async () => {
+    const dataset = await datasetRegistry.get('sql_customers');
+    const result = await tool.invoke({ query: `SELECT COUNT(*) AS n FROM ${dataset!.id}` });
+    expect(result.result).toEqual([{ n: 3 }]);
+  });
+
+  it('pages results and saves the full result as a dataset', async () => {
+    const result = await tool.invoke({ query: 'SELECT * FROM sql_orders ORDER BY order_id', limit: 3, saveAs: 'sql_all_orders' });
+    expect(result.page).toEqual({ offset: 0, returned: 3, totalRows: 4, hasMore: true, nextOffset: 3 });
+    expect((await datasetRegistry.get('sql_all_orders'))?.rowCount).toBe(4);
+
+    const next = await tool.invoke({ query: 'SELECT * FROM sql_orders ORDER BY order_id', limit: 3, offset: 3 });
+    expect(next.result).toEqual([{ order_id: 13, customer_id: 9, total: 5 }]);
+    expect(next.page?.hasMore).toBe(false);
+  });
+
+  it('names the available datasets when a table is unknown', async () => {
+    const result = await tool.invoke({ query: 'SELECT * FROM sql_missing' });
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Unknown table 'sql_missing'\. Available datasets: .*sql_customers/);
+  });
+});
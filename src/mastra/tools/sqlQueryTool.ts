@@ -1,48 +1,88 @@
 import { z } from 'zod';
-import { Tool } from '@mastra/core';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { Catalog, executeStatement, parseQuery, QueryResult, referencedTables } from '../sql';
+import { DataTool } from './dataTool';
+
+// Rows returned per call, so a large result does not flood the agent's context
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
 
 const SQLQueryInputSchema = z.object({
-  query: z.string().describe('The SQL query to execute'),
-  data: z.array(z.record(z.any())).describe('The data to query against'),
-  columns: z.array(z.string()).describe('The column names of the data'),
+  query: z.string().describe(
+    'The SQL SELECT query to execute. Registered datasets are referenced as tables by name or ID and support JOIN, UNION, subqueries and WITH',
+  ),
+  data: z.array(z.record(z.any())).optional().describe(
+    'Inline rows to query, used for any table in the query that is not a registered dataset',
+  ),
+  columns: z.array(z.string()).optional().describe('The column names of the inline data'),
+  limit: z.number().int().min(1).max(MAX_LIMIT).optional().default(DEFAULT_LIMIT).describe(
+    'Maximum number of result rows to return; the rest are counted and can be fetched with offset',
+  ),
+  offset: z.number().int().min(0).optional().default(0).describe('Number of result rows to skip, for fetching later pages'),
+  saveAs: z.string().optional().describe(
+    'Register the full result as a dataset under this name, so other tools can use it without passing its rows',
+  ),
 });
 
 const SQLQueryOutputSchema = z.object({
   success: z.boolean(),
   result: z.array(z.record(z.any())).optional(),
+  columns: z.array(z.string()).optional().describe('The result columns in order'),
+  page: z.object({
+    offset: z.number(),
+    returned: z.number(),
+    totalRows: z.number(),
+    hasMore: z.boolean(),
+    nextOffset: z.number().optional().describe('Offset of the next page, when there is one'),
+  }).optional(),
+  datasetName: z.string().optional().describe('Name the full result was saved under'),
+  datasetId: z.string().optional(),
   error: z.string().optional(),
   queryType: z.enum(['SELECT', 'AGGREGATE', 'GROUP_BY', 'FILTER']).optional(),
   summary: z.object({
-    rowCount: z.number().optional(),
+    rowCount: z.number().optional().describe('Rows in the full result'),
     columnCount: z.number().optional(),
     numericColumns: z.array(z.string()).optional(),
     categoricalColumns: z.array(z.string()).optional(),
   }).optional(),
 });
 
-export class SQLQueryTool extends Tool<
+export class SQLQueryTool extends DataTool<
   typeof SQLQueryInputSchema,
   typeof SQLQueryOutputSchema
 > {
-  name = 'sqlQueryTool';
-  description = 'Executes SQL-like queries on in-memory data for analysis';
+  id = 'sqlQueryTool';
+  description = 'Executes paged SQL SELECT queries (JOIN, UNION, subqueries, WITH, WHERE, GROUP BY, HAVING, ORDER BY, LIMIT/OFFSET, DISTINCT) with aggregates such as COUNT, SUM, AVG, MIN, MAX, MEDIAN, STDDEV, VARIANCE and PERCENTILE, window functions (OVER with PARTITION BY, ORDER BY and ROWS frames; ROW_NUMBER, RANK, LAG, LEAD) and date functions (DATE_TRUNC, DATE_PART) on registered datasets or inline data; large results can be saved as a dataset';
   inputSchema = SQLQueryInputSchema;
   outputSchema = SQLQueryOutputSchema;
 
-  async execute(input: z.infer<typeof SQLQueryInputSchema>) {
+  async run(input: z.infer<typeof SQLQueryInputSchema>) {
     try {
-      const { query, data, columns } = input;
-      
-      // Simple SQL-like query parser and executor
-      const result = this.executeQuery(query, data, columns);
-      
+      const { query, data, columns, limit = DEFAULT_LIMIT, offset = 0, saveAs } = input;
+      const result = await this.runQuery(query, data, columns);
+      const saved = saveAs
+        ? await datasetRegistry.register(saveAs, { data: result.data, columns: result.columns, metadata: { query } })
+        : undefined;
+
+      const rows = result.data.slice(offset, offset + limit);
+      const hasMore = offset + rows.length < result.data.length;
       return {
         success: true,
-        result: result.data,
+        result: rows,
+        columns: result.columns,
+        page: {
+          offset,
+          returned: rows.length,
+          totalRows: result.data.length,
+          hasMore,
+          nextOffset: hasMore ? offset + rows.length : undefined,
+        },
+        datasetName: saved?.name,
+        datasetId: saved?.id,
         queryType: result.queryType,
         summary: {
           rowCount: result.data.length,
-          columnCount: result.data.length > 0 ? Object.keys(result.data[0]).length : 0,
+          columnCount: result.columns.length,
           numericColumns: this.getNumericColumns(result.data),
           categoricalColumns: this.getCategoricalColumns(result.data),
         },
@@ -55,125 +95,37 @@ export class SQLQueryTool extends Tool<
     }
   }
 
-  private executeQuery(query: string, data: Record<string, any>[], columns: string[]) {
-    const upperQuery = query.toUpperCase().trim();
-    
-    if (upperQuery.includes('SELECT') && upperQuery.includes('FROM')) {
-      return this.executeSelectQuery(query, data, columns);
-    } else if (upperQuery.includes('COUNT') || upperQuery.includes('SUM') || upperQuery.includes('AVG')) {
-      return this.executeAggregateQuery(query, data, columns);
-    } else if (upperQuery.includes('GROUP BY')) {
-      return this.executeGroupByQuery(query, data, columns);
-    } else if (upperQuery.includes('WHERE')) {
-      return this.executeFilterQuery(query, data, columns);
-    } else {
-      // Default to returning all data
-      return {
-        data,
-        queryType: 'SELECT' as const,
-      };
-    }
+  /** Runs a query and returns every result row; errors are thrown. */
+  async runQuery(query: string, data?: Record<string, any>[], columns?: string[]): Promise<QueryResult> {
+    // Parse the query and resolve the tables it reads before executing it
+    const statement = parseQuery(query);
+    const catalog = await this.resolveTables(referencedTables(statement), data, columns);
+    return executeStatement(statement, catalog);
   }
 
-  private executeSelectQuery(query: string, data: Record<string, any>[], columns: string[]) {
-    // Simple SELECT * FROM data implementation
-    return {
-      data,
-      queryType: 'SELECT' as const,
-    };
-  }
+  private async resolveTables(
+    tableNames: string[],
+    data?: Record<string, any>[],
+    columns?: string[],
+  ): Promise<Catalog> {
+    const catalog: Catalog = {};
 
-  private executeAggregateQuery(query: string, data: Record<string, any>[], columns: string[]) {
-    const numericColumns = this.getNumericColumns(data);
-    const result: Record<string, any> = {};
-    
-    numericColumns.forEach(col => {
-      const values = data.map(row => row[col]).filter(val => typeof val === 'number' && !isNaN(val));
-      if (values.length > 0) {
-        result[`count_${col}`] = values.length;
-        result[`sum_${col}`] = values.reduce((sum, val) => sum + val, 0);
-        result[`avg_${col}`] = values.reduce((sum, val) => sum + val, 0) / values.length;
-        result[`min_${col}`] = Math.min(...values);
-        result[`max_${col}`] = Math.max(...values);
+    for (const name of tableNames) {
+      const dataset = await datasetRegistry.get(name);
+      if (dataset) {
+        catalog[name] = { data: dataset.data, columns: dataset.columns };
+      } else if (data) {
+        // Inline rows stand in for tables that aren't registered datasets
+        catalog[name] = { data, columns: columns ?? (data.length > 0 ? Object.keys(data[0]) : []) };
+      } else {
+        const available = datasetRegistry.list().map(dataset => dataset.name);
+        throw new Error(
+          `Unknown table '${name}'. ${available.length > 0 ? `Available datasets: ${available.join(', ')}` : 'No datasets are registered'}`,
+        );
       }
-    });
-    
-    return {
-      data: [result],
-      queryType: 'AGGREGATE' as const,
-    };
-  }
-
-  private executeGroupByQuery(query: string, data: Record<string, any>[], columns: string[]) {
-    // Simple GROUP BY implementation
-    const groupByColumn = this.extractGroupByColumn(query);
-    if (!groupByColumn || !columns.includes(groupByColumn)) {
-      return { data, queryType: 'SELECT' as const };
     }
-    
-    const groups = new Map<string, Record<string, any>[]>();
-    data.forEach(row => {
-      const groupValue = row[groupByColumn] || 'Unknown';
-      if (!groups.has(groupValue)) {
-        groups.set(groupValue, []);
-      }
-      groups.get(groupValue)!.push(row);
-    });
-    
-    const result = Array.from(groups.entries()).map(([groupValue, groupData]) => {
-      const numericColumns = this.getNumericColumns(groupData);
-      const row: Record<string, any> = { [groupByColumn]: groupValue };
-      
-      numericColumns.forEach(col => {
-        const values = groupData.map(row => row[col]).filter(val => typeof val === 'number' && !isNaN(val));
-        if (values.length > 0) {
-          row[`count_${col}`] = values.length;
-          row[`sum_${col}`] = values.reduce((sum, val) => sum + val, 0);
-          row[`avg_${col}`] = values.reduce((sum, val) => sum + val, 0) / values.length;
-        }
-      });
-      
-      return row;
-    });
-    
-    return {
-      data: result,
-      queryType: 'GROUP_BY' as const,
-    };
-  }
-
-  private executeFilterQuery(query: string, data: Record<string, any>[], columns: string[]) {
-    // Simple WHERE clause implementation
-    const filterCondition = this.extractFilterCondition(query);
-    if (!filterCondition) {
-      return { data, queryType: 'SELECT' as const };
-    }
-    
-    const filteredData = data.filter(row => {
-      // Simple equality filter
-      const [column, value] = filterCondition.split('=');
-      if (column && value) {
-        const cleanColumn = column.trim();
-        const cleanValue = value.trim().replace(/['"]/g, '');
-        return row[cleanColumn]?.toString() === cleanValue;
-      }
-      return true;
-    });
-    
-    return {
-      data: filteredData,
-      queryType: 'FILTER' as const,
-    };
-  }
-
-  private extractGroupByColumn(query: string): string | null {
-    const match = query.match(/GROUP\s+BY\s+(\w+)/i);
-    return match ? match[1] : null;
-  }
 
-  private extractFilterCondition(query: string): string | null {
-    const match = query.match(/WHERE\s+(.+?)(?:\s+GROUP\s+BY|\s+ORDER\s+BY|$)/i);
-    return match ? match[1].trim() : null;
+    return catalog;
   }
 
   private getNumericColumns(data: Record<string, any>[]): string[] {
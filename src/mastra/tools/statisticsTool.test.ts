@@ -0,0 +1,63 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { StatisticsTool } from './statisticsTool';
+
+const tool = new StatisticsTool();
+
+const shops = [
+  { region: 'North', staff: 2, sales: 21, rating: 'high' },
+  { region: 'North', staff: 4, sales: 38, rating: 'high' },
+  { region: 'North', staff: 3, sales: 33, rating: 'low' },
+  { region: 'South', staff: 5, sales: 40, rating: 'high' },
+  { region: 'South', staff: 1, sales: 9, rating: 'low' },
+  { region: 'South', staff: 6, sales: 52, rating: 'low' },
+  { region: 'South', staff: null, sales: 30, rating: null },
+];
+
+beforeAll(async () => {
+  await datasetRegistry.register('stats_shops', { data: shops, columns: ['region', 'staff', 'sales', 'rating'] });
+});
+
+describe('StatisticsTool', () => {
+  it('describes numeric columns', async () => {
+    const result = await tool.invoke({ datasetName: 'stats_shops', analysis: { type: 'descriptive', columns: ['sales'] } });
+    expect(result.success).toBe(true);
+    expect(result.result!.columns[0]).toMatchObject({ column: 'sales', count: 7, min: 9, median: 33, max: 52 });
+    expect(result.interpretation![0]).toMatch(/^sales/);
+  });
+
+  it('dummy-codes categorical predictors and reports excluded rows', async () => {
+    const result = await tool.invoke({
+      datasetName: 'stats_shops',
+      analysis: { type: 'regression', target: 'sales', predictors: ['staff', 'region'] },
+    });
+    expect(result).toMatchObject({ success: true, rowsUsed: 6, rowsExcluded: 1, significant: true });
+    expect(result.result!.coefficients.map((coefficient: any) => coefficient.term)).toEqual(['(Intercept)', 'staff', 'region[South]']);
+    expect(result.result!.referenceLevels).toEqual({ region: 'North' });
+    expect(result.effectSize).toMatchObject({ measure: 'cohensF2', magnitude: 'large' });
+    expect(result.interpretation![1]).toMatch(/^Each one-unit increase in staff is associated with a [\d.]+ increase in sales, holding the other predictors constant/);
+    expect(result.warnings).toContain('1 of 7 rows were excluded because a needed value was missing or not numeric.');
+  });
+
+  it('compares two groups with an effect size', async () => {
+    const result = await tool.invoke({ datasetName: 'stats_shops', analysis: { type: 'tTest', column: 'sales', groupColumn: 'region' } });
+    expect(result).toMatchObject({ success: true, analysis: 'tTest', significant: false });
+    expect(result.effectSize!.measure).toBe('cohensD');
+    expect(result.interpretation![0]).toMatch(/^There is no significant difference in mean sales between North \(30\.7\) and South \(32\.8\)/);
+  });
+
+  it('tests independence of two categorical columns', async () => {
+    const result = await tool.invoke({
+      datasetName: 'stats_shops',
+      analysis: { type: 'chiSquare', rowColumn: 'region', columnColumn: 'rating' },
+    });
+    expect(result).toMatchObject({ success: true, rowsUsed: 6 });
+    expect(result.effectSize!.measure).toBe('cramersV');
+    expect(result.warnings!.some(warning => /expected count/.test(warning))).toBe(true);
+  });
+
+  it('names the missing columns', async () => {
+    const result = await tool.invoke({ datasetName: 'stats_shops', analysis: { type: 'anova', column: 'profit', groupColumn: 'region' } });
+    expect(result).toEqual({ success: false, error: 'Unknown column(s) profit. Available columns: region, staff, sales, rating' });
+  });
+});
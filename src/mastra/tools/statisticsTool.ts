@@ -0,0 +1,600 @@
+import { z } from 'zod';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { compareValues, isNullish, toNumber } from '../sql/functions';
+import {
+  chiSquareTest,
+  correlationMatrix,
+  describe,
+  effectMagnitude,
+  EffectMeasure,
+  formatNumber,
+  formatPValue,
+  linearRegression,
+  Magnitude,
+  oneSampleTTest,
+  oneWayAnova,
+  pairedTTest,
+  TTestResult,
+  twoSampleTTest,
+} from '../stats';
+import { DataTool } from './dataTool';
+
+const MAX_LEVELS = 50;
+const MAX_DUMMY_LEVELS = 20;
+
+const AnalysisSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('descriptive'),
+    columns: z.array(z.string()).optional().describe('Numeric columns to summarise, defaults to every numeric column'),
+  }),
+  z.object({
+    type: z.literal('correlation'),
+    columns: z.array(z.string()).optional().describe('Numeric columns to correlate, defaults to every numeric column'),
+    method: z.enum(['pearson', 'spearman']).optional().default('pearson').describe(
+      'Pearson for linear relationships, Spearman (rank-based) for monotonic ones or data with outliers',
+    ),
+  }),
+  z.object({
+    type: z.literal('regression'),
+    target: z.string().describe('Numeric column to predict'),
+    predictors: z.array(z.string()).min(1).describe(
+      'Predictor columns; numeric ones enter as they are, categorical ones are dummy-coded against their first level',
+    ),
+  }),
+  z.object({
+    type: z.literal('tTest'),
+    column: z.string().describe('Numeric column whose mean is tested'),
+    groupColumn: z.string().optional().describe('Compare the mean between two groups of this column (two-sample test)'),
+    groups: z.tuple([z.string(), z.string()]).optional().describe('The two groups to compare when groupColumn has more than two'),
+    pairedColumn: z.string().optional().describe('Compare against this column row by row (paired test)'),
+    mu: z.number().optional().describe('Hypothesised mean for a one-sample test, defaults to 0'),
+    equalVariance: z.boolean().optional().default(false).describe("Use Student's pooled test instead of Welch's test"),
+    alternative: z.enum(['two-sided', 'greater', 'less']).optional().default('two-sided'),
+  }),
+  z.object({
+    type: z.literal('chiSquare'),
+    rowColumn: z.string().describe('First categorical column'),
+    columnColumn: z.string().describe('Second categorical column'),
+  }),
+  z.object({
+    type: z.literal('anova'),
+    column: z.string().describe('Numeric column whose mean is compared'),
+    groupColumn: z.string().describe('Categorical column defining the groups'),
+  }),
+]);
+
+type Analysis = z.infer<typeof AnalysisSchema>;
+
+const StatisticsInputSchema = z.object({
+  datasetName: z.string().optional().describe('Name or ID of the registered dataset to analyse'),
+  data: z.array(z.record(z.any())).optional().describe('Inline rows to analyse when no dataset is named'),
+  columns: z.array(z.string()).optional().describe('The column names of the inline data'),
+  analysis: AnalysisSchema.describe(
+    'descriptive, correlation (matrix), regression (OLS), tTest (one-sample, two-sample or paired), chiSquare (independence) or anova (one-way)',
+  ),
+  alpha: z.number().min(0.001).max(0.5).optional().default(0.05).describe(
+    'Significance level; confidence intervals use 1 - alpha',
+  ),
+});
+
+const StatisticsOutputSchema = z.object({
+  success: z.boolean(),
+  analysis: z.string().optional(),
+  rowsUsed: z.number().optional().describe('Rows with every value the analysis needs'),
+  rowsExcluded: z.number().optional().describe(
+    'Rows skipped because a needed value was missing or not numeric; rows outside the compared groups are not counted',
+  ),
+  result: z.record(z.any()).optional().describe(
+    'The statistics, shaped by the analysis type; unbounded confidence limits of one-sided tests are null',
+  ),
+  significant: z.boolean().optional().describe('Whether the p-value is below alpha'),
+  effectSize: z.object({
+    measure: z.string(),
+    value: z.number().nullable(),
+    magnitude: z.enum(['negligible', 'small', 'medium', 'large']),
+  }).optional(),
+  interpretation: z.array(z.string()).optional().describe('Plain-language reading of the results'),
+  warnings: z.array(z.string()).optional().describe('Caveats about assumptions or sample size'),
+  error: z.string().optional(),
+});
+
+interface AnalysisOutput {
+  rowsUsed: number;
+  /** Rows the analysis applies to, when narrower than the whole data (e.g. two of several groups). */
+  rowsInScope?: number;
+  result: Record<string, any>;
+  significant?: boolean;
+  effectSize?: { measure: EffectMeasure; value: number | null; magnitude: Magnitude };
+  interpretation: string[];
+  warnings: string[];
+}
+
+type Rows = Record<string, any>[];
+
+function percent(value: number): string {
+  return `${formatNumber(value * 100)}%`;
+}
+
+export class StatisticsTool extends DataTool<
+  typeof StatisticsInputSchema,
+  typeof StatisticsOutputSchema
+> {
+  id = 'statisticsTool';
+  description = 'Runs statistical analyses on a registered dataset or inline data: descriptive statistics, Pearson and Spearman correlation matrices, linear regression, t-tests, chi-square tests of independence and one-way ANOVA, with p-values, effect sizes and a plain-language interpretation';
+  inputSchema = StatisticsInputSchema;
+  outputSchema = StatisticsOutputSchema;
+
+  async run(input: z.infer<typeof StatisticsInputSchema>) {
+    try {
+      const { analysis } = input;
+      const alpha = input.alpha ?? 0.05;
+      const { data, columns } = await this.loadData(input);
+
+      const output = this.runAnalysis(analysis, data, columns, alpha);
+      const rowsInScope = output.rowsInScope ?? data.length;
+      const rowsExcluded = rowsInScope - output.rowsUsed;
+      if (rowsExcluded > 0) {
+        output.warnings.push(`${rowsExcluded} of ${rowsInScope} rows were excluded because a needed value was missing or not numeric.`);
+      }
+
+      return {
+        success: true,
+        analysis: analysis.type,
+        rowsUsed: output.rowsUsed,
+        rowsExcluded,
+        result: output.result,
+        significant: output.significant,
+        effectSize: output.effectSize,
+        interpretation: output.interpretation,
+        warnings: output.warnings,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+
+  private async loadData(input: z.infer<typeof StatisticsInputSchema>): Promise<{ data: Rows; columns: string[] }> {
+    if (input.datasetName) {
+      const dataset = await datasetRegistry.get(input.datasetName);
+      if (!dataset) {
+        const available = datasetRegistry.list().map(entry => entry.name);
+        throw new Error(
+          `Unknown dataset '${input.datasetName}'. ${available.length > 0 ? `Available datasets: ${available.join(', ')}` : 'No datasets are registered'}`,
+        );
+      }
+      return { data: dataset.data, columns: dataset.columns };
+    }
+    if (input.data) {
+      return { data: input.data, columns: input.columns ?? (input.data.length > 0 ? Object.keys(input.data[0]) : []) };
+    }
+    throw new Error('Provide a datasetName or inline data to analyse');
+  }
+
+  private runAnalysis(analysis: Analysis, data: Rows, columns: string[], alpha: number): AnalysisOutput {
+    switch (analysis.type) {
+      case 'descriptive':
+        return this.descriptive(data, this.numericColumns(data, columns, analysis.columns), alpha);
+      case 'correlation':
+        return this.correlation(data, this.numericColumns(data, columns, analysis.columns), analysis.method ?? 'pearson', alpha);
+      case 'regression':
+        this.requireColumns(columns, [analysis.target, ...analysis.predictors]);
+        return this.regression(data, analysis.target, analysis.predictors, alpha);
+      case 'tTest':
+        this.requireColumns(columns, [analysis.column, analysis.groupColumn, analysis.pairedColumn]);
+        return this.tTest(data, analysis, alpha);
+      case 'chiSquare':
+        this.requireColumns(columns, [analysis.rowColumn, analysis.columnColumn]);
+        return this.chiSquare(data, analysis.rowColumn, analysis.columnColumn, alpha);
+      case 'anova':
+        this.requireColumns(columns, [analysis.column, analysis.groupColumn]);
+        return this.anova(data, analysis.column, analysis.groupColumn, alpha);
+    }
+  }
+
+  private requireColumns(columns: string[], wanted: (string | undefined)[]) {
+    const unknown = wanted.filter((column): column is string => column !== undefined && !columns.includes(column));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown column(s) ${Array.from(new Set(unknown)).join(', ')}. Available columns: ${columns.join(', ')}`);
+    }
+  }
+
+  private isNumericColumn(data: Rows, column: string): boolean {
+    const values = data.map(row => row[column]).filter(value => !isNullish(value));
+    return values.length > 0 && values.every(value => typeof value !== 'boolean' && toNumber(value) !== null);
+  }
+
+  /** The requested columns, checked to be numeric, or every numeric column. */
+  private numericColumns(data: Rows, columns: string[], requested?: string[]): string[] {
+    if (!requested) {
+      return columns.filter(column => this.isNumericColumn(data, column));
+    }
+    this.requireColumns(columns, requested);
+    const nonNumeric = requested.filter(column => !this.isNumericColumn(data, column));
+    if (nonNumeric.length > 0) {
+      throw new Error(`Column(s) ${nonNumeric.join(', ')} are not numeric`);
+    }
+    return requested;
+  }
+
+  private numbers(data: Rows, column: string): (number | null)[] {
+    return data.map(row => (typeof row[column] === 'boolean' ? null : toNumber(row[column])));
+  }
+
+  /** Distinct non-null values of a column as text, in sorted order. */
+  private levels(data: Rows, column: string, limit: number): string[] {
+    const distinct = Array.from(new Set(data.map(row => row[column]).filter(value => !isNullish(value)).map(String)));
+    if (distinct.length > limit) {
+      throw new Error(`Column ${column} has ${distinct.length} distinct values; at most ${limit} categories are supported`);
+    }
+    return distinct.sort(compareValues);
+  }
+
+  private descriptive(data: Rows, columns: string[], alpha: number): AnalysisOutput {
+    if (columns.length === 0) {
+      throw new Error('There are no numeric columns to describe');
+    }
+    const confidence = 1 - alpha;
+    const interpretation: string[] = [];
+    const stats = columns.map(column => {
+      const values = this.numbers(data, column).filter((value): value is number => value !== null);
+      const summary = describe(values, confidence);
+      const missing = data.length - values.length;
+
+      let sentence = `${column}: mean ${formatNumber(summary.mean)}`;
+      if (summary.standardDeviation !== null) sentence += ` (SD ${formatNumber(summary.standardDeviation)})`;
+      sentence += `, median ${formatNumber(summary.median)}, range ${formatNumber(summary.min)} to ${formatNumber(summary.max)}, n = ${summary.count}`;
+      if (missing > 0) sentence += `, ${missing} missing`;
+      sentence += '.';
+      if (summary.skewness !== null && Math.abs(summary.skewness) >= 0.5) {
+        const strength = Math.abs(summary.skewness) >= 1 ? 'strongly' : 'moderately';
+        sentence += ` The distribution is ${strength} ${summary.skewness > 0 ? 'right' : 'left'}-skewed, so the median describes a typical value better than the mean.`;
+      }
+      interpretation.push(sentence);
+
+      return { column, missing, ...summary };
+    });
+
+    return { rowsUsed: data.length, result: { confidenceLevel: confidence, columns: stats }, interpretation, warnings: [] };
+  }
+
+  private correlation(data: Rows, columns: string[], method: 'pearson' | 'spearman', alpha: number): AnalysisOutput {
+    if (columns.length < 2) {
+      throw new Error('A correlation matrix needs at least two numeric columns');
+    }
+    const series = columns.map(name => ({ name, values: this.numbers(data, name) }));
+    const matrix = correlationMatrix(series, method);
+
+    const pairs: { columns: [string, string]; r: number; pValue: number; n: number; magnitude: Magnitude }[] = [];
+    for (let i = 0; i < columns.length; i++) {
+      for (let j = i + 1; j < columns.length; j++) {
+        const r = matrix.r[i][j];
+        const pValue = matrix.pValues[i][j];
+        if (r === null || pValue === null) continue;
+        pairs.push({ columns: [columns[i], columns[j]], r, pValue, n: matrix.n[i][j], magnitude: effectMagnitude('r', r) });
+      }
+    }
+    pairs.sort((a, b) => Math.abs(b.r) - Math.abs(a.r));
+
+    const label = method === 'pearson' ? 'Pearson' : 'Spearman';
+    const strength: Record<Magnitude, string> = { negligible: 'negligible', small: 'weak', medium: 'moderate', large: 'strong' };
+    const significant = pairs.filter(pair => pair.pValue < alpha);
+    const interpretation = significant.slice(0, 5).map(pair =>
+      `${pair.columns[0]} and ${pair.columns[1]} have a ${strength[pair.magnitude]} ${pair.r > 0 ? 'positive' : 'negative'} ${label} correlation (r = ${formatNumber(pair.r)}, ${formatPValue(pair.pValue)}, n = ${pair.n}).`,
+    );
+    if (significant.length > 5) {
+      interpretation.push(`${significant.length - 5} more pairs are significantly correlated; see the matrix for details.`);
+    }
+    if (significant.length === 0) {
+      interpretation.push(`None of the ${pairs.length} column pairs is significantly correlated at the ${alpha} level.`);
+    } else {
+      interpretation.push('Correlation measures association only and does not show that one variable causes the other.');
+    }
+
+    const warnings: string[] = [];
+    const skipped = columns.length * (columns.length - 1) / 2 - pairs.length;
+    if (skipped > 0) {
+      warnings.push(`${skipped} pairs have no correlation because a column is constant or has fewer than 3 shared values.`);
+    }
+
+    // Pairs use every row where both of their columns have values, so a row counts if it completes any pair
+    const present = data.map((_, r) => series.filter(column => column.values[r] !== null).length);
+    if (present.some(count => count < columns.length)) {
+      warnings.push('Each pair uses the rows where both of its columns have values, so pair sizes (n) can differ.');
+    }
+
+    const strongest = pairs[0];
+    return {
+      rowsUsed: present.filter(count => count >= 2).length,
+      result: { ...matrix, pairs },
+      effectSize: strongest ? { measure: 'r', value: strongest.r, magnitude: strongest.magnitude } : undefined,
+      significant: significant.length > 0,
+      interpretation,
+      warnings,
+    };
+  }
+
+  private regression(data: Rows, target: string, predictors: string[], alpha: number): AnalysisOutput {
+    if (!this.isNumericColumn(data, target)) {
+      throw new Error(`The regression target ${target} is not numeric`);
+    }
+    if (predictors.includes(target)) {
+      throw new Error(`The target ${target} cannot also be a predictor`);
+    }
+    const repeated = predictors.filter((column, i) => predictors.indexOf(column) !== i);
+    if (repeated.length > 0) {
+      throw new Error(`Predictor(s) ${Array.from(new Set(repeated)).join(', ')} are listed more than once`);
+    }
+
+    // Categorical predictors become one 0/1 column per level beyond the first
+    const encoders = predictors.map(column => {
+      if (this.isNumericColumn(data, column)) {
+        return { column, terms: [{ term: column, column, level: undefined as string | undefined }], reference: undefined as string | undefined };
+      }
+      const levels = this.levels(data, column, MAX_DUMMY_LEVELS);
+      if (levels.length < 2) {
+        throw new Error(`Predictor ${column} has a single value and cannot explain anything`);
+      }
+      return {
+        column,
+        terms: levels.slice(1).map(level => ({ term: `${column}[${level}]`, column, level: level as string | undefined })),
+        reference: levels[0] as string | undefined,
+      };
+    });
+    const terms = encoders.flatMap(encoder => encoder.terms);
+
+    const y: number[] = [];
+    const x: number[][] = [];
+    data.forEach(row => {
+      const outcome = typeof row[target] === 'boolean' ? null : toNumber(row[target]);
+      if (outcome === null) return;
+      const features: number[] = [];
+      for (const encoder of encoders) {
+        const value = row[encoder.column];
+        if (encoder.reference === undefined) {
+          const number = toNumber(value);
+          if (number === null) return;
+          features.push(number);
+        } else {
+          if (isNullish(value)) return;
+          encoder.terms.forEach(term => features.push(String(value) === term.level ? 1 : 0));
+        }
+      }
+      y.push(outcome);
+      x.push(features);
+    });
+
+    const confidence = 1 - alpha;
+    const model = linearRegression(y, x, terms.map(term => term.term), confidence);
+    const f2 = model.rSquared < 1 ? model.rSquared / (1 - model.rSquared) : Infinity;
+    const significant = model.fPValue < alpha;
+
+    const interpretation = [
+      `The model explains ${percent(model.rSquared)} of the variance in ${target} (R² = ${formatNumber(model.rSquared)}, adjusted R² = ${formatNumber(model.adjustedRSquared)}; F(${model.dfModel}, ${model.dfResidual}) = ${formatNumber(model.fStatistic)}, ${formatPValue(model.fPValue)}).`,
+    ];
+    if (!significant) {
+      interpretation.push(`The model as a whole is not statistically significant at the ${alpha} level, so the predictors do not reliably explain ${target}.`);
+    }
+    const holding = terms.length > 1 ? ', holding the other predictors constant' : '';
+    model.coefficients.slice(1).forEach((coefficient, i) => {
+      const term = terms[i];
+      const reference = encoders.find(encoder => encoder.column === term.column)!.reference;
+      const name = term.level === undefined ? term.column : `${term.column} = ${term.level}`;
+      if (coefficient.pValue >= alpha) {
+        interpretation.push(`${name} is not a significant predictor of ${target} (${formatPValue(coefficient.pValue)}).`);
+      } else if (term.level === undefined) {
+        interpretation.push(
+          `Each one-unit increase in ${term.column} is associated with a ${formatNumber(Math.abs(coefficient.estimate))} ${coefficient.estimate >= 0 ? 'increase' : 'decrease'} in ${target}${holding} (${formatPValue(coefficient.pValue)}).`,
+        );
+      } else {
+        interpretation.push(
+          `${target} is ${formatNumber(Math.abs(coefficient.estimate))} ${coefficient.estimate >= 0 ? 'higher' : 'lower'} for ${name} than for ${term.column} = ${reference}${holding} (${formatPValue(coefficient.pValue)}).`,
+        );
+      }
+    });
+
+    const warnings: string[] = [];
+    if (model.n < 10 * terms.length) {
+      warnings.push(`Only ${model.n} rows for ${terms.length} predictor terms; estimates may be unstable (aim for at least 10 rows per term).`);
+    }
+
+    return {
+      rowsUsed: model.n,
+      result: {
+        target,
+        confidenceLevel: confidence,
+        referenceLevels: Object.fromEntries(encoders.filter(encoder => encoder.reference !== undefined).map(encoder => [encoder.column, encoder.reference])),
+        ...model,
+      },
+      significant,
+      effectSize: { measure: 'cohensF2', value: isFinite(f2) ? f2 : null, magnitude: effectMagnitude('cohensF2', f2) },
+      interpretation,
+      warnings,
+    };
+  }
+
+  private tTest(data: Rows, analysis: Extract<Analysis, { type: 'tTest' }>, alpha: number): AnalysisOutput {
+    const { column, groupColumn, pairedColumn } = analysis;
+    const alternative = analysis.alternative ?? 'two-sided';
+    const confidence = 1 - alpha;
+    const values = this.numbers(data, column);
+    const interpretation: string[] = [];
+    let result: TTestResult;
+    let rowsUsed: number;
+    let rowsInScope: number | undefined;
+    let labels: string[] = [];
+
+    if (pairedColumn) {
+      const other = this.numbers(data, pairedColumn);
+      const pairs = values
+        .map((value, i) => [value, other[i]] as const)
+        .filter((pair): pair is readonly [number, number] => pair[0] !== null && pair[1] !== null);
+      result = pairedTTest(pairs.map(pair => pair[0]), pairs.map(pair => pair[1]), alternative, confidence);
+      rowsUsed = pairs.length;
+      labels = [column, pairedColumn];
+      const statistic = `t(${formatNumber(result.df)}) = ${formatNumber(result.tStatistic)}, ${formatPValue(result.pValue)}`;
+      interpretation.push(result.pValue < alpha
+        ? `${column} is significantly ${result.estimate > 0 ? 'higher' : 'lower'} than ${pairedColumn} on average (mean difference ${formatNumber(result.estimate)}): ${statistic}.`
+        : `There is no significant difference between ${column} and ${pairedColumn} (mean difference ${formatNumber(result.estimate)}): ${statistic}.`);
+    } else if (groupColumn) {
+      const available = this.levels(data, groupColumn, Infinity);
+      const chosen = analysis.groups ?? available;
+      if (chosen.length !== 2) {
+        throw new Error(
+          `A two-sample t-test compares exactly two groups, but ${groupColumn} has ${available.length}: ${available.slice(0, 10).join(', ')}. Pick two with groups or use anova`,
+        );
+      }
+      const missingGroups = chosen.filter(group => !available.includes(group));
+      if (missingGroups.length > 0) {
+        throw new Error(`Group(s) ${missingGroups.join(', ')} do not occur in ${groupColumn}`);
+      }
+      const samples = chosen.map(group =>
+        values.filter((value, i): value is number => value !== null && !isNullish(data[i][groupColumn]) && String(data[i][groupColumn]) === group),
+      );
+      result = twoSampleTTest(samples[0], samples[1], { equalVariance: analysis.equalVariance, alternative, confidence });
+      rowsUsed = samples[0].length + samples[1].length;
+      rowsInScope = data.filter(row => !isNullish(row[groupColumn]) && chosen.includes(String(row[groupColumn]))).length;
+      labels = chosen;
+      const [first, second] = result.groups;
+      const statistic = `t(${formatNumber(result.df)}) = ${formatNumber(result.tStatistic)}, ${formatPValue(result.pValue)}`;
+      interpretation.push(result.pValue < alpha
+        ? `Mean ${column} is significantly ${result.estimate > 0 ? 'higher' : 'lower'} for ${chosen[0]} (${formatNumber(first.mean)}) than for ${chosen[1]} (${formatNumber(second.mean)}): ${statistic}.`
+        : `There is no significant difference in mean ${column} between ${chosen[0]} (${formatNumber(first.mean)}) and ${chosen[1]} (${formatNumber(second.mean)}): ${statistic}.`);
+    } else {
+      const mu = analysis.mu ?? 0;
+      const sample = values.filter((value): value is number => value !== null);
+      result = oneSampleTTest(sample, mu, alternative, confidence);
+      rowsUsed = sample.length;
+      labels = [column];
+      const statistic = `t(${formatNumber(result.df)}) = ${formatNumber(result.tStatistic)}, ${formatPValue(result.pValue)}`;
+      interpretation.push(result.pValue < alpha
+        ? `Mean ${column} (${formatNumber(result.estimate)}) is significantly ${result.estimate > mu ? 'higher' : 'lower'} than ${formatNumber(mu)}: ${statistic}.`
+        : `Mean ${column} (${formatNumber(result.estimate)}) does not differ significantly from ${formatNumber(mu)}: ${statistic}.`);
+    }
+
+    const magnitude = effectMagnitude('cohensD', result.cohensD);
+    interpretation.push(`The effect size is ${magnitude} (Cohen's d = ${formatNumber(result.cohensD)}).`);
+    if (alternative === 'two-sided') {
+      const [low, high] = result.confidenceInterval;
+      const subject = result.kind === 'one-sample' ? 'the mean' : 'the difference';
+      interpretation.push(`The ${percent(confidence)} confidence interval for ${subject} is ${formatNumber(low)} to ${formatNumber(high)}.`);
+    }
+
+    const warnings: string[] = [];
+    if (result.groups.some(group => group.n < 30)) {
+      warnings.push('With fewer than 30 values per group the t-test assumes the data are roughly normally distributed.');
+    }
+
+    return {
+      rowsUsed,
+      rowsInScope,
+      result: {
+        ...result,
+        test: result.kind === 'two-sample' ? (analysis.equalVariance ? "Student's t-test" : "Welch's t-test") : `${result.kind} t-test`,
+        confidenceLevel: confidence,
+        groups: result.groups.map((group, i) => ({ label: labels[i], ...group })),
+      },
+      significant: result.pValue < alpha,
+      effectSize: { measure: 'cohensD', value: result.cohensD, magnitude },
+      interpretation,
+      warnings,
+    };
+  }
+
+  private chiSquare(data: Rows, rowColumn: string, columnColumn: string, alpha: number): AnalysisOutput {
+    if (rowColumn === columnColumn) {
+      throw new Error('A chi-square test needs two different columns');
+    }
+    const rows = data.filter(row => !isNullish(row[rowColumn]) && !isNullish(row[columnColumn]));
+    const rowLevels = this.levels(rows, rowColumn, MAX_LEVELS);
+    const columnLevels = this.levels(rows, columnColumn, MAX_LEVELS);
+    const observed = rowLevels.map(() => columnLevels.map(() => 0));
+    rows.forEach(row => {
+      observed[rowLevels.indexOf(String(row[rowColumn]))][columnLevels.indexOf(String(row[columnColumn]))]++;
+    });
+
+    const test = chiSquareTest(observed);
+    const minDimension = Math.min(rowLevels.length, columnLevels.length);
+    const magnitude = effectMagnitude('cramersV', test.cramersV, minDimension);
+    const significant = test.pValue < alpha;
+    const statistic = `χ²(${test.df}) = ${formatNumber(test.chiSquare)}, ${formatPValue(test.pValue)}`;
+
+    const interpretation = [significant
+      ? `${rowColumn} and ${columnColumn} are significantly associated (${statistic}); the association is ${magnitude} (Cramér's V = ${formatNumber(test.cramersV)}).`
+      : `There is no significant association between ${rowColumn} and ${columnColumn} (${statistic}).`];
+    if (significant) {
+      // Point at the cell that departs most from independence
+      let best = { i: 0, j: 0, residual: 0 };
+      test.expected.forEach((row, i) => row.forEach((expected, j) => {
+        const residual = expected > 0 ? (observed[i][j] - expected) / Math.sqrt(expected) : 0;
+        if (Math.abs(residual) > Math.abs(best.residual)) best = { i, j, residual };
+      }));
+      interpretation.push(
+        `The largest departure is ${rowColumn} = ${rowLevels[best.i]} with ${columnColumn} = ${columnLevels[best.j]}: ${observed[best.i][best.j]} rows observed against ${formatNumber(test.expected[best.i][best.j])} expected if they were independent.`,
+      );
+    }
+
+    const warnings: string[] = [];
+    if (test.lowExpectedShare > 0.2) {
+      warnings.push(`${percent(test.lowExpectedShare)} of cells have an expected count below 5, so the p-value is approximate; consider merging rare categories.`);
+    }
+
+    return {
+      rowsUsed: rows.length,
+      result: { rowColumn, columnColumn, rowLevels, columnLevels, observed, ...test },
+      significant,
+      effectSize: { measure: 'cramersV', value: test.cramersV, magnitude },
+      interpretation,
+      warnings,
+    };
+  }
+
+  private anova(data: Rows, column: string, groupColumn: string, alpha: number): AnalysisOutput {
+    if (!this.isNumericColumn(data, column)) {
+      throw new Error(`Column ${column} is not numeric`);
+    }
+    const values = this.numbers(data, column);
+    const labels = this.levels(data, groupColumn, MAX_LEVELS);
+    const samples = labels.map(label =>
+      values.filter((value, i): value is number => value !== null && !isNullish(data[i][groupColumn]) && String(data[i][groupColumn]) === label),
+    );
+    const used = labels.map((label, i) => ({ label, values: samples[i] })).filter(group => group.values.length > 0);
+    const test = oneWayAnova(used.map(group => group.values));
+    const magnitude = effectMagnitude('etaSquared', test.etaSquared);
+    const significant = test.pValue < alpha;
+    const statistic = `F(${test.dfBetween}, ${test.dfWithin}) = ${formatNumber(test.fStatistic)}, ${formatPValue(test.pValue)}`;
+    const groups = test.groups.map((group, i) => ({ label: used[i].label, ...group }));
+
+    const interpretation = [significant
+      ? `Mean ${column} differs significantly across the ${groups.length} ${groupColumn} groups (${statistic}); ${groupColumn} accounts for ${percent(test.etaSquared)} of the variance, a ${magnitude} effect (η² = ${formatNumber(test.etaSquared)}).`
+      : `Mean ${column} does not differ significantly across the ${groups.length} ${groupColumn} groups (${statistic}).`];
+    const ranked = [...groups].sort((a, b) => b.mean - a.mean);
+    interpretation.push(
+      `The highest mean is ${ranked[0].label} (${formatNumber(ranked[0].mean)}) and the lowest is ${ranked[ranked.length - 1].label} (${formatNumber(ranked[ranked.length - 1].mean)}).`,
+    );
+    if (significant && groups.length > 2) {
+      interpretation.push('ANOVA does not say which groups differ; compare specific pairs with t-tests to find out.');
+    }
+
+    const warnings: string[] = [];
+    const small = groups.filter(group => group.n < 2).map(group => group.label);
+    if (small.length > 0) {
+      warnings.push(`Group(s) ${small.join(', ')} have a single value and contribute no within-group variation.`);
+    }
+    const sds = groups.map(group => group.standardDeviation).filter((sd): sd is number => sd !== null && sd > 0);
+    if (sds.length > 1 && Math.max(...sds) / Math.min(...sds) > 2) {
+      warnings.push('Group standard deviations differ by more than a factor of two, which weakens the equal-variance assumption of ANOVA.');
+    }
+
+    return {
+      rowsUsed: groups.reduce((sum, group) => sum + group.n, 0),
+      result: { column, groupColumn, ...test, groups },
+      significant,
+      effectSize: { measure: 'etaSquared', value: test.etaSquared, magnitude },
+      interpretation,
+      warnings,
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { configureModels, MockStep, resetModelConfig } from '../models';
+import { TextToSQLTool } from './textToSqlTool';
+
+const tool = new TextToSQLTool();
+
+function scriptModel(mockSteps: MockStep[]) {
+  configureModels({ agents: { dataAnalysisAgent: { provider: 'mock', mockSteps } } });
+}
+
+const sql = (query: string): MockStep => ({ text: `\`\`\`sql\n${query};\n\`\`\`` });
+
+beforeAll(async () => {
+  await datasetRegistry.register('text_sql_orders', {
+    data: [
+      { region: 'North', total: 30, ordered_at: '2024-01-05' },
+      { region: 'South', total: 70, ordered_at: '2024-02-11' },
+      { region: 'North', total: 20, ordered_at: '2024-02-20' },
+    ],
+    columns: ['region', 'total', 'ordered_at'],
+  });
+});
+
+afterEach(() => {
+  resetModelConfig();
+});
+
+describe('TextToSQLTool', () => {
+  it('runs a valid first query and returns it with the result', async () => {
+    scriptModel([sql('SELECT region, SUM(total) AS revenue FROM text_sql_orders GROUP BY region ORDER BY revenue DESC')]);
+    const result = await tool.invoke({ question: 'Revenue by region?', datasets: ['text_sql_orders'], saveAs: 'text_sql_revenue' });
+    expect(result).toMatchObject({
+      success: true,
+      sql: 'SELECT region, SUM(total) AS revenue FROM text_sql_orders GROUP BY region ORDER BY revenue DESC',
+      result: [{ region: 'South', revenue: 70 }, { region: 'North', revenue: 50 }],
+      rowCount: 2,
+      truncated: false,
+      datasetName: 'text_sql_revenue',
+    });
+    expect(result.attempts).toEqual([{ sql: result.sql, issues: [] }]);
+  });
+
+  it('sends validation errors back and accepts the repaired query', async () => {
+    scriptModel([
+      sql('SELECT regin, SUM(total) FROM text_sql_orders GROUP BY regin'),
+      sql('SELECT region, SUM(total) AS revenue FROM text_sql_orders GROUP BY region'),
+    ]);
+    const result = await tool.invoke({ question: 'Revenue by region?', datasets: ['text_sql_orders'], limit: 1 });
+    expect(result).toMatchObject({ success: true, rowCount: 2, truncated: true });
+    expect(result.result).toHaveLength(1);
+    expect(result.attempts).toHaveLength(2);
+    expect(result.attempts![0].issues[0]).toMatchObject({ code: 'unknownColumn', suggestions: ['region'] });
+    expect(result.attempts![1].issues).toEqual([]);
+  });
+
+  it('feeds the structured issues to the next attempt and gives up after maxAttempts', async () => {
+    // With the script used up, the mock echoes the repair prompt it is sent
+    scriptModel([sql("SELECT SUM(region) FROM text_sql_orders WHERE total > 'many'")]);
+    const result = await tool.invoke({ question: 'Total?', datasets: ['text_sql_orders'], maxAttempts: 2 });
+    expect(result.success).toBe(false);
+    expect(result.attempts!.map(attempt => attempt.issues[0]?.code)).toEqual(['typeMismatch', 'syntaxError']);
+    const repairPrompt = result.attempts![1].sql;
+    expect(repairPrompt).toContain('"code": "typeMismatch"');
+    expect(JSON.parse(repairPrompt.replace(/^json\s*/, ''))).toEqual(result.attempts![0].issues);
+    expect(result.error).toMatch(/^No valid query after 2 attempt\(s\); the last one still has: /);
+  });
+
+  it('grounds the question in the column names, types and sample values', async () => {
+    // The mock echoes the question prompt back, which fails as a query
+    scriptModel([]);
+    const result = await tool.invoke({ question: 'Which region sells most?', datasets: ['text_sql_orders'], maxAttempts: 1 });
+    expect(result.sql).toContain('text_sql_orders (3 rows)');
+    expect(result.sql).toContain("- region (categorical): 'North', 'South'");
+    expect(result.sql).toContain('- total (integer): 20 to 70');
+    expect(result.sql).toContain("- ordered_at (date): '2024-01-05' to '2024-02-20'");
+    expect(result.sql).toContain('Question: Which region sells most?');
+  });
+
+  it('treats errors from running the query as issues to repair', async () => {
+    scriptModel([
+      sql('SELECT PERCENTILE(total, 90) AS p90 FROM text_sql_orders'),
+      sql('SELECT PERCENTILE(total, 0.5) AS p50 FROM text_sql_orders'),
+    ]);
+    const result = await tool.invoke({ question: 'Median order?', datasets: ['text_sql_orders'] });
+    expect(result).toMatchObject({ success: true, result: [{ p50: 30 }] });
+    expect(result.attempts![0].issues).toEqual([{
+      code: 'executionError',
+      message: 'PERCENTILE expects a fraction between 0 and 1 as its second argument (line 1, column 8)',
+    }]);
+  });
+
+  it('validates without running when execute is false, and passes on unanswerable questions', async () => {
+    scriptModel([sql('SELECT COUNT(*) AS n FROM text_sql_orders'), { text: 'CANNOT_ANSWER: there is no customer column' }]);
+    expect(await tool.invoke({ question: 'How many orders?', datasets: ['text_sql_orders'], execute: false })).toEqual({
+      success: true, sql: 'SELECT COUNT(*) AS n FROM text_sql_orders', attempts: [{ sql: 'SELECT COUNT(*) AS n FROM text_sql_orders', issues: [] }],
+    });
+    const unanswerable = await tool.invoke({ question: 'Top customer?', datasets: ['text_sql_orders'] });
+    expect(unanswerable).toMatchObject({ success: false, error: 'The datasets cannot answer this question: there is no customer column' });
+    expect((await tool.invoke({ question: 'x', datasets: ['text_sql_missing'] })).error).toMatch(/^Unknown dataset 'text_sql_missing'/);
+  });
+});
@@ -0,0 +1,254 @@
+import { CoreMessage, generateText } from 'ai';
+import { z } from 'zod';
+import { Dataset, datasetRegistry } from '../data/datasetRegistry';
+import { ColumnSchema, inferSchema, isNumericType } from '../data/typeInference';
+import { modelFor } from '../models';
+import { parseQuery, SchemaCatalog, SqlIssue, SqlSyntaxError, validateQuery } from '../sql';
+import { DataTool } from './dataTool';
+import { SQLQueryTool } from './sqlQueryTool';
+
+// Rows returned per call, as in the SQL query tool
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+// Distinct values shown per text column in the prompt
+const SAMPLE_VALUES = 5;
+const MAX_SAMPLE_LENGTH = 40;
+
+const UNANSWERABLE = 'CANNOT_ANSWER';
+
+const SqlIssueSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  line: z.number().optional(),
+  column: z.number().optional(),
+  suggestions: z.array(z.string()).optional(),
+});
+
+const TextToSQLInputSchema = z.object({
+  question: z.string().describe('The question to answer, in plain language'),
+  datasets: z.array(z.string()).optional().describe(
+    'Registered datasets the question is about, by name or ID; defaults to every registered dataset',
+  ),
+  maxAttempts: z.number().int().min(1).max(5).optional().default(3).describe(
+    'Queries to generate at most; after a query fails validation, its errors are sent back for a corrected one',
+  ),
+  execute: z.boolean().optional().default(true).describe('Run the final query; when false, only generate and validate it'),
+  limit: z.number().int().min(1).max(MAX_LIMIT).optional().default(DEFAULT_LIMIT).describe('Maximum number of result rows to return'),
+  saveAs: z.string().optional().describe('Register the full result as a dataset under this name'),
+});
+
+const TextToSQLOutputSchema = z.object({
+  success: z.boolean(),
+  sql: z.string().optional().describe('The final query; show it to the user so they can check it'),
+  result: z.array(z.record(z.any())).optional(),
+  columns: z.array(z.string()).optional(),
+  rowCount: z.number().optional().describe('Rows in the full result'),
+  truncated: z.boolean().optional().describe('Whether only the first limit rows are returned'),
+  attempts: z.array(z.object({
+    sql: z.string(),
+    issues: z.array(SqlIssueSchema).describe('Problems found in this query; empty for the accepted one'),
+  })).optional(),
+  datasetName: z.string().optional(),
+  datasetId: z.string().optional(),
+  error: z.string().optional(),
+});
+
+type TextToSQLInput = z.infer<typeof TextToSQLInputSchema>;
+
+/**
+ * Turns a question into a query over the registered datasets. The model sees
+ * each dataset's columns, types and sample values; every query it writes is
+ * parsed and checked against the schemas (and run, when `execute` is set),
+ * and the structured issues go back to it until a query passes or the
+ * attempts run out.
+ */
+export class TextToSQLTool extends DataTool<typeof TextToSQLInputSchema, typeof TextToSQLOutputSchema> {
+  id = 'textToSqlTool';
+  description = 'Answers a plain-language question about registered datasets by writing a SQL query grounded in their column names, types and sample values, checking it for unknown tables, columns and functions and type mismatches, and sending the errors back for a corrected query a bounded number of times. Returns the final SQL with its result and every attempt';
+  inputSchema = TextToSQLInputSchema;
+  outputSchema = TextToSQLOutputSchema;
+
+  private sqlQueryTool = new SQLQueryTool();
+
+  async run(input: TextToSQLInput) {
+    const attempts: { sql: string; issues: SqlIssue[] }[] = [];
+    try {
+      const datasets = await this.loadDatasets(input.datasets);
+      const catalog: SchemaCatalog = Object.fromEntries(datasets.map(({ dataset, schema }) => [dataset.name, schema]));
+      const messages: CoreMessage[] = [{ role: 'user', content: this.questionPrompt(input.question, datasets) }];
+      const maxAttempts = input.maxAttempts ?? 3;
+
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const { text } = await generateText({
+          model: await modelFor('dataAnalysisAgent'),
+          system: SYSTEM_PROMPT,
+          messages,
+          temperature: 0,
+        });
+        const reply = text.trim();
+        if (reply.startsWith(UNANSWERABLE)) {
+          const reason = reply.slice(UNANSWERABLE.length).replace(/^[:\s]+/, '');
+          throw new Error(`The datasets cannot answer this question: ${reason || 'no reason given'}`);
+        }
+
+        const sql = extractSql(reply);
+        const issues = this.checkQuery(sql, catalog);
+        let result;
+        if (issues.length === 0 && input.execute !== false) {
+          try {
+            result = await this.sqlQueryTool.runQuery(sql);
+          } catch (error) {
+            issues.push({ code: 'executionError', message: error instanceof Error ? error.message : String(error) });
+          }
+        }
+        attempts.push({ sql, issues });
+
+        if (issues.length === 0) {
+          if (!result) {
+            return { success: true, sql, attempts };
+          }
+          const saved = input.saveAs
+            ? await datasetRegistry.register(input.saveAs, {
+              data: result.data,
+              columns: result.columns,
+              metadata: { query: sql, question: input.question },
+            })
+            : undefined;
+          const limit = input.limit ?? DEFAULT_LIMIT;
+          return {
+            success: true,
+            sql,
+            result: result.data.slice(0, limit),
+            columns: result.columns,
+            rowCount: result.data.length,
+            truncated: result.data.length > limit,
+            attempts,
+            datasetName: saved?.name,
+            datasetId: saved?.id,
+          };
+        }
+
+        messages.push(
+          { role: 'assistant', content: reply },
+          { role: 'user', content: repairPrompt(issues) },
+        );
+      }
+
+      const last = attempts[attempts.length - 1];
+      throw new Error(
+        `No valid query after ${attempts.length} attempt(s); the last one still has: ${last.issues.map(issue => issue.message).join('; ')}`,
+      );
+    } catch (error) {
+      return {
+        success: false,
+        sql: attempts[attempts.length - 1]?.sql,
+        attempts: attempts.length > 0 ? attempts : undefined,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+
+  private async loadDatasets(names?: string[]): Promise<{ dataset: Dataset; schema: ColumnSchema[] }[]> {
+    const available = datasetRegistry.list().map(entry => entry.name);
+    const wanted = names && names.length > 0 ? names : available;
+    if (wanted.length === 0) {
+      throw new Error('No datasets are registered; load a file with the data processing tool first');
+    }
+    const datasets = [];
+    for (const name of wanted) {
+      const dataset = await datasetRegistry.get(name);
+      if (!dataset) {
+        throw new Error(
+          `Unknown dataset '${name}'. ${available.length > 0 ? `Available datasets: ${available.join(', ')}` : 'No datasets are registered'}`,
+        );
+      }
+      // Processed datasets carry their inferred schema; others are inferred now
+      const schema: ColumnSchema[] = dataset.metadata?.schema ?? inferSchema(dataset.data, dataset.columns);
+      datasets.push({ dataset, schema });
+    }
+    return datasets;
+  }
+
+  /** Parses and validates a query; an empty list means it can run. */
+  private checkQuery(sql: string, catalog: SchemaCatalog): SqlIssue[] {
+    if (sql === '') {
+      return [{ code: 'syntaxError', message: 'The reply did not contain a query' }];
+    }
+    try {
+      return validateQuery(parseQuery(sql), catalog);
+    } catch (error) {
+      if (error instanceof SqlSyntaxError) {
+        return [{ code: 'syntaxError', message: error.message, line: error.line, column: error.column }];
+      }
+      return [{ code: 'invalidQuery', message: error instanceof Error ? error.message : String(error) }];
+    }
+  }
+
+  private questionPrompt(question: string, datasets: { dataset: Dataset; schema: ColumnSchema[] }[]): string {
+    return [
+      'Tables:',
+      '',
+      ...datasets.map(({ dataset, schema }) => describeTable(dataset, schema)),
+      `Question: ${question}`,
+    ].join('\n');
+  }
+}
+
+const SYSTEM_PROMPT = `You translate questions about tabular data into one SQL SELECT query.
+
+Use only the tables and columns listed, spelled exactly as shown; quote names that contain spaces or punctuation with double quotes. The dialect supports JOIN, UNION, subqueries, WITH, WHERE, GROUP BY, HAVING, ORDER BY, LIMIT/OFFSET and DISTINCT; the aggregates COUNT, SUM, AVG, MIN, MAX, MEDIAN, STDDEV, VARIANCE and PERCENTILE(column, fraction); window functions with OVER (PARTITION BY, ORDER BY and ROWS frames; ROW_NUMBER, RANK, DENSE_RANK, LAG, LEAD); the scalar functions UPPER, LOWER, TRIM, LENGTH, ABS, ROUND, FLOOR, CEIL, COALESCE, NULLIF, SUBSTR and CONCAT; and DATE_TRUNC('month', column) and DATE_PART('year', column) for dates, which are written 'YYYY-MM-DD'. GROUP BY cannot use select-list aliases; repeat the expression. Compare text columns with the values as they appear in the samples.
+
+Reply with the query alone in a \`\`\`sql code block. If the tables cannot answer the question, reply with ${UNANSWERABLE}: followed by the reason.`;
+
+/** One table of the prompt: its size and, per column, the type and some values. */
+function describeTable(dataset: Dataset, schema: ColumnSchema[]): string {
+  const lines = [`${dataset.name} (${dataset.rowCount} rows)`];
+  schema.forEach(column => {
+    const values = dataset.data.map(row => row[column.name]).filter(value => value !== null && value !== undefined && value !== '');
+    const type = `${column.type}${column.nullable ? ', nullable' : ''}`;
+    lines.push(`- ${quoteName(column.name)} (${type}): ${sampleValues(values, column)}`);
+  });
+  return `${lines.join('\n')}\n`;
+}
+
+function sampleValues(values: unknown[], column: ColumnSchema): string {
+  if (values.length === 0) return 'no values';
+  const format = (value: unknown) => {
+    const text = String(value);
+    const short = text.length > MAX_SAMPLE_LENGTH ? `${text.slice(0, MAX_SAMPLE_LENGTH)}…` : text;
+    return typeof value === 'number' || typeof value === 'boolean' ? short : `'${short.replace(/'/g, "''")}'`;
+  };
+  // Numbers and dates are summarised by their range, other columns by their most common values
+  if (isNumericType(column.type) || column.type === 'date' || column.type === 'datetime') {
+    const sorted = [...values].sort((a, b) => (a! < b! ? -1 : a! > b! ? 1 : 0));
+    return `${format(sorted[0])} to ${format(sorted[sorted.length - 1])}`;
+  }
+  const counts = new Map<unknown, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  const common = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, SAMPLE_VALUES)
+    .map(([value]) => format(value));
+  return `${common.join(', ')}${counts.size > SAMPLE_VALUES ? ` … (${counts.size} distinct)` : ''}`;
+}
+
+function quoteName(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+/** The query in a reply: the first fenced code block, or else the whole reply, without a trailing semicolon. */
+function extractSql(reply: string): string {
+  const fenced = /```(?:sql)?\s*([\s\S]*?)```/i.exec(reply);
+  return (fenced ? fenced[1] : reply).trim().replace(/;\s*$/, '').trim();
+}
+
+function repairPrompt(issues: SqlIssue[]): string {
+  return [
+    'That query cannot be used. These problems were found:',
+    '```json',
+    JSON.stringify(issues, null, 2),
+    '```',
+    'Reply with a corrected query in a ```sql code block, using only the listed tables and columns.',
+  ].join('\n');
+}
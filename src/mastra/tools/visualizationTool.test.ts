@@ -0,0 +1,205 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { VisualizationTool } from './visualizationTool';
+
+const tool = new VisualizationTool();
+
+const sales = [
+  { month: 'Jan', region: 'North', revenue: 10, cost: 4 },
+  { month: 'Jan', region: 'North', revenue: 30, cost: 6 },
+  { month: 'Jan', region: 'South', revenue: 5, cost: 2 },
+  { month: 'Feb', region: 'North', revenue: 20, cost: 8 },
+  { month: 'Feb', region: 'South', revenue: 15, cost: null },
+];
+const columns = ['month', 'region', 'revenue', 'cost'];
+
+describe('VisualizationTool', () => {
+  it('makes one series per y column and per group', async () => {
+    const result = await tool.invoke({
+      data: sales, columns, chartType: 'bar', xAxis: 'month', yAxis: ['revenue', 'cost'], groupBy: 'region', aggregation: 'sum',
+    });
+    expect(result.success).toBe(true);
+    expect(result.chartConfig).toMatchObject({ series: ['North · revenue', 'North · cost', 'South · revenue', 'South · cost'] });
+    expect(result.chartData).toContainEqual({ x: 'Jan', series: 'North · revenue', y: 40, count: 2 });
+    // Null values are left out of the aggregate and its count
+    expect(result.chartData).toContainEqual({ x: 'Feb', series: 'South · cost', y: null, count: 0 });
+  });
+
+  it('aggregates y values sharing an x value as asked', async () => {
+    const totals = async (aggregation: 'sum' | 'mean' | 'median' | 'count' | 'min' | 'max') => {
+      const result = await tool.invoke({ data: sales, columns, chartType: 'bar', xAxis: 'month', yAxis: 'revenue', aggregation });
+      return result.chartData.map((point: any) => point.y);
+    };
+    expect(await totals('mean')).toEqual([15, 17.5]);
+    expect(await totals('sum')).toEqual([45, 35]);
+    expect(await totals('median')).toEqual([10, 17.5]);
+    expect(await totals('count')).toEqual([3, 2]);
+    expect(await totals('min')).toEqual([5, 15]);
+    expect(await totals('max')).toEqual([30, 20]);
+  });
+
+  it('sorts categories by label or value', async () => {
+    const order = async (sort: 'x-asc' | 'y-desc') => {
+      const result = await tool.invoke({ data: sales, columns, chartType: 'bar', xAxis: 'region', yAxis: 'revenue', aggregation: 'sum', sort });
+      return result.chartData.map((point: any) => point.x);
+    };
+    expect(await order('x-asc')).toEqual(['North', 'South']);
+    expect((await tool.invoke({ data: sales, columns, chartType: 'bar', xAxis: 'month', yAxis: 'cost', aggregation: 'sum', sort: 'y-desc' }))
+      .chartData.map((point: any) => point.x)).toEqual(['Jan', 'Feb']);
+  });
+
+  it('stacks bars in the library specs', async () => {
+    const result = await tool.invoke({
+      data: sales, columns, chartType: 'bar', xAxis: 'month', yAxis: 'revenue', groupBy: 'region', aggregation: 'sum',
+      format: 'vega-lite', options: { barMode: 'stacked' },
+    });
+    expect(result.chartConfig!.options.barMode).toBe('stacked');
+    expect(result.spec!.encoding.y.stack).toBe('zero');
+    expect(result.spec!.encoding.xOffset).toBeUndefined();
+  });
+
+  it('draws a panel per facet value', async () => {
+    const result = await tool.invoke({
+      data: sales, columns, chartType: 'line', xAxis: 'month', yAxis: 'revenue', facetBy: 'region', aggregation: 'sum', format: 'echarts',
+    });
+    expect(result.chartConfig).toMatchObject({ facets: ['North', 'South'], facetLabel: 'region' });
+    expect(result.chartData.filter((point: any) => point.facet === 'South')).toEqual([
+      { x: 'Jan', series: 'revenue', y: 5, count: 1, facet: 'South' },
+      { x: 'Feb', series: 'revenue', y: 15, count: 1, facet: 'South' },
+    ]);
+    expect(result.spec!.grid).toHaveLength(2);
+  });
+
+  it('puts dates on a time axis, bucketed to the time unit', async () => {
+    const result = await tool.invoke({
+      data: [
+        { day: '03/15/2024', revenue: 5 },
+        { day: '01/20/2024', revenue: 1 },
+        { day: '01/02/2024', revenue: 2 },
+      ],
+      columns: ['day', 'revenue'],
+      chartType: 'line',
+      xAxis: 'day',
+      yAxis: 'revenue',
+      timeUnit: 'month',
+      aggregation: 'sum',
+    });
+    expect(result.chartConfig).toMatchObject({ xScale: 'time' });
+    expect(result.chartData.map((point: any) => [point.x, point.y])).toEqual([['2024-01-01', 3], ['2024-03-01', 5]]);
+  });
+
+  it('highlights the given rows on scatter, line and box charts', async () => {
+    const readings = [
+      { day: '2024-01-02', sensor: 'a', value: 10 },
+      { day: '2024-01-01', sensor: 'a', value: 11 },
+      { day: '2024-01-03', sensor: 'b', value: 60 },
+      { day: '2024-01-04', sensor: 'b', value: 12 },
+    ];
+    const chart = async (chartType: 'scatter' | 'line' | 'box', xAxis: string) => tool.invoke({
+      data: readings, columns: ['day', 'sensor', 'value'], chartType, xAxis, yAxis: 'value', highlightRows: [0, 2],
+    });
+
+    const scatter = await chart('scatter', 'value');
+    expect(scatter.chartData.filter((point: any) => point.highlight).map((point: any) => point.y)).toEqual([10, 60]);
+    // Date axes copy and reorder the rows before they are charted
+    const line = await chart('line', 'day');
+    expect(line.chartConfig).toMatchObject({ xScale: 'time', highlightLabel: 'Anomaly' });
+    expect(line.chartData.map((point: any) => point.highlight ?? false)).toEqual([false, true, true, false]);
+    const box = await chart('box', 'sensor');
+    expect(box.chartData.map((point: any) => point.highlights)).toEqual([[10], [60]]);
+
+    const bar = await tool.invoke({
+      data: readings, columns: ['day', 'sensor', 'value'], chartType: 'bar', xAxis: 'sensor', yAxis: 'value', highlightRows: [0],
+    });
+    expect(bar.error).toBe('Rows can only be highlighted on scatter, line and box charts');
+  });
+
+  it('suggests ranked chart specs that render as they are', async () => {
+    const result = await tool.invoke({ data: sales, columns, mode: 'suggest', goal: 'comparison', maxSuggestions: 3 });
+    expect(result.success).toBe(true);
+    expect(result.suggestions![0]).toMatchObject({
+      rank: 1, goal: 'comparison', spec: { chartType: 'bar', xAxis: 'month', yAxis: 'revenue', aggregation: 'sum', sort: 'y-desc' },
+    });
+    for (const { spec } of result.suggestions!) {
+      expect((await tool.invoke({ data: sales, columns, ...spec })).success).toBe(true);
+    }
+    expect((await tool.invoke({ data: [{ id: 1 }, { id: 2 }], columns: ['id'], mode: 'suggest' })).error)
+      .toBe('No chart suits this data: it needs at least one numeric, date or low-cardinality column with values');
+    expect((await tool.invoke({ data: sales, columns })).error)
+      .toBe("Rendering needs chartType, xAxis and yAxis; use mode 'suggest' to get ranked chart specs for the data");
+  });
+
+  it('leaves the data points out when asked, drawing every one of them', async () => {
+    const result = await tool.invoke({
+      data: sales, columns, chartType: 'bar', xAxis: 'month', yAxis: 'revenue', aggregation: 'sum', returnData: false,
+    });
+    expect(result).toMatchObject({ success: true, chartData: [], dataPoints: { total: 2, returned: 0 }, chartConfig: { data: [] } });
+    expect(result.accessibility!.dataTable.rows).toEqual([['Jan', 45], ['Feb', 35]]);
+    expect(result.artifacts![0].content).toContain('<svg');
+  });
+
+  it('describes every chart and checks its colours', async () => {
+    const grouped = { data: sales, columns, chartType: 'bar' as const, xAxis: 'month', yAxis: 'revenue', groupBy: 'region', aggregation: 'sum' as const };
+    const result = await tool.invoke(grouped);
+    expect(result.accessibility).toMatchObject({
+      altText: expect.stringMatching(/^Bar chart of revenue by month, with 2 series \(North and South\)\. Jan has the highest total revenue \(45\)/),
+      dataTable: { columns: ['month', 'North', 'South'], rows: [['Jan', 40, 5], ['Feb', 20, 15]], truncated: false },
+      colorBlindSafe: false,
+    });
+    expect(result.recommendations).toContain(
+      "The 'default' palette is not colour-blind safe; set options.palette to 'okabeIto' or 'tol' so the series stay distinct.",
+    );
+
+    const print = await tool.invoke({ ...grouped, options: { theme: 'print', formats: ['svg'] } });
+    expect(print.accessibility).toMatchObject({ colorBlindSafe: true });
+    expect(print.artifacts![0].content).toContain('<rect width="100%" height="100%" fill="#FFFFFF"/>');
+    expect(print.artifacts![0].content).toContain('Georgia');
+
+    const faint = await tool.invoke({ ...grouped, groupBy: undefined, options: { color: '#FDE725' } });
+    expect(faint.accessibility!.contrastIssues).toEqual([{ element: 'revenue colour', color: '#FDE725', background: '#FFFFFF', ratio: 1.26, required: 3 }]);
+    expect(faint.recommendations!.some(text => text.startsWith('The revenue colour (#FDE725) has a contrast of 1.26:1'))).toBe(true);
+
+    expect((await tool.invoke({ ...grouped, options: { sequentialPalette: 'viridis' } })).error)
+      .toBe('Sequential and diverging palettes colour heatmaps; use palette to colour bar charts');
+  });
+
+  describe('writing images', () => {
+    const previousRoot = process.env.CHART_OUTPUT_DIR;
+    let root: string;
+
+    beforeAll(async () => {
+      root = await mkdtemp(join(tmpdir(), 'charts-'));
+      process.env.CHART_OUTPUT_DIR = root;
+    });
+
+    afterAll(async () => {
+      if (previousRoot === undefined) delete process.env.CHART_OUTPUT_DIR;
+      else process.env.CHART_OUTPUT_DIR = previousRoot;
+      await rm(root, { recursive: true, force: true });
+    });
+
+    const revenue = { data: sales, columns, chartType: 'bar' as const, xAxis: 'month', yAxis: 'revenue', title: 'Revenue' };
+
+    it('writes them under the chart directory', async () => {
+      const result = await tool.invoke({ ...revenue, options: { formats: ['svg'], outputDir: 'monthly' } });
+      expect(result.artifacts![0].path).toMatch(new RegExp(`^${join(root, 'monthly', 'revenue-')}[0-9a-f]{8}\\.svg$`));
+      expect(await readFile(result.artifacts![0].path!, 'utf-8')).toContain('<svg');
+    });
+
+    it('refuses directories outside the chart directory', async () => {
+      for (const outputDir of ['/tmp', '../elsewhere', 'monthly/../../elsewhere']) {
+        expect(await tool.invoke({ ...revenue, options: { outputDir } }))
+          .toEqual({ success: false, error: `outputDir '${outputDir}' must be a relative path inside ${root}` });
+      }
+    });
+  });
+
+  it('rejects unknown columns and ungroupable pies', async () => {
+    expect(await tool.invoke({ data: sales, columns, chartType: 'bar', xAxis: 'month', yAxis: 'profit' }))
+      .toEqual({ success: false, error: "Y-axis column 'profit' not found in data" });
+    expect((await tool.invoke({ data: sales, columns, chartType: 'pie', xAxis: 'month', yAxis: 'revenue', groupBy: 'region' })).error)
+      .toBe('Pie charts show a single series; use facetBy to compare groups');
+  });
+});
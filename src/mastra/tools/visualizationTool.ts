@@ -1,67 +1,373 @@
 import { z } from 'zod';
-import { Tool } from '@mastra/core';
+import {
+  CATEGORICAL_PALETTES,
+  ChartConfig,
+  ChartType,
+  checkContrast,
+  describeChart,
+  DIVERGING_PALETTES,
+  ForecastPoint,
+  MAX_PIE_SLICES,
+  paletteColors,
+  PALETTES,
+  renderChart,
+  SEQUENTIAL_PALETTES,
+  suggestCharts,
+  THEME_NAMES,
+  THEMES,
+  toLibrarySpec,
+} from '../charts';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { formatDate, Period, toDate, truncateDate } from '../data/dates';
+import { ColumnSchema, inferSchema } from '../data/typeInference';
+import { AGGREGATE_FUNCTIONS, compareValues, isNullish, toNumber } from '../sql/functions';
+import { describe, modifiedZScores } from '../stats';
+import { DataTool, resolveWithinRoot } from './dataTool';
+import { SQLQueryTool } from './sqlQueryTool';
+
+const AGGREGATION_FUNCTIONS = {
+  sum: 'SUM',
+  mean: 'AVG',
+  median: 'MEDIAN',
+  count: 'COUNT',
+  min: 'MIN',
+  max: 'MAX',
+} as const;
+
+type Aggregation = keyof typeof AGGREGATION_FUNCTIONS;
+type SortOrder = 'none' | 'x-asc' | 'x-desc' | 'y-asc' | 'y-desc';
+
+/** Resolves the directory chart images are written to, inside the chart directory ($CHART_OUTPUT_DIR or ./charts). */
+export function chartOutputDir(outputDir: string | undefined): string | undefined {
+  return outputDir === undefined ? undefined : resolveWithinRoot(process.env.CHART_OUTPUT_DIR ?? 'charts', outputDir, 'outputDir');
+}
+
+// Scatter plots with more points than this are thinned before drawing
+const MAX_SCATTER_POINTS = 5000;
+
+// Marks highlighted rows; a symbol key survives the row copies made while preparing the data
+const HIGHLIGHTED = Symbol('highlighted');
+
+type ChartRow = Record<string, any> & { [HIGHLIGHTED]?: true };
 
 const VisualizationInputSchema = z.object({
-  data: z.array(z.record(z.any())).describe('The data to visualize'),
-  columns: z.array(z.string()).describe('The column names of the data'),
-  chartType: z.enum(['bar', 'line', 'scatter', 'pie', 'histogram', 'box']).describe('The type of chart to generate'),
-  xAxis: z.string().describe('The column to use for the X-axis'),
-  yAxis: z.string().describe('The column to use for the Y-axis'),
+  dataset: z.string().optional().describe('Name or ID of a registered dataset to chart; its rows stay on the server'),
+  query: z.string().optional().describe('SQL SELECT query whose full result is charted'),
+  data: z.array(z.record(z.any())).optional().describe('Inline rows to visualize, for small data'),
+  columns: z.array(z.string()).optional().describe('The column names of the inline data'),
+  mode: z.enum(['render', 'suggest']).optional().default('render').describe(
+    'render draws the chart described; suggest profiles the data and returns ranked chart specs, each ready to pass back for rendering',
+  ),
+  goal: z.enum(['comparison', 'trend', 'distribution', 'composition', 'relationship']).optional().describe(
+    'Suggest mode: the question the chart should answer; every goal is considered when omitted',
+  ),
+  maxSuggestions: z.number().int().min(1).max(20).optional().default(5).describe('Suggest mode: how many chart specs to return at most'),
+  chartType: z.enum(['bar', 'line', 'scatter', 'pie', 'histogram', 'box', 'heatmap']).optional().describe(
+    'The type of chart to generate; required to render',
+  ),
+  xAxis: z.string().optional().describe('The column to use for the X-axis; required to render'),
+  yAxis: z.union([z.string(), z.array(z.string())]).optional().describe(
+    'The column, or columns, to use for the Y-axis; each becomes a series. For heatmaps, the single column whose values form the rows. Required to render',
+  ),
+  valueColumn: z.string().optional().describe('Heatmaps: the numeric column aggregated into each cell; rows are counted when omitted'),
+  colorScale: z.enum(['sequential', 'diverging']).optional().describe(
+    'Heatmaps: diverging centres the colours on zero; the default picks diverging when values have both signs',
+  ),
+  groupBy: z.string().optional().describe('Column whose values split the data into separate series'),
+  facetBy: z.string().optional().describe('Column whose values each get their own small-multiple panel'),
+  aggregation: z.enum(['sum', 'mean', 'median', 'count', 'min', 'max']).optional().describe(
+    'How y values sharing an x value are combined; defaults to mean for bar, line and heatmap charts and sum for pie charts',
+  ),
+  sort: z.enum(['none', 'x-asc', 'x-desc', 'y-asc', 'y-desc']).optional().default('none').describe(
+    'Order of categories: by label or by total value; none keeps the order they first appear in, or date order for dates',
+  ),
+  timeUnit: z.enum(['hour', 'day', 'week', 'month', 'quarter', 'year']).optional().describe(
+    'Bucket a date x-axis to this period before aggregating; line charts of dates always get a true time axis',
+  ),
+  highlightRows: z.array(z.number().int().min(0)).optional().describe(
+    'Zero-based indices of rows to highlight, such as the rowIndices from the anomaly detection tool; scatter, line and box charts',
+  ),
+  highlightLabel: z.string().optional().default('Anomaly').describe('Legend label for the highlighted rows'),
+  forecast: z.array(z.object({
+    date: z.union([z.string(), z.number()]).describe('X value of the forecast point, usually its date'),
+    value: z.number(),
+    lower: z.number().optional(),
+    upper: z.number().optional(),
+  })).optional().describe(
+    'Forecast points from the forecasting tool, drawn after the history as a dashed line with its prediction interval as a band; line charts only',
+  ),
+  forecastLabel: z.string().optional().default('Forecast').describe('Legend label for the forecast'),
+  maxDataPoints: z.number().int().min(0).optional().default(1000).describe(
+    'Most chart data points to return in chartData and chartConfig (0 for all); the rendered images always use every point',
+  ),
+  returnData: z.boolean().optional().default(true).describe(
+    'Return the chart data points in chartData and chartConfig; set false when only the images and specs are needed',
+  ),
   title: z.string().optional().describe('The title of the chart'),
+  format: z.enum(['native', 'vega-lite', 'chartjs', 'echarts']).optional().default('native').describe(
+    'Also emit the chart as a Vega-Lite v5 spec, Chart.js v4 config or Apache ECharts option; Chart.js has no heatmaps or facets',
+  ),
   options: z.object({
-    color: z.string().optional().default('#3B82F6'),
+    color: z.string().optional().describe('Colour of the first series as #rrggbb; defaults to the first colour of the palette'),
+    theme: z.enum(THEME_NAMES).optional().default('light').describe(
+      'light, dark, or print (black on white, serif type, dashed gridlines and a colour-blind-safe palette for documents)',
+    ),
+    palette: z.enum(CATEGORICAL_PALETTES).optional().describe(
+      'Series and slice colours; okabeIto and tol are colour-blind safe. Defaults to the theme\'s palette',
+    ),
+    sequentialPalette: z.enum(SEQUENTIAL_PALETTES).optional().describe('Heatmaps: colours of values of one sign; viridis and cividis are colour-blind safe'),
+    divergingPalette: z.enum(DIVERGING_PALETTES).optional().describe('Heatmaps: colours of values either side of zero'),
     width: z.number().optional().default(800),
     height: z.number().optional().default(600),
     showLegend: z.boolean().optional().default(true),
+    showValues: z.boolean().optional().describe('Heatmaps: print the value on each cell that has room for it (default true)'),
+    barMode: z.enum(['grouped', 'stacked']).optional().describe('Place series side by side or stacked in bar charts and histograms'),
+    logScale: z.enum(['x', 'y', 'both']).optional().describe(
+      'Put axes on a log scale: y on line, scatter and box charts, x on scatter plots. Every value on the axis must be positive',
+    ),
+    formats: z.array(z.enum(['svg', 'png'])).optional().default(['svg']).describe('Image formats to render the chart to'),
+    outputDir: z.string().optional().describe(
+      'Subdirectory of the chart directory ($CHART_OUTPUT_DIR or ./charts) to write rendered images to; when omitted they are returned inline',
+    ),
   }).optional(),
 });
 
 const VisualizationOutputSchema = z.object({
   success: z.boolean(),
   chartData: z.any().optional().describe('The processed data for the chart'),
+  dataPoints: z.object({
+    total: z.number(),
+    returned: z.number(),
+  }).optional().describe('How many chart data points there are and how many are returned'),
   chartConfig: z.object({
     type: z.string(),
     data: z.any(),
     options: z.any(),
   }).optional(),
+  spec: z.record(z.any()).optional().describe('The chart in the requested library format'),
+  artifacts: z.array(z.object({
+    format: z.enum(['svg', 'png']),
+    mimeType: z.string(),
+    width: z.number(),
+    height: z.number(),
+    content: z.string().optional().describe('SVG markup or base64-encoded PNG, when rendered inline'),
+    path: z.string().optional().describe('File the image was written to'),
+    bytes: z.number(),
+  })).optional().describe('Rendered chart images'),
+  accessibility: z.object({
+    altText: z.string().describe('Text alternative for the chart, stating its key trend or comparison'),
+    dataTable: z.object({
+      columns: z.array(z.string()),
+      rows: z.array(z.array(z.any())),
+      truncated: z.boolean().describe('Whether rows were left out of the table'),
+    }).describe('The charted values as a table, for readers who cannot see the chart'),
+    contrastIssues: z.array(z.object({
+      element: z.string(),
+      color: z.string(),
+      background: z.string(),
+      ratio: z.number(),
+      required: z.number().describe('WCAG minimum: 4.5 for text, 3 for marks'),
+    })).describe('Colours too close to the background to read'),
+    colorBlindSafe: z.boolean().describe('Whether the colours that tell series or values apart stay distinct under colour blindness'),
+  }).optional(),
+  suggestions: z.array(z.object({
+    rank: z.number(),
+    score: z.number().describe('Fit to the data and goal, from 0 to 1'),
+    goal: z.enum(['comparison', 'trend', 'distribution', 'composition', 'relationship']),
+    spec: z.record(z.any()).describe('Inputs for this tool that draw the chart: chartType, xAxis, yAxis, title and any grouping, aggregation, sorting and options'),
+    rationale: z.string(),
+  })).optional().describe('Suggest mode: chart specs ranked best first'),
   error: z.string().optional(),
   recommendations: z.array(z.string()).optional().describe('Suggestions for better visualization'),
 });
 
-export class VisualizationTool extends Tool<
+/** Names series after the y column, the group value, or both when there are several of each. */
+class SeriesNames {
+  constructor(private yColumns: string[], private groupBy?: string) {}
+
+  name(yColumn: string, row: Record<string, any>): string {
+    if (!this.groupBy) {
+      return yColumn;
+    }
+    const group = row[this.groupBy]?.toString() || 'Unknown';
+    return this.yColumns.length > 1 ? `${group} · ${yColumn}` : group;
+  }
+
+  ordered(chartData: { series?: string }[]): string[] {
+    return Array.from(new Set(chartData.map(point => point.series!).filter(name => name !== undefined)));
+  }
+}
+
+export class VisualizationTool extends DataTool<
   typeof VisualizationInputSchema,
   typeof VisualizationOutputSchema
 > {
-  name = 'visualizationTool';
-  description = 'Generates chart configurations and data for data visualization';
+  id = 'visualizationTool';
+  description = 'Generates chart configurations and renders charts to SVG or PNG images. In suggest mode it profiles a dataset and returns ranked, complete chart specs with their rationale, optionally for a goal (comparison, trend, distribution, composition, relationship)';
   inputSchema = VisualizationInputSchema;
   outputSchema = VisualizationOutputSchema;
 
-  async execute(input: z.infer<typeof VisualizationInputSchema>) {
+  async run(input: z.infer<typeof VisualizationInputSchema>) {
     try {
-      const { data, columns, chartType, xAxis, yAxis, title, options = {} } = input;
+      const { data, columns, schema } = await this.loadData(input);
+      if (input.mode === 'suggest') {
+        const suggestions = suggestCharts(data, schema ?? inferSchema(data, columns), {
+          goal: input.goal,
+          max: input.maxSuggestions ?? 5,
+        });
+        if (suggestions.length === 0) {
+          throw new Error('No chart suits this data: it needs at least one numeric, date or low-cardinality column with values');
+        }
+        return { success: true, suggestions };
+      }
+
+      if (!input.chartType || !input.xAxis || !input.yAxis) {
+        throw new Error(`Rendering needs chartType, xAxis and yAxis; use mode 'suggest' to get ranked chart specs for the data`);
+      }
+      const { chartType, xAxis, yAxis } = input;
+      const { groupBy, facetBy, aggregation, sort = 'none', timeUnit, highlightRows, forecast, title, format = 'native', options } = input;
+      const yColumns = Array.isArray(yAxis) ? yAxis : [yAxis];
       
       // Validate inputs
       if (!columns.includes(xAxis)) {
         throw new Error(`X-axis column '${xAxis}' not found in data`);
       }
-      if (!columns.includes(yAxis)) {
-        throw new Error(`Y-axis column '${yAxis}' not found in data`);
+      yColumns.forEach(column => {
+        if (!columns.includes(column)) {
+          throw new Error(`Y-axis column '${column}' not found in data`);
+        }
+      });
+      if (groupBy && !columns.includes(groupBy)) {
+        throw new Error(`Group-by column '${groupBy}' not found in data`);
+      }
+      if (facetBy && !columns.includes(facetBy)) {
+        throw new Error(`Facet column '${facetBy}' not found in data`);
+      }
+      if (chartType === 'pie' && (yColumns.length > 1 || groupBy)) {
+        throw new Error('Pie charts show a single series; use facetBy to compare groups');
+      }
+      if (chartType === 'heatmap') {
+        if (yColumns.length > 1 || groupBy || facetBy) {
+          throw new Error('Heatmaps take a single Y-axis column for their rows and cannot be grouped or faceted');
+        }
+        if (input.valueColumn && !columns.includes(input.valueColumn)) {
+          throw new Error(`Value column '${input.valueColumn}' not found in data`);
+        }
+      }
+      if (highlightRows && highlightRows.length > 0) {
+        if (chartType !== 'scatter' && chartType !== 'line' && chartType !== 'box') {
+          throw new Error('Rows can only be highlighted on scatter, line and box charts');
+        }
+        const outside = highlightRows.filter(index => index >= data.length);
+        if (outside.length > 0) {
+          throw new Error(`Highlighted row(s) ${outside.slice(0, 5).join(', ')} are beyond the ${data.length} rows of data`);
+        }
+      }
+
+      if ((options?.sequentialPalette || options?.divergingPalette) && chartType !== 'heatmap') {
+        throw new Error(`Sequential and diverging palettes colour heatmaps; use palette to colour ${chartType} charts`);
+      }
+      if (options?.color && !/^#[0-9a-f]{6}$/i.test(options.color)) {
+        throw new Error(`Colour '${options.color}' is not a #rrggbb hex colour`);
+      }
+
+      if (options?.logScale) {
+        this.checkLogScale(data, chartType, options.logScale, xAxis, yColumns, aggregation);
       }
 
-      // Process data for visualization
-      const chartData = this.processDataForChart(data, xAxis, yAxis, chartType);
+      if (forecast && forecast.length > 0) {
+        if (chartType !== 'line') {
+          throw new Error('Forecasts can only be drawn on line charts');
+        }
+        if (facetBy) {
+          throw new Error('Forecasts cannot be drawn on faceted charts');
+        }
+      }
+
+      // Dates on the x axis are normalised to ISO strings (bucketed to timeUnit) so they group and sort chronologically
+      const dateAxis = (chartType === 'line' || chartType === 'bar' || chartType === 'heatmap') && this.isDateColumn(data, xAxis);
+      if (timeUnit && !dateAxis) {
+        throw new Error(`timeUnit needs a line, bar or heatmap chart whose X-axis column '${xAxis}' holds dates`);
+      }
+      const marked = highlightRows && highlightRows.length > 0 ? this.markRows(data, highlightRows) : data;
+      const rows = dateAxis ? this.normaliseDates(marked, xAxis, timeUnit) : marked;
+
+      // Process data for visualization, once per facet
+      // Histograms count x values, so their only series is the count (split by group)
+      const series = new SeriesNames(chartType === 'histogram' ? [`Count of ${xAxis}`] : yColumns, groupBy);
+      const facets = facetBy ? this.distinctValues(rows, facetBy) : undefined;
+      let chartData = facets
+        ? facets.flatMap(facet => this.processDataForChart(
+          rows.filter(row => this.label(row[facetBy!]) === facet), xAxis, yColumns, chartType, series, aggregation,
+        ).map(point => ({ ...point, facet })))
+        : chartType === 'heatmap'
+          ? this.processHeatmapData(rows, xAxis, yColumns[0], input.valueColumn, aggregation ?? (input.valueColumn ? 'mean' : 'count'))
+          : this.processDataForChart(rows, xAxis, yColumns, chartType, series, aggregation);
+      chartData = this.sortChartData(chartData, chartType, sort === 'none' && dateAxis ? 'x-asc' : sort);
+      const scatterPoints = chartType === 'scatter' ? chartData.length : 0;
+      if (scatterPoints > MAX_SCATTER_POINTS) {
+        chartData = this.thinPoints(chartData, MAX_SCATTER_POINTS);
+      }
       
       // Generate chart configuration
-      const chartConfig = this.generateChartConfig(chartType, chartData, xAxis, yAxis, title, options);
+      const chartConfig = this.generateChartConfig(chartType, chartData, xAxis, yColumns.join(', '), title, options);
+      chartConfig.series = chartType === 'pie' || chartType === 'heatmap' ? [] : series.ordered(chartData);
+      if (chartType === 'heatmap') {
+        // Cells of one row each, such as a pivot's, show the value as it is
+        const aggregated = chartData.some(cell => cell.count > 1);
+        chartConfig.valueLabel = !input.valueColumn ? 'count' : aggregated ? `${aggregation ?? 'mean'}(${input.valueColumn})` : input.valueColumn;
+        chartConfig.colorScale = input.colorScale;
+      }
+      if (chartType === 'line' && dateAxis) {
+        chartConfig.xScale = 'time';
+      }
+      if (highlightRows && highlightRows.length > 0) {
+        chartConfig.highlightLabel = input.highlightLabel ?? 'Anomaly';
+      }
+      if (forecast && forecast.length > 0) {
+        chartConfig.forecast = this.forecastPoints(forecast, dateAxis, timeUnit);
+        chartConfig.forecastLabel = input.forecastLabel ?? 'Forecast';
+      }
+      if (facets) {
+        chartConfig.facets = facets;
+        chartConfig.facetLabel = facetBy;
+      }
+
+      // Render the chart to images
+      const artifacts = await renderChart(chartConfig, { formats: options?.formats, outputDir: chartOutputDir(options?.outputDir) });
+      const spec = format === 'native' ? undefined : toLibrarySpec(chartConfig, format);
       
       // Generate recommendations
-      const recommendations = this.generateRecommendations(data, columns, chartType, xAxis, yAxis);
+      const recommendations = this.generateRecommendations(
+        data, columns, chartType, xAxis, chartType === 'heatmap' ? input.valueColumn ?? yColumns[0] : yColumns[0], dateAxis,
+        options?.logScale,
+      );
+      if (scatterPoints > MAX_SCATTER_POINTS) {
+        recommendations.push(
+          `Only ${MAX_SCATTER_POINTS} of the ${scatterPoints} points were drawn. Consider a histogram, a box plot or aggregating the data first.`,
+        );
+      }
+      const accessibility = this.accessibility(chartConfig);
+      recommendations.push(...accessibility.contrastIssues.map(issue =>
+        `The ${issue.element} (${issue.color}) has a contrast of ${issue.ratio}:1 against the background, below the ${issue.required}:1 needed to read it; choose another colour, palette or theme.`,
+      ));
+      if (!accessibility.colorBlindSafe) {
+        recommendations.push(
+          `The '${chartConfig.options.palette ?? THEMES[chartConfig.options.theme ?? 'light'].palette}' palette is not colour-blind safe; set options.palette to 'okabeIto' or 'tol' so the series stay distinct.`,
+        );
+      }
 
+      // Large charts return only their first points, or none when asked; the images above were drawn from all of them
+      const maxDataPoints = input.maxDataPoints ?? 1000;
+      const returned = input.returnData === false ? [] : maxDataPoints > 0 ? chartData.slice(0, maxDataPoints) : chartData;
       return {
         success: true,
-        chartData,
-        chartConfig,
+        chartData: returned,
+        dataPoints: { total: chartData.length, returned: returned.length },
+        chartConfig: { ...chartConfig, data: returned },
+        spec,
+        artifacts,
+        accessibility,
         recommendations,
       };
     } catch (error) {
@@ -72,156 +378,370 @@ export class VisualizationTool extends Tool<
     }
   }
 
-  private processDataForChart(
+  /** Resolves the rows to chart from exactly one of `dataset`, `query` and `data`. */
+  private async loadData(
+    input: z.infer<typeof VisualizationInputSchema>,
+  ): Promise<{ data: Record<string, any>[]; columns: string[]; schema?: ColumnSchema[] }> {
+    const sources = [input.dataset, input.query, input.data].filter(source => source !== undefined);
+    if (sources.length !== 1) {
+      throw new Error('Provide exactly one of dataset, query or data to visualize');
+    }
+    if (input.dataset) {
+      const dataset = await datasetRegistry.get(input.dataset);
+      if (!dataset) {
+        const available = datasetRegistry.list().map(entry => entry.name);
+        throw new Error(
+          `Unknown dataset '${input.dataset}'. ${available.length > 0 ? `Available datasets: ${available.join(', ')}` : 'No datasets are registered'}`,
+        );
+      }
+      return { data: dataset.data, columns: dataset.columns, schema: dataset.metadata?.schema };
+    }
+    if (input.query) {
+      return new SQLQueryTool().runQuery(input.query);
+    }
+    return { data: input.data!, columns: input.columns ?? (input.data!.length > 0 ? Object.keys(input.data![0]) : []) };
+  }
+
+  /** Log axes need a chart type that has them and positive values on them. */
+  private checkLogScale(
     data: Record<string, any>[],
+    chartType: ChartType,
+    logScale: 'x' | 'y' | 'both',
     xAxis: string,
-    yAxis: string,
-    chartType: string
+    yColumns: string[],
+    aggregation?: Aggregation,
   ) {
+    const logX = logScale !== 'y';
+    const logY = logScale !== 'x';
+    if (logX && chartType !== 'scatter') {
+      throw new Error(`Only scatter plots can put the X axis on a log scale, not ${chartType} charts`);
+    }
+    if (logY && chartType !== 'scatter' && chartType !== 'line' && chartType !== 'box') {
+      throw new Error(`Log scales are available on line, scatter and box charts, not ${chartType} charts`);
+    }
+    // Counts are positive whatever the column holds
+    const checked = [...(logX ? [xAxis] : []), ...(logY && aggregation !== 'count' ? yColumns : [])];
+    checked.forEach(column => {
+      const nonPositive = data.filter(row => {
+        const value = toNumber(row[column]);
+        return value !== null && value <= 0;
+      }).length;
+      if (nonPositive > 0) {
+        throw new Error(`Column '${column}' has ${nonPositive} zero or negative value(s), which a log scale cannot show`);
+      }
+    });
+  }
+
+  /** Keeps `max` points spread evenly over the data, plus every highlighted point. */
+  private thinPoints(points: any[], max: number): any[] {
+    const highlighted = points.filter(point => point.highlight === true).length;
+    const count = Math.max(1, max - highlighted);
+    const kept = new Set(Array.from({ length: count }, (_, i) => Math.floor((i * points.length) / count)));
+    return points.filter((point, index) => point.highlight === true || kept.has(index));
+  }
+
+  private processDataForChart(
+    data: Record<string, any>[],
+    xAxis: string,
+    yColumns: string[],
+    chartType: string,
+    series: SeriesNames,
+    aggregation?: Aggregation
+  ): any[] {
     if (chartType === 'bar' || chartType === 'line') {
-      return this.processCategoricalData(data, xAxis, yAxis);
+      return this.processCategoricalData(data, xAxis, yColumns, series, aggregation ?? 'mean');
     } else if (chartType === 'scatter') {
-      return this.processScatterData(data, xAxis, yAxis);
+      return this.processScatterData(data, xAxis, yColumns, series);
     } else if (chartType === 'pie') {
-      return this.processPieData(data, xAxis, yAxis);
+      return this.processPieData(data, xAxis, yColumns[0], aggregation ?? 'sum');
     } else if (chartType === 'histogram') {
-      return this.processHistogramData(data, xAxis);
+      return this.processHistogramData(data, xAxis, series);
     } else if (chartType === 'box') {
-      return this.processBoxData(data, xAxis, yAxis);
+      return this.processBoxData(data, xAxis, yColumns, series);
     }
     
     return data;
   }
 
-  private processCategoricalData(data: Record<string, any>[], xAxis: string, yAxis: string) {
-    const grouped = new Map<string, number[]>();
+  private label(value: unknown): string {
+    return value?.toString() || 'Unknown';
+  }
+
+  private markRows(data: Record<string, any>[], indices: number[]): ChartRow[] {
+    const highlighted = new Set(indices);
+    return data.map((row, index) => (highlighted.has(index) ? { ...row, [HIGHLIGHTED]: true } : row));
+  }
+
+  private isHighlighted(row: ChartRow): boolean {
+    return row[HIGHLIGHTED] === true;
+  }
+
+  private isDateColumn(data: Record<string, any>[], column: string): boolean {
+    const values = data.map(row => row[column]).filter(value => !isNullish(value));
+    return values.length > 0 && values.every(value => toDate(value) !== null);
+  }
+
+  private normaliseDates(data: Record<string, any>[], column: string, timeUnit?: Period): Record<string, any>[] {
+    return data
+      .filter(row => !isNullish(row[column]))
+      .map(row => {
+        const date = toDate(row[column])!;
+        return { ...row, [column]: formatDate(timeUnit ? truncateDate(date, timeUnit) : date) };
+      });
+  }
+
+  /** Forecast points on the chart's x axis: dates formatted like the normalised column, other values as labels. */
+  private forecastPoints(
+    forecast: NonNullable<z.infer<typeof VisualizationInputSchema>['forecast']>,
+    dateAxis: boolean,
+    timeUnit?: Period,
+  ): ForecastPoint[] {
+    return forecast.map(point => {
+      let x = this.label(point.date);
+      if (dateAxis) {
+        const date = toDate(point.date);
+        if (!date) {
+          throw new Error(`Forecast date '${point.date}' is not a date, but the X-axis holds dates`);
+        }
+        x = formatDate(timeUnit ? truncateDate(date, timeUnit) : date);
+      }
+      return { x, y: point.value, lower: point.lower, upper: point.upper };
+    });
+  }
+
+  private distinctValues(data: Record<string, any>[], column: string): string[] {
+    return Array.from(new Set(data.map(row => this.label(row[column]))));
+  }
+
+  /**
+   * Collects the y values of every (x, series) pair, keeping the order in
+   * which x values and series first appear.
+   */
+  private groupValues(data: Record<string, any>[], xAxis: string, yColumns: string[], series: SeriesNames) {
+    const grouped = new Map<string, { x: string; series: string; values: any[]; highlighted: any[] }>();
     
     data.forEach(row => {
-      const xValue = row[xAxis]?.toString() || 'Unknown';
-      const yValue = parseFloat(row[yAxis]);
-      
-      if (!isNaN(yValue)) {
-        if (!grouped.has(xValue)) {
-          grouped.set(xValue, []);
+      const xValue = this.label(row[xAxis]);
+      yColumns.forEach(yColumn => {
+        const name = series.name(yColumn, row);
+        const key = JSON.stringify([xValue, name]);
+        if (!grouped.has(key)) {
+          grouped.set(key, { x: xValue, series: name, values: [], highlighted: [] });
         }
-        grouped.get(xValue)!.push(yValue);
-      }
+        if (!isNullish(row[yColumn])) {
+          grouped.get(key)!.values.push(row[yColumn]);
+          if (this.isHighlighted(row)) grouped.get(key)!.highlighted.push(row[yColumn]);
+        }
+      });
     });
 
-    return Array.from(grouped.entries()).map(([xValue, yValues]) => ({
-      x: xValue,
-      y: yValues.reduce((sum, val) => sum + val, 0) / yValues.length, // Average
-      count: yValues.length,
-    }));
+    return Array.from(grouped.values());
   }
 
-  private processScatterData(data: Record<string, any>[], xAxis: string, yAxis: string) {
-    return data
-      .map(row => ({
-        x: parseFloat(row[xAxis]),
-        y: parseFloat(row[yAxis]),
-      }))
-      .filter(point => !isNaN(point.x) && !isNaN(point.y));
+  private aggregate(values: any[], aggregation: Aggregation): number | null {
+    if (aggregation === 'count') {
+      return values.length;
+    }
+    const numbers = values.map(toNumber).filter((value): value is number => value !== null);
+    return AGGREGATE_FUNCTIONS[AGGREGATION_FUNCTIONS[aggregation]](numbers, []);
   }
 
-  private processPieData(data: Record<string, any>[], xAxis: string, yAxis: string) {
-    const grouped = new Map<string, number>();
-    
+  private processCategoricalData(
+    data: Record<string, any>[],
+    xAxis: string,
+    yColumns: string[],
+    series: SeriesNames,
+    aggregation: Aggregation
+  ) {
+    return this.groupValues(data, xAxis, yColumns, series).map(group => ({
+      x: group.x,
+      series: group.series,
+      y: this.aggregate(group.values, aggregation),
+      count: group.values.length,
+      // A point is highlighted when any of the rows behind it is
+      ...(group.highlighted.length > 0 ? { highlight: true } : {}),
+    }));
+  }
+
+  /** One cell per (x, y) pair holding the aggregated value column, or the row count without one. */
+  private processHeatmapData(data: Record<string, any>[], xAxis: string, yAxis: string, valueColumn: string | undefined, aggregation: Aggregation) {
+    const cells = new Map<string, { x: string; y: string; values: any[]; rows: number }>();
     data.forEach(row => {
-      const xValue = row[xAxis]?.toString() || 'Unknown';
-      const yValue = parseFloat(row[yAxis]) || 0;
-      
-      grouped.set(xValue, (grouped.get(xValue) || 0) + yValue);
+      const x = this.label(row[xAxis]);
+      const y = this.label(row[yAxis]);
+      const key = JSON.stringify([x, y]);
+      if (!cells.has(key)) {
+        cells.set(key, { x, y, values: [], rows: 0 });
+      }
+      const cell = cells.get(key)!;
+      cell.rows++;
+      if (valueColumn && !isNullish(row[valueColumn])) cell.values.push(row[valueColumn]);
     });
+    // Rows are listed in order of their labels; columns keep their order until sorted
+    return Array.from(cells.values()).sort((a, b) => compareValues(a.y, b.y)).map(cell => ({
+      x: cell.x,
+      y: cell.y,
+      value: valueColumn ? this.aggregate(cell.values, aggregation) : cell.rows,
+      count: cell.rows,
+    }));
+  }
 
-    return Array.from(grouped.entries()).map(([label, value]) => ({
-      label,
-      value,
+  private processScatterData(data: Record<string, any>[], xAxis: string, yColumns: string[], series: SeriesNames) {
+    return data.flatMap(row => yColumns.map(yColumn => ({
+      x: parseFloat(row[xAxis]),
+      y: parseFloat(row[yColumn]),
+      series: series.name(yColumn, row),
+      ...(this.isHighlighted(row) ? { highlight: true } : {}),
+    })))
+      .filter(point => !isNaN(point.x) && !isNaN(point.y));
+  }
+
+  private processPieData(data: Record<string, any>[], xAxis: string, yAxis: string, aggregation: Aggregation) {
+    return this.groupValues(data, xAxis, [yAxis], new SeriesNames([yAxis])).map(group => ({
+      label: group.x,
+      value: this.aggregate(group.values, aggregation) ?? 0,
     }));
   }
 
-  private processHistogramData(data: Record<string, any>[], xAxis: string) {
-    const values = data
-      .map(row => parseFloat(row[xAxis]))
-      .filter(val => !isNaN(val));
+  private processHistogramData(data: Record<string, any>[], xAxis: string, series: SeriesNames) {
+    const points = data
+      .map(row => ({ value: parseFloat(row[xAxis]), series: series.name(`Count of ${xAxis}`, row) }))
+      .filter(point => !isNaN(point.value));
     
-    if (values.length === 0) return [];
+    if (points.length === 0) return [];
     
+    const values = points.map(point => point.value);
     const min = Math.min(...values);
     const max = Math.max(...values);
     const binCount = Math.min(10, Math.ceil(Math.sqrt(values.length)));
-    const binSize = (max - min) / binCount;
+    // A single distinct value still gets a bin of unit width
+    const binSize = (max - min) / binCount || 1;
     
-    const bins = new Array(binCount).fill(0);
-    values.forEach(value => {
-      const binIndex = Math.min(Math.floor((value - min) / binSize), binCount - 1);
-      bins[binIndex]++;
+    // Every series shares the same bins
+    const bins = new Map<string, number[]>();
+    points.forEach(point => {
+      if (!bins.has(point.series)) {
+        bins.set(point.series, new Array(binCount).fill(0));
+      }
+      const binIndex = Math.min(Math.floor((point.value - min) / binSize), binCount - 1);
+      bins.get(point.series)![binIndex]++;
     });
     
-    return bins.map((count, index) => ({
+    return Array.from(bins.entries()).flatMap(([name, counts]) => counts.map((count, index) => ({
       x: min + (index + 0.5) * binSize,
       y: count,
-    }));
+      x0: min + index * binSize,
+      x1: min + (index + 1) * binSize,
+      series: name,
+    })));
   }
 
-  private processBoxData(data: Record<string, any>[], xAxis: string, yAxis: string) {
-    const grouped = new Map<string, number[]>();
-    
-    data.forEach(row => {
-      const xValue = row[xAxis]?.toString() || 'Unknown';
-      const yValue = parseFloat(row[yAxis]);
-      
-      if (!isNaN(yValue)) {
-        if (!grouped.has(xValue)) {
-          grouped.set(xValue, []);
-        }
-        grouped.get(xValue)!.push(yValue);
+  private processBoxData(data: Record<string, any>[], xAxis: string, yColumns: string[], series: SeriesNames) {
+    return this.groupValues(data, xAxis, yColumns, series)
+      .map(group => ({
+        ...group,
+        values: group.values.map(toNumber).filter((value): value is number => value !== null),
+        highlighted: group.highlighted.map(toNumber).filter((value): value is number => value !== null),
+      }))
+      .filter(group => group.values.length > 0)
+      .map(group => {
+        const sorted = group.values.sort((a, b) => a - b);
+        const q1 = sorted[Math.floor(sorted.length * 0.25)];
+        const q2 = sorted[Math.floor(sorted.length * 0.5)];
+        const q3 = sorted[Math.floor(sorted.length * 0.75)];
+        
+        return {
+          x: group.x,
+          series: group.series,
+          min: sorted[0],
+          q1,
+          median: q2,
+          q3,
+          max: sorted[sorted.length - 1],
+          ...(group.highlighted.length > 0 ? { highlights: group.highlighted } : {}),
+        };
+      });
+  }
+
+  /** Reorders categories (or pie slices) by label or by their total value. */
+  private sortChartData(chartData: any[], chartType: string, sort: SortOrder): any[] {
+    if (sort === 'none' || chartType === 'scatter' || chartType === 'histogram') {
+      return chartData;
+    }
+
+    const category = (point: any) => (chartType === 'pie' ? point.label : point.x);
+    const value = (point: any) =>
+      (chartType === 'pie' || chartType === 'heatmap' ? point.value : chartType === 'box' ? point.median : point.y) ?? 0;
+    const totals = new Map<string, number>();
+    chartData.forEach(point => totals.set(category(point), (totals.get(category(point)) ?? 0) + value(point)));
+
+    const order = Array.from(totals.keys()).sort((a, b) => {
+      switch (sort) {
+        case 'x-asc':
+          return compareValues(a, b);
+        case 'x-desc':
+          return compareValues(b, a);
+        case 'y-asc':
+          return totals.get(a)! - totals.get(b)!;
+        case 'y-desc':
+          return totals.get(b)! - totals.get(a)!;
       }
     });
+    const rank = new Map(order.map((name, index) => [name, index]));
+    // Array.prototype.sort is stable, so series keep their order within a category
+    return [...chartData].sort((a, b) => rank.get(category(a))! - rank.get(category(b))!);
+  }
 
-    return Array.from(grouped.entries()).map(([xValue, yValues]) => {
-      const sorted = yValues.sort((a, b) => a - b);
-      const q1 = sorted[Math.floor(sorted.length * 0.25)];
-      const q2 = sorted[Math.floor(sorted.length * 0.5)];
-      const q3 = sorted[Math.floor(sorted.length * 0.75)];
-      
-      return {
-        x: xValue,
-        min: sorted[0],
-        q1,
-        median: q2,
-        q3,
-        max: sorted[sorted.length - 1],
-      };
-    });
+  /** Alt text, a data table and the colour checks of a chart. */
+  private accessibility(config: ChartConfig) {
+    const { altText, table } = describeChart(config);
+    const { palette, sequentialPalette, divergingPalette } = config.options;
+    let colorBlindSafe: boolean;
+    if (config.type === 'heatmap') {
+      // The default scales vary in lightness as well as hue
+      colorBlindSafe = [sequentialPalette, divergingPalette].every(name => !name || PALETTES[name].colorBlindSafe);
+    } else {
+      // One colour needs telling apart from nothing
+      const colours = config.type === 'pie' ? new Set(config.data.map(d => String(d.label))).size : config.series.length;
+      colorBlindSafe = colours <= 1 || PALETTES[palette ?? THEMES[config.options.theme ?? 'light'].palette].colorBlindSafe;
+    }
+    return { altText, dataTable: table, contrastIssues: checkContrast(config), colorBlindSafe };
   }
 
   private generateChartConfig(
-    chartType: string,
+    chartType: ChartType,
     chartData: any,
     xAxis: string,
     yAxis: string,
     title: string = '',
     options: any = {}
-  ) {
-    const baseConfig = {
+  ): ChartConfig {
+    const baseConfig: ChartConfig = {
       type: chartType,
       data: chartData,
+      series: [],
       options: {
         title: title || `${chartType.charAt(0).toUpperCase() + chartType.slice(1)} Chart`,
         xAxis: { label: xAxis },
         yAxis: { label: yAxis },
-        color: options.color || '#3B82F6',
+        color: options.color ?? '',
         width: options.width || 800,
         height: options.height || 600,
         showLegend: options.showLegend !== false,
+        theme: options.theme ?? 'light',
+        ...(options.palette ? { palette: options.palette } : {}),
+        ...(options.sequentialPalette ? { sequentialPalette: options.sequentialPalette } : {}),
+        ...(options.divergingPalette ? { divergingPalette: options.divergingPalette } : {}),
+        ...(options.logScale ? { logScale: options.logScale } : {}),
       },
     };
+    baseConfig.options.color = options.color || paletteColors(baseConfig)[0];
 
     // Add chart-specific configurations
     switch (chartType) {
       case 'bar':
         baseConfig.options.barWidth = 0.8;
+        baseConfig.options.barMode = options.barMode ?? 'grouped';
         break;
       case 'line':
         baseConfig.options.lineWidth = 2;
@@ -235,6 +755,10 @@ export class VisualizationTool extends Tool<
         break;
       case 'histogram':
         baseConfig.options.barWidth = 1;
+        baseConfig.options.barMode = options.barMode ?? 'stacked';
+        break;
+      case 'heatmap':
+        baseConfig.options.showValues = options.showValues !== false;
         break;
     }
 
@@ -246,7 +770,9 @@ export class VisualizationTool extends Tool<
     columns: string[],
     chartType: string,
     xAxis: string,
-    yAxis: string
+    yAxis: string,
+    xIsDate: boolean,
+    logScale?: 'x' | 'y' | 'both',
   ): string[] {
     const recommendations: string[] = [];
     
@@ -261,7 +787,7 @@ export class VisualizationTool extends Tool<
       recommendations.push('Consider using a line chart for numeric X-axis data');
     }
     
-    if (chartType === 'line' && !xIsNumeric) {
+    if (chartType === 'line' && !xIsNumeric && !xIsDate) {
       recommendations.push('Consider using a bar chart for categorical X-axis data');
     }
     
@@ -269,21 +795,25 @@ export class VisualizationTool extends Tool<
       recommendations.push('Scatter plots work best with numeric data on both axes');
     }
     
-    if (chartType === 'pie' && data.length > 10) {
-      recommendations.push('Pie charts become hard to read with more than 10 categories. Consider a bar chart instead.');
+    const categories = new Set(xValues.map(value => String(value))).size;
+    if (chartType === 'pie' && categories > MAX_PIE_SLICES) {
+      recommendations.push(
+        `Pie charts become hard to read with more than ${MAX_PIE_SLICES} slices; this one has ${categories}. Consider a bar chart sorted by value instead.`,
+      );
     }
     
-    // Check for outliers
-    if (yIsNumeric) {
-      const yNumbers = yValues.filter(val => typeof val === 'number' && !isNaN(val));
-      if (yNumbers.length > 0) {
-        const mean = yNumbers.reduce((sum, val) => sum + val, 0) / yNumbers.length;
-        const std = Math.sqrt(yNumbers.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / yNumbers.length);
-        const outliers = yNumbers.filter(val => Math.abs(val - mean) > 2 * std);
-        
-        if (outliers.length > 0) {
-          recommendations.push(`Found ${outliers.length} potential outliers. Consider using a box plot to visualize the distribution.`);
-        }
+    // Check for outliers with the robust modified z-score, which the outliers themselves cannot mask
+    const yNumbers = yValues.map(toNumber).filter((value): value is number => value !== null);
+    if (yNumbers.length >= 3) {
+      const skewness = describe(yNumbers).skewness;
+      if (!logScale && ['line', 'scatter', 'box'].includes(chartType) && skewness !== null && skewness >= 2 && yNumbers.every(value => value > 0)) {
+        recommendations.push(`${yAxis} is heavily skewed (skewness ${skewness.toFixed(1)}); set options.logScale to 'y' to spread out its small values.`);
+      }
+      const outliers = modifiedZScores(yNumbers).scores.filter(score => Math.abs(score) > 3.5).length;
+      if (outliers > 0) {
+        recommendations.push(
+          `Found ${outliers} potential outliers in ${yAxis}. Use the anomaly detection tool to list them and pass their row indices as highlightRows, or use a box plot to show the distribution.`,
+        );
       }
     }
     
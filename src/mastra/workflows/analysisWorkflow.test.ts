@@ -0,0 +1,93 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { analysisWorkflow } from './analysisWorkflow';
+
+const fileContent = 'region,sales\nNorth,10\nSouth,\nEast,30\n';
+
+async function analyse(inputData: Record<string, unknown>) {
+  const run = await analysisWorkflow.createRunAsync();
+  return run.start({ inputData: { fileContent, fileType: 'csv', ...inputData } as any });
+}
+
+describe('analysisWorkflow', () => {
+  const previousRoot = process.env.DATA_DIR;
+  let root: string | undefined;
+
+  afterEach(async () => {
+    if (root) await rm(root, { recursive: true, force: true });
+    root = undefined;
+    if (previousRoot === undefined) delete process.env.DATA_DIR;
+    else process.env.DATA_DIR = previousRoot;
+  });
+
+  it('loads, queries and charts a file into a report', async () => {
+    const result = await analyse({ datasetName: 'workflow_sales', query: 'SELECT region, sales FROM workflow_sales WHERE sales > 0' });
+    expect(result.status).toBe('success');
+    if (result.status !== 'success') return;
+    expect(result.result).toMatchObject({ datasetName: 'workflow_sales', rowCount: 3, chart: { chartType: 'bar', xAxis: 'region', yAxis: 'sales' } });
+    expect(result.result.report).toContain('# Analysis of workflow_sales');
+    expect(result.result.report).toContain('2 row(s):');
+  });
+
+  it('draws heatmaps of a measure across two categories', async () => {
+    const result = await analyse({
+      fileContent: 'region,quarter,sales\nNorth,Q1,10\nNorth,Q2,20\nSouth,Q1,5\nSouth,Q1,7\n',
+      datasetName: 'workflow_heatmap',
+      chart: { chartType: 'heatmap', xAxis: 'quarter', yAxis: 'region', valueColumn: 'sales' },
+    });
+    expect(result.status).toBe('success');
+    if (result.status !== 'success') return;
+    expect(result.result.chart).toMatchObject({ chartType: 'heatmap', valueColumn: 'sales', title: 'sales by region and quarter in workflow_heatmap' });
+    expect(result.result.chart!.svg).toContain('mean(sales)');
+  });
+
+  it('halts on a critical expectation failure', async () => {
+    const result = await analyse({ datasetName: 'workflow_halt', expectations: [{ type: 'notNull', columns: ['sales'] }] });
+    expect(result.status).toBe('success');
+    if (result.status !== 'success') return;
+    expect(result.result.halted).toMatch(/^1 critical data-quality expectation\(s\) failed/);
+    expect(result.result.validation).toMatchObject({ passed: false, criticalFailures: 1 });
+  });
+
+  it('reports malformed expectations as validation failures', async () => {
+    const result = await analyse({
+      datasetName: 'workflow_invalid',
+      expectations: [{ type: 'notNull', columns: ['sales'], severity: 'warning' }, { type: 'between', column: 'sales' }, { type: 'nonsense' }],
+    });
+    expect(result.status).toBe('success');
+    if (result.status !== 'success') return;
+    expect(result.result.validation).toMatchObject({ passed: false, criticalFailures: 2 });
+    expect(result.result.validation!.results.map(entry => entry.description)).toEqual([
+      'expectations[1] is not a valid expectation',
+      'expectations[2] is not a valid expectation',
+    ]);
+    expect(result.result.halted).toMatch(/^2 data-quality expectation\(s\) are invalid: expectations\[1\] is not a valid expectation/);
+    expect(result.result.report).toContain('## Analysis halted');
+  });
+
+  it('carries on past malformed expectations when asked to', async () => {
+    const result = await analyse({ datasetName: 'workflow_continue', expectations: 'notNull', haltOnCriticalFailure: false });
+    expect(result.status).toBe('success');
+    if (result.status !== 'success') return;
+    expect(result.result.halted).toBeUndefined();
+    expect(result.result.validation!.results[0]).toMatchObject({ description: 'expectations is not a valid expectation', success: false });
+    expect(result.result.report).toContain('## Query');
+  });
+
+  it('reads files from the data directory only', async () => {
+    root = await mkdtemp(join(tmpdir(), 'workflow-'));
+    process.env.DATA_DIR = root;
+    await writeFile(join(root, 'sales.csv'), fileContent);
+    const loaded = await analyse({ fileContent: undefined, filePath: 'sales.csv', datasetName: 'workflow_path' });
+    expect(loaded.status).toBe('success');
+    if (loaded.status !== 'success') return;
+    expect(loaded.result).toMatchObject({ datasetName: 'workflow_path', rowCount: 3 });
+
+    const escaped = await analyse({ fileContent: undefined, filePath: '../sales.csv', datasetName: 'workflow_escape' });
+    expect(escaped.status).toBe('failed');
+    if (escaped.status !== 'failed') return;
+    expect(String(escaped.error)).toContain(`Could not load the file: filePath '../sales.csv' must be a relative path inside ${root}`);
+  });
+});
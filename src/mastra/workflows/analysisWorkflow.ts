@@ -0,0 +1,443 @@
+import { createStep, createWorkflow } from '@mastra/core/workflows';
+import { z } from 'zod';
+import { applyCleaning, CleaningRuleSchema } from '../data/cleaning';
+import { datasetRegistry } from '../data/datasetRegistry';
+import { ExpectationSchema, summarizeFailures, validateExpectations } from '../data/expectations';
+import { profileData } from '../data/profiler';
+import { ColumnSchema, inferSchema, isNumericType } from '../data/typeInference';
+import { markdownTable } from '../reports';
+import { formatNumber } from '../stats';
+import { DataProcessingTool } from '../tools/dataProcessingTool';
+import { SQLQueryTool } from '../tools/sqlQueryTool';
+import { VisualizationTool } from '../tools/visualizationTool';
+
+// Rows of the query result shown in the report
+const PREVIEW_ROWS = 10;
+
+const ChartSchema = z.object({
+  chartType: z.enum(['bar', 'line', 'scatter', 'pie', 'histogram', 'box', 'heatmap']),
+  xAxis: z.string(),
+  yAxis: z.union([z.string(), z.array(z.string())]),
+  valueColumn: z.string().optional().describe('Heatmaps: the numeric column aggregated into each cell; rows are counted when omitted'),
+  groupBy: z.string().optional(),
+  title: z.string().optional(),
+});
+
+const AnalysisInputSchema = z.object({
+  fileContent: z.string().optional().describe('The content of the file (CSV or JSON text, or a base64-encoded .xlsx workbook)'),
+  filePath: z.string().optional().describe('Path of the file relative to the data directory ($DATA_DIR or ./data), read instead of fileContent'),
+  fileType: z.enum(['csv', 'xlsx', 'json']),
+  datasetName: z.string().optional().describe('Name to register the data under; generated when omitted'),
+  cleaning: z.array(CleaningRuleSchema).optional().describe('Cleaning rules applied after the file is loaded'),
+  expectations: z.array(ExpectationSchema).optional().describe(
+    'Data-quality expectations checked on the cleaned dataset; a critical failure halts the workflow before the query',
+  ),
+  haltOnCriticalFailure: z.boolean().optional().default(true).describe(
+    'Stop after validation when a critical expectation fails, returning the quality report; when false the analysis continues with the failures reported',
+  ),
+  query: z.string().optional().describe('SQL run against the cleaned dataset; defaults to selecting every row'),
+  chart: ChartSchema.optional().describe('Chart of the query result; chosen from the column types when omitted'),
+});
+
+const ProfileSchema = z.object({
+  rowCount: z.number(),
+  columnCount: z.number(),
+  columns: z.array(z.object({
+    name: z.string(),
+    type: z.string(),
+    nullCount: z.number(),
+    nullRate: z.number(),
+    distinctCount: z.number(),
+    min: z.union([z.number(), z.string()]).optional(),
+    max: z.union([z.number(), z.string()]).optional(),
+    mean: z.number().optional(),
+    topValues: z.array(z.object({ value: z.any(), count: z.number() })),
+    sampleValues: z.array(z.any()),
+  })),
+});
+
+const IngestOutputSchema = z.object({
+  datasetName: z.string(),
+  columns: z.array(z.string()),
+  rowCount: z.number(),
+  parseErrors: z.number().describe('Malformed rows skipped while parsing'),
+});
+
+const CleanOutputSchema = z.object({
+  datasetName: z.string(),
+  columns: z.array(z.string()),
+  rowCount: z.number(),
+  profile: ProfileSchema,
+  cleaningReport: z.array(z.object({
+    rule: z.string(),
+    columns: z.array(z.string()),
+    cellsChanged: z.number(),
+    rowsChanged: z.number(),
+    rowsRemoved: z.number(),
+    details: z.string().optional(),
+  })),
+});
+
+const ValidationSchema = z.object({
+  passed: z.boolean().describe('Whether every critical expectation held'),
+  criticalFailures: z.number(),
+  results: z.array(z.object({
+    expectation: z.string(),
+    description: z.string(),
+    severity: z.enum(['critical', 'warning']),
+    success: z.boolean(),
+    checked: z.number(),
+    failed: z.number(),
+    observed: z.string().optional(),
+    samples: z.array(z.object({ row: z.number(), values: z.record(z.any()) })),
+  })),
+});
+
+const ValidateOutputSchema = CleanOutputSchema.extend({
+  validation: ValidationSchema.optional(),
+});
+
+const QueryOutputSchema = z.object({
+  datasetName: z.string(),
+  query: z.string(),
+  resultDataset: z.string().describe('Dataset the full query result is registered under'),
+  rowCount: z.number(),
+  preview: z.array(z.record(z.any())).describe(`The first ${PREVIEW_ROWS} rows of the result`),
+  columns: z.array(z.string()),
+});
+
+const VisualizeOutputSchema = z.object({
+  chart: ChartSchema.extend({ svg: z.string(), altText: z.string().optional() }).optional(),
+  skipped: z.string().optional().describe('Why no chart was drawn'),
+});
+
+const ReportOutputSchema = z.object({
+  datasetName: z.string(),
+  rowCount: z.number(),
+  report: z.string().describe('Markdown report with the chart embedded as an SVG data URI'),
+  chart: ChartSchema.extend({ svg: z.string(), altText: z.string().optional() }).optional(),
+  validation: ValidationSchema.optional(),
+  halted: z.string().optional().describe('Why the workflow stopped before the query; the report then covers the data quality only'),
+});
+
+type AnalysisInput = z.infer<typeof AnalysisInputSchema>;
+type Chart = z.infer<typeof ChartSchema>;
+type Validation = z.infer<typeof ValidationSchema>;
+
+const ingest = createStep({
+  id: 'ingest',
+  description: 'Parses the file, infers column types and registers it as a dataset',
+  inputSchema: AnalysisInputSchema,
+  outputSchema: IngestOutputSchema,
+  execute: async ({ inputData }) => {
+    const result = await new DataProcessingTool().invoke({
+      fileContent: inputData.fileContent,
+      filePath: inputData.filePath,
+      fileType: inputData.fileType,
+      datasetName: inputData.datasetName,
+    });
+    if (!result.success) {
+      throw new Error(`Could not load the file: ${result.error}`);
+    }
+    return {
+      datasetName: result.datasetName!,
+      columns: result.columns!,
+      rowCount: result.rowCount!,
+      parseErrors: result.parseErrorCount ?? 0,
+    };
+  },
+});
+
+const profileAndClean = createStep({
+  id: 'profile-clean',
+  description: 'Applies the cleaning rules to the dataset and profiles the result',
+  inputSchema: IngestOutputSchema,
+  outputSchema: CleanOutputSchema,
+  execute: async ({ inputData, getInitData }) => {
+    const { cleaning = [] } = getInitData() as AnalysisInput;
+    const dataset = await datasetRegistry.get(inputData.datasetName);
+    if (!dataset) {
+      throw new Error(`Dataset '${inputData.datasetName}' is no longer registered`);
+    }
+
+    const cleaned = applyCleaning(dataset.data, dataset.columns, cleaning);
+    const schema = inferSchema(cleaned.data, cleaned.columns);
+    if (cleaning.length > 0) {
+      await datasetRegistry.register(dataset.name, {
+        data: cleaned.data,
+        columns: cleaned.columns,
+        metadata: { ...dataset.metadata, schema, cleaning },
+      });
+    }
+
+    return {
+      datasetName: dataset.name,
+      columns: cleaned.columns,
+      rowCount: cleaned.data.length,
+      profile: profileData(cleaned.data, schema),
+      cleaningReport: cleaned.report,
+    };
+  },
+});
+
+const validate = createStep({
+  id: 'validate',
+  description: 'Checks the cleaned dataset against the data-quality expectations, halting on critical failures',
+  inputSchema: CleanOutputSchema,
+  outputSchema: ValidateOutputSchema,
+  execute: async ({ inputData, getInitData, getStepResult, bail }) => {
+    const init = getInitData() as AnalysisInput;
+    const haltOnCriticalFailure = init.haltOnCriticalFailure ?? true;
+    const halt = (validation: Validation, halted: string, advice: string) => {
+      const ingested = getStepResult(ingest) as z.infer<typeof IngestOutputSchema>;
+      const lines = [...reportIntro(ingested, inputData), ...qualitySection(validation), '## Analysis halted', '', advice];
+      return bail({ datasetName: inputData.datasetName, rowCount: inputData.rowCount, report: lines.join('\n'), validation, halted });
+    };
+
+    // The run's input reaches the steps as it was given, so the expectations are parsed here
+    const parsed = z.array(ExpectationSchema).safeParse(init.expectations ?? []);
+    if (!parsed.success) {
+      const validation = invalidExpectations(parsed.error);
+      if (!haltOnCriticalFailure) {
+        return { ...inputData, validation };
+      }
+      return halt(
+        validation,
+        `${validation.criticalFailures} data-quality expectation(s) are invalid: ${validation.results.map(result => `${result.description} (${result.observed})`).join('; ')}`,
+        'Some expectations could not be read, so none were checked and the data was not queried or charted. Correct them and run the analysis again.',
+      );
+    }
+    const expectations = parsed.data;
+    if (expectations.length === 0) {
+      return inputData;
+    }
+    const dataset = await datasetRegistry.get(inputData.datasetName);
+    if (!dataset) {
+      throw new Error(`Dataset '${inputData.datasetName}' is no longer registered`);
+    }
+    const referenced = new Map<string, Record<string, any>[]>();
+    for (const expectation of expectations) {
+      if (expectation.type === 'references' && !referenced.has(expectation.dataset)) {
+        const other = await datasetRegistry.get(expectation.dataset);
+        if (!other) {
+          throw new Error(`Dataset '${expectation.dataset}' referenced by an expectation is not registered`);
+        }
+        referenced.set(expectation.dataset, other.data);
+      }
+    }
+
+    const report = validateExpectations(dataset.data, dataset.columns, expectations, { referenced });
+    const validation: Validation = { passed: report.success, criticalFailures: report.criticalFailures, results: report.results };
+    if (!report.success && haltOnCriticalFailure) {
+      return halt(
+        validation,
+        `${report.criticalFailures} critical data-quality expectation(s) failed: ${summarizeFailures(report).join('; ')}`,
+        `${report.criticalFailures} critical expectation(s) failed, so the data was not queried or charted. Fix the data or the cleaning rules, or relax the expectations, and run the analysis again.`,
+      );
+    }
+    return { ...inputData, validation };
+  },
+});
+
+const query = createStep({
+  id: 'query',
+  description: 'Runs the SQL query against the cleaned dataset and registers its result as a dataset',
+  inputSchema: ValidateOutputSchema,
+  outputSchema: QueryOutputSchema,
+  execute: async ({ inputData, getInitData }) => {
+    const sql = (getInitData() as AnalysisInput).query ?? `SELECT * FROM ${inputData.datasetName}`;
+    const result = await new SQLQueryTool().runQuery(sql).catch(error => {
+      throw new Error(`Query failed: ${error instanceof Error ? error.message : error}`);
+    });
+    // The full result stays in the registry rather than being passed between steps
+    const resultDataset = `${inputData.datasetName}_result`;
+    await datasetRegistry.register(resultDataset, { data: result.data, columns: result.columns, metadata: { query: sql } });
+    return {
+      datasetName: inputData.datasetName,
+      query: sql,
+      resultDataset,
+      rowCount: result.data.length,
+      preview: result.data.slice(0, PREVIEW_ROWS),
+      columns: result.columns,
+    };
+  },
+});
+
+const visualize = createStep({
+  id: 'visualize',
+  description: 'Charts the query result, choosing a chart from the column types unless one is given',
+  inputSchema: QueryOutputSchema,
+  outputSchema: VisualizeOutputSchema,
+  execute: async ({ inputData, getInitData }) => {
+    const { resultDataset, rowCount, columns, datasetName } = inputData;
+    const rows = (await datasetRegistry.get(resultDataset))?.data ?? [];
+    if (rowCount === 0 || rows.length === 0) {
+      return { skipped: 'The query returned no rows' };
+    }
+    const chart = (getInitData() as AnalysisInput).chart ?? suggestChart(inferSchema(rows, columns));
+    if (!chart) {
+      return { skipped: 'The query result has no numeric column to chart' };
+    }
+
+    const measure = chart.chartType === 'heatmap'
+      ? `${chart.valueColumn ?? 'count'} by ${[chart.yAxis].flat().join(', ')} and ${chart.xAxis}`
+      : `${[chart.yAxis].flat().join(', ')} by ${chart.xAxis}`;
+    const title = chart.title ?? `${measure} in ${datasetName}`;
+    const result = await new VisualizationTool().invoke({ dataset: resultDataset, ...chart, valueColumn: chart.valueColumn, title });
+    const svg = result.artifacts?.find(artifact => artifact.format === 'svg')?.content;
+    if (!result.success || !svg) {
+      throw new Error(`Could not draw the ${chart.chartType} chart: ${result.error ?? 'no SVG was rendered'}`);
+    }
+    return { chart: { ...chart, title, svg, altText: result.accessibility?.altText } };
+  },
+});
+
+const report = createStep({
+  id: 'report',
+  description: 'Summarises the dataset, cleaning, query and chart as a Markdown report',
+  inputSchema: VisualizeOutputSchema,
+  outputSchema: ReportOutputSchema,
+  execute: async ({ inputData, getStepResult }) => {
+    const ingested = getStepResult(ingest) as z.infer<typeof IngestOutputSchema>;
+    const cleaned = getStepResult(profileAndClean) as z.infer<typeof CleanOutputSchema>;
+    const { validation } = getStepResult(validate) as z.infer<typeof ValidateOutputSchema>;
+    const queried = getStepResult(query) as z.infer<typeof QueryOutputSchema>;
+    const { chart, skipped } = inputData;
+
+    const lines = [...reportIntro(ingested, cleaned), ...(validation ? qualitySection(validation) : [])];
+
+    lines.push('## Query', '', '```sql', queried.query, '```', '');
+    lines.push(`${queried.rowCount} row(s)${queried.rowCount > PREVIEW_ROWS ? `, the first ${PREVIEW_ROWS} shown` : ''}:`, '');
+    lines.push(...markdownTable(
+      queried.columns,
+      queried.preview.map(row => queried.columns.map(column => row[column])),
+    ), '');
+
+    lines.push('## Chart', '');
+    if (chart) {
+      lines.push(`![${(chart.altText ?? chart.title ?? '').replace(/[[\]]/g, '\\$&')}](data:image/svg+xml;base64,${Buffer.from(chart.svg).toString('base64')})`);
+    } else {
+      lines.push(`No chart was drawn. ${skipped}.`);
+    }
+
+    return { datasetName: cleaned.datasetName, rowCount: cleaned.rowCount, report: lines.join('\n'), chart, validation };
+  },
+});
+
+/**
+ * Loads a file end to end: ingest → profile/clean → validate → query →
+ * visualize → report. A critical data-quality failure ends the run after
+ * validation with a report of the failures. The dataset and the query result (as `<name>_result`) stay
+ * registered afterwards, so agents can keep querying them by name.
+ */
+export const analysisWorkflow = createWorkflow({
+  id: 'analysis-workflow',
+  description: 'Loads, cleans, queries and charts a data file and writes a Markdown report',
+  inputSchema: AnalysisInputSchema,
+  outputSchema: ReportOutputSchema,
+})
+  .then(ingest)
+  .then(profileAndClean)
+  .then(validate)
+  .then(query)
+  .then(visualize)
+  .then(report)
+  .commit();
+
+/** A chart for the column types: a line over dates, bars per category, a scatter of two measures or a histogram of one. */
+function suggestChart(schema: ColumnSchema[]): Chart | undefined {
+  const numeric = schema.filter(column => isNumericType(column.type)).map(column => column.name);
+  if (numeric.length === 0) {
+    return undefined;
+  }
+  const date = schema.find(column => column.type === 'date' || column.type === 'datetime');
+  const category = schema.find(column => column.type === 'categorical');
+  if (date) {
+    return { chartType: 'line', xAxis: date.name, yAxis: numeric[0] };
+  }
+  if (category) {
+    return { chartType: 'bar', xAxis: category.name, yAxis: numeric[0] };
+  }
+  if (numeric.length >= 2) {
+    return { chartType: 'scatter', xAxis: numeric[0], yAxis: numeric[1] };
+  }
+  return { chartType: 'histogram', xAxis: numeric[0], yAxis: numeric[0] };
+}
+
+/** The report's title, load summary, cleaning steps and column profile. */
+function reportIntro(ingested: z.infer<typeof IngestOutputSchema>, cleaned: z.infer<typeof CleanOutputSchema>): string[] {
+  const lines = [
+    `# Analysis of ${cleaned.datasetName}`,
+    '',
+    `${ingested.rowCount} rows were loaded` +
+      (ingested.parseErrors > 0 ? `, skipping ${ingested.parseErrors} malformed row(s)` : '') +
+      `; ${cleaned.rowCount} rows and ${cleaned.columns.length} columns remain after cleaning.`,
+    '',
+  ];
+
+  if (cleaned.cleaningReport.length > 0) {
+    lines.push('## Cleaning', '');
+    cleaned.cleaningReport.forEach(step => {
+      const changes = [`${step.cellsChanged} cell(s) changed`, `${step.rowsRemoved} row(s) removed`];
+      lines.push(`- **${step.rule}**${step.columns.length > 0 ? ` on ${step.columns.join(', ')}` : ''}: ${changes.join(', ')}`);
+    });
+    lines.push('');
+  }
+
+  lines.push('## Columns', '');
+  lines.push(...markdownTable(
+    ['Column', 'Type', 'Missing', 'Distinct', 'Min', 'Max', 'Mean'],
+    cleaned.profile.columns.map(column => [
+      column.name,
+      column.type,
+      `${column.nullCount} (${formatNumber(column.nullRate * 100)}%)`,
+      column.distinctCount,
+      column.min,
+      column.max,
+      column.mean,
+    ]),
+  ), '');
+  return lines;
+}
+
+/** Schema errors of the expectations as failed critical results, one per malformed expectation. */
+function invalidExpectations(error: z.ZodError): Validation {
+  const issues = new Map<string, string[]>();
+  error.issues.forEach(issue => {
+    const [index, ...path] = issue.path;
+    const name = index === undefined ? 'expectations' : `expectations[${index}]`;
+    issues.set(name, [...(issues.get(name) ?? []), `${path.length > 0 ? `${path.join('.')}: ` : ''}${issue.message}`]);
+  });
+  const results = Array.from(issues, ([name, messages]) => ({
+    expectation: 'invalid',
+    description: `${name} is not a valid expectation`,
+    severity: 'critical' as const,
+    success: false,
+    checked: 0,
+    failed: 0,
+    observed: messages.join('; '),
+    samples: [],
+  }));
+  return { passed: false, criticalFailures: results.length, results };
+}
+
+/** The expectations as a pass/fail table, with sample rows of each failure. */
+function qualitySection(validation: Validation): string[] {
+  const lines = ['## Data quality', ''];
+  lines.push(...markdownTable(
+    ['Expectation', 'Severity', 'Result', 'Rows checked', 'Failed'],
+    validation.results.map(result => [
+      result.description,
+      result.severity,
+      result.success ? 'pass' : '**fail**',
+      result.checked,
+      result.observed && !result.success ? result.observed : result.failed,
+    ]),
+  ), '');
+  validation.results.filter(result => !result.success && result.samples.length > 0).forEach(result => {
+    const columns = Object.keys(result.samples[0].values);
+    lines.push(`Failing rows of "${result.description}":`, '');
+    lines.push(...markdownTable(['Row', ...columns], result.samples.map(sample => [sample.row, ...columns.map(column => sample.values[column])])), '');
+  });
+  return lines;
+}